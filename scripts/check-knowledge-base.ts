@@ -0,0 +1,70 @@
+/**
+ * Build-time knowledge base check
+ * - Validates the knowledge base files against their schema (on import)
+ * - Runs referential-integrity checks
+ * - Verifies that the client scoring module and the server analysis pipeline
+ *   score every knowledge-base symptom identically
+ *
+ * Run with: npm run check:kb (also runs automatically before `npm run build`)
+ */
+
+import { KNOWLEDGE_BASE_VERSION, SYMPTOM_WEIGHTS, findKnowledgeBaseIssues } from '@/knowledge-base';
+import { DISEASE_DATABASE, getDiseaseRelevanceFactor } from '@/ai/medical-data/disease-database';
+import { getSymptomScore } from '@/ai/medical-data/symptom-weights';
+import { calculateDiseaseScores } from '@/client/scoring';
+
+const EPSILON = 1e-9;
+
+function findConsumerDivergence(): string[] {
+  const problems: string[] = [];
+  const probes = new Set<string>(Object.keys(SYMPTOM_WEIGHTS));
+  DISEASE_DATABASE.forEach(d => Object.keys(d.symptom_relevance_map).forEach(s => probes.add(s)));
+
+  probes.forEach(symptom => {
+    // Client: diseases scored for a single-symptom input
+    const clientScores = calculateDiseaseScores([symptom], []);
+
+    // Server: the same raw score, relevance * symptom weight
+    const serverScores = new Map<string, number>();
+    DISEASE_DATABASE.forEach(disease => {
+      const relevance = getDiseaseRelevanceFactor(disease.name, symptom);
+      if (relevance > 0) {
+        serverScores.set(disease.name, relevance * getSymptomScore(symptom));
+      }
+    });
+
+    serverScores.forEach((serverScore, diseaseName) => {
+      const clientScore = clientScores.get(diseaseName);
+      if (clientScore === undefined) {
+        problems.push(`"${symptom}": server scores ${diseaseName} but client scoring does not`);
+      } else if (Math.abs(clientScore - serverScore) > EPSILON) {
+        problems.push(`"${symptom}": ${diseaseName} scores ${clientScore} on the client and ${serverScore} on the server`);
+      }
+    });
+
+    clientScores.forEach((_, diseaseName) => {
+      if (!serverScores.has(diseaseName)) {
+        problems.push(`"${symptom}": client scores ${diseaseName} but the server pipeline does not`);
+      }
+    });
+  });
+
+  return problems;
+}
+
+function main() {
+  const issues = [...findKnowledgeBaseIssues(), ...findConsumerDivergence()];
+
+  if (issues.length > 0) {
+    console.error(`Knowledge base check failed (version ${KNOWLEDGE_BASE_VERSION}):`);
+    issues.forEach(issue => console.error(`  - ${issue}`));
+    process.exit(1);
+  }
+
+  console.log(
+    `Knowledge base ${KNOWLEDGE_BASE_VERSION} OK: ${DISEASE_DATABASE.length} diseases, ` +
+    `${Object.keys(SYMPTOM_WEIGHTS).length} symptoms, client and server consumers agree.`
+  );
+}
+
+main();
@@ -0,0 +1,74 @@
+/**
+ * Offline evaluation against the labelled vignette corpus
+ * - Reports top-1/top-3 accuracy and red-flag recall per pipeline and engine
+ * - Fails when anything regressed against src/evaluation/baseline.json
+ *
+ * Run with: npm run eval
+ * Accept the current results as the new baseline: npm run eval -- --update-baseline
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { evaluateCorpus, findRegressions, parseBaseline, runName } from '@/evaluation/harness';
+
+const BASELINE_PATH = path.join(__dirname, '..', 'src', 'evaluation', 'baseline.json');
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function main() {
+  const updateBaseline = process.argv.includes('--update-baseline');
+  const verbose = process.argv.includes('--verbose');
+  const current = evaluateCorpus();
+
+  console.log(`Vignette corpus ${current.corpus_version}`);
+  current.runs.forEach(run => {
+    const { metrics } = run;
+    console.log(
+      `  ${runName(run).padEnd(20)} top-1 ${percent(metrics.top1_accuracy).padStart(6)}  ` +
+      `top-3 ${percent(metrics.top3_accuracy).padStart(6)}  ` +
+      `red-flag recall ${percent(metrics.red_flag_recall).padStart(6)} (${metrics.red_flags_expected} expected, ` +
+      `${metrics.red_flags_unexpected} unexpected)`
+    );
+
+    if (verbose) {
+      run.results
+        .filter(r => !r.top3_hit || r.red_flags_missed.length > 0)
+        .forEach(r => console.log(
+          `      ${r.vignette_id}: ${r.top_conditions.join(', ') || 'no conditions'}` +
+          (r.red_flags_missed.length > 0 ? ` (missed: ${r.red_flags_missed.join(', ')})` : '')
+        ));
+    }
+  });
+
+  if (updateBaseline) {
+    fs.writeFileSync(BASELINE_PATH, JSON.stringify(current, null, 2) + '\n');
+    console.log(`Baseline written to ${path.relative(process.cwd(), BASELINE_PATH)}`);
+    return;
+  }
+
+  if (!fs.existsSync(BASELINE_PATH)) {
+    console.error('No evaluation baseline found. Create one with: npm run eval -- --update-baseline');
+    process.exit(1);
+  }
+
+  const baseline = parseBaseline(JSON.parse(fs.readFileSync(BASELINE_PATH, 'utf8')));
+  if (baseline.corpus_version !== current.corpus_version) {
+    console.warn(
+      `Baseline was recorded on corpus ${baseline.corpus_version}; ` +
+      `refresh it with: npm run eval -- --update-baseline`
+    );
+  }
+
+  const regressions = findRegressions(current, baseline);
+  if (regressions.length > 0) {
+    console.error(`${regressions.length} regression(s) against the baseline:`);
+    regressions.forEach(r => console.error(`  - [${r.run}]${r.vignette_id ? ` ${r.vignette_id}:` : ''} ${r.message}`));
+    process.exit(1);
+  }
+
+  console.log('No regressions against the baseline.');
+}
+
+main();
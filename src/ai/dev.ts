@@ -1 +0,0 @@
-import '@/ai/flows/symptom-analysis.ts';
\ No newline at end of file
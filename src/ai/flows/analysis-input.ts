@@ -0,0 +1,37 @@
+/**
+ * Analysis Input
+ * What the page sends to have an assessment analysed: by the
+ * advancedSymptomAnalysis server action, and by /api/explanations/stream,
+ * which re-scores the same input to explain its conditions. Page code can
+ * import it: nothing here reaches the LLM providers.
+ */
+
+import {z} from 'zod';
+import { AnsweredQuestionSchema } from '@/ai/medical-data/structured-answers';
+import { SCORING_ENGINES } from '@/ai/medical-data/bayesian-scoring';
+
+export const AdvancedSymptomAnalysisInputSchema = z.object({
+  symptoms: z.string().describe('User-reported symptoms.'),
+  medicalHistory: z.string().optional().describe('User medical history.'),
+  questionnaireAnswers: z.string().describe('Answers to the questionnaire.'),
+  structuredAnswers: z.array(AnsweredQuestionSchema).optional().describe('Typed answers linked to the findings each question probes.'),
+  engine: z.enum(SCORING_ENGINES).optional().describe('Scoring engine: "heuristic" (default) or "bayesian".'),
+  assessedAt: z.string().datetime().optional().describe('When the assessment was taken (default now); re-scored reports pass their own date.'),
+  profile: z.object({
+    name: z.string(),
+    age: z.string(),
+    gender: z.string(),
+  }).optional(),
+});
+
+export type AdvancedSymptomAnalysisInput = z.infer<typeof AdvancedSymptomAnalysisInputSchema>;
+
+/**
+ * The input as runDeterministicAnalysis takes it, dated when the assessment was taken
+ */
+export function deterministicInput(input: AdvancedSymptomAnalysisInput) {
+  return { ...input, now: input.assessedAt ? new Date(input.assessedAt) : undefined };
+}
+
+// What a condition says when no explanation was written for it
+export const DEFAULT_EXPLANATION = 'This condition may be considered based on your reported symptoms.';
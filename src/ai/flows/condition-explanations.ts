@@ -0,0 +1,102 @@
+/**
+ * Condition Explanations
+ * A plain-language sentence or three on why a scored condition is on the list.
+ * Explanations are the only part of the analysis written by the LLM; without
+ * one, or when it fails, each condition gets a standard sentence.
+ *
+ * Written by the streaming /api/explanations/stream route, which only answers
+ * signed requests and counts a quota per session.
+ */
+
+import { ChatCompletionRequest, LLMProvider, getServerProvider, isCancelled } from '@/ai/providers';
+import { DEFAULT_EXPLANATION } from './analysis-input';
+
+export interface ExplanationSubject {
+  condition: string;
+  likelihood: number; // Score, 0-100
+  symptoms: string[]; // Everything the user reported
+  matchedSymptoms: string[]; // The reported symptoms that count towards this condition
+}
+
+export interface ExplanationOptions {
+  onText?: (textSoFar: string) => void; // Streams the explanation as it is generated
+  signal?: AbortSignal;
+}
+
+/**
+ * The provider explanations are written by; undefined (explanations fall back
+ * to the standard sentence) when none is configured
+ */
+export function getExplanationProvider(): LLMProvider | undefined {
+  try {
+    return getServerProvider();
+  } catch (error: any) {
+    console.warn(`No LLM provider configured (${error?.message}); using standard explanations`);
+    return undefined;
+  }
+}
+
+function explanationRequest(subject: ExplanationSubject, signal?: AbortSignal): ChatCompletionRequest {
+  const keySymptoms = subject.matchedSymptoms.slice(0, 3).join(', ');
+
+  const prompt = `Explain why "${subject.condition}" might be considered given these matching symptoms: ${keySymptoms}.
+
+Likelihood: ${subject.likelihood.toFixed(0)}%
+All symptoms: ${subject.symptoms.join(', ')}
+
+Provide:
+1. Why this condition fits (1 sentence)
+2. What symptoms are most predictive (1 sentence)
+3. What information would increase or decrease likelihood (1 sentence)
+
+Keep it simple and accessible for non-medical users (like a 9-year-old or 80-year-old). Return ONLY the explanation, no markdown or numbered lists.`;
+
+  return {
+    messages: [
+      {
+        role: 'system',
+        content: 'You are a medical assistant. Provide clear, simple explanations for non-medical users of all ages.',
+      },
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ],
+    temperature: 0.7,
+    maxTokens: 200,
+    signal,
+  };
+}
+
+/**
+ * Generate the explanation for one condition; with `onText` it is streamed.
+ * Failures give the standard sentence; only cancellation throws.
+ */
+export async function explainCondition(
+  provider: LLMProvider | undefined,
+  subject: ExplanationSubject,
+  options: ExplanationOptions = {}
+): Promise<string> {
+  if (!provider) {
+    return DEFAULT_EXPLANATION;
+  }
+
+  const { onText, signal } = options;
+  const request = explanationRequest(subject, signal);
+
+  try {
+    if (!onText) {
+      return (await provider.complete(request)).trim() || DEFAULT_EXPLANATION;
+    }
+
+    let explanation = '';
+    for await (const piece of provider.stream(request)) {
+      explanation += piece;
+      onText(explanation.trimStart());
+    }
+    return explanation.trim() || DEFAULT_EXPLANATION;
+  } catch (error) {
+    if (isCancelled(error)) throw error;
+    return DEFAULT_EXPLANATION;
+  }
+}
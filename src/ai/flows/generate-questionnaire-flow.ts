@@ -1,15 +1,15 @@
 'use server';
 
 /**
- * @fileOverview This file defines a Genkit flow for generating a questionnaire based on initial symptom analysis.
+ * @fileOverview Generates a questionnaire based on initial symptom analysis.
  *
  * - generateQuestionnaire - A function that takes symptom inputs and returns a list of questions tailored to the user's condition.
  * - GenerateQuestionnaireInput - The input type for the generateQuestionnaire function, including symptoms and medical history.
  * - GenerateQuestionnaireOutput - The return type for the generateQuestionnaire function, providing a list of questions.
  */
 
-import {ai} from '@/ai/ai-instance';
-import {z} from 'genkit';
+import {z} from 'zod';
+import {completeJson, describeProviderError, getServerProvider} from '@/ai/providers';
 
 const GenerateQuestionnaireInputSchema = z.object({
   symptoms: z.string().describe('A comma-separated list of symptoms the user is experiencing.'),
@@ -21,39 +21,29 @@ const GenerateQuestionnaireOutputSchema = z.array(z.string())
   .describe('A list of questions tailored to the user\'s condition.');
 export type GenerateQuestionnaireOutput = z.infer<typeof GenerateQuestionnaireOutputSchema>;
 
+// JSON-mode replies must be objects, so the list travels under "questions"
+const GenerateQuestionnaireReplySchema = z.object({
+  questions: GenerateQuestionnaireOutputSchema,
+});
+
 export async function generateQuestionnaire(input: GenerateQuestionnaireInput): Promise<GenerateQuestionnaireOutput> {
-  return generateQuestionnaireFlow(input);
-}
+  const provider = getServerProvider();
 
-const generateQuestionnairePrompt = ai.definePrompt({
-  name: 'generateQuestionnairePrompt',
-  input: {
-    schema: z.object({
-      symptoms: z.string().describe('A comma-separated list of symptoms the user is experiencing.'),
-      medicalHistory: z.string().optional().describe('Relevant medical history of the user.'),
-    }),
-  },
-  output: {
-    schema: z.array(z.string())
-      .describe('A list of questions tailored to the user\'s condition.'),
-  },
-  prompt: `You are an AI-powered medical expert system. Given the following symptoms and medical history, generate a list of 10 specific questions that can help narrow down the potential conditions.
-
-Symptoms: {{{symptoms}}}
-Medical History: {{{medicalHistory}}}
-
-Format the output as a JSON array of strings.
-`,
-});
+  const prompt = `You are an AI-powered medical expert system. Given the following symptoms and medical history, generate a list of 10 specific questions that can help narrow down the potential conditions.
 
-const generateQuestionnaireFlow = ai.defineFlow<
-  typeof GenerateQuestionnaireInputSchema,
-  typeof GenerateQuestionnaireOutputSchema
->({
-  name: 'generateQuestionnaireFlow',
-  inputSchema: GenerateQuestionnaireInputSchema,
-  outputSchema: GenerateQuestionnaireOutputSchema,
-}, async input => {
-  const {output} = await generateQuestionnairePrompt(input);
-  return output!;
-});
+Symptoms: ${input.symptoms}
+Medical History: ${input.medicalHistory || 'None provided'}
+
+Return a JSON object with a "questions" array of strings.`;
+
+  try {
+    const {questions} = await completeJson(provider, {
+      messages: [{role: 'user', content: prompt}],
+    }, 'questionnaire', GenerateQuestionnaireReplySchema);
+
+    return questions;
+  } catch (error: any) {
+    console.error(`${provider.name} questionnaire error:`, error?.message, { status: error?.status });
+    throw new Error(`${provider.name} API error: ${describeProviderError(error)}`);
+  }
+}
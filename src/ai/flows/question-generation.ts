@@ -0,0 +1,246 @@
+/**
+ * Adaptive Question Generation
+ * One question at a time, based on the user's profile, symptoms and previous
+ * answers. Every generated question is validated (see question-validation.ts)
+ * and repaired or generated again. Questions about a planned finding are worded
+ * from the curated question bank instead when no LLM provider is configured,
+ * the provider is unavailable or no valid question could be generated.
+ *
+ * Shared by the generateAdaptiveQuestion server action and the streaming
+ * /api/questions/stream route.
+ */
+
+import {z} from 'zod';
+import {
+  ChatCompletionRequest,
+  LLMProvider,
+  completeJson,
+  describeProviderError,
+  getServerProvider,
+  isCancelled,
+  isProviderUnavailable,
+  partialJsonString,
+  streamJson,
+} from '@/ai/providers';
+import {bankQuestionText} from '@/ai/medical-data/question-bank';
+import {
+  GENERATED_QUESTION_TYPES,
+  QuestionValidationContext,
+  findQuestionIssues,
+  repairQuestion,
+} from '@/ai/medical-data/question-validation';
+import {resolveSymptomId} from '@/knowledge-base';
+
+export const GenerateAdaptiveQuestionInputSchema = z.object({
+  questionNumber: z.number().describe('The current question number (1-10).'),
+  name: z.string().describe('User name.'),
+  age: z.string().describe('User age.'),
+  gender: z.string().describe('User gender.'),
+  symptoms: z.string().describe('User-reported symptoms.'),
+  medicalHistory: z.string().optional().describe('User medical history.'),
+  previousAnswers: z.array(z.string()).describe('Answers to previous questions.'),
+  allPreviousQuestionTexts: z.array(z.string()).optional().describe('ALL previous question texts - DO NOT repeat any of these.'),
+  targetFinding: z.string().optional().describe('The finding to ask about, chosen by the question planner; the question is then a yes/no question about it.'),
+  retryAttempt: z.boolean().optional().describe('Whether this is a retry after a repeated question.'),
+});
+
+export type GenerateAdaptiveQuestionInput = z.infer<typeof GenerateAdaptiveQuestionInputSchema>;
+
+const MAX_GENERATIONS = 3; // Attempts at a question that passes validation
+
+// Models often send null for fields that do not apply; treat that as absent
+const QuestionOutputSchema = z.object({
+  text: z.string().min(1).describe('The question text.'),
+  type: z.enum(GENERATED_QUESTION_TYPES).describe('The question type.'),
+  options: z.array(z.string()).nullish().transform(v => v ?? undefined).describe('Options for multiple choice questions.'),
+  target: z.string().nullish().transform(v => v ?? undefined).describe('The single symptom/finding the question probes, e.g. "numbness".'),
+});
+
+export type GenerateAdaptiveQuestionOutput = z.infer<typeof QuestionOutputSchema> & {
+  source: 'llm' | 'bank'; // Who worded the question
+};
+
+// The planned finding as a yes/no question from the question bank
+function bankQuestionFor(targetFinding: string | undefined): GenerateAdaptiveQuestionOutput | undefined {
+  const symptom = targetFinding && resolveSymptomId(targetFinding);
+  return symptom ? {text: bankQuestionText(symptom), type: 'yesno', target: symptom, source: 'bank'} : undefined;
+}
+
+export interface QuestionGenerationOptions {
+  onText?: (textSoFar: string) => void; // Streams the question text as it is generated
+  signal?: AbortSignal; // Cancels generation, e.g. when the user navigates back
+}
+
+/**
+ * Generate, validate and if need be repair the next question; with `onText`
+ * the reply is streamed and the question text reported as it arrives
+ */
+export async function generateQuestion(
+  input: GenerateAdaptiveQuestionInput,
+  options: QuestionGenerationOptions = {}
+): Promise<GenerateAdaptiveQuestionOutput> {
+  const {onText, signal} = options;
+
+  // Resolved per request so configuration changes apply without a restart
+  let provider: LLMProvider;
+  try {
+    provider = getServerProvider();
+  } catch (error: any) {
+    const fallback = bankQuestionFor(input.targetFinding);
+    if (!fallback) throw error;
+    console.warn(`No LLM provider configured (${error?.message}); using the question bank`);
+    return fallback;
+  }
+
+  const forbiddenQuestions = input.allPreviousQuestionTexts && input.allPreviousQuestionTexts.length > 0
+    ? `\n\nFORBIDDEN QUESTIONS - DO NOT ASK THESE AGAIN:\n${input.allPreviousQuestionTexts.map((q, i) => `${i + 1}. ${q}`).join('\n')}`
+    : '';
+
+  const previousQA = input.previousAnswers && input.previousAnswers.length > 0
+    ? `\n\nPrevious Questions & Answers:\n${input.previousAnswers.join('\n\n')}`
+    : '';
+
+  const requiredType = input.targetFinding ? 'yesno' : 'auto';
+  // The planner has already chosen what to ask; only the wording is left to the model
+  const typeInstruction = input.targetFinding
+    ? `\n\n🎯 REQUIRED QUESTION TYPE: "yesno" about ONE finding: "${input.targetFinding}"\nAsk, in plain language, whether the user has ${input.targetFinding}. Do not ask about anything else, and set "target" to "${input.targetFinding}".\nExample: "Have you noticed any ${input.targetFinding.toLowerCase()}?"`
+    : '';
+
+  const prompt = `Generate ONE unique medical question. Question ${input.questionNumber} of 10.${forbiddenQuestions}
+
+User: ${input.name}, Age: ${input.age}, Gender: ${input.gender}
+Symptoms: ${input.symptoms}
+Medical History: ${input.medicalHistory || 'None provided'}${previousQA}${typeInstruction}
+
+Generate a NEW question (different from forbidden list above) that:
+- Uses the REQUIRED question type specified above (${requiredType === 'auto' ? 'choose appropriately' : requiredType})
+- Builds on previous answers
+- Relates to symptoms: ${input.symptoms}
+- Considers age ${input.age} and gender ${input.gender}
+- Helps diagnose conditions
+- Is unique and has NOT been asked before
+- Follows the purpose of the question type (see above)
+
+Return ONLY valid JSON in this exact format:
+{"text": "your question here", "type": "yesno|multiple|text|scale", "options": ["option1","option2","option3"], "target": "symptom probed"}
+
+Question type guidelines:
+- "yesno": Yes/No questions - NO options needed. For red flags: difficulty breathing, fainting, numbness, chest pain, visual changes, etc.
+- "multiple": Multiple choice - MUST include 3-5 options. For patterns, triggers, time of day, location, type of symptom.
+- "text": Open-ended text - NO options needed. Use ONLY ONCE for main symptom description.
+- "scale": Severity scale 1-5 - NO options needed. For quantifying intensity of pain, fatigue, etc.
+- "target": For "yesno" and "scale" questions, the ONE symptom the question asks about (e.g. "numbness", "fatigue"). Ask about one symptom at a time. Omit for other types.
+
+Examples:
+{"text": "Do you experience difficulty breathing?", "type": "yesno", "target": "difficulty breathing"}
+{"text": "When do your symptoms occur?", "type": "multiple", "options": ["In the morning", "Throughout the day", "At night", "After meals"]}
+{"text": "On a scale of 1-5, how severe is your fatigue?", "type": "scale", "target": "fatigue"}
+{"text": "Please describe your symptoms in more detail.", "type": "text"}
+
+CRITICAL: 
+1. Use the REQUIRED question type: ${requiredType}
+2. Return ONLY the JSON object, nothing else
+3. No markdown, no explanation, just the JSON`;
+
+  // Connection errors are retried; with a bank question to fall back on, a struggling provider is not worth waiting for
+  const maxRetries = bankQuestionFor(input.targetFinding) ? 1 : 3;
+  const complete = async (feedback: string[]) => {
+    const rejection = feedback.length > 0
+      ? `\n\nYOUR PREVIOUS QUESTION WAS REJECTED:\n${feedback.map(f => `- ${f}`).join('\n')}\nWrite a different question that fixes these problems.`
+      : '';
+
+    const request: ChatCompletionRequest = {
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a medical AI assistant. Generate unique medical questions. Always return valid JSON only, no markdown formatting.',
+        },
+        {
+          role: 'user',
+          content: prompt + rejection,
+        },
+      ],
+      temperature: 0.7,
+      maxTokens: 500,
+      signal,
+    };
+
+    let lastError: any;
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        if (!onText) return await completeJson(provider, request, 'question', QuestionOutputSchema);
+
+        let shown = '';
+        return await streamJson(provider, request, 'question', QuestionOutputSchema, reply => {
+          const text = partialJsonString(reply, 'text');
+          if (text !== undefined && text !== shown) onText((shown = text));
+        });
+      } catch (apiError: any) {
+        lastError = apiError;
+        const isConnectionError = apiError?.message?.toLowerCase().includes('connection') ||
+                                  apiError?.message?.toLowerCase().includes('timed out');
+
+        if (isConnectionError && attempt < maxRetries) {
+          const delay = 1000 * attempt; // Linear backoff: 1s, 2s
+          console.warn(`Connection error on attempt ${attempt}/${maxRetries}. Retrying in ${delay}ms...`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+        throw apiError;
+      }
+    }
+    throw lastError;
+  };
+
+  const context: QuestionValidationContext = {
+    previousQuestions: input.allPreviousQuestionTexts || [],
+    targetFinding: input.targetFinding,
+  };
+
+  try {
+    console.log(`Calling ${provider.name} with model: ${provider.model}`);
+
+    // Repair what can be repaired; otherwise ask again, telling the model what was wrong
+    let feedback: string[] = [];
+    for (let generation = 1; generation <= MAX_GENERATIONS; generation++) {
+      if (generation > 1) onText?.(''); // The rejected question's text is no longer valid
+      let question: z.infer<typeof QuestionOutputSchema>;
+      try {
+        question = await complete(feedback);
+      } catch (error: any) {
+        if (error?.provider) throw error; // The provider failed, not the reply
+        feedback = [error?.message || 'The reply was not valid JSON'];
+        console.warn(`Generated question ${generation}/${MAX_GENERATIONS} is malformed: ${feedback[0]}`);
+        continue;
+      }
+
+      const issues = findQuestionIssues(question, context);
+      if (issues.length === 0) return {...question, source: 'llm'};
+
+      const repaired = repairQuestion(question, context);
+      if (repaired) {
+        console.warn(`Repaired generated question (${issues.map(i => i.code).join(', ')}): "${repaired.text}"`);
+        return {...repaired, source: 'llm'};
+      }
+
+      feedback = issues.map(issue => issue.message);
+      console.warn(`Generated question ${generation}/${MAX_GENERATIONS} rejected (${issues.map(i => i.code).join(', ')}): "${question.text}"`);
+    }
+
+    const fallback = bankQuestionFor(input.targetFinding);
+    if (fallback) {
+      console.warn('No valid question was generated; using the question bank');
+      return fallback;
+    }
+    throw new Error(`No valid question was generated: ${feedback.join('; ')}`);
+  } catch (error: any) {
+    if (isCancelled(error)) throw error;
+    const fallback = isProviderUnavailable(error) ? bankQuestionFor(input.targetFinding) : undefined;
+    if (fallback) {
+      console.warn(`${provider.name} is unavailable (${error?.message}); using the question bank`);
+      return fallback;
+    }
+    console.error(`${provider.name} API error:`, error?.message, { status: error?.status });
+    throw new Error(`${provider.name} API error: ${describeProviderError(error)}`);
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Signed LLM Route Handlers
+ * The page's LLM calls, made on the server so provider keys stay there:
+ * - /api/session issues a short-lived signing session (rate limited per IP)
+ * - /api/extract-symptoms returns ExtractedSymptomData
+ * - /api/wellness-summary returns a WellnessSummary
+ *
+ * Those two, and the streaming routes (see stream-handlers.ts), only answer
+ * requests signed for a live session (see src/lib/request-signing.ts), and
+ * count a quota per session. Logs carry the route and the outcome, never the
+ * user's text.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { LLMProvider, getServerProvider } from '@/ai/providers';
+import { RateLimiter, clientIp, createRateLimiter } from '@/lib/rate-limit';
+import { SESSION_TTL_MS, issueSession, verifyRequest } from '@/lib/request-signing';
+import { ExtractSymptomsRequestSchema, extractSymptomData } from './symptom-extraction';
+import { WellnessSummaryRequestSchema, generateWellnessSummary } from './wellness-summary';
+
+export const MAX_BODY_BYTES = 64 * 1024;
+export const SESSION_ISSUE_LIMIT = { limit: 10, windowMs: 60 * 60 * 1000 }; // Per IP
+export const EXTRACTION_QUOTA = { limit: 20, windowMs: SESSION_TTL_MS }; // Per session
+export const WELLNESS_SUMMARY_QUOTA = { limit: 3, windowMs: SESSION_TTL_MS }; // Per session
+
+export interface SignedHandlerOptions {
+  getSecret?: () => string;
+  limiter?: RateLimiter;
+  getProvider?: () => LLMProvider | undefined;
+  now?: () => number;
+}
+
+let processSecret: string | undefined;
+
+/**
+ * The secret sessions are signed with. Without SESSION_SIGNING_SECRET each
+ * server process makes up its own, so sessions only work on the instance that
+ * issued them.
+ */
+export function getSigningSecret(): string {
+  const configured = process.env.SESSION_SIGNING_SECRET?.trim();
+  if (configured) return configured;
+
+  if (!processSecret) {
+    console.warn('SESSION_SIGNING_SECRET is not set; sessions are only valid on this server instance');
+    processSecret = Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+  return processSecret;
+}
+
+function getProviderOrNone(): LLMProvider | undefined {
+  try {
+    return getServerProvider();
+  } catch (error: any) {
+    console.warn(`No LLM provider configured (${error?.message}); using fallbacks`);
+    return undefined;
+  }
+}
+
+function failure(status: number, message: string, headers?: HeadersInit) {
+  return NextResponse.json({ success: false, message }, { status, headers });
+}
+
+export function createSessionHandler(options: SignedHandlerOptions = {}) {
+  const limiter = options.limiter || createRateLimiter(SESSION_ISSUE_LIMIT);
+  const getSecret = options.getSecret || getSigningSecret;
+  const now = options.now || Date.now;
+
+  return async function POST(request: Request): Promise<Response> {
+    const rate = await limiter.check(clientIp(request));
+    if (!rate.allowed) {
+      console.log('[session] rate limited');
+      return failure(429, 'Too many sessions started. Please try again later.', {
+        'Retry-After': String(rate.retryAfterSeconds),
+      });
+    }
+
+    const session = await issueSession(getSecret(), now());
+    return NextResponse.json(session, { headers: { 'Cache-Control': 'no-store' } });
+  };
+}
+
+export type SignedInput<T> = { input: T } | { response: Response };
+
+/**
+ * Reads a request to a signed route, checking size, signature, quota and body
+ * in that order: the parsed input, or the response that turns the request
+ * down. Shared by the JSON routes here and the streaming routes.
+ */
+export function createSignedRequestReader<S extends z.ZodTypeAny>(
+  route: string,
+  schema: S,
+  quota: { limit: number; windowMs: number },
+  options: SignedHandlerOptions
+): (request: Request) => Promise<SignedInput<z.infer<S>>> {
+  const limiter = options.limiter || createRateLimiter(quota);
+  const getSecret = options.getSecret || getSigningSecret;
+  const now = options.now || Date.now;
+
+  return async function read(request) {
+    const log = (message: string) => console.log(`[${route}] ${message}`);
+
+    try {
+      if (Number(request.headers.get('content-length')) > MAX_BODY_BYTES) {
+        log('rejected: body too large');
+        return { response: failure(413, 'Request is too large') };
+      }
+      const raw = await request.text();
+      if (Buffer.byteLength(raw, 'utf8') > MAX_BODY_BYTES) {
+        log('rejected: body too large');
+        return { response: failure(413, 'Request is too large') };
+      }
+
+      const check = await verifyRequest(getSecret(), request, raw, now());
+      if (!check.valid) {
+        log(`rejected: ${check.reason} signature`);
+        return { response: failure(401, 'Invalid or expired session') };
+      }
+
+      const rate = await limiter.check(check.sessionId);
+      if (!rate.allowed) {
+        log('rejected: session quota used up');
+        return {
+          response: failure(429, 'Too many requests for this session. Please try again later.', {
+            'Retry-After': String(rate.retryAfterSeconds),
+          }),
+        };
+      }
+
+      let body: unknown;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        log('rejected: body is not JSON');
+        return { response: failure(400, 'Invalid request body') };
+      }
+      const parsed = schema.safeParse(body);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        log(`rejected: invalid ${issue.path.join('.') || 'body'}`);
+        return { response: failure(400, issue.message) };
+      }
+      return { input: parsed.data };
+    } catch (error) {
+      console.error(`[${route}] failed: ${(error as Error)?.name || 'Error'}`);
+      return { response: failure(500, 'Request failed') };
+    }
+  };
+}
+
+/**
+ * A signed route that answers with `run`'s result as JSON
+ */
+function createSignedHandler<S extends z.ZodTypeAny, T>(
+  route: string,
+  schema: S,
+  quota: { limit: number; windowMs: number },
+  options: SignedHandlerOptions,
+  run: (input: z.infer<S>, provider: LLMProvider | undefined) => Promise<T>
+) {
+  const read = createSignedRequestReader(route, schema, quota, options);
+  const getProvider = options.getProvider || getProviderOrNone;
+
+  return async function POST(request: Request): Promise<Response> {
+    try {
+      const signed = await read(request);
+      if ('response' in signed) return signed.response;
+
+      return NextResponse.json(await run(signed.input, getProvider()));
+    } catch (error) {
+      console.error(`[${route}] failed: ${(error as Error)?.name || 'Error'}`);
+      return failure(500, 'Request failed');
+    }
+  };
+}
+
+export function createExtractionHandler(options: SignedHandlerOptions = {}) {
+  return createSignedHandler('extract-symptoms', ExtractSymptomsRequestSchema, EXTRACTION_QUOTA, options, (input, provider) =>
+    extractSymptomData(provider, input.symptoms, input.answers)
+  );
+}
+
+export function createWellnessSummaryHandler(options: SignedHandlerOptions = {}) {
+  return createSignedHandler('wellness-summary', WellnessSummaryRequestSchema, WELLNESS_SUMMARY_QUOTA, options, (input, provider) =>
+    generateWellnessSummary(provider, input.profile, input.symptoms, input.questions, input.answers)
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Streaming Route Handlers
+ * Server-sent event versions of the two slow LLM steps, so the page can show
+ * text while it is generated instead of a spinner:
+ * - /api/questions/stream: `text` events with the question text so far, then
+ *   a `question` event with the validated question
+ * - /api/explanations/stream: for each condition of the analysis, `text`
+ *   events with its explanation so far and an `explanation` event with the
+ *   finished one; `done` once every condition is explained
+ * Either sends an `error` event if generation fails part-way; its message is
+ * generic, never the provider's error.
+ *
+ * Both only answer signed requests and count a quota per session, like the
+ * routes in signed-handlers.ts. The explanation stream makes an LLM call per
+ * condition, so it explains at most MAX_EXPLAINED_CONDITIONS; the page gives
+ * the rest the standard sentence.
+ *
+ * When the page aborts its request (the user went back), generation is
+ * cancelled with it and nothing more is sent.
+ */
+
+import { isCancelled } from '@/lib/cancellation';
+import { DISEASE_DATABASE } from '@/ai/medical-data/disease-database';
+import { runDeterministicAnalysis } from '@/ai/medical-data/deterministic-analysis';
+import { SESSION_TTL_MS } from '@/lib/request-signing';
+import { SseSend, sseResponse } from '@/lib/sse';
+import { AdvancedSymptomAnalysisInputSchema, deterministicInput } from './analysis-input';
+import { explainCondition, getExplanationProvider } from './condition-explanations';
+import { GenerateAdaptiveQuestionInputSchema, generateQuestion } from './question-generation';
+import { SignedHandlerOptions, createSignedRequestReader } from './signed-handlers';
+
+export const QUESTION_STREAM_QUOTA = { limit: 40, windowMs: SESSION_TTL_MS }; // Per session; a few assessments' worth
+export const EXPLANATION_STREAM_QUOTA = { limit: 5, windowMs: SESSION_TTL_MS }; // Per session
+export const MAX_EXPLAINED_CONDITIONS = 5;
+
+export interface QuestionStreamHandlerOptions extends Omit<SignedHandlerOptions, 'getProvider'> {
+  generate?: typeof generateQuestion;
+}
+
+export type ExplanationStreamHandlerOptions = SignedHandlerOptions;
+
+// Cancellation is the page going away: there is nobody left to tell
+function reportFailure(send: SseSend, route: string, error: unknown) {
+  if (isCancelled(error)) return;
+  console.error(`[${route}] failed: ${(error as Error)?.name || 'Error'}`);
+  send('error', { message: 'Generation failed. Please try again.' });
+}
+
+export function createQuestionStreamHandler(options: QuestionStreamHandlerOptions = {}) {
+  const route = 'questions/stream';
+  const read = createSignedRequestReader(route, GenerateAdaptiveQuestionInputSchema, QUESTION_STREAM_QUOTA, options);
+  const generate = options.generate || generateQuestion;
+
+  return async function POST(request: Request): Promise<Response> {
+    const signed = await read(request);
+    if ('response' in signed) return signed.response;
+
+    return sseResponse(async send => {
+      try {
+        const question = await generate(signed.input, {
+          onText: text => send('text', { text }),
+          signal: request.signal,
+        });
+        send('question', question);
+      } catch (error) {
+        reportFailure(send, route, error);
+      }
+    }, request.signal);
+  };
+}
+
+export function createExplanationStreamHandler(options: ExplanationStreamHandlerOptions = {}) {
+  const route = 'explanations/stream';
+  const read = createSignedRequestReader(route, AdvancedSymptomAnalysisInputSchema, EXPLANATION_STREAM_QUOTA, options);
+  const getProvider = options.getProvider || getExplanationProvider;
+
+  return async function POST(request: Request): Promise<Response> {
+    const signed = await read(request);
+    if ('response' in signed) return signed.response;
+
+    return sseResponse(async send => {
+      try {
+        // The same input scores the same conditions the page is showing
+        const analysis = runDeterministicAnalysis(deterministicInput(signed.input));
+        const provider = getProvider();
+        const conditions = analysis.conditions
+          .filter(({ condition }) => DISEASE_DATABASE.some(d => d.name === condition))
+          .slice(0, MAX_EXPLAINED_CONDITIONS);
+
+        for (const { condition, score, matchedSymptoms } of conditions) {
+          const explanation = await explainCondition(
+            provider,
+            { condition, likelihood: score, symptoms: analysis.symptoms, matchedSymptoms },
+            { onText: text => send('text', { condition, text }), signal: request.signal }
+          );
+          send('explanation', { condition, explanation });
+        }
+        send('done', {});
+      } catch (error) {
+        reportFailure(send, route, error);
+      }
+    }, request.signal);
+  };
+}
@@ -1,15 +1,14 @@
 'use server';
 /**
- * @fileOverview This file defines a Genkit flow for symptom analysis, providing potential medical conditions based on user-provided symptoms.
+ * @fileOverview Symptom analysis, providing potential medical conditions based on user-provided symptoms.
  *
  * - symptomAnalysis - A function that takes symptom inputs and returns a list of potential conditions with likelihood scores.
  * - SymptomAnalysisInput - The input type for the symptomAnalysis function, including a list of symptoms and relevant medical history.
  * - SymptomAnalysisOutput - The return type for the symptomAnalysis function, providing a ranked list of potential conditions.
  */
 
-import {ai} from '@/ai/ai-instance';
-import {z} from 'genkit';
-import {generateQuestionnaire} from "@/ai/flows/generate-questionnaire-flow";
+import {z} from 'zod';
+import {completeJson, describeProviderError, getServerProvider} from '@/ai/providers';
 
 const SymptomAnalysisInputSchema = z.object({
   symptoms: z.string().describe('A comma-separated list of symptoms the user is experiencing.'),
@@ -21,7 +20,7 @@ export type SymptomAnalysisInput = z.infer<typeof SymptomAnalysisInputSchema>;
 const PotentialConditionSchema = z.object({
   condition: z.string().describe('The name of the potential medical condition.'),
   likelihood: z.number().describe('A score (0-1) representing the likelihood of the condition given the symptoms.'),
-  description: z.string().optional().describe('A brief description of the condition.'),
+  description: z.string().nullish().transform(v => v ?? undefined).describe('A brief description of the condition.'),
 });
 
 const SymptomAnalysisOutputSchema = z.array(PotentialConditionSchema)
@@ -29,44 +28,52 @@ const SymptomAnalysisOutputSchema = z.array(PotentialConditionSchema)
 
 export type SymptomAnalysisOutput = z.infer<typeof SymptomAnalysisOutputSchema>;
 
+// JSON-mode replies must be objects, so the list travels under "conditions"
+const SymptomAnalysisReplySchema = z.object({
+  conditions: SymptomAnalysisOutputSchema,
+});
+
 export async function symptomAnalysis(input: SymptomAnalysisInput): Promise<SymptomAnalysisOutput> {
-  return symptomAnalysisFlow(input);
-}
+  const provider = getServerProvider();
 
-const symptomAnalysisPrompt = ai.definePrompt({
-  name: 'symptomAnalysisPrompt',
-  input: {
-    schema: z.object({
-      symptoms: z.string().describe('A comma-separated list of symptoms the user is experiencing.'),
-      medicalHistory: z.string().optional().describe('Relevant medical history of the user.'),
-      questionnaireAnswers: z.string().optional().describe('Answers to the generated questionnaire.'),
-    }),
-  },
-  output: {
-    schema: z.array(z.object({
-      condition: z.string().describe('The name of the potential medical condition.'),
-      likelihood: z.number().describe('A score (0-1) representing the likelihood of the condition given the symptoms.'),
-      description: z.string().optional().describe('A brief description of the condition.'),
-    })),
-  },
-  prompt: `You are an AI-powered medical expert system. Given the following symptoms, medical history, and questionnaire answers, provide a ranked list of potential conditions, ordered by likelihood (highest to lowest). Include a likelihood score between 0 and 1.
+  const prompt = `You are an AI-powered medical expert system. Given the following symptoms, medical history, and questionnaire answers, provide a ranked list of potential conditions, ordered by likelihood (highest to lowest). Include a likelihood score between 0 and 1.
 
-Symptoms: {{{symptoms}}}
-Medical History: {{{medicalHistory}}}
-Questionnaire Answers: {{{questionnaireAnswers}}}
+Symptoms: ${input.symptoms}
+Medical History: ${input.medicalHistory || 'None provided'}
+Questionnaire Answers: ${input.questionnaireAnswers || 'None provided'}
 
-Format the output as a JSON array of objects, each with a 'condition', 'likelihood', and optional 'description' field.  The likelihood should be a number between 0 and 1.
-`,
-});
+Return a JSON object with a "conditions" array property. Each condition object must have:
+- "condition": The name of the potential medical condition (string)
+- "likelihood": A score between 0 and 1 (number)
+- "description": Optional brief description (string)
 
-const symptomAnalysisFlow = ai.defineFlow<
-  typeof SymptomAnalysisInputSchema,
-  typeof SymptomAnalysisOutputSchema
->({
-  name: 'symptomAnalysisFlow',
-  inputSchema: SymptomAnalysisInputSchema,
-  outputSchema: SymptomAnalysisOutputSchema,
-}, async input => {
-  const {output} = await symptomAnalysisPrompt(input);
-  return output!;
-});
+Example format:
+{"conditions": [
+  {"condition": "Common Cold", "likelihood": 0.75, "description": "Viral infection causing nasal congestion and mild fever"},
+  {"condition": "Allergic Rhinitis", "likelihood": 0.45, "description": "Allergic reaction causing similar symptoms"}
+]}
+
+Return ONLY valid JSON, nothing else. No markdown, no explanation.`;
+
+  try {
+    const {conditions} = await completeJson(provider, {
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a medical AI assistant. Analyze symptoms and provide potential conditions with likelihood scores. Always return valid JSON only, no markdown formatting.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      temperature: 0.7,
+      maxTokens: 2000,
+    }, 'symptom_analysis', SymptomAnalysisReplySchema);
+
+    return conditions;
+  } catch (error: any) {
+    console.error(`${provider.name} symptom analysis error:`, error?.message, { status: error?.status });
+    throw new Error(`${provider.name} API error: ${describeProviderError(error)}`);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Symptom Extraction Fallback
+ * The shape of extracted symptom data, and the simple parse of the user's text
+ * used when no LLM can extract it. Kept apart from symptom-extraction.ts so the
+ * page can fall back without importing the LLM providers.
+ */
+
+import { extractAllMeasurements, getDurationDays } from '@/ai/medical-data/measurement-extraction';
+
+export interface ExtractedSymptomData {
+  symptoms: string[];
+  duration_days?: number;
+  triggers: string[];
+  qualifiers: string[];
+}
+
+/**
+ * Fallback extraction (no API required)
+ */
+export function extractSymptomDataFallback(
+  symptomsText: string,
+  answersText: string
+): ExtractedSymptomData {
+  const symptoms = symptomsText
+    .split(/[,;]|\n/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+
+  const duration_days = getDurationDays(extractAllMeasurements(symptomsText, [answersText]));
+
+  return {
+    symptoms,
+    duration_days,
+    triggers: [],
+    qualifiers: [],
+  };
+}
+
@@ -0,0 +1,72 @@
+/**
+ * Symptom Extraction
+ * Structured symptom data (symptoms, duration, triggers, qualifiers) from the
+ * user's own words. ONLY extracts structured data - NO scoring or diagnostic
+ * logic. Runs on the server behind /api/extract-symptoms; without an LLM, or
+ * when it fails, a simple parse of the text is used instead.
+ */
+
+import { z } from 'zod';
+import { LLMProvider, completeJson } from '@/ai/providers';
+import { ExtractedSymptomData, extractSymptomDataFallback } from './symptom-extraction-fallback';
+
+export const ExtractedSymptomDataSchema = z.object({
+  symptoms: z.array(z.string()).default([]),
+  duration_days: z.number().nullish().transform(v => v ?? undefined),
+  triggers: z.array(z.string()).default([]),
+  qualifiers: z.array(z.string()).default([]),
+});
+
+export const ExtractSymptomsRequestSchema = z.object({
+  symptoms: z.string().max(5000, 'Symptoms are too long'),
+  answers: z.string().max(20000, 'Answers are too long'),
+});
+
+export type ExtractSymptomsRequest = z.infer<typeof ExtractSymptomsRequestSchema>;
+
+/**
+ * Extract structured symptom data from user input using the LLM
+ * This is the ONLY use of the LLM - pure extraction, no scoring
+ */
+export async function extractSymptomData(
+  provider: LLMProvider | undefined,
+  symptomsText: string,
+  answersText: string
+): Promise<ExtractedSymptomData> {
+  if (!provider) {
+    return extractSymptomDataFallback(symptomsText, answersText);
+  }
+
+  try {
+    return await completeJson(provider, {
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a data extraction assistant. Extract structured symptom information and return ONLY valid JSON.',
+        },
+        {
+          role: 'user',
+          content: `Extract and return JSON of symptoms, durations, triggers, and qualifiers only.
+
+User symptoms: ${symptomsText}
+User answers: ${answersText}
+
+Return JSON in this exact format:
+{
+  "symptoms": ["symptom1", "symptom2"],
+  "duration_days": 30,
+  "triggers": ["trigger1"],
+  "qualifiers": ["qualifier1"]
+}
+
+Return ONLY the JSON object, no markdown, no explanation.`,
+        },
+      ],
+      temperature: 0.3,
+      maxTokens: 500,
+    }, 'symptom_data', ExtractedSymptomDataSchema);
+  } catch (error: any) {
+    console.warn(`${provider.name} extraction failed, using fallback:`, error?.message || error);
+    return extractSymptomDataFallback(symptomsText, answersText);
+  }
+}
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFixtureProvider } from '@/ai/providers/fixture';
+import { createRateLimiter } from '@/lib/rate-limit';
+import { RequestSession, signRequest } from '@/lib/request-signing';
+import {
+  EXTRACTION_QUOTA,
+  MAX_BODY_BYTES,
+  SignedHandlerOptions,
+  createExtractionHandler,
+  createSessionHandler,
+  createWellnessSummaryHandler,
+} from '../signed-handlers';
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+const options: SignedHandlerOptions = { getSecret: () => 'test-secret', now: () => NOW };
+
+const extractionProvider = createFixtureProvider([
+  { id: 'extract', match: 'Extract and return JSON', response: { symptoms: ['fatigue'], duration_days: 14, triggers: ['stress'], qualifiers: [] } },
+]);
+
+const summaryInput = {
+  profile: { name: 'Sam', age: '40', gender: 'female' },
+  symptoms: 'fatigue, thirst',
+  questions: [{ text: 'Have you been unusually thirsty?' }],
+  answers: ['Yes'],
+};
+
+async function startSession(): Promise<RequestSession> {
+  const response = await createSessionHandler(options)(new Request('http://localhost/api/session', { method: 'POST' }));
+  return response.json();
+}
+
+async function signed(session: RequestSession, path: string, body: unknown) {
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...(await signRequest(session, 'POST', path, text, NOW)) },
+    body: text,
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('session handler', () => {
+  it('issues sessions until the IP has started too many', async () => {
+    vi.stubEnv('TRUST_PROXY_HEADERS', 'true');
+    const POST = createSessionHandler({ ...options, limiter: createRateLimiter({ limit: 1, windowMs: 60000 }) });
+    const post = () => POST(new Request('http://localhost/api/session', { method: 'POST', headers: { 'x-forwarded-for': '203.0.113.7' } }));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const first = await post();
+    expect(first.status).toBe(200);
+    expect(first.headers.get('cache-control')).toBe('no-store');
+    expect(await first.json()).toMatchObject({ id: expect.any(String), key: expect.any(String), issuedAt: NOW });
+
+    const second = await post();
+    expect(second.status).toBe(429);
+    expect(second.headers.get('retry-after')).toBe('60');
+  });
+});
+
+describe('extraction handler', () => {
+  it('extracts symptoms for a signed request', async () => {
+    const POST = createExtractionHandler({ ...options, getProvider: () => extractionProvider });
+
+    const response = await POST(await signed(await startSession(), '/api/extract-symptoms', { symptoms: 'tired for two weeks', answers: '' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ symptoms: ['fatigue'], duration_days: 14, triggers: ['stress'], qualifiers: [] });
+  });
+
+  it('parses the text itself without an LLM', async () => {
+    const POST = createExtractionHandler({ ...options, getProvider: () => undefined });
+
+    const response = await POST(await signed(await startSession(), '/api/extract-symptoms', { symptoms: 'fatigue; thirst', answers: '' }));
+
+    expect(await response.json()).toEqual({ symptoms: ['fatigue', 'thirst'], triggers: [], qualifiers: [] });
+  });
+
+  it.each([
+    ['unsigned', async () => new Request('http://localhost/api/extract-symptoms', { method: 'POST', body: '{}' }), 401, 'Invalid or expired session'],
+    ['signed for another route', async () => {
+      const request = await signed(await startSession(), '/api/wellness-summary', { symptoms: 'fatigue', answers: '' });
+      return new Request('http://localhost/api/extract-symptoms', { method: 'POST', headers: request.headers, body: await request.text() });
+    }, 401, 'Invalid or expired session'],
+    ['not json', async () => signed(await startSession(), '/api/extract-symptoms', 'not json'), 400, 'Invalid request body'],
+    ['missing answers', async () => signed(await startSession(), '/api/extract-symptoms', { symptoms: 'fatigue' }), 400, 'Required'],
+    ['too large', async () => signed(await startSession(), '/api/extract-symptoms', { symptoms: 'x'.repeat(MAX_BODY_BYTES), answers: '' }), 413, 'Request is too large'],
+  ])('rejects a request that is %s', async (_case, build, status, message) => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const getProvider = vi.fn(() => extractionProvider);
+
+    const response = await createExtractionHandler({ ...options, getProvider })(await build());
+
+    expect(response.status).toBe(status);
+    expect(await response.json()).toEqual({ success: false, message });
+    expect(getProvider).not.toHaveBeenCalled();
+  });
+
+  it('stops a session once its quota is used up, but not other sessions', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const POST = createExtractionHandler({ ...options, getProvider: () => undefined });
+    const session = await startSession();
+    const body = { symptoms: 'fatigue', answers: '' };
+
+    for (let i = 0; i < EXTRACTION_QUOTA.limit; i++) {
+      expect((await POST(await signed(session, '/api/extract-symptoms', body))).status).toBe(200);
+    }
+    const refused = await POST(await signed(session, '/api/extract-symptoms', body));
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get('retry-after')).toBeTruthy();
+
+    expect((await POST(await signed(await startSession(), '/api/extract-symptoms', body))).status).toBe(200);
+  });
+
+  it('keeps the user\'s text out of the logs', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const POST = createExtractionHandler(options);
+
+    await POST(await signed(await startSession(), '/api/extract-symptoms', { symptoms: 'Sam has chest pain' }));
+
+    expect(log.mock.calls.flat().join('\n')).toBe('[extract-symptoms] rejected: invalid answers');
+  });
+});
+
+describe('wellness summary handler', () => {
+  it('writes the summary with the server\'s provider', async () => {
+    const provider = createFixtureProvider([
+      {
+        id: 'summary',
+        match: 'Wellness Summary',
+        response: {
+          systemClassification: ['endocrine'],
+          timeCourseInterpretation: 'Developing over weeks.',
+          topConditions: [{ condition: 'Diabetes Mellitus Type 2', percentage: '40%', explanation: 'Thirst and tiredness fit.', keySymptoms: ['thirst'] }],
+        },
+      },
+    ]);
+
+    const response = await createWellnessSummaryHandler({ ...options, getProvider: () => provider })(
+      await signed(await startSession(), '/api/wellness-summary', summaryInput)
+    );
+
+    expect(await response.json()).toMatchObject({
+      profileInformation: { name: 'Sam', age: '40', gender: 'female' },
+      reportedSymptoms: ['fatigue', 'thirst'],
+      answerKey: [{ question: 'Have you been unusually thirsty?', answer: 'Yes' }],
+      systemClassification: ['endocrine'],
+      topConditions: [{ condition: 'Diabetes Mellitus Type 2', percentage: '40%', wouldIncrease: '' }],
+    });
+  });
+
+  it('sends the fallback summary without an LLM', async () => {
+    const response = await createWellnessSummaryHandler({ ...options, getProvider: () => undefined })(
+      await signed(await startSession(), '/api/wellness-summary', summaryInput)
+    );
+
+    expect(await response.json()).toMatchObject({ systemClassification: ['metabolic/nutritional'], topConditions: [] });
+  });
+});
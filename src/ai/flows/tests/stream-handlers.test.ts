@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFixtureProvider } from '@/ai/providers/fixture';
+import { providerError } from '@/ai/providers';
+import { createRateLimiter } from '@/lib/rate-limit';
+import { RequestSession, signRequest } from '@/lib/request-signing';
+import { readSseEvents } from '@/lib/sse';
+import { DEFAULT_EXPLANATION } from '../analysis-input';
+import { MAX_BODY_BYTES, SignedHandlerOptions, createSessionHandler } from '../signed-handlers';
+import {
+  MAX_EXPLAINED_CONDITIONS,
+  createExplanationStreamHandler,
+  createQuestionStreamHandler,
+} from '../stream-handlers';
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+const options: SignedHandlerOptions = { getSecret: () => 'test-secret', now: () => NOW };
+
+const questionInput = {
+  questionNumber: 2,
+  name: 'Sam',
+  age: '40',
+  gender: 'female',
+  symptoms: 'fatigue',
+  previousAnswers: [],
+  targetFinding: 'Excessive thirst',
+};
+
+const analysisInput = { symptoms: 'fatigue, pale skin', questionnaireAnswers: '' };
+
+let session: RequestSession;
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  session = await (await createSessionHandler(options)(new Request('http://localhost/api/session', { method: 'POST' }))).json();
+});
+
+async function post(path: string, body: unknown, signal?: AbortSignal) {
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...(await signRequest(session, 'POST', path, text, NOW)) },
+    body: text,
+    signal,
+  });
+}
+
+async function events(response: Response) {
+  const read: Array<{ event: string; data: any }> = [];
+  for await (const { event, data } of readSseEvents(response.body!)) read.push({ event, data: JSON.parse(data) });
+  return read;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('question stream handler', () => {
+  it('streams the question text, then the question', async () => {
+    const POST = createQuestionStreamHandler({
+      ...options,
+      generate: async (_input, { onText } = {}) => {
+        onText?.('Have you');
+        onText?.('Have you been thirsty?');
+        return { text: 'Have you been thirsty?', type: 'yesno', target: 'Excessive thirst', source: 'llm' };
+      },
+    });
+
+    const response = await POST(await post('/api/questions/stream', questionInput));
+
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    expect(await events(response)).toEqual([
+      { event: 'text', data: { text: 'Have you' } },
+      { event: 'text', data: { text: 'Have you been thirsty?' } },
+      { event: 'question', data: { text: 'Have you been thirsty?', type: 'yesno', target: 'Excessive thirst', source: 'llm' } },
+    ]);
+  });
+
+  it('streams a fixture question end to end', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fixture');
+
+    const read = await events(await createQuestionStreamHandler(options)(await post('/api/questions/stream', { ...questionInput, targetFinding: undefined })));
+    const question = read[read.length - 1];
+
+    expect(question.event).toBe('question');
+    expect(read.slice(0, -1).map(e => e.event)).toEqual(read.slice(0, -1).map(() => 'text'));
+    expect(read[read.length - 2].data.text).toBe(question.data.text);
+  });
+
+  it.each([
+    ['not json', 'Invalid request body'],
+    [{ ...questionInput, symptoms: undefined }, 'Required'],
+    [{ ...questionInput, previousAnswers: 'none' }, 'Expected array, received string'],
+  ])('rejects %j', async (body, message) => {
+    const generate = vi.fn();
+    const response = await createQuestionStreamHandler({ ...options, generate })(await post('/api/questions/stream', body));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ success: false, message });
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it.each<[string, () => Promise<Request>, number]>([
+    ['an unsigned request', async () => new Request('http://localhost/api/questions/stream', { method: 'POST', body: JSON.stringify(questionInput) }), 401],
+    ['an oversized body', () => post('/api/questions/stream', { ...questionInput, symptoms: 'a'.repeat(MAX_BODY_BYTES) }), 413],
+  ])('turns down %s before generating', async (_case, request, status) => {
+    const generate = vi.fn();
+
+    expect((await createQuestionStreamHandler({ ...options, generate })(await request())).status).toBe(status);
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('stops a session once its quota is used up', async () => {
+    const generate = vi.fn(async () => ({ text: 'Have you been thirsty?', type: 'yesno' as const, source: 'llm' as const }));
+    const POST = createQuestionStreamHandler({ ...options, generate, limiter: createRateLimiter({ limit: 1, windowMs: 60000 }) });
+
+    expect((await POST(await post('/api/questions/stream', questionInput))).status).toBe(200);
+    const second = await POST(await post('/api/questions/stream', questionInput));
+
+    expect(second.status).toBe(429);
+    expect(second.headers.get('retry-after')).toBe('60');
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends a generic error event when generation fails', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const POST = createQuestionStreamHandler({
+      ...options,
+      generate: async () => {
+        throw new Error('groq API error: Invalid API key');
+      },
+    });
+
+    expect(await events(await POST(await post('/api/questions/stream', questionInput)))).toEqual([
+      { event: 'error', data: { message: 'Generation failed. Please try again.' } },
+    ]);
+    expect(logged.mock.calls.flat().join(' ')).not.toContain('Invalid API key');
+  });
+
+  it('cancels generation when the page aborts the request', async () => {
+    const controller = new AbortController();
+    let cancelled = false;
+    const POST = createQuestionStreamHandler({
+      ...options,
+      generate: async (_input, { onText, signal } = {}) => {
+        onText?.('Have you');
+        await new Promise(resolve => signal!.addEventListener('abort', resolve));
+        cancelled = true;
+        throw Object.assign(providerError('groq', 'Request cancelled'), { name: 'AbortError' });
+      },
+    });
+
+    const reader = readSseEvents((await POST(await post('/api/questions/stream', questionInput, controller.signal))).body!);
+    await expect(reader.next()).resolves.toMatchObject({ value: { event: 'text' } });
+    controller.abort();
+
+    await expect(reader.next()).resolves.toMatchObject({ done: true });
+    expect(cancelled).toBe(true);
+  });
+});
+
+describe('explanation stream handler', () => {
+  it('streams an explanation for every condition of the analysis', async () => {
+    const provider = createFixtureProvider([{ id: 'explain', match: 'might be considered', response: 'Your tiredness fits.' }]);
+    const read = await events(await createExplanationStreamHandler({ ...options, getProvider: () => provider })(await post('/api/explanations/stream', analysisInput)));
+
+    const explanations = read.filter(e => e.event === 'explanation');
+    expect(explanations.length).toBeGreaterThan(0);
+    explanations.forEach(e => expect(e.data.explanation).toBe('Your tiredness fits.'));
+    expect(read.find(e => e.event === 'text')?.data).toEqual({ condition: explanations[0].data.condition, text: 'Your ' });
+    expect(read[read.length - 1]).toEqual({ event: 'done', data: {} });
+  });
+
+  it(`explains at most ${MAX_EXPLAINED_CONDITIONS} conditions per request`, async () => {
+    const provider = createFixtureProvider([{ id: 'explain', match: 'might be considered', response: 'It fits.' }]);
+    const explain = vi.spyOn(provider, 'stream');
+    const input = { symptoms: 'fatigue, headache, joint pain, fever, weight loss, nausea, dizziness, rash', questionnaireAnswers: '' };
+
+    const read = await events(await createExplanationStreamHandler({ ...options, getProvider: () => provider })(await post('/api/explanations/stream', input)));
+
+    expect(read.filter(e => e.event === 'explanation')).toHaveLength(MAX_EXPLAINED_CONDITIONS);
+    expect(explain).toHaveBeenCalledTimes(MAX_EXPLAINED_CONDITIONS);
+    expect(read[read.length - 1].event).toBe('done');
+  });
+
+  it('sends standard explanations without an LLM', async () => {
+    const read = await events(await createExplanationStreamHandler({ ...options, getProvider: () => undefined })(await post('/api/explanations/stream', analysisInput)));
+
+    expect(read.filter(e => e.event === 'text')).toEqual([]);
+    read.filter(e => e.event === 'explanation').forEach(e => expect(e.data.explanation).toBe(DEFAULT_EXPLANATION));
+    expect(read[read.length - 1].event).toBe('done');
+  });
+
+  it('turns down unsigned requests', async () => {
+    const request = new Request('http://localhost/api/explanations/stream', { method: 'POST', body: JSON.stringify(analysisInput) });
+
+    expect((await createExplanationStreamHandler({ ...options, getProvider: () => undefined })(request)).status).toBe(401);
+  });
+
+  it('rejects an invalid analysis input', async () => {
+    const response = await createExplanationStreamHandler(options)(await post('/api/explanations/stream', { symptoms: 'fatigue' }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ success: false, message: 'Required' });
+  });
+});
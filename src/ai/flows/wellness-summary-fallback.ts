@@ -0,0 +1,69 @@
+/**
+ * Wellness Summary Fallback
+ * The shape of a wellness summary, and the summary given when no LLM can
+ * write one. Kept apart from wellness-summary.ts so the page can fall back
+ * without importing the LLM providers.
+ */
+
+export interface ConditionResult {
+  condition: string;
+  percentage: string; // "75%" or "Low likelihood (<10%)"
+  explanation: string;
+  keySymptoms: string[];
+  wouldIncrease: string;
+  wouldDecrease: string;
+  webmd_search_term?: string; // For WebMD links
+}
+
+export interface WellnessSummary {
+  profileInformation: {
+    name: string;
+    age: string;
+    gender: string;
+    medicalHistory?: string;
+  };
+  reportedSymptoms: string[];
+  answerKey: Array<{ question: string; answer: string }>;
+  systemClassification: string[];
+  timeCourseInterpretation: string;
+  topConditions: ConditionResult[];
+  safetyNotice: string;
+}
+
+export const SAFETY_NOTICE = '⚠️ Important: This is a preliminary AI-generated wellness summary. It is not a medical diagnosis. Please consult a licensed healthcare professional for proper evaluation.';
+
+export function reportedSymptoms(symptoms: string): string[] {
+  return symptoms.split(/[,;]|\n/).map(s => s.trim()).filter(s => s.length > 0);
+}
+
+export function answerKeyFor(questions: Array<{ text: string }>, answers: string[]) {
+  return questions.map((q, i) => ({
+    question: q.text,
+    answer: answers[i] || 'Not answered',
+  }));
+}
+
+/**
+ * The summary given when no LLM can write one
+ */
+export function fallbackWellnessSummary(
+  profile: { name: string; age: string; gender: string; medicalConditions?: string },
+  symptoms: string,
+  questions: Array<{ text: string }>,
+  answers: string[]
+): WellnessSummary {
+  return {
+    profileInformation: {
+      name: profile.name,
+      age: profile.age,
+      gender: profile.gender,
+      medicalHistory: profile.medicalConditions,
+    },
+    reportedSymptoms: reportedSymptoms(symptoms),
+    answerKey: answerKeyFor(questions, answers),
+    systemClassification: ['metabolic/nutritional'],
+    timeCourseInterpretation: 'Based on the symptom pattern, this appears to be a chronic condition that developed over time. More specific timing information would help improve accuracy.',
+    topConditions: [],
+    safetyNotice: SAFETY_NOTICE,
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Pure LLM-based Wellness Analysis
+ * No calculations - just AI reasoning. Runs on the server behind
+ * /api/wellness-summary; without an LLM, or when it fails, a fallback summary
+ * is returned instead.
+ */
+
+import { z } from 'zod';
+import { LLMProvider, completeJson } from '@/ai/providers';
+import {
+  SAFETY_NOTICE,
+  WellnessSummary,
+  answerKeyFor,
+  fallbackWellnessSummary,
+  reportedSymptoms,
+} from './wellness-summary-fallback';
+
+export const WellnessSummaryRequestSchema = z.object({
+  profile: z.object({
+    name: z.string().max(100),
+    age: z.string().max(20),
+    gender: z.string().max(50),
+    medicalConditions: z.string().max(5000).optional(),
+  }),
+  symptoms: z.string().max(5000, 'Symptoms are too long'),
+  questions: z.array(z.object({ text: z.string().max(1000) })).max(30, 'Too many questions'),
+  answers: z.array(z.string().max(2000)).max(30, 'Too many answers'),
+});
+
+export type WellnessSummaryRequest = z.infer<typeof WellnessSummaryRequestSchema>;
+
+const WellnessReplySchema = z.object({
+  systemClassification: z.array(z.string()).default([]),
+  timeCourseInterpretation: z.string().optional(),
+  topConditions: z.array(z.object({
+    condition: z.string(),
+    percentage: z.string(),
+    explanation: z.string(),
+    keySymptoms: z.array(z.string()).default([]),
+    wouldIncrease: z.string().default(''),
+    wouldDecrease: z.string().default(''),
+    webmd_search_term: z.string().nullish().transform(v => v ?? undefined),
+  })).default([]),
+});
+
+/**
+ * Generate complete wellness summary using pure LLM reasoning
+ */
+export async function generateWellnessSummary(
+  provider: LLMProvider | undefined,
+  profile: { name: string; age: string; gender: string; medicalConditions?: string },
+  symptoms: string,
+  questions: Array<{ text: string }>,
+  answers: string[]
+): Promise<WellnessSummary> {
+  if (!provider) {
+    return fallbackWellnessSummary(profile, symptoms, questions, answers);
+  }
+
+  // Build answer key
+  const answerKey = answerKeyFor(questions, answers);
+
+  const prompt = `You are a medical-style reasoning assistant that produces a structured "Wellness Summary" based ONLY on the user's answers.
+
+You do NOT have access to a backend, calculations, databases, or any external tools.
+
+You MUST generate all reasoning, scoring, interpretation, and percentages using internal LLM reasoning only.
+
+Profile Information:
+- Name: ${profile.name}
+- Age: ${profile.age}
+- Gender: ${profile.gender}
+${profile.medicalConditions ? `- Medical History: ${profile.medicalConditions}` : ''}
+
+Reported Symptoms: ${symptoms}
+
+Question & Answer Key:
+${answerKey.map((qa, i) => `Q${i + 1}: ${qa.question}\nAnswer: ${qa.answer}`).join('\n\n')}
+
+RULES FOR YOUR REASONING:
+
+1. Percentage Generation Rules:
+- Never output 0% for relevant conditions
+- If a condition is possible but low → show "Low likelihood (<10%)"
+- If top condition is under 25% → show top 3 conditions anyway
+- Maximum 10 conditions may be shown
+- You MUST make up the percentages based on reasoning — you are the engine
+
+2. Symptom Weighting (internal reasoning model):
+Use these weights inside your reasoning only:
+- Symptom cluster match → 40%
+- System involvement (endocrine, neuro, cardiac, etc.) → 20%
+- Time-course pattern → 15%
+- Triggers/patterns → 10%
+- Demographic match → 10%
+- Rare-but-high-impact → 5%
+You do NOT perform numeric calculations — just approximate the score mentally and produce realistic percentages
+
+3. Time-Course Interpretation:
+- Always produce a conclusion. Never say "time course unavailable."
+- Use inference:
+  * Weight loss → chronic
+  * Stress-triggered palpitations → endocrine/autonomic
+  * Thirst + fatigue → metabolic
+  * Numbness/tingling → neurological
+  * Progression → chronic progressive
+
+4. Condition Filtering:
+Prioritize conditions that match clusters of answers:
+- Weight loss + thirst → Diabetes, Hyperthyroidism
+- Palpitations + stress → Hyperthyroidism, Anxiety-autonomic
+- Numbness + fatigue → B12 Deficiency, Diabetes
+- Chest pressure + palpitations → Cardiac + endocrine
+- Symptoms across 3+ systems → Autonomic Dysfunction, systemic illness
+
+5. Enhanced Condition Pool (consider these when relevant):
+- Hyperthyroidism / Graves' Disease
+- Diabetes Mellitus Type 2
+- Pheochromocytoma
+- Iron Deficiency Anemia
+- Vitamin B12 Deficiency
+- Hyperparathyroidism
+- Autonomic Dysfunction / POTS
+- Generalized Anxiety Disorder (only when matching pattern)
+- You may add more if symptoms fit
+
+OUTPUT REQUIREMENTS:
+
+You MUST return valid JSON in this exact structure:
+
+{
+  "systemClassification": ["endocrine", "neurologic", ...],
+  "timeCourseInterpretation": "Clear interpretation based on symptoms...",
+      "topConditions": [
+        {
+          "condition": "Hyperthyroidism",
+          "percentage": "65%",
+          "explanation": "Clear explanation of why this condition fits...",
+          "keySymptoms": ["weight loss", "palpitations", "anxiety"],
+          "wouldIncrease": "What would increase likelihood...",
+          "wouldDecrease": "What would decrease likelihood...",
+          "webmd_search_term": "hyperthyroidism"
+        }
+      ]
+}
+
+Style Requirements:
+- Write explanations in simple, readable language
+- Explain why each condition matches the symptom pattern
+- Use friendly, clear tone — like a helpful medical assistant
+- Keep explanations concise (2-3 sentences max)
+
+IMPORTANT: Return ONLY valid JSON, no markdown, no explanations outside the JSON structure.`;
+
+  try {
+    const parsed = await completeJson(provider, {
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a medical reasoning assistant. You generate wellness summaries using pure reasoning. Always return valid JSON only, no markdown.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      temperature: 0.7,
+      maxTokens: 2000,
+    }, 'wellness_summary', WellnessReplySchema);
+
+    return {
+      profileInformation: {
+        name: profile.name,
+        age: profile.age,
+        gender: profile.gender,
+        medicalHistory: profile.medicalConditions,
+      },
+      reportedSymptoms: reportedSymptoms(symptoms),
+      answerKey: answerKey,
+      systemClassification: parsed.systemClassification,
+      timeCourseInterpretation: parsed.timeCourseInterpretation || 'Based on the symptom pattern, this appears to be a chronic condition that developed over time.',
+      topConditions: parsed.topConditions,
+      safetyNotice: SAFETY_NOTICE,
+    };
+  } catch (error: any) {
+    console.error(`${provider.name} wellness summary failed, using fallback:`, error?.message || error);
+    return fallbackWellnessSummary(profile, symptoms, questions, answers);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Answer Evidence
+ * Turns findings from structured questionnaire answers into positive and
+ * negative evidence for each disease's raw score.
+ */
+
+import { DiseaseData, getDiseaseRelevance, getSymptomScore } from '@/knowledge-base';
+import { Finding } from './finding-extraction';
+
+// Share of a symptom's contribution removed when the user rules it out
+export const NEGATIVE_EVIDENCE_WEIGHT = 0.5;
+
+// Severity-scale answers (1-5) scale a confirmed symptom's contribution
+const SEVERITY_FACTORS: Record<number, number> = {
+  1: 0.6,
+  2: 0.8,
+  3: 1.0,
+  4: 1.2,
+  5: 1.4,
+};
+
+export interface AnswerEvidenceItem {
+  symptom: string;
+  finding: Finding;
+  amount: number; // Raw-score adjustment (negative for excluded findings)
+}
+
+// The last definite answer about each symptom; uncertain answers are ignored
+function latestFindings(findings: Finding[]): Map<string, Finding> {
+  const latest = new Map<string, Finding>();
+  findings.forEach(f => {
+    if (f.status !== 'uncertain') latest.set(f.symptom, f);
+  });
+  return latest;
+}
+
+/**
+ * Symptoms the answers confirm that the user did not report; they count
+ * toward a disease's symptom match alongside the reported ones
+ */
+export function getConfirmedAnswerSymptoms(findings: Finding[], reportedSymptoms: Set<string>): string[] {
+  return Array.from(latestFindings(findings).values())
+    .filter(f => f.status === 'present' && !reportedSymptoms.has(f.symptom))
+    .map(f => f.symptom);
+}
+
+/**
+ * Per-finding raw-score adjustments for one disease from answer findings.
+ * - Confirmed findings the user did not already report add relevance * weight
+ * - Severity ratings of reported symptoms scale their existing contribution
+ * - Excluded findings subtract part of relevance * weight
+ * The last answer about a symptom wins; uncertain answers are ignored.
+ */
+export function getAnswerEvidence(
+  disease: DiseaseData,
+  findings: Finding[],
+  reportedSymptoms: Set<string>
+): AnswerEvidenceItem[] {
+  const latest = latestFindings(findings);
+
+  const items: AnswerEvidenceItem[] = [];
+  latest.forEach((finding, symptom) => {
+    const relevance = getDiseaseRelevance(disease, symptom);
+    if (relevance === 0) return;
+
+    const contribution = relevance * getSymptomScore(symptom);
+    const severityFactor = finding.severity ? SEVERITY_FACTORS[finding.severity] ?? 1.0 : 1.0;
+
+    let amount: number;
+    if (finding.status === 'absent') {
+      amount = -contribution * NEGATIVE_EVIDENCE_WEIGHT;
+    } else if (reportedSymptoms.has(symptom)) {
+      amount = contribution * (severityFactor - 1.0);
+    } else {
+      amount = contribution * severityFactor;
+    }
+
+    if (amount !== 0) {
+      items.push({ symptom, finding, amount });
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Total raw-score adjustment for one disease from answer findings
+ */
+export function scoreAnswerEvidence(
+  disease: DiseaseData,
+  findings: Finding[],
+  reportedSymptoms: Set<string>
+): number {
+  return getAnswerEvidence(disease, findings, reportedSymptoms).reduce((sum, item) => sum + item.amount, 0);
+}
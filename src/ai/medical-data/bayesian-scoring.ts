@@ -0,0 +1,141 @@
+/**
+ * Bayesian Scoring Engine
+ * Alternative to the heuristic weighted-sum engine: each condition starts
+ * from a base-rate prior (stratified by age band and sex) and every present
+ * or absent finding updates its odds by a likelihood ratio. The result is a
+ * posterior probability per condition (one-vs-rest, so they need not sum to 1).
+ *
+ * - Sensitivity P(symptom | condition) is the condition's symptom relevance
+ * - False-positive rate P(symptom | no condition) is the symptom's background rate
+ * - Symptoms a condition does not list are uninformative (likelihood ratio 1)
+ */
+
+import {
+  CONDITION_PRIORS,
+  DISEASE_DATABASE,
+  DiseaseData,
+  SYMPTOM_BACKGROUND_RATES,
+  getAgeBand,
+  getDiseaseRelevance,
+} from '@/knowledge-base';
+import { Finding, resolveFindings } from './finding-extraction';
+import { applyLedgerStep, LedgerEntry } from './score-ledger';
+
+export const SCORING_ENGINES = ['heuristic', 'bayesian'] as const;
+
+export type ScoringEngine = (typeof SCORING_ENGINES)[number];
+
+// Keep likelihood ratios finite
+const MIN_PROBABILITY = 0.01;
+const MAX_PROBABILITY = 0.99;
+
+function clampProbability(p: number): number {
+  return Math.min(MAX_PROBABILITY, Math.max(MIN_PROBABILITY, p));
+}
+
+/**
+ * Prior probability of a condition for a profile.
+ * Unknown age or sex leaves the corresponding multiplier at 1.
+ */
+export function getPriorProbability(
+  disease: DiseaseData,
+  profile?: { age?: string; gender?: string }
+): number {
+  const prior = CONDITION_PRIORS[disease.name];
+  if (!prior) {
+    throw new Error(`No prior for condition: ${disease.name}`);
+  }
+
+  const band = getAgeBand(profile?.age);
+  const gender = profile?.gender?.toLowerCase();
+  const ageMultiplier = band ? prior.age[band] : 1.0;
+  const sexMultiplier = gender === 'female' ? prior.sex.female : gender === 'male' ? prior.sex.male : 1.0;
+
+  return Math.min(prior.base_rate * ageMultiplier * sexMultiplier, MAX_PROBABILITY);
+}
+
+/**
+ * Likelihood ratio of one finding for one condition
+ */
+export function getLikelihoodRatio(
+  disease: DiseaseData,
+  symptom: string,
+  present: boolean
+): number {
+  const relevance = getDiseaseRelevance(disease, symptom);
+  const backgroundRate = SYMPTOM_BACKGROUND_RATES[symptom];
+  if (relevance === 0 || backgroundRate === undefined) return 1.0;
+
+  const sensitivity = clampProbability(relevance);
+  const falsePositiveRate = clampProbability(backgroundRate);
+
+  return present
+    ? sensitivity / falsePositiveRate // LR+
+    : (1 - sensitivity) / (1 - falsePositiveRate); // LR-
+}
+
+/**
+ * Probability that a patient with the condition reports the symptom: its
+ * sensitivity when the condition lists it, the background rate otherwise
+ * (consistent with getLikelihoodRatio, where unlisted symptoms are uninformative)
+ */
+export function getFindingProbability(disease: DiseaseData, symptom: string): number {
+  const relevance = getDiseaseRelevance(disease, symptom);
+  return clampProbability(relevance > 0 ? relevance : SYMPTOM_BACKGROUND_RATES[symptom] ?? 0);
+}
+
+/**
+ * Posterior probability per condition (0-1).
+ * Only conditions supported by at least one present finding are returned,
+ * unless `includeUnsupported` is set (the question planner weighs them all).
+ * The odds updates for each returned condition are recorded in `ledgers`.
+ */
+export function calculatePosteriors(
+  findings: Finding[],
+  profile?: { age?: string; gender?: string },
+  ledgers: Map<string, LedgerEntry[]> = new Map(),
+  options: { includeUnsupported?: boolean } = {}
+): Map<string, number> {
+  const statuses = resolveFindings(findings);
+  const posteriors = new Map<string, number>();
+
+  DISEASE_DATABASE.forEach(disease => {
+    const ledger: LedgerEntry[] = [];
+    const prior = getPriorProbability(disease, profile);
+    let odds = applyLedgerStep(ledger, 0, {
+      step: 'prior',
+      label: 'Prior odds',
+      operation: 'set',
+      value: prior / (1 - prior),
+      detail: `base rate ${(prior * 100).toFixed(3)}% for ${getAgeBand(profile?.age) || 'any age'}, ${profile?.gender || 'any sex'}`,
+    });
+    let supported = false;
+
+    statuses.forEach((status, symptom) => {
+      if (status === 'uncertain') return;
+
+      const present = status === 'present';
+      if (present && getDiseaseRelevance(disease, symptom) > 0) {
+        supported = true;
+      }
+
+      const ratio = getLikelihoodRatio(disease, symptom, present);
+      if (ratio !== 1.0) {
+        odds = applyLedgerStep(ledger, odds, {
+          step: 'likelihood_ratio',
+          label: symptom,
+          operation: 'multiply',
+          value: ratio,
+          detail: present ? 'present (LR+)' : 'absent (LR-)',
+        });
+      }
+    });
+
+    if (supported || options.includeUnsupported) {
+      posteriors.set(disease.name, odds / (1 + odds));
+      ledgers.set(disease.name, ledger);
+    }
+  });
+
+  return posteriors;
+}
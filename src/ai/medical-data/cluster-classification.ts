@@ -3,14 +3,20 @@
  * Classifies symptoms into clusters and determines dominant cluster
  */
 
-export type ClusterType = 
-  | 'autoimmune'
-  | 'endocrine'
-  | 'neurologic'
-  | 'infectious'
-  | 'malignancy/hematologic'
-  | 'autonomic dysfunction'
-  | 'metabolic/nutritional';
+import { resolveSymptomId } from '@/knowledge-base';
+import { isNegatedSymptom } from './finding-extraction';
+
+export const CLUSTER_TYPES = [
+  'autoimmune',
+  'endocrine',
+  'neurologic',
+  'infectious',
+  'malignancy/hematologic',
+  'autonomic dysfunction',
+  'metabolic/nutritional',
+] as const;
+
+export type ClusterType = (typeof CLUSTER_TYPES)[number];
 
 export interface ClusterScore {
   cluster: ClusterType;
@@ -76,40 +82,21 @@ export function classifySymptomClusters(
   const clusterScores = new Map<ClusterType, number>();
   
   // Initialize all clusters
-  const allClusters: ClusterType[] = [
-    'autoimmune',
-    'endocrine',
-    'neurologic',
-    'infectious',
-    'malignancy/hematologic',
-    'autonomic dysfunction',
-    'metabolic/nutritional',
-  ];
-  
-  allClusters.forEach(cluster => {
+  CLUSTER_TYPES.forEach(cluster => {
     clusterScores.set(cluster, 0);
   });
   
   // Score each symptom against clusters
   symptoms.forEach(symptom => {
+    // Denied symptoms ("no fever") contribute nothing
+    if (isNegatedSymptom(symptom)) return;
+    
     const normalizedSymptom = symptom.toLowerCase().trim();
     const symptomScore = symptomWeights.get(normalizedSymptom) || 0.5;
     
-    // Find which clusters this symptom belongs to
-    let clusters: ClusterType[] = [];
-    
-    // Check exact match
-    if (SYMPTOM_CLUSTER_MAP[normalizedSymptom]) {
-      clusters = SYMPTOM_CLUSTER_MAP[normalizedSymptom];
-    } else {
-      // Try partial match
-      for (const [key, clusterList] of Object.entries(SYMPTOM_CLUSTER_MAP)) {
-        if (normalizedSymptom.includes(key) || key.includes(normalizedSymptom)) {
-          clusters = clusterList;
-          break;
-        }
-      }
-    }
+    // Find which clusters this symptom belongs to (via its canonical ID)
+    const symptomId = resolveSymptomId(normalizedSymptom);
+    let clusters: ClusterType[] = (symptomId && SYMPTOM_CLUSTER_MAP[symptomId]) || [];
     
     // If no match, assign to metabolic/nutritional as default
     if (clusters.length === 0) {
@@ -0,0 +1,466 @@
+/**
+ * Deterministic Analysis Pipeline
+ * The part of advancedSymptomAnalysis that does not call an LLM: symptom
+ * extraction, red flags, patterns, time course, clusters and scoring.
+ * Runs without API keys, so the offline evaluation harness uses it directly.
+ */
+
+import { getSymptomScore } from './symptom-weights';
+import { DISEASE_DATABASE, getDiseaseRelevanceFactor } from './disease-database';
+import { extractFindings, isNegatedSymptom, Finding } from './finding-extraction';
+import { AnsweredQuestion, findingsFromAnswers } from './structured-answers';
+import { getAnswerEvidence, getConfirmedAnswerSymptoms } from './answer-evidence';
+import { ScoringEngine, calculatePosteriors } from './bayesian-scoring';
+import { CLINICAL_RULES, resolveSymptomId } from '@/knowledge-base';
+import { classifySymptomClusters, getDominantClusters, ClusterType } from './cluster-classification';
+import { applyTimeCourseLogic, extractTimeCourseData, TimeCourseData, DiseaseScoreAdjustment } from './time-course-logic';
+import { detectRedFlags, applyRedFlagMultipliers, getApplicableRedFlagMultipliers, RedFlag, RedFlagMultipliers } from './red-flag-detection';
+import { detectPatterns, applyPatternMultipliers, getMatchingPatterns, PatternMatch } from './pattern-detection';
+import { analyzeSystemInvolvement, getConditionSystems, calculateMultiSystemOverlap, SystemInvolvement } from './multi-system-reasoning';
+import { applyLedgerStep, LedgerEntry } from './score-ledger';
+import { triage, TriageResult } from './triage';
+import { buildRuleContext, matchingRules } from './rule-engine';
+
+export interface DeterministicAnalysisInput {
+  symptoms: string;
+  questionnaireAnswers: string;
+  structuredAnswers?: AnsweredQuestion[];
+  engine?: ScoringEngine; // Default: 'heuristic'
+  profile?: { age?: string; gender?: string };
+  now?: Date; // When the assessment was taken; timeline onsets are measured from it
+}
+
+export interface ScoredCondition {
+  condition: string;
+  score: number; // 0-100 (relative for heuristic, posterior for bayesian)
+  matchedSymptoms: string[];
+  ledger: LedgerEntry[];
+}
+
+export interface DeterministicAnalysis {
+  symptoms: string[];
+  engine: ScoringEngine;
+  conditions: ScoredCondition[]; // Highest score first
+  dominantClusters: ClusterType[];
+  redFlags: RedFlag[];
+  triage: TriageResult;
+  timeCourse: TimeCourseData;
+  timeCourseInterpretation: string;
+}
+
+/**
+ * Extract symptoms list from text
+ */
+export function extractSymptomsList(symptomsText: string): string[] {
+  // Split by common delimiters
+  const symptoms = symptomsText
+    .split(/[,;]|\n/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0 && !isNegatedSymptom(s)); // Drop denied symptoms ("no fever")
+  
+  return symptoms;
+}
+
+/**
+ * Multi-layer scoring model with weighted criteria
+ * - Symptom cluster match (40%)
+ * - System involvement overlap (20%)
+ * - Temporal pattern match (15%)
+ * - Trigger/pattern match (10%)
+ * - Demographic compatibility (10%)
+ * - Rare-but-high-impact rules (5%)
+ */
+function calculateDiseaseScores(
+  symptoms: string[],
+  timeCourse: TimeCourseData,
+  redFlagMultipliers: RedFlagMultipliers,
+  patterns: PatternMatch[],
+  profile?: { age?: string; gender?: string },
+  systemInvolvement?: SystemInvolvement[],
+  answerFindings: Finding[] = [],
+  ledgers: Map<string, LedgerEntry[]> = new Map(),
+  now: Date = new Date()
+): Map<string, number> {
+  const diseaseScores = new Map<string, number>();
+  const reportedIds = new Set(symptoms.map(s => resolveSymptomId(s)).filter((id): id is string => !!id));
+  const answerSymptoms = getConfirmedAnswerSymptoms(answerFindings, reportedIds);
+  
+  if (!systemInvolvement) {
+    systemInvolvement = analyzeSystemInvolvement(symptoms);
+  }
+  
+  // Scoring weights
+  const WEIGHTS = {
+    symptomCluster: 0.40,
+    systemOverlap: 0.20,
+    temporalPattern: 0.15,
+    triggerPattern: 0.10,
+    demographic: 0.10,
+    rareHighImpact: 0.05,
+  };
+  
+  // Analyze systems
+  const involvedSystemNames = systemInvolvement.map(s => s.system);
+  const multiSystemCount = involvedSystemNames.length;
+  
+  DISEASE_DATABASE.forEach(disease => {
+    const ledger: LedgerEntry[] = [];
+    let totalScore = 0;
+    
+    // 1. Symptom Cluster Match (40%)
+    const expectedSymptomCount = Object.keys(disease.symptom_relevance_map).length;
+    const matchedSymptoms = symptoms.filter(s => 
+      getDiseaseRelevanceFactor(disease.name, s) > 0
+    );
+    
+    // Only consider if at least 30% symptom match, counting symptoms confirmed only in the answers
+    const answerMatches = answerSymptoms.filter(id => getDiseaseRelevanceFactor(disease.name, id) > 0);
+    if ((matchedSymptoms.length + answerMatches.length) / Math.max(symptoms.length + answerSymptoms.length, 1) < 0.3) {
+      return; // Skip this disease
+    }
+    
+    // Each symptom's weighted match, normalized by total symptoms and expected
+    // symptoms for this condition and scaled by the share of symptoms matched
+    const clusterNormalizer = Math.max(symptoms.length, expectedSymptomCount);
+    const matchRatio = matchedSymptoms.length / Math.max(symptoms.length, 1);
+    matchedSymptoms.forEach(symptom => {
+      const symptomScore = getSymptomScore(symptom);
+      const relevanceFactor = getDiseaseRelevanceFactor(disease.name, symptom);
+      totalScore = applyLedgerStep(ledger, totalScore, {
+        step: 'symptom',
+        label: symptom,
+        operation: 'add',
+        value: (symptomScore * relevanceFactor / clusterNormalizer) * matchRatio * WEIGHTS.symptomCluster,
+        detail: `relevance ${relevanceFactor.toFixed(2)} × weight ${symptomScore.toFixed(2)}`,
+      });
+    });
+    
+    // Positive/negative evidence from structured answers, on the same scale
+    const clusterStart = totalScore;
+    getAnswerEvidence(disease, answerFindings, reportedIds).forEach(item => {
+      totalScore = applyLedgerStep(ledger, totalScore, {
+        step: 'answer_evidence',
+        label: item.symptom,
+        operation: 'add',
+        value: (item.amount / clusterNormalizer) * WEIGHTS.symptomCluster,
+        detail: `${item.finding.status}: ${item.finding.evidence}`,
+      });
+    });
+    if (totalScore < 0) {
+      // The symptom layer never goes below zero
+      totalScore = applyLedgerStep(ledger, totalScore, {
+        step: 'answer_evidence',
+        label: 'Floor at zero',
+        operation: 'add',
+        value: -totalScore,
+        detail: `symptom layer was ${(totalScore - clusterStart).toFixed(3)} after answers`,
+      });
+    }
+    
+    // 2. System Involvement Overlap (20%)
+    const conditionSystems = getConditionSystems(disease.name);
+    const systemOverlapScore = calculateMultiSystemOverlap(conditionSystems, systemInvolvement);
+    totalScore = applyLedgerStep(ledger, totalScore, {
+      step: 'system_overlap',
+      label: 'System involvement overlap',
+      operation: 'add',
+      value: systemOverlapScore * WEIGHTS.systemOverlap,
+      detail: `overlap ${systemOverlapScore.toFixed(2)} with ${conditionSystems.join(', ') || 'no mapped systems'}`,
+    });
+    
+    // Boost if ≥3 systems involved and condition is multi-system
+    if (multiSystemCount >= 3 && conditionSystems.length >= 2) {
+      totalScore = applyLedgerStep(ledger, totalScore, {
+        step: 'multi_system_bonus',
+        label: 'Multi-system bonus',
+        operation: 'add',
+        value: systemOverlapScore * WEIGHTS.systemOverlap * 0.5,
+        factor: 1.5,
+        detail: `${multiSystemCount} systems involved`,
+      });
+    }
+    
+    // 3. Temporal Pattern Match (15%)
+    const timeCourseAdjustments: DiseaseScoreAdjustment[] = applyTimeCourseLogic(timeCourse, [disease.name], now);
+    let temporalScore = 1.0;
+    if (timeCourseAdjustments.length > 0) {
+      temporalScore = Math.min(timeCourseAdjustments[0].multiplier, 2.0) / 2.0; // Normalize to 0-1
+    }
+    totalScore = applyLedgerStep(ledger, totalScore, {
+      step: 'time_course',
+      label: 'Time course',
+      operation: 'add',
+      value: temporalScore * WEIGHTS.temporalPattern,
+      factor: timeCourseAdjustments[0]?.multiplier,
+      detail: timeCourseAdjustments[0]?.reason || 'no time-course adjustment',
+    });
+    
+    // 4. Trigger/Pattern Match (10%)
+    const matchingPatterns = getMatchingPatterns(disease.name, patterns);
+    const patternMultiplier = applyPatternMultipliers(disease.name, patterns);
+    const patternScore = Math.min(patternMultiplier, 2.0) / 2.0; // Normalize to 0-1
+    totalScore = applyLedgerStep(ledger, totalScore, {
+      step: 'pattern',
+      label: 'Symptom patterns',
+      operation: 'add',
+      value: patternScore * WEIGHTS.triggerPattern,
+      factor: patternMultiplier,
+      detail: matchingPatterns.length > 0
+        ? matchingPatterns.map(p => `${p.pattern} ×${p.multiplier}`).join('; ')
+        : 'no matching pattern',
+    });
+    
+    // 5. Demographic Compatibility (10%)
+    let demographicScore = 1.0; // Default neutral
+    let demographicReason = 'no age-specific adjustment';
+    if (profile?.age) {
+      const age = parseInt(profile.age);
+      // Some conditions are age-specific
+      if (disease.name.includes('Still') && age < 16) {
+        demographicScore = 0.3; // Adult-onset
+        demographicReason = 'adult-onset condition, age under 16';
+      } else if (disease.name.includes('MS') && age < 20) {
+        demographicScore = 0.5; // Less common in very young
+        demographicReason = 'less common under 20';
+      }
+    }
+    totalScore = applyLedgerStep(ledger, totalScore, {
+      step: 'demographic',
+      label: 'Demographic compatibility',
+      operation: 'add',
+      value: demographicScore * WEIGHTS.demographic,
+      detail: demographicReason,
+    });
+    
+    // 6. Rare-but-High-Impact Rules (5%)
+    const applicableRedFlags = getApplicableRedFlagMultipliers(disease.name, redFlagMultipliers);
+    const redFlagMultiplier = applyRedFlagMultipliers(disease.name, redFlagMultipliers);
+    const rareImpactScore = Math.min(redFlagMultiplier, 2.0) / 2.0;
+    totalScore = applyLedgerStep(ledger, totalScore, {
+      step: 'red_flag',
+      label: 'Red-flag multipliers',
+      operation: 'add',
+      value: rareImpactScore * WEIGHTS.rareHighImpact,
+      factor: redFlagMultiplier,
+      detail: applicableRedFlags.length > 0
+        ? applicableRedFlags.map(m => `${m.name} ×${m.value.toFixed(1)}`).join('; ')
+        : 'no applicable red-flag multiplier',
+    });
+    
+    diseaseScores.set(disease.name, totalScore);
+    ledgers.set(disease.name, ledger);
+  });
+  
+  return diseaseScores;
+}
+
+/**
+ * Conditions to prioritize, from the condition-filter rules in the knowledge base;
+ * a condition listed by several matching rules appears once per rule
+ */
+function applyConditionFiltering(
+  symptoms: string[],
+  answers: string[]
+): string[] {
+  const context = buildRuleContext({ symptoms: symptoms.join(', '), answers });
+  return matchingRules(CLINICAL_RULES.condition_filters, context).flatMap(rule => rule.prioritize);
+}
+
+/**
+ * Normalize scores to 0-100%
+ * Ensures no condition shows 0% unless explicitly ruled out
+ */
+function normalizeScores(scores: Map<string, number>): Map<string, number> {
+  const maxScore = Math.max(...Array.from(scores.values()));
+  if (maxScore === 0) return scores;
+  
+  const normalized = new Map<string, number>();
+  scores.forEach((score, disease) => {
+    const normalizedScore = (score / maxScore) * 100;
+    // Ensure minimum 5% if condition has any score (unless it's truly 0)
+    if (score > 0 && normalizedScore < 5) {
+      normalized.set(disease, 5); // Minimum display threshold
+    } else {
+      normalized.set(disease, normalizedScore);
+    }
+  });
+  
+  return normalized;
+}
+
+/**
+ * Score every condition for the input, without generating explanations
+ */
+export function runDeterministicAnalysis(input: DeterministicAnalysisInput): DeterministicAnalysis {
+  // Extract symptoms
+  const symptoms = extractSymptomsList(input.symptoms);
+  if (symptoms.length === 0) {
+    throw new Error('No symptoms detected');
+  }
+
+  // Extract time-course data (with inference), including the timeline answers
+  const now = input.now || new Date();
+  const timeCourse = extractTimeCourseData(
+    input.symptoms,
+    [input.questionnaireAnswers],
+    input.structuredAnswers || [],
+    now
+  );
+
+  // Detect red flags
+  const { redFlags, multipliers: redFlagMultipliers } = detectRedFlags(
+    input.symptoms,
+    [input.questionnaireAnswers],
+    input.profile
+  );
+
+  // Detect patterns
+  const patterns = detectPatterns(input.symptoms, [input.questionnaireAnswers]);
+
+  // Analyze system involvement
+  const systemInvolvement = analyzeSystemInvolvement(symptoms);
+
+  // Apply condition filtering rules
+  const priorityConditions = applyConditionFiltering(symptoms, [input.questionnaireAnswers]);
+
+  // Classify clusters
+  const symptomWeights = new Map<string, number>();
+  symptoms.forEach(s => {
+    symptomWeights.set(s.toLowerCase().trim(), getSymptomScore(s));
+  });
+  const clusterScores = classifySymptomClusters(symptoms, symptomWeights);
+  const dominantClusters = getDominantClusters(clusterScores);
+
+  const engine: ScoringEngine = input.engine || 'heuristic';
+  const answerFindings = findingsFromAnswers(input.structuredAnswers || []);
+  const ledgers = new Map<string, LedgerEntry[]>();
+  let normalizedScores: Map<string, number>;
+
+  if (engine === 'bayesian') {
+    // Posterior probabilities are already on an absolute 0-1 scale
+    const findings = [...extractFindings(input.symptoms, [input.questionnaireAnswers]), ...answerFindings];
+    const posteriors = calculatePosteriors(findings, input.profile, ledgers);
+    normalizedScores = new Map(Array.from(posteriors.entries()).map(([name, p]) => [
+      name,
+      applyLedgerStep(ledgers.get(name) || [], 0, {
+        step: 'normalization',
+        label: 'Posterior probability',
+        operation: 'set',
+        value: p * 100,
+        detail: 'odds / (1 + odds), as a percentage',
+      }),
+    ]));
+  } else {
+    // Calculate disease scores with new multi-layer model
+    const diseaseScores = calculateDiseaseScores(
+      symptoms,
+      timeCourse,
+      redFlagMultipliers,
+      patterns,
+      input.profile,
+      systemInvolvement,
+      answerFindings,
+      ledgers,
+      now
+    );
+
+    // Boost priority conditions
+    priorityConditions.forEach(conditionName => {
+      const currentScore = diseaseScores.get(conditionName) || 0;
+      const ledger = ledgers.get(conditionName) || [];
+      diseaseScores.set(conditionName, applyLedgerStep(ledger, currentScore, {
+        step: 'priority_boost',
+        label: 'Priority condition',
+        operation: 'multiply',
+        value: 1.3, // 30% boost
+        detail: 'matched a condition filtering rule',
+      }));
+      ledgers.set(conditionName, ledger);
+    });
+
+    // Normalize scores
+    const maxScore = Math.max(...Array.from(diseaseScores.values()));
+    normalizedScores = normalizeScores(diseaseScores);
+    normalizedScores.forEach((score, conditionName) => {
+      const ledger = ledgers.get(conditionName);
+      if (!ledger) return;
+      applyLedgerStep(ledger, diseaseScores.get(conditionName) || 0, {
+        step: 'normalization',
+        label: 'Relative to top condition',
+        operation: 'set',
+        value: score,
+        detail: `raw ${(diseaseScores.get(conditionName) || 0).toFixed(3)} of top ${maxScore.toFixed(3)}`,
+      });
+    });
+  }
+
+  // Filter: only show conditions >= 25% OR top conditions regardless of score
+  const sortedAll = Array.from(normalizedScores.entries())
+    .sort((a, b) => b[1] - a[1]);
+  
+  // Get conditions >= 25% OR top 3 if all are below 25%
+  const topScore = sortedAll[0]?.[1] || 0;
+  const threshold = topScore < 25 ? 0 : 25; // Show all if top is below 25%
+  
+  const sortedDiseases = sortedAll
+    .filter(([, score], i) => score >= threshold || i < 3)
+    .slice(0, 10); // Up to top 10, but filtered by 25% threshold
+
+  const conditions: ScoredCondition[] = sortedDiseases.map(([diseaseName, score]) => ({
+    condition: diseaseName,
+    score,
+    matchedSymptoms: symptoms.filter(s => getDiseaseRelevanceFactor(diseaseName, s) > 0),
+    ledger: ledgers.get(diseaseName) || [],
+  }));
+
+  // Improved time-course interpretation
+  let timeCourseInterpretation = '';
+  
+  if (timeCourse.duration_days) {
+    if (timeCourse.duration_days > 90) {
+      timeCourseInterpretation = `Symptoms have been present for over 3 months, suggesting a chronic condition.`;
+    } else if (timeCourse.duration_days > 21) {
+      timeCourseInterpretation = `Symptoms lasting over 3 weeks suggest a chronic rather than acute condition.`;
+    } else if (timeCourse.duration_days > 14) {
+      timeCourseInterpretation = `Symptoms lasting over 2 weeks suggest a chronic condition rather than an acute illness.`;
+    } else {
+      timeCourseInterpretation = `Recent onset (within 2 weeks) may indicate an acute condition.`;
+    }
+  } else if (timeCourse.pattern !== 'unknown') {
+    // We have pattern but not duration
+    if (timeCourse.pattern === 'relapsing') {
+      timeCourseInterpretation = 'Relapsing pattern suggests an autoimmune or episodic condition.';
+    } else if (timeCourse.pattern === 'progressive') {
+      timeCourseInterpretation = 'Progressive pattern suggests a neurologic or degenerative condition.';
+    } else if (timeCourse.pattern === 'chronic') {
+      timeCourseInterpretation = 'Chronic pattern suggests a long-standing condition.';
+    } else if (timeCourse.pattern === 'acute') {
+      timeCourseInterpretation = 'Acute pattern suggests a recent-onset condition.';
+    }
+  } else {
+    // Infer from symptoms
+    if (symptoms.some(s => s.toLowerCase().includes('weight loss'))) {
+      timeCourseInterpretation = 'Weight loss patterns typically develop over weeks to months, suggesting a chronic process.';
+    } else if (symptoms.some(s => s.toLowerCase().includes('palpitation') || s.toLowerCase().includes('heart'))) {
+      timeCourseInterpretation = 'Cardiac symptoms with progression suggest a chronic pattern.';
+    } else {
+      timeCourseInterpretation = 'Timing was not reported. Knowing when each symptom started would improve accuracy.';
+    }
+  }
+
+  return {
+    symptoms,
+    engine,
+    conditions,
+    dominantClusters,
+    redFlags,
+    triage: triage({
+      symptoms: input.symptoms,
+      answers: [input.questionnaireAnswers],
+      structuredAnswers: input.structuredAnswers,
+      profile: input.profile,
+    }),
+    timeCourse,
+    timeCourseInterpretation,
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Finding Extraction (NegEx-style)
+ * Turns free-text symptoms and questionnaire answers into per-symptom findings
+ * marked present / absent / uncertain, so "no night sweats" or a "No" answer
+ * to "Do you have numbness?" never counts as the symptom being reported.
+ */
+
+import { findSymptomIds, findSymptomMentions, normalizeForMatching } from '@/knowledge-base';
+
+export type FindingStatus = 'present' | 'absent' | 'uncertain';
+
+export type FindingSource = 'symptoms' | 'answer';
+
+export interface Finding {
+  symptom: string; // Canonical symptom ID
+  status: FindingStatus;
+  source: FindingSource;
+  evidence: string; // The phrase or question the finding came from
+  severity?: number; // 1-5, from severity-scale answers
+}
+
+// Triggers that negate a symptom mentioned after them (within the same clause)
+const PRE_NEGATION = [
+  'no', 'not', 'without', 'never', 'none', 'nor', 'neither', 'denies', 'denied', 'deny',
+  'free of', 'negative for', 'absence of', 'no sign of', 'no signs of', 'no history of', 'no longer',
+  "don't have", 'do not have', "doesn't have", 'does not have', "didn't have", 'did not have',
+  "haven't had", 'have not had', "haven't noticed", 'have not noticed', "hasn't been", "haven't been",
+];
+
+// Triggers that negate a symptom mentioned before them
+const POST_NEGATION = ['is gone', 'are gone', 'went away', 'has resolved', 'have resolved', 'resolved', 'ruled out'];
+
+// A symptom answered with a denial, as in a checklist ("night sweats: no", "fever: none").
+// Matched on the raw text, as normalizing drops the colon
+const TRAILING_DENIAL_PATTERN = /^\s*:\s*(?:no|none|nope|never|not at all)\b/i;
+
+// Hedging that makes a symptom uncertain rather than present
+const PRE_UNCERTAINTY = [
+  'maybe', 'possibly', 'possible', 'perhaps', 'probably', 'might have', 'might be', 'may have', 'may be',
+  'could be', 'not sure', 'unsure', "i'm not sure", 'i think', 'i guess', 'suspect', 'not certain',
+];
+
+const POST_UNCERTAINTY = ['maybe', 'i think', 'not sure', 'possibly', 'i guess'];
+
+// Phrases that look like negation but are not ("not only fever but...")
+const PSEUDO_NEGATION = ['not only', 'not just', 'no change', 'no increase', 'no doubt', 'not sure', 'not certain'];
+
+// Negation scope: how many words a trigger reaches
+const SCOPE_WORDS = 6;
+
+// Clause terminators end a trigger's scope
+const TERMINATOR_PATTERN = /[.;!?\n]|\b(?:but|however|although|though|except|yet|apart from|aside from|whereas)\b/g;
+
+// List separators end a trigger's scope too: "no fever, chest pain" denies only the fever.
+// Explicit joins ("no fever or chills", "neither fever nor chills") stay inside it.
+const LIST_SEPARATOR_PATTERN = /[,•·]|\s[-–]\s/g;
+
+const YES_ANSWER = /^(?:yes|yeah|yep|y|definitely|sometimes|often|always)\b/i;
+const NO_ANSWER = /^(?:no|nope|n|never|not at all|none)\b/i;
+const UNSURE_ANSWER = /^(?:not sure|unsure|maybe|don't know|do not know|i don't know|i'm not sure)\b/i;
+const SCALE_ANSWER = /^[1-5]$/;
+
+function phrasePattern(phrases: string[]): RegExp {
+  const alternatives = [...phrases]
+    .sort((a, b) => b.length - a.length)
+    .map(p => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+'));
+  return new RegExp(`\\b(?:${alternatives.join('|')})\\b`);
+}
+
+const PRE_NEGATION_PATTERN = phrasePattern(PRE_NEGATION);
+const POST_NEGATION_PATTERN = phrasePattern(POST_NEGATION);
+const PRE_UNCERTAINTY_PATTERN = phrasePattern(PRE_UNCERTAINTY);
+const POST_UNCERTAINTY_PATTERN = phrasePattern(POST_UNCERTAINTY);
+const PSEUDO_NEGATION_PATTERN = new RegExp(phrasePattern(PSEUDO_NEGATION).source, 'g');
+
+function lastWords(text: string, count: number): string {
+  return text.trim().split(/\s+/).slice(-count).join(' ');
+}
+
+function firstWords(text: string, count: number): string {
+  return text.trim().split(/\s+/).slice(0, count).join(' ');
+}
+
+function boundariesOf(text: string, pattern: RegExp): Array<[number, number]> {
+  return [...text.toLowerCase().matchAll(pattern)].map(match => {
+    const start = match.index ?? 0;
+    return [start, start + match[0].length];
+  });
+}
+
+/**
+ * Extract findings from a free-text passage
+ */
+export function findingsFromText(text: string, source: FindingSource = 'symptoms'): Finding[] {
+  const normalized = normalizeForMatching(text);
+  const mentions = findSymptomMentions(text);
+
+  // Clause and list-item boundaries (offsets are shared between text and normalized text)
+  const boundaries = [...boundariesOf(text, TERMINATOR_PATTERN), ...boundariesOf(text, LIST_SEPARATOR_PATTERN)];
+
+  // Blank out every mention so one symptom's wording ("no energy") cannot negate another
+  let masked = normalized;
+  mentions.forEach(m => {
+    masked = masked.slice(0, m.start) + ' '.repeat(m.end - m.start) + masked.slice(m.end);
+  });
+
+  return mentions.map(mention => {
+    const scopeStart = Math.max(0, ...boundaries.filter(([, end]) => end <= mention.start).map(([, end]) => end));
+    const scopeEnd = Math.min(text.length, ...boundaries.filter(([start]) => start >= mention.end).map(([start]) => start));
+
+    const before = lastWords(masked.slice(scopeStart, mention.start), SCOPE_WORDS);
+    const after = firstWords(masked.slice(mention.end, scopeEnd), SCOPE_WORDS);
+
+    const hedged = PRE_UNCERTAINTY_PATTERN.test(before) || POST_UNCERTAINTY_PATTERN.test(after);
+    const negated = PRE_NEGATION_PATTERN.test(before.replace(PSEUDO_NEGATION_PATTERN, ' ')) ||
+                    POST_NEGATION_PATTERN.test(after) ||
+                    TRAILING_DENIAL_PATTERN.test(text.slice(mention.end, scopeEnd));
+
+    const status: FindingStatus = negated ? 'absent' : hedged ? 'uncertain' : 'present';
+
+    return {
+      symptom: mention.id,
+      status,
+      source,
+      evidence: text.slice(mention.start, mention.end),
+    };
+  });
+}
+
+/**
+ * Split "Q1: ...\nAnswer: ..." formatted questionnaire text into pairs
+ */
+export function parseQuestionAnswerPairs(text: string): Array<{ question: string; answer: string }> {
+  const pairs: Array<{ question: string; answer: string }> = [];
+  const pattern = /Q\d+:\s*([\s\S]*?)\n\s*Answer:\s*([^\n]*)/g;
+
+  for (const match of text.matchAll(pattern)) {
+    pairs.push({ question: match[1].trim(), answer: match[2].trim() });
+  }
+
+  return pairs;
+}
+
+/**
+ * Findings implied by one answered question
+ */
+function findingsFromAnswer(question: string, answer: string): Finding[] {
+  const questionSymptoms = findSymptomIds(question);
+  const reply = answer.trim();
+
+  const statusFor = (): FindingStatus | null => {
+    if (UNSURE_ANSWER.test(reply)) return 'uncertain';
+    if (NO_ANSWER.test(reply)) return 'absent';
+    // "Yes" to "Do you have A or B?" does not say which one
+    if (YES_ANSWER.test(reply)) return questionSymptoms.length > 1 ? 'uncertain' : 'present';
+    // A severity rating implies the symptom is there
+    if (SCALE_ANSWER.test(reply)) return 'present';
+    return null;
+  };
+
+  const status = statusFor();
+  if (status === null) {
+    // Free-text or option answers carry their own findings
+    return findingsFromText(reply, 'answer');
+  }
+
+  return questionSymptoms.map(symptom => ({
+    symptom,
+    status,
+    source: 'answer' as const,
+    evidence: question,
+  }));
+}
+
+/**
+ * Extract findings from reported symptoms and questionnaire answers
+ */
+export function extractFindings(symptoms: string, answers: string[]): Finding[] {
+  const findings = findingsFromText(symptoms, 'symptoms');
+
+  answers.forEach(answerText => {
+    const pairs = parseQuestionAnswerPairs(answerText);
+    if (pairs.length === 0) {
+      findings.push(...findingsFromText(answerText, 'answer'));
+      return;
+    }
+    pairs.forEach(pair => findings.push(...findingsFromAnswer(pair.question, pair.answer)));
+  });
+
+  return findings;
+}
+
+/**
+ * Resolve findings to one status per symptom.
+ * Later findings (answers) override earlier ones, but an uncertain finding
+ * never overrides a definite present/absent one.
+ */
+export function resolveFindings(findings: Finding[]): Map<string, FindingStatus> {
+  const statuses = new Map<string, FindingStatus>();
+
+  findings.forEach(finding => {
+    const current = statuses.get(finding.symptom);
+    if (finding.status === 'uncertain' && current && current !== 'uncertain') return;
+    statuses.set(finding.symptom, finding.status);
+  });
+
+  return statuses;
+}
+
+/**
+ * Canonical IDs of symptoms resolved as present
+ */
+export function getPresentSymptoms(findings: Finding[]): Set<string> {
+  const present = new Set<string>();
+  resolveFindings(findings).forEach((status, symptom) => {
+    if (status === 'present') present.add(symptom);
+  });
+  return present;
+}
+
+/**
+ * True when a reported symptom item is entirely negated ("no fever")
+ */
+export function isNegatedSymptom(symptom: string): boolean {
+  const findings = findingsFromText(symptom);
+  return findings.length > 0 && findings.every(f => f.status === 'absent');
+}
@@ -0,0 +1,237 @@
+/**
+ * Measurement Extraction
+ * Pulls typed quantities out of free text, each converted to one unit and
+ * tied to the phrase it was written in:
+ * - weight: kg (pounds are converted per value, not per text)
+ * - temperature: °C (°F is converted; readings outside 30-45 °C are dropped)
+ * - heart rate: bpm
+ * - blood pressure: mmHg, systolic with diastolic
+ * - duration: days, from "3 weeks", "two months", "since last spring"
+ * - onset: days ago, from "2 days ago" (when something happened, not how long it lasted)
+ */
+
+import { parseQuestionAnswerPairs } from './finding-extraction';
+
+export type MeasurementKind = 'weight' | 'temperature' | 'heart_rate' | 'blood_pressure' | 'duration' | 'onset';
+
+export interface Measurement {
+  kind: MeasurementKind;
+  value: number; // kg, °C, bpm, systolic mmHg, days or days ago
+  diastolic?: number; // Blood pressure only
+  text: string; // The matched text, e.g. "10 lbs"
+  phrase: string; // The clause it was written in
+  question?: string; // The question it answers, for questionnaire answers
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, 'a couple of': 2, 'a few': 3, several: 3,
+};
+
+const NUMBER = `(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|')})`;
+
+const KG_PER_LB = 0.453592;
+
+const DAYS_PER_UNIT: Record<string, number> = {
+  hour: 1 / 24, hr: 1 / 24, day: 1, week: 7, fortnight: 14, month: 30, year: 365, yr: 365,
+};
+
+// Northern-hemisphere meteorological seasons, by starting month (0 = January)
+const SEASON_START_MONTH: Record<string, number> = { spring: 2, summer: 5, autumn: 8, fall: 8, winter: 11 };
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const RELATIVE_DAYS: Record<string, number> = { yesterday: 1, 'last week': 7, 'last month': 30, 'last year': 365 };
+
+const WEIGHT_PATTERN = new RegExp(`\\b${NUMBER}\\s*(kgs?|kilos?|kilograms?|lbs?|pounds?)\\b`, 'g');
+
+const TEMPERATURE_UNIT = '(c|f|celsius|centigrade|fahrenheit)';
+const TEMPERATURE_PATTERN = new RegExp(
+  `\\b(\\d{2,3}(?:\\.\\d+)?)\\s*(?:(?:°|º|degrees?)\\s*${TEMPERATURE_UNIT}?|${TEMPERATURE_UNIT})(?![a-z])` +
+  `|\\b(?:temperature|temp|fever)\\s*(?:of|is|was|at|around|about|:|\\s)*(\\d{2,3}(?:\\.\\d+)?)\\b`,
+  'g'
+);
+
+const HEART_RATE_PATTERN =
+  /\b(\d{2,3})\s*(?:bpm|beats\s*(?:per|a|\/)\s*min(?:ute)?)\b|\b(?:heart\s*rate|pulse)\s*(?:of|is|was|at|around|about|:|\s)*(\d{2,3})\b/g;
+
+const BLOOD_PRESSURE_PATTERN = /\b(\d{2,3})\s*\/\s*(\d{2,3})\b(\s*mm\s*hg\b)?/g;
+
+// "3 times a day", "every 2 weeks" and "8 hours a day" are frequencies, not durations;
+// "2 days ago" is an onset
+const DURATION_PATTERN = new RegExp(
+  `(?<!\\b(?:times|once|twice|per|every|each|hours?|hrs?|minutes?|mins?)\\s)` +
+  `\\b${NUMBER}\\s*-?\\s*(hours?|hrs?|days?|weeks?|fortnights?|months?|years?|yrs?)\\b(\\s+ago\\b)?`,
+  'g'
+);
+
+const SINCE_PATTERN = new RegExp(
+  `\\bsince\\s+(yesterday|last week|last month|last year|` +
+  `(?:last\\s+)?(?:${Object.keys(SEASON_START_MONTH).join('|')}|${MONTHS.join('|')}))\\b`,
+  'g'
+);
+
+// Clauses end at punctuation and line breaks; a decimal point does not end one
+const CLAUSE_SEPARATOR = /(?<!\d)\.|\.(?!\d)|[,;!?\n]/g;
+
+function parseNumber(text: string): number {
+  return NUMBER_WORDS[text] ?? parseFloat(text);
+}
+
+function clauseSpans(text: string): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  let start = 0;
+  for (const match of text.matchAll(CLAUSE_SEPARATOR)) {
+    spans.push([start, match.index!]);
+    start = match.index! + match[0].length;
+  }
+  spans.push([start, text.length]);
+  return spans;
+}
+
+/**
+ * Split text into clauses at punctuation and line breaks
+ */
+export function splitClauses(text: string): string[] {
+  return clauseSpans(text).map(([start, end]) => text.slice(start, end).trim()).filter(Boolean);
+}
+
+/**
+ * Days from the start of the latest given month (or season) up to now.
+ * "last spring" means the latest spring that is over; "spring" may be the current one.
+ */
+function daysSinceStartOf(month: number, length: number, completed: boolean, now: Date): number {
+  let start = new Date(now.getFullYear(), month, 1);
+  const end = (date: Date) => new Date(date.getFullYear(), date.getMonth() + length, 1);
+  while (start > now || (completed && end(start) > now)) {
+    start = new Date(start.getFullYear() - 1, month, 1);
+  }
+  return Math.round((now.getTime() - start.getTime()) / 86400000);
+}
+
+function sinceDays(expression: string, now: Date): number {
+  const normalized = expression.replace(/\s+/g, ' ');
+  if (RELATIVE_DAYS[normalized] !== undefined) return RELATIVE_DAYS[normalized];
+
+  const completed = normalized.startsWith('last ');
+  const name = normalized.replace(/^last /, '');
+  if (SEASON_START_MONTH[name] !== undefined) {
+    return daysSinceStartOf(SEASON_START_MONTH[name], 3, completed, now);
+  }
+  return daysSinceStartOf(MONTHS.indexOf(name), 1, completed, now);
+}
+
+/**
+ * Extract measurements from a free-text passage
+ */
+export function extractMeasurements(text: string, now: Date = new Date()): Measurement[] {
+  const lower = text.toLowerCase();
+  const spans = clauseSpans(lower);
+  const phraseAt = (index: number) => {
+    const [start, end] = spans.find(([, end]) => index < end) || spans[spans.length - 1];
+    return text.slice(start, end).trim();
+  };
+
+  const found: Array<Measurement & { index: number }> = [];
+  const add = (match: RegExpMatchArray, measurement: Omit<Measurement, 'text' | 'phrase'>) => {
+    found.push({ ...measurement, text: text.slice(match.index!, match.index! + match[0].length).trim(), phrase: phraseAt(match.index!), index: match.index! });
+  };
+
+  for (const match of lower.matchAll(WEIGHT_PATTERN)) {
+    const amount = parseNumber(match[1]);
+    add(match, { kind: 'weight', value: /^(?:lb|pound)/.test(match[2]) ? amount * KG_PER_LB : amount });
+  }
+
+  for (const match of lower.matchAll(TEMPERATURE_PATTERN)) {
+    const reading = parseFloat(match[1] ?? match[4]);
+    const unit = match[2] ?? match[3];
+    // Without a unit, anything above 45 can only be Fahrenheit
+    const fahrenheit = unit ? unit.startsWith('f') : reading > 45;
+    const celsius = fahrenheit ? (reading - 32) * 5 / 9 : reading;
+    if (celsius >= 30 && celsius <= 45) {
+      add(match, { kind: 'temperature', value: Math.round(celsius * 10) / 10 });
+    }
+  }
+
+  for (const match of lower.matchAll(HEART_RATE_PATTERN)) {
+    add(match, { kind: 'heart_rate', value: parseInt(match[1] ?? match[2]) });
+  }
+
+  for (const match of lower.matchAll(BLOOD_PRESSURE_PATTERN)) {
+    // "3/4" could be anything; a reading needs its unit or to be called blood pressure
+    const phrase = phraseAt(match.index!).toLowerCase();
+    if (match[3] || /\b(?:blood pressure|bp)\b/.test(phrase)) {
+      add(match, { kind: 'blood_pressure', value: parseInt(match[1]), diastolic: parseInt(match[2]) });
+    }
+  }
+
+  for (const match of lower.matchAll(DURATION_PATTERN)) {
+    const unit = match[2].replace(/s$/, '');
+    add(match, { kind: match[3] ? 'onset' : 'duration', value: parseNumber(match[1]) * DAYS_PER_UNIT[unit] });
+  }
+
+  for (const match of lower.matchAll(SINCE_PATTERN)) {
+    add(match, { kind: 'duration', value: sinceDays(match[1], now) });
+  }
+
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(({ index, ...measurement }) => measurement);
+}
+
+/**
+ * Extract measurements from reported symptoms and questionnaire answers;
+ * measurements in an answer keep the question they answer
+ */
+export function extractAllMeasurements(symptoms: string, answers: string[], now: Date = new Date()): Measurement[] {
+  const measurements = extractMeasurements(symptoms, now);
+
+  answers.forEach(answerText => {
+    const pairs = parseQuestionAnswerPairs(answerText);
+    if (pairs.length === 0) {
+      measurements.push(...extractMeasurements(answerText, now));
+      return;
+    }
+    pairs.forEach(pair => {
+      measurements.push(...extractMeasurements(pair.answer, now).map(m => ({ ...m, question: pair.question })));
+    });
+  });
+
+  return measurements;
+}
+
+const WEIGHT_LOSS_WORDS = /\b(?:lost|lose|losing|loss|dropped|shed|down)\b/i;
+
+/**
+ * Weight lost in kg: the largest weight written as a loss ("lost 4 kg", "down 10 lbs")
+ * or given in answer to a question about losing weight
+ */
+export function getWeightLossKg(measurements: Measurement[]): number | undefined {
+  const losses = measurements
+    .filter(m => m.kind === 'weight')
+    .filter(m => WEIGHT_LOSS_WORDS.test(m.phrase) || WEIGHT_LOSS_WORDS.test(m.question || ''))
+    .map(m => m.value);
+  return losses.length > 0 ? Math.max(...losses) : undefined;
+}
+
+/**
+ * How long symptoms have lasted, in days: the longest duration mentioned,
+ * since symptoms have been present at least since the earliest one started.
+ * Without a duration, the earliest onset stands in ("it started 2 weeks ago").
+ */
+export function getDurationDays(measurements: Measurement[]): number | undefined {
+  const durations = measurements.filter(m => m.kind === 'duration').map(m => m.value);
+  const days = durations.length > 0 ? durations : measurements.filter(m => m.kind === 'onset').map(m => m.value);
+  return days.length > 0 ? Math.round(Math.max(...days) * 10) / 10 : undefined;
+}
+
+/**
+ * Highest value of a kind, e.g. the peak temperature or heart rate reported
+ */
+export function getHighestValue(measurements: Measurement[], kind: MeasurementKind): number | undefined {
+  const values = measurements.filter(m => m.kind === kind).map(m => m.value);
+  return values.length > 0 ? Math.max(...values) : undefined;
+}
@@ -3,6 +3,9 @@
  * Classifies symptoms into body systems and prioritizes multi-system conditions
  */
 
+import { resolveSymptomId } from '@/knowledge-base';
+import { isNegatedSymptom } from './finding-extraction';
+
 export type BodySystem = 
   | 'endocrine/metabolic'
   | 'cardiac'
@@ -85,8 +88,10 @@ export function analyzeSystemInvolvement(symptoms: string[]): SystemInvolvement[
   const systemMap = new Map<BodySystem, string[]>();
   
   symptoms.forEach(symptom => {
-    const normalized = symptom.toLowerCase().trim();
-    const systems = SYMPTOM_SYSTEM_MAP[normalized] || ['endocrine/metabolic']; // Default
+    if (isNegatedSymptom(symptom)) return;
+    
+    const symptomId = resolveSymptomId(symptom);
+    const systems = (symptomId && SYMPTOM_SYSTEM_MAP[symptomId]) || ['endocrine/metabolic']; // Default
     
     systems.forEach(system => {
       if (!systemMap.has(system)) {
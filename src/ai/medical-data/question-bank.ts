@@ -0,0 +1,33 @@
+/**
+ * Question Bank Questions
+ * Questionnaire questions worded from the curated question bank instead of by
+ * the LLM. Used when no LLM provider is configured, and as the fallback when
+ * the provider is rate limited, times out or cannot be reached. The planner
+ * only plans yes/no findings and the timeline, so those are what it serves.
+ */
+
+import { getBankEntry, getSymptomLabel } from '@/knowledge-base';
+import type { QuestionPlan } from './question-planner';
+import { Question, buildQuestion, buildTimelineQuestion } from './structured-answers';
+
+/**
+ * The bank's wording for a yes/no question about the finding; symptoms without
+ * an entry get a plain question naming them
+ */
+export function bankQuestionText(symptom: string): string {
+  return getBankEntry(symptom)?.yesno.text || `Have you had ${getSymptomLabel(symptom).toLowerCase()}?`;
+}
+
+/**
+ * The planned question worded from the bank; null when the plan is to stop
+ */
+export function questionFromBank(id: number, plan: QuestionPlan): Question | null {
+  switch (plan.kind) {
+    case 'stop':
+      return null;
+    case 'timeline':
+      return buildTimelineQuestion(id, plan.symptoms);
+    case 'finding':
+      return buildQuestion(id, { text: bankQuestionText(plan.symptom), type: 'yesno', target: plan.symptom });
+  }
+}
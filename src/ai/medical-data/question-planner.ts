@@ -0,0 +1,177 @@
+/**
+ * Question Planner
+ * Chooses the next questionnaire question deterministically; the LLM only
+ * phrases it. After each answer the differential is re-scored with the
+ * Bayesian engine, and the planner asks about the finding whose yes/no answer
+ * has the highest expected information gain over the top candidates:
+ *
+ *   gain(s) = H(D) - [P(yes) H(D | yes) + P(no) H(D | no)]
+ *
+ * where D is the top candidates' posterior, renormalised to sum to 1, and
+ * P(s | d) is the finding probability used by the scoring engine.
+ *
+ * The symptom timeline is asked once, before the questionnaire ends. The
+ * questionnaire stops early when one candidate dominates the differential or
+ * when no remaining finding is worth asking about.
+ */
+
+import { DISEASE_DATABASE, SYMPTOM_BACKGROUND_RATES, getSymptomLabel } from '@/knowledge-base';
+import { calculatePosteriors, getFindingProbability } from './bayesian-scoring';
+import { Finding, extractFindings, getPresentSymptoms, resolveFindings } from './finding-extraction';
+import { AnswerValue, Question, findingsFromAnswers, formatQuestionnaire, pairAnswers } from './structured-answers';
+
+export interface PlannerSettings {
+  maxQuestions: number;
+  minQuestions: number; // Never stop for confidence before this many answers
+  candidateCount: number; // Size of the differential the gain is measured over
+  confidentShare: number; // Stop once the top candidate holds this share of it
+  minGain: number; // Bits; below this no finding is worth a question
+  maxTimelineSymptoms: number;
+}
+
+export const DEFAULT_PLANNER_SETTINGS: PlannerSettings = {
+  maxQuestions: 10,
+  minQuestions: 3,
+  candidateCount: 5,
+  confidentShare: 0.8,
+  minGain: 0.02,
+  maxTimelineSymptoms: 6,
+};
+
+export interface PlannerCandidate {
+  condition: string;
+  probability: number; // Share of the top-candidate differential, 0-1
+}
+
+export type StopReason = 'confident' | 'exhausted' | 'limit';
+
+export type QuestionPlan =
+  | { kind: 'finding'; symptom: string; label: string; gain: number; candidates: PlannerCandidate[] }
+  | { kind: 'timeline'; symptoms: string[]; candidates: PlannerCandidate[] }
+  | { kind: 'stop'; reason: StopReason; candidates: PlannerCandidate[] };
+
+export interface PlannerInput {
+  symptoms: string;
+  questions: Question[];
+  answers: AnswerValue[];
+  profile?: { age?: string; gender?: string };
+}
+
+/**
+ * Findings from the reported symptoms and every answered question
+ */
+export function questionnaireFindings(symptoms: string, questions: Question[], answers: AnswerValue[]): Finding[] {
+  const answered = questions.slice(0, answers.length);
+  return [
+    ...extractFindings(symptoms, formatQuestionnaire(answered, answers)),
+    ...findingsFromAnswers(pairAnswers(answered, answers)),
+  ];
+}
+
+/**
+ * The top candidates by posterior, renormalised to sum to 1. Conditions no
+ * finding supports yet still compete on their priors, so a single matching
+ * condition does not make the differential look settled.
+ */
+export function rankCandidates(
+  findings: Finding[],
+  profile?: { age?: string; gender?: string },
+  count: number = DEFAULT_PLANNER_SETTINGS.candidateCount
+): PlannerCandidate[] {
+  const posteriors = calculatePosteriors(findings, profile, new Map(), { includeUnsupported: true });
+
+  const top = Array.from(posteriors.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count);
+  const total = top.reduce((sum, [, score]) => sum + score, 0);
+
+  return top.map(([condition, score]) => ({ condition, probability: total > 0 ? score / total : 1 / top.length }));
+}
+
+function entropy(probabilities: number[]): number {
+  return probabilities.reduce((sum, p) => (p > 0 ? sum - p * Math.log2(p) : sum), 0);
+}
+
+/**
+ * Expected reduction in entropy (bits) of the candidate distribution from
+ * learning whether the symptom is present
+ */
+export function expectedInformationGain(candidates: PlannerCandidate[], symptom: string): number {
+  const likelihoods = candidates.map(candidate => {
+    const disease = DISEASE_DATABASE.find(d => d.name === candidate.condition);
+    return disease ? getFindingProbability(disease, symptom) : 0;
+  });
+
+  const joint = (present: boolean) =>
+    candidates.map((candidate, index) => candidate.probability * (present ? likelihoods[index] : 1 - likelihoods[index]));
+  const expected = (present: boolean) => {
+    const weights = joint(present);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return total > 0 ? total * entropy(weights.map(w => w / total)) : 0;
+  };
+
+  return entropy(candidates.map(c => c.probability)) - expected(true) - expected(false);
+}
+
+/**
+ * The finding to ask about next: unresolved and not yet asked, highest gain
+ * first, ties broken alphabetically so the plan is reproducible
+ */
+export function bestFinding(
+  candidates: PlannerCandidate[],
+  excluded: Set<string>
+): { symptom: string; gain: number } | undefined {
+  const pool = new Set<string>();
+  candidates.forEach(candidate => {
+    const disease = DISEASE_DATABASE.find(d => d.name === candidate.condition);
+    Object.keys(disease?.symptom_relevance_map || {}).forEach(symptom => {
+      if (!excluded.has(symptom) && SYMPTOM_BACKGROUND_RATES[symptom] !== undefined) pool.add(symptom);
+    });
+  });
+
+  return Array.from(pool)
+    .sort()
+    .map(symptom => ({ symptom, gain: expectedInformationGain(candidates, symptom) }))
+    .reduce<{ symptom: string; gain: number } | undefined>((best, next) => (!best || next.gain > best.gain ? next : best), undefined);
+}
+
+/**
+ * What to ask after the answers so far (or to stop)
+ */
+export function planNextQuestion(
+  input: PlannerInput,
+  settings: PlannerSettings = DEFAULT_PLANNER_SETTINGS
+): QuestionPlan {
+  const answered = Math.min(input.questions.length, input.answers.length);
+  const findings = questionnaireFindings(input.symptoms, input.questions, input.answers);
+  const candidates = rankCandidates(findings, input.profile, settings.candidateCount);
+
+  if (answered >= settings.maxQuestions) {
+    return { kind: 'stop', reason: 'limit', candidates };
+  }
+
+  // Anything already known or already asked about is not worth another question
+  const excluded = new Set<string>();
+  resolveFindings(findings).forEach((status, symptom) => status !== 'uncertain' && excluded.add(symptom));
+  input.questions.forEach(question => question.target && excluded.add(question.target));
+
+  const best = bestFinding(candidates, excluded);
+  const stopReason: StopReason | undefined =
+    answered >= settings.minQuestions && (candidates[0]?.probability || 0) >= settings.confidentShare
+      ? 'confident'
+      : !best || best.gain < settings.minGain
+        ? 'exhausted'
+        : undefined;
+
+  // Date the reported symptoms before finishing, at the latest in the final slot
+  const timelineAsked = input.questions.some(question => question.type === 'timeline');
+  const present = Array.from(getPresentSymptoms(findings));
+  if (!timelineAsked && present.length > 0 && (stopReason || answered === settings.maxQuestions - 1)) {
+    return { kind: 'timeline', symptoms: present.slice(0, settings.maxTimelineSymptoms), candidates };
+  }
+
+  if (stopReason || !best) {
+    return { kind: 'stop', reason: stopReason || 'exhausted', candidates };
+  }
+  return { kind: 'finding', symptom: best.symptom, label: getSymptomLabel(best.symptom), gain: best.gain, candidates };
+}
@@ -0,0 +1,258 @@
+/**
+ * Question Validation
+ * Checks an LLM-generated question before it reaches the user:
+ * - multiple-choice questions have at least two distinct options; other types have none
+ * - the type matches the phrasing ("scale" questions ask for a 1-5 rating,
+ *   "yesno" questions can be answered yes or no)
+ * - the type is the one the prompt required
+ * - it is not a near-duplicate of a question already asked
+ * - it does not suggest a diagnosis ("Since you may have lupus, ..."); asking
+ *   about the user's history ("Have you been diagnosed with diabetes?") is fine
+ *
+ * Option, type and target problems are repaired in place; duplicates and
+ * leading questions can only be fixed by generating the question again.
+ */
+
+import { DISEASE_DATABASE, findSymptomIds, getSymptomLabel, normalizeForMatching, resolveSymptomId } from '@/knowledge-base';
+
+export const GENERATED_QUESTION_TYPES = ['yesno', 'multiple', 'text', 'scale'] as const;
+
+export type GeneratedQuestionType = (typeof GENERATED_QUESTION_TYPES)[number];
+
+export interface GeneratedQuestion {
+  text: string;
+  type: GeneratedQuestionType;
+  options?: string[];
+  target?: string;
+}
+
+export interface QuestionValidationContext {
+  previousQuestions: string[];
+  requiredType?: GeneratedQuestionType;
+  targetFinding?: string; // The planner's finding; the question must be a yes/no question about it
+}
+
+export type QuestionIssueCode =
+  | 'missing-options'
+  | 'repeated-options'
+  | 'unexpected-options'
+  | 'type-mismatch'
+  | 'wrong-type'
+  | 'duplicate'
+  | 'leading';
+
+export interface QuestionIssue {
+  code: QuestionIssueCode;
+  message: string;
+}
+
+export type Phrasing = 'yesno' | 'scale' | 'open';
+
+// Questions that open with an auxiliary verb can be answered yes or no...
+const YES_NO_OPENING = /^(?:do|does|did|have|has|had|is|are|was|were|can|could|will|would|should|any)\b/;
+// ...unless they are a polite request for a description
+const REQUEST_FOR_DETAIL = /\b(?:describe|tell us|tell me|explain|list)\b/;
+const SCALE_PHRASING = /\bscale\b|\b1\s*(?:-|–|to)\s*(?:5|10)\b|\brate (?:it|your|the|how)\b|\bhow (?:severe|bad|intense|strong)\b/;
+
+const YES_NO_OPTIONS = new Set(['yes', 'no', 'not sure', 'unsure', "don't know", 'maybe']);
+
+// Wording that suggests the user has a condition, rather than asking about a finding
+const LEADING_PHRASES = [
+  /\b(?:your|likely|possible|probable) diagnosis\b/,
+  /\byou (?:may|might|could|probably|likely|clearly) (?:have|be suffering)\b/,
+  /\b(?:sounds|looks) like\b/,
+  /\b(?:consistent with|suggestive of|indicative of|typical of)\b/,
+];
+
+// Condition names as written ("Multiple Sclerosis") and as abbreviated ("MS"); abbreviations match case-sensitively
+const CONDITION_NAMES = DISEASE_DATABASE.map(d => d.name.replace(/\s*\(.*\)\s*/, '').toLowerCase());
+const CONDITION_ABBREVIATIONS = DISEASE_DATABASE.flatMap(d => d.name.match(/\(([A-Z0-9]+)\)/)?.[1] || []);
+const COMMON_CONDITION_NAMES = ['lupus', 'diabetes', 'anemia', 'anaemia', 'cancer', 'tumor', 'tumour'];
+// A condition named right after these is part of the user's history, not a suggestion ("diagnosed with type 2 diabetes or lupus")
+const MEDICAL_HISTORY_BEFORE = /\b(?:diagnosed (?:you )?with|diagnosis of|told (?:you )?(?:that )?you (?:have|had)|history of|treated for)\s+(?:(?:a|an|any|type [12])\s+)?(?:[\w-]+(?:,| or| and)\s+){0,3}$/;
+
+// Words that carry no meaning when comparing questions
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'any', 'your', 'you', 'do', 'does', 'did',
+  'have', 'has', 'had', 'been', 'is', 'are', 'was', 'were', 'be', 'it', 'this', 'that', 'these', 'there', 'how', 'what',
+  'when', 'which', 'if', 'ever', 'recently', 'experienced', 'experiencing', 'experience', 'noticed', 'notice', 'feel',
+  'feeling', 'felt', 'get', 'getting', 'often', 'much', 'very', 'scale', '1', '5', 'severe', 'please', 'can', 'could',
+]);
+
+const DUPLICATE_SIMILARITY = 0.75;
+
+/**
+ * What answer the wording invites, whatever type the question claims
+ */
+export function questionPhrasing(text: string): Phrasing {
+  const normalized = normalizeForMatching(text).trim().replace(/\s+/g, ' ');
+  if (SCALE_PHRASING.test(normalized)) return 'scale';
+  if (YES_NO_OPENING.test(normalized) && !REQUEST_FOR_DETAIL.test(normalized)) return 'yesno';
+  return 'open';
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    normalizeForMatching(text)
+      .split(/\s+/)
+      .map(word => word.replace(/'s$/, '').replace(/s$/, ''))
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * Word overlap of two questions (Jaccard over content words), 0-1
+ */
+export function questionSimilarity(a: string, b: string): number {
+  const wordsA = contentWords(a);
+  const wordsB = contentWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * The earlier question this one repeats: phrased the same way and either
+ * sharing most of its words or, for yes/no and scale questions, asking about
+ * the same symptoms ("Do you feel tired?" after "Do you have fatigue?"). A
+ * severity rating after a yes/no question about the same symptom is a follow-up,
+ * not a repeat.
+ */
+export function findNearDuplicate(text: string, previousQuestions: string[]): string | undefined {
+  const symptoms = findSymptomIds(text).sort().join('|');
+  const phrasing = questionPhrasing(text);
+
+  return previousQuestions.find(previous =>
+    phrasing === questionPhrasing(previous) &&
+    (questionSimilarity(text, previous) >= DUPLICATE_SIMILARITY ||
+      (phrasing !== 'open' && symptoms !== '' && symptoms === findSymptomIds(previous).sort().join('|')))
+  );
+}
+
+// Whether the condition name is mentioned somewhere other than as part of the user's history
+function suggestsCondition(text: string, pattern: RegExp): boolean {
+  return Array.from(text.matchAll(pattern)).some(match => !MEDICAL_HISTORY_BEFORE.test(text.slice(0, match.index).toLowerCase()));
+}
+
+/**
+ * The wording in a question that assigns the user a condition, if any
+ */
+export function findLeadingLanguage(text: string): string | undefined {
+  const lower = text.toLowerCase();
+  const phrase = LEADING_PHRASES.map(pattern => lower.match(pattern)?.[0]).find(Boolean);
+  if (phrase) return phrase;
+
+  const name = [...CONDITION_NAMES, ...COMMON_CONDITION_NAMES].find(n =>
+    suggestsCondition(lower, new RegExp(`\\b${n.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'g'))
+  );
+  return name || CONDITION_ABBREVIATIONS.find(abbreviation => suggestsCondition(text, new RegExp(`\\b${abbreviation}\\b`, 'g')));
+}
+
+function distinctOptions(options: string[] = []): string[] {
+  const seen = new Set<string>();
+  return options
+    .map(option => option.trim())
+    .filter(option => {
+      const key = option.toLowerCase();
+      if (!option || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function isYesNoChoice(options: string[]): boolean {
+  return options.length > 0 && options.every(option => YES_NO_OPTIONS.has(option.toLowerCase().trim()));
+}
+
+function phrasingMatches(type: GeneratedQuestionType, phrasing: Phrasing): boolean {
+  switch (type) {
+    case 'yesno':
+      return phrasing === 'yesno';
+    case 'scale':
+      return phrasing === 'scale';
+    case 'multiple':
+      return phrasing !== 'scale';
+    case 'text':
+      return phrasing === 'open';
+  }
+}
+
+function requiredTypeOf(context: QuestionValidationContext): GeneratedQuestionType | undefined {
+  return context.targetFinding ? 'yesno' : context.requiredType;
+}
+
+/**
+ * Everything wrong with a generated question (empty when it can be asked as is)
+ */
+export function findQuestionIssues(question: GeneratedQuestion, context: QuestionValidationContext): QuestionIssue[] {
+  const issues: QuestionIssue[] = [];
+  const options = question.options || [];
+  const phrasing = questionPhrasing(question.text);
+  const requiredType = requiredTypeOf(context);
+
+  if (question.type === 'multiple') {
+    if (distinctOptions(options).length < 2) {
+      issues.push({ code: 'missing-options', message: 'A multiple-choice question needs at least two distinct options' });
+    } else if (distinctOptions(options).length !== options.length) {
+      issues.push({ code: 'repeated-options', message: 'Options must be distinct and non-empty' });
+    }
+    if (isYesNoChoice(options)) {
+      issues.push({ code: 'type-mismatch', message: 'A multiple-choice question with only yes/no options is a yes/no question' });
+    }
+  } else if (options.length > 0) {
+    issues.push({ code: 'unexpected-options', message: `A "${question.type}" question takes no options` });
+  }
+
+  if (!phrasingMatches(question.type, phrasing)) {
+    issues.push({ code: 'type-mismatch', message: `A "${question.type}" question is phrased as ${phrasing === 'open' ? 'an open' : `a ${phrasing}`} question` });
+  }
+  if (requiredType && question.type !== requiredType) {
+    issues.push({ code: 'wrong-type', message: `The question must be of type "${requiredType}", not "${question.type}"` });
+  }
+
+  const duplicate = findNearDuplicate(question.text, context.previousQuestions);
+  if (duplicate) {
+    issues.push({ code: 'duplicate', message: `The question repeats an earlier one: "${duplicate}"` });
+  }
+
+  const leading = findLeadingLanguage(question.text);
+  if (leading) {
+    issues.push({ code: 'leading', message: `The question must not suggest a diagnosis ("${leading}")` });
+  }
+
+  return issues;
+}
+
+/**
+ * Fix what can be fixed without the model (options, a type that contradicts
+ * the phrasing, the target); undefined when the question has to be generated
+ * again
+ */
+export function repairQuestion(question: GeneratedQuestion, context: QuestionValidationContext): GeneratedQuestion | undefined {
+  const requiredType = requiredTypeOf(context);
+  const allowed = (type: GeneratedQuestionType) => !requiredType || requiredType === type;
+  const phrasing = questionPhrasing(question.text);
+  const repaired: GeneratedQuestion = { ...question, options: distinctOptions(question.options) };
+
+  // A yes/no question dressed up as another type
+  const yesNo =
+    (repaired.type === 'multiple' && (repaired.options!.length < 2 || isYesNoChoice(repaired.options!))) ||
+    repaired.type === 'text' ||
+    repaired.type === 'scale';
+  if (yesNo && phrasing === 'yesno' && allowed('yesno')) {
+    repaired.type = 'yesno';
+  } else if (repaired.type !== 'scale' && phrasing === 'scale' && allowed('scale')) {
+    repaired.type = 'scale';
+  } else if (repaired.type === 'scale' && phrasing !== 'scale') {
+    // Reword as a rating of the one symptom it asks about
+    const mentioned = findSymptomIds(repaired.text);
+    const symptom = (repaired.target && resolveSymptomId(repaired.target)) || (mentioned.length === 1 ? mentioned[0] : undefined);
+    if (symptom) repaired.text = `On a scale of 1-5, how severe is your ${getSymptomLabel(symptom).toLowerCase()}?`;
+  }
+
+  if (repaired.type !== 'multiple') delete repaired.options;
+  if (context.targetFinding) repaired.target = context.targetFinding;
+
+  return findQuestionIssues(repaired, context).length === 0 ? repaired : undefined;
+}
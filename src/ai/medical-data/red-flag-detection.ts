@@ -1,8 +1,13 @@
 /**
  * Red-Flag Detection Module
- * Detects red flags and applies multipliers to disease scores
+ * Detects red flags and applies multipliers to disease scores.
+ * The red-flag rules and the conditions each multiplier applies to live in
+ * the knowledge base (rules.json).
  */
 
+import { CLINICAL_RULES } from '@/knowledge-base';
+import { buildRuleContext, evaluateCondition } from './rule-engine';
+
 export interface RedFlag {
   name: string;
   detected: boolean;
@@ -19,14 +24,15 @@ export interface RedFlagMultipliers {
 }
 
 /**
- * Detect red flags from symptoms and answers
+ * Detect red flags from symptoms and answers, using the red-flag rules in the knowledge base
  */
 export function detectRedFlags(
   symptoms: string,
   answers: string[],
   profile?: { age?: string; gender?: string }
 ): { redFlags: RedFlag[]; multipliers: RedFlagMultipliers } {
-  const text = (symptoms + ' ' + answers.join(' ')).toLowerCase();
+  // Only symptoms the user reports as present count ("no night sweats" does not)
+  const context = buildRuleContext({ symptoms, answers, profile });
   const redFlags: RedFlag[] = [];
   
   const multipliers: RedFlagMultipliers = {
@@ -38,96 +44,38 @@ export function detectRedFlags(
     autoimmune_multiplier: 1.0,
   };
   
-  // Weight loss > 2kg in 2 months
-  if (text.includes('weight loss') || text.includes('lost weight')) {
-    const weightLossPatterns = [
-      /(?:lost|losing)\s+(\d+)\s*(?:kg|kilograms?|pounds?|lbs)/i,
-      /weight\s+loss\s+of\s+(\d+)\s*(?:kg|kilograms?|pounds?|lbs)/i,
-      /(\d+)\s*(?:kg|kilograms?|pounds?|lbs)\s+(?:weight\s+)?loss/i,
-    ];
-    
-    let weightLossAmount = 0;
-    for (const pattern of weightLossPatterns) {
-      const match = text.match(pattern);
-      if (match) {
-        const value = parseInt(match[1]);
-        // Convert pounds to kg if needed
-        if (text.includes('pound') || text.includes('lb')) {
-          weightLossAmount = value * 0.453592; // Convert to kg
-        } else {
-          weightLossAmount = value;
-        }
-        break;
-      }
-    }
+  // In file order, so later rules can depend on flags raised by earlier ones
+  CLINICAL_RULES.red_flags.forEach(rule => {
+    if (!evaluateCondition(rule.when, context)) return;
     
-    // If no specific amount, check for "significant" or "a lot"
-    if (weightLossAmount === 0 && 
-        (text.includes('significant weight loss') || 
-         text.includes('a lot of weight') ||
-         text.includes('unintentional weight loss'))) {
-      weightLossAmount = 3; // Assume significant if mentioned
+    if (rule.name) {
+      const severity = typeof rule.severity === 'object'
+        ? Math.min((context.measures[rule.severity.measure] || 0) / rule.severity.per, 1.0) // Cap at 1.0
+        : rule.severity ?? 1.0;
+      redFlags.push({ name: rule.name, detected: true, severity });
+      context.flags.add(rule.name);
     }
     
-    if (weightLossAmount >= 2) {
-      redFlags.push({
-        name: 'Significant Weight Loss',
-        detected: true,
-        severity: Math.min(weightLossAmount / 5, 1.0), // Cap at 1.0
-      });
-      multipliers.malignancy_multiplier += 1.5;
-    }
-  }
-  
-  // Night sweats
-  if (text.includes('night sweat') || text.includes('sweating at night') ||
-      text.includes('drenching sweat') || text.includes('soaked at night')) {
-    redFlags.push({
-      name: 'Night Sweats',
-      detected: true,
-      severity: 0.8,
+    Object.entries(rule.add_to_multipliers).forEach(([name, value]) => {
+      multipliers[name as keyof RedFlagMultipliers] += value;
     });
-    multipliers.malignancy_multiplier += 1.4;
-    multipliers.chronic_infection_multiplier += 1.4;
-  }
-  
-  // Neuro symptoms + visual changes
-  const hasNeuroSymptoms = text.includes('numbness') || text.includes('tingling') ||
-                          text.includes('weakness') || text.includes('balance problem');
-  const hasVisualChanges = text.includes('vision') || text.includes('blurred') ||
-                          text.includes('double vision') || text.includes('visual');
-  
-  if (hasNeuroSymptoms && hasVisualChanges) {
-    redFlags.push({
-      name: 'Neurological + Visual Symptoms',
-      detected: true,
-      severity: 0.9,
-    });
-    multipliers.MS_multiplier += 1.6;
-  }
-  
-  // Orthostatic dizziness
-  if (text.includes('orthostatic') || 
-      (text.includes('dizziness') && text.includes('standing')) ||
-      (text.includes('dizzy') && (text.includes('stand') || text.includes('up')))) {
-    redFlags.push({
-      name: 'Orthostatic Dizziness',
-      detected: true,
-      severity: 0.7,
-    });
-    multipliers.dysautonomia_multiplier += 1.4;
-    multipliers.adrenal_insufficiency_multiplier += 1.3;
-  }
-  
-  // Orthostatic dizziness + numbness
-  if (redFlags.some(rf => rf.name === 'Orthostatic Dizziness') && hasNeuroSymptoms) {
-    multipliers.dysautonomia_multiplier += 0.3; // Additional boost
-    multipliers.adrenal_insufficiency_multiplier += 0.2;
-  }
+  });
   
   return { redFlags, multipliers };
 }
 
+/**
+ * Red-flag multipliers that apply to a disease, by RedFlagMultipliers field
+ */
+export function getApplicableRedFlagMultipliers(
+  diseaseName: string,
+  multipliers: RedFlagMultipliers
+): Array<{ name: keyof RedFlagMultipliers; value: number }> {
+  return (Object.keys(multipliers) as Array<keyof RedFlagMultipliers>)
+    .filter(name => CLINICAL_RULES.red_flag_multipliers[name]?.includes(diseaseName))
+    .map(name => ({ name, value: multipliers[name] }));
+}
+
 /**
  * Apply red flag multipliers to disease scores
  */
@@ -135,42 +83,6 @@ export function applyRedFlagMultipliers(
   diseaseName: string,
   multipliers: RedFlagMultipliers
 ): number {
-  let multiplier = 1.0;
-  
-  // Malignancy diseases
-  if (diseaseName.includes('Lymphoma') || diseaseName.includes('Cancer')) {
-    multiplier *= multipliers.malignancy_multiplier;
-  }
-  
-  // Chronic infection diseases
-  if (diseaseName.includes('EBV') || diseaseName.includes('CMV') || 
-      diseaseName.includes('Tuberculosis') || diseaseName.includes('TB') ||
-      diseaseName.includes('Chronic Infection')) {
-    multiplier *= multipliers.chronic_infection_multiplier;
-  }
-  
-  // MS
-  if (diseaseName.includes('Multiple Sclerosis') || diseaseName.includes('MS')) {
-    multiplier *= multipliers.MS_multiplier;
-  }
-  
-  // Autonomic dysfunction
-  if (diseaseName.includes('POTS') || diseaseName.includes('Autonomic Dysfunction')) {
-    multiplier *= multipliers.dysautonomia_multiplier;
-  }
-  
-  // Adrenal insufficiency
-  if (diseaseName.includes('Adrenal Insufficiency')) {
-    multiplier *= multipliers.adrenal_insufficiency_multiplier;
-  }
-  
-  // Autoimmune diseases
-  if (diseaseName.includes('Lupus') || diseaseName.includes('Rheumatoid') ||
-      diseaseName.includes('Still') || diseaseName.includes('Sjögren') ||
-      diseaseName.includes('Vasculitis') || diseaseName.includes('Sarcoidosis')) {
-    multiplier *= multipliers.autoimmune_multiplier;
-  }
-  
-  return multiplier;
+  return getApplicableRedFlagMultipliers(diseaseName, multipliers)
+    .reduce((multiplier, m) => multiplier * m.value, 1.0);
 }
-
@@ -0,0 +1,127 @@
+/**
+ * Rule Engine
+ * Evaluates the declarative clinical rules in the knowledge base (rules.json)
+ * against what the user reported. Rules are data; this module is the only
+ * place that knows what a condition such as { "finding": "fever" } means.
+ */
+
+import { CLINICAL_RULES, MEASURES, RuleCondition, RuleRange } from '@/knowledge-base';
+import { Finding, extractFindings, getPresentSymptoms } from './finding-extraction';
+import { extractAllMeasurements, getHighestValue, getWeightLossKg } from './measurement-extraction';
+
+export type Measure = (typeof MEASURES)[number];
+
+export interface RuleContext {
+  present: Set<string>; // Symptom IDs reported as present
+  text: string; // Everything the user wrote, lowercased
+  profile?: { age?: string; gender?: string };
+  timeCourse?: { duration_days?: number; pattern?: string };
+  measures: Partial<Record<Measure, number>>;
+  flags: Set<string>; // Names of red flags raised so far
+}
+
+export interface RuleContextInput {
+  symptoms: string;
+  answers?: string[];
+  findings?: Finding[]; // Defaults to the findings extracted from symptoms and answers
+  profile?: { age?: string; gender?: string };
+  timeCourse?: { duration_days?: number; pattern?: string };
+  flags?: Iterable<string>;
+}
+
+// Emphatic mentions without an amount count as significant weight loss
+const SIGNIFICANT_WEIGHT_LOSS = ['significant weight loss', 'a lot of weight', 'unintentional weight loss'];
+const ASSUMED_WEIGHT_LOSS_KG = 3;
+
+function extractMeasures(symptoms: string, answers: string[], text: string): RuleContext['measures'] {
+  const measurements = extractAllMeasurements(symptoms, answers);
+  const bloodPressures = measurements.filter(m => m.kind === 'blood_pressure');
+
+  return {
+    weight_loss_kg: getWeightLossKg(measurements) ??
+      (SIGNIFICANT_WEIGHT_LOSS.some(phrase => text.includes(phrase)) ? ASSUMED_WEIGHT_LOSS_KG : undefined),
+    temperature_c: getHighestValue(measurements, 'temperature'),
+    heart_rate_bpm: getHighestValue(measurements, 'heart_rate'),
+    systolic_bp_mmhg: getHighestValue(measurements, 'blood_pressure'),
+    diastolic_bp_mmhg: bloodPressures.length > 0 ? Math.max(...bloodPressures.map(m => m.diastolic!)) : undefined,
+  };
+}
+
+export function buildRuleContext(input: RuleContextInput): RuleContext {
+  const answers = input.answers || [];
+  const text = (input.symptoms + ' ' + answers.join(' ')).toLowerCase();
+  const findings = input.findings || extractFindings(input.symptoms, answers);
+
+  return {
+    present: getPresentSymptoms(findings),
+    text,
+    profile: input.profile,
+    timeCourse: input.timeCourse,
+    measures: extractMeasures(input.symptoms, answers, text),
+    flags: new Set(input.flags || []),
+  };
+}
+
+/**
+ * Whether a value lies in the range; an unknown value never does
+ */
+export function inRange(value: number | undefined, range: RuleRange): boolean {
+  if (value === undefined || isNaN(value)) return false;
+  if (range.gt !== undefined && !(value > range.gt)) return false;
+  if (range.gte !== undefined && !(value >= range.gte)) return false;
+  if (range.lt !== undefined && !(value < range.lt)) return false;
+  if (range.lte !== undefined && !(value <= range.lte)) return false;
+  return true;
+}
+
+const regexCache = new Map<string, RegExp>();
+
+function compile(source: string): RegExp {
+  let regex = regexCache.get(source);
+  if (!regex) {
+    regex = new RegExp(source, 'i');
+    regexCache.set(source, regex);
+  }
+  return regex;
+}
+
+/**
+ * Evaluate a rule condition against the context
+ */
+export function evaluateCondition(
+  condition: RuleCondition,
+  context: RuleContext,
+  definitions: Record<string, RuleCondition> = CLINICAL_RULES.definitions
+): boolean {
+  const evaluate = (c: RuleCondition) => evaluateCondition(c, context, definitions);
+
+  if ('all' in condition) return condition.all.every(evaluate);
+  if ('any' in condition) return condition.any.some(evaluate);
+  if ('not' in condition) return !evaluate(condition.not);
+  if ('ref' in condition) {
+    const definition = definitions[condition.ref];
+    if (!definition) {
+      throw new Error(`Unknown rule definition: ${condition.ref}`);
+    }
+    return evaluate(definition);
+  }
+  if ('finding' in condition) return [condition.finding].flat().some(id => context.present.has(id));
+  if ('text' in condition) return condition.text.some(phrase => context.text.includes(phrase.toLowerCase()));
+  if ('regex' in condition) return compile(condition.regex).test(context.text);
+  if ('flag' in condition) return context.flags.has(condition.flag);
+  if ('any_flag' in condition) return context.flags.size > 0;
+  if ('age' in condition) return inRange(parseInt(context.profile?.age || ''), condition.age);
+  if ('sex' in condition) return context.profile?.gender?.toLowerCase() === condition.sex;
+  if ('duration_days' in condition) return inRange(context.timeCourse?.duration_days, condition.duration_days);
+  if ('time_pattern' in condition) {
+    return condition.time_pattern.some(pattern => pattern === context.timeCourse?.pattern);
+  }
+  return inRange(context.measures[condition.measure], condition);
+}
+
+/**
+ * Rules whose `when` condition holds, in file order
+ */
+export function matchingRules<R extends { when: RuleCondition }>(rules: R[], context: RuleContext): R[] {
+  return rules.filter(rule => evaluateCondition(rule.when, context));
+}
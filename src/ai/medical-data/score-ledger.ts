@@ -0,0 +1,68 @@
+/**
+ * Score Ledger
+ * Machine-readable trace of how a condition's score was built: every
+ * contribution, multiplier and normalization step, in the order applied.
+ * Scores are computed through `applyLedgerStep`, so the ledger cannot drift
+ * from the number it explains.
+ */
+
+export const LEDGER_STEP_KINDS = [
+  'symptom', // Reported symptom matched to the condition
+  'answer_evidence', // Questionnaire answer confirming or excluding a finding
+  'system_overlap', // Body-system overlap
+  'multi_system_bonus', // Extra weight when >= 3 systems are involved
+  'time_course', // DiseaseScoreAdjustment from applyTimeCourseLogic
+  'pattern', // Pattern multipliers from applyPatternMultipliers
+  'demographic', // Age compatibility
+  'red_flag', // RedFlagMultipliers from applyRedFlagMultipliers
+  'priority_boost', // Condition filtering rules
+  'prior', // Bayesian base-rate prior
+  'likelihood_ratio', // Bayesian update for one finding
+  'normalization', // Final conversion to a 0-100 score
+] as const;
+
+export type LedgerStepKind = (typeof LEDGER_STEP_KINDS)[number];
+
+export interface LedgerEntry {
+  step: LedgerStepKind;
+  label: string;
+  operation: 'add' | 'multiply' | 'set';
+  value: number; // Points added, factor applied, or value set
+  score_after: number; // Running score after this step
+  factor?: number; // Underlying multiplier behind an additive layer
+  detail?: string;
+}
+
+/**
+ * Apply one step to a running score and record it
+ */
+export function applyLedgerStep(
+  ledger: LedgerEntry[],
+  score: number,
+  step: Omit<LedgerEntry, 'score_after'>
+): number {
+  let next: number;
+  if (step.operation === 'add') {
+    next = score + step.value;
+  } else if (step.operation === 'multiply') {
+    next = score * step.value;
+  } else {
+    next = step.value;
+  }
+
+  ledger.push({ ...step, score_after: next });
+  return next;
+}
+
+/**
+ * One-line human-readable description of a ledger entry
+ */
+export function describeLedgerEntry(entry: LedgerEntry): string {
+  const value = entry.operation === 'multiply'
+    ? `×${entry.value.toFixed(2)}`
+    : entry.operation === 'set'
+      ? `= ${entry.value.toFixed(2)}`
+      : `${entry.value >= 0 ? '+' : ''}${entry.value.toFixed(3)}`;
+
+  return `${entry.label}: ${value}${entry.detail ? ` (${entry.detail})` : ''}`;
+}
@@ -0,0 +1,174 @@
+/**
+ * Structured Answers
+ * Each questionnaire question records the finding it probes (a canonical
+ * symptom ID) and each answer is stored as a typed value, so scoring can read
+ * "No" to "Do you have numbness?" as evidence against numbness instead of
+ * re-parsing flattened "Q1: ... Answer: ..." text.
+ */
+
+import { z } from 'zod';
+import { QUESTION_BANK, findSymptomIds, getSymptomLabel, resolveSymptomId } from '@/knowledge-base';
+import { Finding, findingsFromText } from './finding-extraction';
+import { SymptomTimelineEntry, SymptomTimelineEntrySchema, formatTimelineEntry } from './symptom-timeline';
+
+export const QUESTION_TYPES = ['yesno', 'multiple', 'text', 'scale', 'timeline'] as const;
+
+export const QuestionOptionSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  target: z.string().optional(), // Finding this option confirms, if any
+});
+
+export const QuestionSchema = z.object({
+  id: z.number(),
+  text: z.string().min(1),
+  type: z.enum(QUESTION_TYPES),
+  options: z.array(QuestionOptionSchema).optional(),
+  target: z.string().optional(), // Canonical symptom ID the question probes
+});
+
+export const AnswerValueSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('boolean'), value: z.boolean() }),
+  z.object({ kind: z.literal('option'), optionId: z.string() }),
+  z.object({ kind: z.literal('scale'), value: z.number().int().min(1).max(5) }), // 1 = mild, 5 = severe
+  z.object({ kind: z.literal('text'), value: z.string() }),
+  z.object({ kind: z.literal('timeline'), entries: z.array(SymptomTimelineEntrySchema) }),
+]);
+
+export const AnsweredQuestionSchema = z.object({
+  question: QuestionSchema,
+  answer: AnswerValueSchema,
+});
+
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+export type QuestionOption = z.infer<typeof QuestionOptionSchema>;
+export type Question = z.infer<typeof QuestionSchema>;
+export type AnswerValue = z.infer<typeof AnswerValueSchema>;
+export type AnsweredQuestion = z.infer<typeof AnsweredQuestionSchema>;
+
+/**
+ * Build a question from generator output (plain option labels, optional target).
+ * The target falls back to the symptom the question text names, when it names exactly one.
+ */
+export function buildQuestion(
+  id: number,
+  raw: { text: string; type: QuestionType; options?: string[]; target?: string }
+): Question {
+  const mentioned = findSymptomIds(raw.text);
+  const target = (raw.target && resolveSymptomId(raw.target)) ||
+                 (mentioned.length === 1 ? mentioned[0] : undefined);
+
+  return {
+    id,
+    text: raw.text,
+    type: raw.type,
+    target,
+    options: raw.options?.map((label, index) => ({
+      id: `option-${index + 1}`,
+      label,
+      target: resolveSymptomId(label),
+    })),
+  };
+}
+
+/**
+ * A timeline question over the given symptoms; each option is one symptom to date
+ */
+export function buildTimelineQuestion(id: number, symptoms: string[]): Question {
+  return {
+    id,
+    text: QUESTION_BANK.timeline.text,
+    type: 'timeline',
+    options: symptoms.map((symptom, index) => ({
+      id: `symptom-${index + 1}`,
+      label: getSymptomLabel(symptom),
+      target: symptom,
+    })),
+  };
+}
+
+/**
+ * Human-readable answer text ("Yes", the option label, "4/5", ...)
+ */
+export function formatAnswer(question: Question, answer: AnswerValue | undefined): string {
+  if (!answer) return 'Not answered';
+
+  switch (answer.kind) {
+    case 'boolean':
+      return answer.value ? 'Yes' : 'No';
+    case 'option':
+      return question.options?.find(o => o.id === answer.optionId)?.label || answer.optionId;
+    case 'scale':
+      return `${answer.value}`;
+    case 'text':
+      return answer.value;
+    case 'timeline':
+      return answer.entries.map(formatTimelineEntry).join('; ') || 'No dates given';
+  }
+}
+
+/**
+ * Flatten answered questions into the "Q1: ...\nAnswer: ..." text the LLM prompts use
+ */
+export function formatQuestionnaire(questions: Question[], answers: AnswerValue[]): string[] {
+  return questions.map((q, index) => `Q${index + 1}: ${q.text}\nAnswer: ${formatAnswer(q, answers[index])}`);
+}
+
+/**
+ * Pair questions with their answers, skipping unanswered questions
+ */
+export function pairAnswers(questions: Question[], answers: AnswerValue[]): AnsweredQuestion[] {
+  return questions
+    .map((question, index) => ({ question, answer: answers[index] }))
+    .filter((pair): pair is AnsweredQuestion => pair.answer !== undefined);
+}
+
+/**
+ * Findings confirmed or excluded by one typed answer
+ */
+export function answerToFindings({ question, answer }: AnsweredQuestion): Finding[] {
+  const targetFinding = (status: Finding['status'], severity?: number): Finding[] =>
+    question.target
+      ? [{ symptom: question.target, status, source: 'answer', evidence: question.text, severity }]
+      : [];
+
+  switch (answer.kind) {
+    case 'boolean':
+      return targetFinding(answer.value ? 'present' : 'absent');
+    case 'scale':
+      // A severity rating implies the symptom is there
+      return targetFinding('present', answer.value);
+    case 'option': {
+      const option = question.options?.find(o => o.id === answer.optionId);
+      if (!option) return [];
+      if (option.target) {
+        return [{ symptom: option.target, status: 'present', source: 'answer', evidence: option.label }];
+      }
+      return findingsFromText(option.label, 'answer');
+    }
+    case 'text':
+      return findingsFromText(answer.value, 'answer');
+    case 'timeline':
+      // Dating a symptom confirms it
+      return answer.entries.map(entry => ({
+        symptom: entry.symptom,
+        status: 'present' as const,
+        source: 'answer' as const,
+        evidence: question.text,
+      }));
+  }
+}
+
+/**
+ * Findings from every answered question, in question order
+ */
+export function findingsFromAnswers(answered: AnsweredQuestion[]): Finding[] {
+  return answered.flatMap(answerToFindings);
+}
+
+/**
+ * Timeline entries from every answered timeline question, in question order
+ */
+export function timelineFromAnswers(answered: AnsweredQuestion[]): SymptomTimelineEntry[] {
+  return answered.flatMap(({ answer }) => (answer.kind === 'timeline' ? answer.entries : []));
+}
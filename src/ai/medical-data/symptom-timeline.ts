@@ -0,0 +1,167 @@
+/**
+ * Symptom Timeline
+ * When each symptom started and how it has behaved since: onset date,
+ * frequency, number of episodes and trend. Filled from timeline answers, or
+ * from free text when a duration is written next to the symptom it belongs to
+ * ("headache for 3 days, fatigue for 2 months"). Symptoms with no stated
+ * timing are left out rather than given a guessed onset.
+ */
+
+import { z } from 'zod';
+import { findSymptomIds, getSymptomLabel } from '@/knowledge-base';
+import { extractFindings, getPresentSymptoms, parseQuestionAnswerPairs } from './finding-extraction';
+import { extractMeasurements, getDurationDays, splitClauses } from './measurement-extraction';
+
+export const TIMELINE_FREQUENCIES = ['constant', 'daily', 'weekly', 'occasional'] as const;
+
+export const TIMELINE_TRENDS = ['improving', 'stable', 'worsening', 'fluctuating'] as const;
+
+export const SymptomTimelineEntrySchema = z.object({
+  symptom: z.string().min(1), // Canonical symptom ID
+  onset: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'onset must be a YYYY-MM-DD date').optional(),
+  frequency: z.enum(TIMELINE_FREQUENCIES).optional(),
+  episodes: z.number().int().min(1).optional(), // For symptoms that come and go
+  trend: z.enum(TIMELINE_TRENDS).optional(),
+});
+
+export type TimelineFrequency = (typeof TIMELINE_FREQUENCIES)[number];
+export type TimelineTrend = (typeof TIMELINE_TRENDS)[number];
+export type SymptomTimelineEntry = z.infer<typeof SymptomTimelineEntrySchema>;
+
+const DAY_MS = 86400000;
+
+const TREND_PATTERNS: Array<[TimelineTrend, RegExp]> = [
+  ['fluctuating', /\b(?:comes and goes|come and go|on and off|off and on|waxing|waning|episodic|relapsing)\b/i],
+  ['worsening', /\b(?:getting worse|worse|worsening|progressive|progressing|increasing)\b/i],
+  ['improving', /\b(?:getting better|better|improving|easing)\b/i],
+];
+
+const FREQUENCY_PATTERNS: Array<[TimelineFrequency, RegExp]> = [
+  ['constant', /\b(?:constant(?:ly)?|all the time|continuous(?:ly)?|non-stop)\b/i],
+  ['daily', /\b(?:daily|every day|each day)\b/i],
+  ['weekly', /\b(?:weekly|every week|each week)\b/i],
+  ['occasional', /\b(?:occasional(?:ly)?|sometimes|now and then|once in a while)\b/i],
+];
+
+const EPISODES_PATTERN = /\b(\d+)\s+(?:episodes|attacks|flares|flare-ups)\b/i;
+
+// An onset as formatTimelineEntry writes it ("Numbness: started 2026-09-01")
+const STARTED_PATTERN = /\bstarted (\d{4}-\d{2}-\d{2})\b/i;
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export function toIsoDate(date: Date): string {
+  const pad = (n: number) => `${n}`.padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function onsetDaysAgo(days: number, now: Date): string {
+  return toIsoDate(new Date(now.getTime() - Math.round(days) * DAY_MS));
+}
+
+/**
+ * Days from the symptom's onset to now, if its onset is known
+ */
+export function daysSinceOnset(entry: SymptomTimelineEntry, now: Date = new Date()): number | undefined {
+  if (!entry.onset) return undefined;
+  const [year, month, day] = entry.onset.split('-').map(Number);
+  return Math.max(0, Math.round((now.getTime() - new Date(year, month - 1, day).getTime()) / DAY_MS));
+}
+
+/**
+ * The course a symptom's own history suggests: worsening is progressive,
+ * fluctuating or repeated episodes are relapsing
+ */
+export function timelinePattern(entry: SymptomTimelineEntry): 'progressive' | 'relapsing' | undefined {
+  if (entry.trend === 'worsening') return 'progressive';
+  if (entry.trend === 'fluctuating' || (entry.episodes || 0) > 1) return 'relapsing';
+  return undefined;
+}
+
+/**
+ * Merge timelines per symptom; later timelines override earlier ones field by field
+ */
+export function mergeTimelines(...timelines: SymptomTimelineEntry[][]): SymptomTimelineEntry[] {
+  const merged = new Map<string, SymptomTimelineEntry>();
+  timelines.flat().forEach(entry => {
+    const defined = Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined));
+    merged.set(entry.symptom, { ...merged.get(entry.symptom), ...defined } as SymptomTimelineEntry);
+  });
+  return Array.from(merged.values());
+}
+
+function describeClause(clause: string): Omit<SymptomTimelineEntry, 'symptom' | 'onset'> {
+  const episodes = clause.match(EPISODES_PATTERN);
+  return {
+    trend: TREND_PATTERNS.find(([, pattern]) => pattern.test(clause))?.[0],
+    frequency: FREQUENCY_PATTERNS.find(([, pattern]) => pattern.test(clause))?.[0],
+    episodes: episodes ? parseInt(episodes[1]) : undefined,
+  };
+}
+
+/**
+ * Timeline from free-text symptoms and "Q1: ...\nAnswer: ..." answers, including
+ * timeline answers in their formatted form. A duration belongs to the symptoms named in its clause (or in the question it
+ * answers); a duration given on its own applies to every symptom not otherwise dated.
+ */
+export function timelineFromText(symptoms: string, answers: string[], now: Date = new Date()): SymptomTimelineEntry[] {
+  const present = getPresentSymptoms(extractFindings(symptoms, answers));
+  const passages: Array<{ text: string; question?: string }> = [{ text: symptoms }];
+  answers.forEach(answerText => {
+    const pairs = parseQuestionAnswerPairs(answerText);
+    if (pairs.length === 0) {
+      passages.push({ text: answerText });
+      return;
+    }
+    pairs.forEach(pair => passages.push({ text: pair.answer, question: pair.question }));
+  });
+
+  const onsetDays = new Map<string, number>();
+  const details: SymptomTimelineEntry[] = [];
+  let generalDays: number | undefined;
+
+  passages.forEach(({ text, question }) => {
+    splitClauses(text).forEach(clause => {
+      const mentioned = [...findSymptomIds(clause), ...(question ? findSymptomIds(question) : [])];
+      const named = mentioned.filter(id => present.has(id));
+      const started = clause.match(STARTED_PATTERN)?.[1];
+      const days = started
+        ? daysSinceOnset({ symptom: '', onset: started }, now)
+        : getDurationDays(extractMeasurements(clause, now));
+
+      // "no fever for 3 days" dates nothing: its duration belongs to the denied fever
+      if (mentioned.length === 0) {
+        if (days !== undefined) generalDays = Math.max(generalDays ?? 0, days);
+        return;
+      }
+      new Set(named).forEach(symptom => {
+        if (days !== undefined) onsetDays.set(symptom, Math.max(onsetDays.get(symptom) ?? 0, days));
+        details.push({ symptom, ...describeClause(clause) });
+      });
+    });
+  });
+
+  if (generalDays !== undefined) {
+    present.forEach(symptom => {
+      if (!onsetDays.has(symptom)) onsetDays.set(symptom, generalDays!);
+    });
+  }
+
+  const onsets = Array.from(onsetDays.entries()).map(([symptom, days]) => ({ symptom, onset: onsetDaysAgo(days, now) }));
+  return mergeTimelines(onsets, details)
+    .filter(entry => entry.onset || entry.frequency || entry.episodes || entry.trend);
+}
+
+/**
+ * One line per entry, e.g. "Numbness: started 2026-09-01, daily, worsening"
+ */
+export function formatTimelineEntry(entry: SymptomTimelineEntry): string {
+  const details = [
+    entry.onset ? `started ${entry.onset}` : undefined,
+    entry.frequency,
+    entry.episodes ? `${entry.episodes} episodes` : undefined,
+    entry.trend,
+  ].filter(Boolean);
+  return `${getSymptomLabel(entry.symptom)}: ${details.join(', ') || 'no details'}`;
+}
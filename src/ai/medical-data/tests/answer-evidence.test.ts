@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { DISEASE_DATABASE, getDiseaseRelevance, getSymptomScore } from '@/knowledge-base';
+import { Finding } from '../finding-extraction';
+import { NEGATIVE_EVIDENCE_WEIGHT, getAnswerEvidence, getConfirmedAnswerSymptoms, scoreAnswerEvidence } from '../answer-evidence';
+
+const lymphoma = DISEASE_DATABASE.find(d => d.name === 'Lymphoma')!;
+const contribution = (symptom: string) => getDiseaseRelevance(lymphoma, symptom) * getSymptomScore(symptom);
+
+function finding(symptom: string, status: Finding['status'], severity?: number): Finding {
+  return { symptom, status, source: 'answer', evidence: `Do you have ${symptom}?`, severity };
+}
+
+describe('getAnswerEvidence', () => {
+  it.each<[string, Finding[], string[], number]>([
+    ['confirmed new finding', [finding('night sweats', 'present')], [], contribution('night sweats')],
+    ['excluded finding', [finding('night sweats', 'absent')], [], -contribution('night sweats') * NEGATIVE_EVIDENCE_WEIGHT],
+    ['severity of a reported symptom', [finding('fever', 'present', 5)], ['fever'], contribution('fever') * 0.4],
+    ['mild severity of a new finding', [finding('fever', 'present', 1)], [], contribution('fever') * 0.6],
+    ['confirmation of a reported symptom', [finding('fever', 'present')], ['fever'], 0],
+    ['uncertain finding', [finding('fever', 'uncertain')], [], 0],
+    ['irrelevant finding', [finding('dry eyes', 'present')], [], 0],
+    ['last answer wins', [finding('fever', 'present'), finding('fever', 'absent')], [], -contribution('fever') * NEGATIVE_EVIDENCE_WEIGHT],
+  ])('%s', (_, findings, reported, expected) => {
+    expect(scoreAnswerEvidence(lymphoma, findings, new Set(reported))).toBeCloseTo(expected);
+  });
+
+  it('returns one item per symptom with a non-zero adjustment', () => {
+    const items = getAnswerEvidence(
+      lymphoma,
+      [finding('night sweats', 'present'), finding('fever', 'absent'), finding('dry eyes', 'present')],
+      new Set()
+    );
+    expect(items.map(i => [i.symptom, Math.sign(i.amount)])).toEqual([['night sweats', 1], ['fever', -1]]);
+  });
+});
+
+describe('getConfirmedAnswerSymptoms', () => {
+  it('lists symptoms the answers confirm that were not reported', () => {
+    const findings = [
+      finding('night sweats', 'present'),
+      finding('fever', 'present'),
+      finding('itching', 'uncertain'),
+      finding('weight loss', 'present'),
+      finding('weight loss', 'absent'),
+    ];
+    expect(getConfirmedAnswerSymptoms(findings, new Set(['fever']))).toEqual(['night sweats']);
+  });
+});
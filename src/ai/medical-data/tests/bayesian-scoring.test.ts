@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { DISEASE_DATABASE, SYMPTOM_BACKGROUND_RATES } from '@/knowledge-base';
+import { extractFindings } from '../finding-extraction';
+import { LedgerEntry } from '../score-ledger';
+import { calculatePosteriors, getFindingProbability, getLikelihoodRatio, getPriorProbability } from '../bayesian-scoring';
+
+const byName = (name: string) => DISEASE_DATABASE.find(d => d.name === name)!;
+
+describe('getPriorProbability', () => {
+  const lupus = byName('Systemic Lupus Erythematosus (SLE)');
+
+  it('is stratified by sex', () => {
+    expect(getPriorProbability(lupus, { gender: 'female' })).toBeGreaterThan(getPriorProbability(lupus, { gender: 'male' }));
+  });
+
+  it('is stratified by age band', () => {
+    const diabetes = byName('Diabetes Mellitus Type 2');
+    expect(getPriorProbability(diabetes, { age: '70' })).toBeGreaterThan(getPriorProbability(diabetes, { age: '10' }));
+  });
+
+  it('falls back to the base rate for an unknown profile', () => {
+    expect(getPriorProbability(lupus)).toBe(getPriorProbability(lupus, { age: 'unknown', gender: 'other' }));
+  });
+
+  it('throws for a condition without a prior', () => {
+    expect(() => getPriorProbability({ ...lupus, name: 'Unknown Condition' })).toThrow('No prior for condition');
+  });
+});
+
+describe('getLikelihoodRatio', () => {
+  const lymphoma = byName('Lymphoma');
+
+  it.each([
+    ['night sweats', true, (lr: number) => lr > 1],
+    ['night sweats', false, (lr: number) => lr < 1],
+    ['dry eyes', true, (lr: number) => lr === 1],
+    ['dry eyes', false, (lr: number) => lr === 1],
+  ])('%s present=%s', (symptom, present, check) => {
+    expect(check(getLikelihoodRatio(lymphoma, symptom, present))).toBe(true);
+  });
+});
+
+describe('getFindingProbability', () => {
+  const lymphoma = byName('Lymphoma');
+
+  it.each([
+    ['night sweats', lymphoma.symptom_relevance_map['night sweats']], // Listed: its sensitivity
+    ['dry eyes', SYMPTOM_BACKGROUND_RATES['dry eyes']], // Unlisted: the background rate
+  ])('%s -> %s', (symptom, probability) => {
+    expect(getFindingProbability(lymphoma, symptom)).toBeCloseTo(probability);
+  });
+});
+
+describe('calculatePosteriors', () => {
+  it('only returns conditions supported by a present finding', () => {
+    const posteriors = calculatePosteriors(extractFindings('dry eyes, dry mouth', []));
+    expect(posteriors.has("Sjögren's Syndrome")).toBe(true);
+    expect(posteriors.has('Lymphoma')).toBe(false);
+    posteriors.forEach(p => {
+      expect(p).toBeGreaterThan(0);
+      expect(p).toBeLessThan(1);
+    });
+  });
+
+  it('returns every condition when asked to include unsupported ones', () => {
+    const posteriors = calculatePosteriors(extractFindings('dry eyes, dry mouth', []), undefined, new Map(), { includeUnsupported: true });
+    expect(posteriors.size).toBe(DISEASE_DATABASE.length);
+    expect(posteriors.get('Lymphoma')).toBeCloseTo(getPriorProbability(byName('Lymphoma')), 3);
+  });
+
+  it('lowers a posterior when a finding is ruled out', () => {
+    const withSweats = calculatePosteriors(extractFindings('swollen glands, night sweats', []));
+    const without = calculatePosteriors(extractFindings('swollen glands, no night sweats', []));
+    expect(without.get('Lymphoma')!).toBeLessThan(withSweats.get('Lymphoma')!);
+  });
+
+  it('ignores uncertain findings', () => {
+    const base = calculatePosteriors(extractFindings('swollen glands', []));
+    const hedged = calculatePosteriors(
+      extractFindings('swollen glands', ['Q1: Do you have night sweats?\nAnswer: Not sure'])
+    );
+    expect(hedged.get('Lymphoma')).toBeCloseTo(base.get('Lymphoma')!);
+  });
+
+  it('records a ledger whose final odds give the posterior', () => {
+    const ledgers = new Map<string, LedgerEntry[]>();
+    const posteriors = calculatePosteriors(extractFindings('swollen glands, night sweats', []), undefined, ledgers);
+    posteriors.forEach((p, name) => {
+      const ledger = ledgers.get(name)!;
+      expect(ledger[0].step).toBe('prior');
+      const odds = ledger[ledger.length - 1].score_after;
+      expect(odds / (1 + odds)).toBeCloseTo(p);
+    });
+  });
+});
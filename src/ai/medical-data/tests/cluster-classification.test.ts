@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ClusterScore, classifySymptomClusters, getDominantClusters } from '../cluster-classification';
+
+function scoreOf(scores: ClusterScore[], cluster: ClusterScore['cluster']): number {
+  return scores.find(s => s.cluster === cluster)?.score ?? NaN;
+}
+
+describe('classifySymptomClusters', () => {
+  it.each([
+    [['joint pain', 'rash'], 'autoimmune', 1.0],
+    [['numbness', 'tingling'], 'neurologic', 1.0],
+    [['night sweats'], 'infectious', 0.25],
+    [['fever'], 'infectious', 0.5 / 3],
+    [['no fever'], 'infectious', 0],
+    [['something unusual'], 'metabolic/nutritional', 0.5],
+  ] as const)('%j scores %s at %d', (symptoms, cluster, expected) => {
+    expect(scoreOf(classifySymptomClusters([...symptoms], new Map()), cluster)).toBeCloseTo(expected);
+  });
+
+  it('uses the provided symptom weights', () => {
+    const scores = classifySymptomClusters(['Numbness'], new Map([['numbness', 0.9]]));
+    expect(scoreOf(scores, 'neurologic')).toBeCloseTo(0.9);
+  });
+
+  it('returns every cluster, highest score first', () => {
+    const scores = classifySymptomClusters(['joint pain', 'rash', 'numbness'], new Map());
+    expect(scores).toHaveLength(7);
+    expect(scores[0].cluster).toBe('autoimmune');
+    scores.slice(1).forEach((s, i) => expect(s.score).toBeLessThanOrEqual(scores[i].score));
+  });
+});
+
+describe('getDominantClusters', () => {
+  it.each<[ClusterScore[], string[]]>([
+    [[], ['metabolic/nutritional']],
+    [[{ cluster: 'autoimmune', score: 0 }, { cluster: 'endocrine', score: 0 }], ['metabolic/nutritional']],
+    [[{ cluster: 'autoimmune', score: 3 }, { cluster: 'endocrine', score: 1 }], ['autoimmune']],
+    [
+      [{ cluster: 'autoimmune', score: 1 }, { cluster: 'endocrine', score: 1 }, { cluster: 'neurologic', score: 1 }],
+      ['autoimmune', 'endocrine'],
+    ],
+  ])('%j -> %j', (scores, expected) => {
+    expect(getDominantClusters(scores)).toEqual(expected);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { extractSymptomsList, runDeterministicAnalysis } from '../deterministic-analysis';
+import { AnsweredQuestion, buildTimelineQuestion, formatQuestionnaire } from '../structured-answers';
+import { daysSinceOnset } from '../symptom-timeline';
+
+describe('extractSymptomsList', () => {
+  it.each([
+    ['fever, cough; rash', ['fever', 'cough', 'rash']],
+    ['fever\nno cough', ['fever']],
+    [' , ', []],
+  ])('%j -> %j', (text, expected) => {
+    expect(extractSymptomsList(text)).toEqual(expected);
+  });
+});
+
+describe('runDeterministicAnalysis', () => {
+  it('throws when no symptoms are reported', () => {
+    expect(() => runDeterministicAnalysis({ symptoms: 'no fever', questionnaireAnswers: '' })).toThrow('No symptoms detected');
+  });
+
+  it.each(['heuristic', 'bayesian'] as const)('%s: conditions are sorted and explained by their ledger', engine => {
+    const analysis = runDeterministicAnalysis({
+      symptoms: 'weight loss, night sweats, swollen glands',
+      questionnaireAnswers: '',
+      engine,
+      profile: { age: '34', gender: 'male' },
+    });
+
+    expect(analysis.engine).toBe(engine);
+    expect(analysis.conditions[0].condition).toBe('Lymphoma');
+    analysis.conditions.slice(1).forEach((c, i) => expect(c.score).toBeLessThanOrEqual(analysis.conditions[i].score));
+
+    analysis.conditions.forEach(c => {
+      const last = c.ledger[c.ledger.length - 1];
+      expect(last.step).toBe('normalization');
+      expect(last.score_after).toBeCloseTo(c.score);
+    });
+  });
+
+  it('keeps the top three conditions and any others scoring at least 25%', () => {
+    const scores = (symptoms: string) =>
+      runDeterministicAnalysis({ symptoms, questionnaireAnswers: '', engine: 'bayesian' }).conditions.map(c => c.score);
+
+    const clear = scores('excessive thirst, fatigue');
+    expect(clear).toHaveLength(3);
+    expect(clear[0]).toBeGreaterThanOrEqual(25);
+    expect(clear[2]).toBeLessThan(25);
+
+    // Nothing reaches 25%: the ten most likely are shown
+    expect(scores('joint pain, rash, fatigue')).toHaveLength(10);
+  });
+
+  it('reports red flags, clusters and time course', () => {
+    const analysis = runDeterministicAnalysis({
+      symptoms: 'numbness, double vision for 3 months',
+      questionnaireAnswers: '',
+    });
+
+    expect(analysis.redFlags.map(f => f.name)).toEqual(['Neurological + Visual Symptoms']);
+    expect(analysis.dominantClusters).toContain('neurologic');
+    expect(analysis.timeCourse.duration_days).toBe(90);
+    expect(analysis.timeCourseInterpretation).not.toBe('');
+  });
+
+  it('dates symptoms from the timeline answers', () => {
+    const timeline: AnsweredQuestion = {
+      question: buildTimelineQuestion(1, ['numbness', 'fatigue']),
+      answer: { kind: 'timeline', entries: [
+        { symptom: 'numbness', onset: '2026-10-15', trend: 'worsening' },
+        { symptom: 'fatigue', onset: '2020-01-01' },
+      ] },
+    };
+
+    const analysis = runDeterministicAnalysis({
+      symptoms: 'numbness, fatigue',
+      questionnaireAnswers: formatQuestionnaire([timeline.question], [timeline.answer]).join('\n\n'),
+      structuredAnswers: [timeline],
+      now: new Date(2026, 9, 19),
+    });
+
+    expect(analysis.timeCourse.timeline).toEqual([
+      { symptom: 'numbness', onset: '2026-10-15', trend: 'worsening' },
+      { symptom: 'fatigue', onset: '2020-01-01' },
+    ]);
+    expect(analysis.timeCourse.duration_days).toBe(daysSinceOnset({ symptom: 'fatigue', onset: '2020-01-01' }, new Date(2026, 9, 19)));
+    expect(analysis.timeCourseInterpretation).toContain('over 3 months');
+  });
+
+  it('considers a condition that only a questionnaire answer supports', () => {
+    const confirmed: AnsweredQuestion = {
+      question: { id: 1, text: 'Do you have night sweats?', type: 'yesno', target: 'night sweats' },
+      answer: { kind: 'boolean', value: true },
+    };
+    const conditions = (structuredAnswers: AnsweredQuestion[]) =>
+      runDeterministicAnalysis({ symptoms: 'dry eyes', questionnaireAnswers: '', structuredAnswers }).conditions.map(c => c.condition);
+
+    expect(conditions([])).not.toContain('Lymphoma');
+    expect(conditions([confirmed])).toContain('Lymphoma');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Finding,
+  FindingStatus,
+  extractFindings,
+  findingsFromText,
+  getPresentSymptoms,
+  isNegatedSymptom,
+  parseQuestionAnswerPairs,
+  resolveFindings,
+} from '../finding-extraction';
+
+function statuses(findings: Finding[]): Record<string, FindingStatus> {
+  return Object.fromEntries(resolveFindings(findings));
+}
+
+describe('findingsFromText', () => {
+  it.each<[string, Record<string, FindingStatus>]>([
+    ['fever', { fever: 'present' }],
+    ['no fever', { fever: 'absent' }],
+    ['denies chest pain', { 'chest pain': 'absent' }],
+    ['I have not had any night sweats', { 'night sweats': 'absent' }],
+    ['the rash went away', { rash: 'absent' }],
+    ['maybe a fever', { fever: 'uncertain' }],
+    ['fever i think', { fever: 'uncertain' }],
+    ['no fever but a cough', { fever: 'absent', cough: 'present' }],
+    ['no fever. cough', { fever: 'absent', cough: 'present' }],
+    ['not only fever but also cough', { fever: 'present', cough: 'present' }],
+    ['no fever or cough', { fever: 'absent', cough: 'absent' }],
+    ['no fever, chest pain, fainting', { fever: 'absent', 'chest pain': 'present', fainting: 'present' }],
+    ['no cough, blood in stool', { cough: 'absent', 'blood in stool': 'present' }],
+    ['no fever or cough, headache', { fever: 'absent', cough: 'absent', headache: 'present' }],
+    ['fever, no cough, rash', { fever: 'present', cough: 'absent', rash: 'present' }],
+    ['no fever • chest pain', { fever: 'absent', 'chest pain': 'present' }],
+    ['maybe a fever, cough', { fever: 'uncertain', cough: 'present' }],
+    ['fever, cough went away', { fever: 'present', cough: 'absent' }],
+    ['night sweats: no', { 'night sweats': 'absent' }],
+    ['fever: none, cough: yes', { fever: 'absent', cough: 'present' }],
+    ['Night sweats : No. Rash: yes', { 'night sweats': 'absent', rash: 'present' }],
+    ['fever: nothing to report', { fever: 'present' }],
+    ['fever no cough', { fever: 'present', cough: 'absent' }],
+  ])('%s -> %j', (text, expected) => {
+    expect(statuses(findingsFromText(text))).toEqual(expected);
+  });
+
+  it('records the source and the matched phrase', () => {
+    expect(findingsFromText('Fever', 'answer')).toEqual([
+      { symptom: 'fever', status: 'present', source: 'answer', evidence: 'Fever' },
+    ]);
+  });
+});
+
+describe('parseQuestionAnswerPairs', () => {
+  it('splits formatted questionnaire text', () => {
+    const text = 'Q1: Do you have a fever?\nAnswer: Yes\n\nQ2: Any cough?\nAnswer: No';
+    expect(parseQuestionAnswerPairs(text)).toEqual([
+      { question: 'Do you have a fever?', answer: 'Yes' },
+      { question: 'Any cough?', answer: 'No' },
+    ]);
+  });
+
+  it('returns nothing for free text', () => {
+    expect(parseQuestionAnswerPairs('I have a fever')).toEqual([]);
+  });
+});
+
+describe('extractFindings', () => {
+  it.each<[string, string[], Record<string, FindingStatus>]>([
+    ['fatigue', ['Q1: Do you have a fever?\nAnswer: Yes'], { fatigue: 'present', fever: 'present' }],
+    ['fatigue', ['Q1: Do you have a fever?\nAnswer: No'], { fatigue: 'present', fever: 'absent' }],
+    ['fatigue', ['Q1: Do you have a fever?\nAnswer: Not sure'], { fatigue: 'present', fever: 'uncertain' }],
+    ['fatigue', ['Q1: How bad is your headache?\nAnswer: 4'], { fatigue: 'present', headache: 'present' }],
+    ['fatigue', ['Q1: Do you have fever or cough?\nAnswer: Yes'], { fatigue: 'present', fever: 'uncertain', cough: 'uncertain' }],
+    ['night sweats', ['Q1: Do you still have night sweats?\nAnswer: No'], { 'night sweats': 'absent' }],
+    ['fever', ['Q1: Do you have a fever?\nAnswer: Maybe'], { fever: 'present' }],
+    ['fatigue', ['I also have a cough'], { fatigue: 'present', cough: 'present' }],
+  ])('%s %j -> %j', (symptoms, answers, expected) => {
+    expect(statuses(extractFindings(symptoms, answers))).toEqual(expected);
+  });
+});
+
+describe('getPresentSymptoms', () => {
+  it('keeps only symptoms resolved as present', () => {
+    const present = getPresentSymptoms(extractFindings('fever, no cough', ['maybe a rash']));
+    expect([...present]).toEqual(['fever']);
+  });
+});
+
+describe('isNegatedSymptom', () => {
+  it.each([
+    ['no fever', true],
+    ['night sweats: no', true],
+    ['no fever or cough', true],
+    ['fever', false],
+    ['no fever but cough', false],
+    ['no fever, cough', false],
+    ['something unusual', false],
+  ])('%s -> %s', (symptom, expected) => {
+    expect(isNegatedSymptom(symptom)).toBe(expected);
+  });
+});
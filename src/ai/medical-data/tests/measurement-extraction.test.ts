@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MeasurementKind,
+  extractAllMeasurements,
+  extractMeasurements,
+  getDurationDays,
+  getHighestValue,
+  getWeightLossKg,
+} from '../measurement-extraction';
+
+const NOW = new Date(2026, 9, 19); // 19 October 2026
+
+describe('extractMeasurements', () => {
+  it.each<[string, MeasurementKind, number]>([
+    ['lost 4 kg', 'weight', 4],
+    ['lost 10 lbs', 'weight', 4.53592],
+    ['down two pounds', 'weight', 0.907184],
+    ['temperature of 38.5 °C', 'temperature', 38.5],
+    ['fever of 101 F', 'temperature', 38.3],
+    ['it was 39 degrees', 'temperature', 39],
+    ['fever 102', 'temperature', 38.9],
+    ['heart racing at 130 bpm', 'heart_rate', 130],
+    ['pulse was 110', 'heart_rate', 110],
+    ['150/95 mmHg', 'blood_pressure', 150],
+    ['blood pressure 140/90', 'blood_pressure', 140],
+    ['for 3 days', 'duration', 3],
+    ['about two weeks', 'duration', 14],
+    ['a couple of months', 'duration', 60],
+    ['for a year', 'duration', 365],
+    ['since yesterday', 'duration', 1],
+    ['since last spring', 'duration', 232],
+    ['since August', 'duration', 79],
+    ['2 days ago', 'onset', 2],
+    ['a week ago', 'onset', 7],
+  ])('%s -> %s %s', (text, kind, value) => {
+    const measurements = extractMeasurements(text, NOW);
+    expect(measurements).toHaveLength(1);
+    expect(measurements[0].kind).toBe(kind);
+    expect(measurements[0].value).toBeCloseTo(value, 1);
+  });
+
+  it.each([
+    'pain in 10 different joints',
+    'headache 3 times a day',
+    'episodes every 2 weeks',
+    'took 3/4 of a tablet',
+    'aged 45',
+    'room was 20 degrees',
+  ])('finds nothing in %s', text => {
+    expect(extractMeasurements(text, NOW)).toEqual([]);
+  });
+
+  it('tells an onset from a duration', () => {
+    const measurements = extractMeasurements('2 days ago I had 3 weeks of fatigue', NOW);
+    expect(measurements.map(m => [m.kind, m.value, m.text])).toEqual([
+      ['onset', 2, '2 days ago'],
+      ['duration', 21, '3 weeks'],
+    ]);
+  });
+
+  it('converts pounds per value, not per text', () => {
+    const measurements = extractMeasurements('lost 5 kg, the scale says 150 lbs', NOW);
+    expect(measurements.map(m => Math.round(m.value))).toEqual([5, 68]);
+  });
+
+  it('keeps the phrase each measurement belongs to', () => {
+    const measurements = extractMeasurements('Fever of 38.2 C since Monday. Lost 3 kg in a month', NOW);
+    expect(measurements.map(m => [m.kind, m.phrase])).toEqual([
+      ['temperature', 'Fever of 38.2 C since Monday'],
+      ['weight', 'Lost 3 kg in a month'],
+      ['duration', 'Lost 3 kg in a month'],
+    ]);
+  });
+
+  it('ties answer measurements to their question', () => {
+    const measurements = extractAllMeasurements('fatigue', ['Q1: How much weight have you lost?\nAnswer: About 6 kg'], NOW);
+    expect(measurements).toEqual([
+      { kind: 'weight', value: 6, text: '6 kg', phrase: 'About 6 kg', question: 'How much weight have you lost?' },
+    ]);
+  });
+});
+
+describe('getWeightLossKg', () => {
+  it.each<[string, string[], number | undefined]>([
+    ['lost 4 kg over two months', [], 4],
+    ['weight loss of 10 pounds', [], 4.53592],
+    ['weight loss', ['Q1: How much weight have you lost?\nAnswer: About 6 kg in two months'], 6],
+    ['I weigh 70 kg', [], undefined],
+    ['fatigue', [], undefined],
+  ])('%s %j -> %s', (symptoms, answers, expected) => {
+    const lost = getWeightLossKg(extractAllMeasurements(symptoms, answers, NOW));
+    if (expected === undefined) {
+      expect(lost).toBeUndefined();
+    } else {
+      expect(lost).toBeCloseTo(expected);
+    }
+  });
+});
+
+describe('getDurationDays', () => {
+  it.each<[string, number | undefined]>([
+    ['headache for 5 days', 5],
+    ['2 days ago I had 3 weeks of fatigue', 21],
+    ['fever for 12 hours', 0.5],
+    ['fever for 1 day, saw my doctor 3 weeks ago', 1],
+    ['it started 2 weeks ago', 14],
+    ['headache', undefined],
+  ])('%s -> %s', (text, expected) => {
+    expect(getDurationDays(extractMeasurements(text, NOW))).toBe(expected);
+  });
+});
+
+describe('getHighestValue', () => {
+  it('returns the peak reading', () => {
+    const measurements = extractMeasurements('38.1 C in the morning, 39.4 C at night', NOW);
+    expect(getHighestValue(measurements, 'temperature')).toBe(39.4);
+    expect(getHighestValue(measurements, 'heart_rate')).toBeUndefined();
+  });
+});
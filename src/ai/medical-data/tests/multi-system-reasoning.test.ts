@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BodySystem,
+  SystemInvolvement,
+  analyzeSystemInvolvement,
+  calculateMultiSystemOverlap,
+  getConditionSystems,
+} from '../multi-system-reasoning';
+
+function involvement(...systems: BodySystem[]): SystemInvolvement[] {
+  return systems.map(system => ({ system, symptoms: [], score: 1 }));
+}
+
+describe('analyzeSystemInvolvement', () => {
+  it.each<[string[], BodySystem[]]>([
+    [['numbness'], ['neurological']],
+    [['heart palpitations'], ['autonomic', 'cardiac']],
+    [['numbness', 'heart palpitations'], ['neurological', 'autonomic', 'cardiac']],
+    [['cough', 'no chest pain'], ['respiratory']],
+    [['something unusual'], ['endocrine/metabolic']],
+  ])('%j -> %j', (symptoms, expected) => {
+    expect(analyzeSystemInvolvement(symptoms).map(s => s.system).sort()).toEqual([...expected].sort());
+  });
+
+  it('lists the symptoms behind each system', () => {
+    const systems = analyzeSystemInvolvement(['dizziness', 'numbness']);
+    expect(systems.find(s => s.system === 'neurological')?.symptoms).toEqual(['dizziness', 'numbness']);
+    expect(systems.find(s => s.system === 'autonomic')?.symptoms).toEqual(['dizziness']);
+  });
+});
+
+describe('getConditionSystems', () => {
+  it.each<[string, BodySystem[]]>([
+    ["Graves' Disease", ['endocrine/metabolic', 'cardiac', 'autonomic']],
+    ['POTS (Postural Orthostatic Tachycardia Syndrome)', ['autonomic', 'cardiac', 'neurological']],
+    ['Multiple Sclerosis (MS)', ['neurological', 'autonomic']],
+    ['Systemic Lupus Erythematosus (SLE)', ['autoimmune', 'cardiac', 'hematologic']],
+    ['Diabetes Mellitus Type 2', ['endocrine/metabolic', 'cardiac']],
+    ['Sarcoidosis', ['endocrine/metabolic']],
+  ])('%s -> %j', (condition, expected) => {
+    expect(getConditionSystems(condition)).toEqual(expected);
+  });
+});
+
+describe('calculateMultiSystemOverlap', () => {
+  it.each<[BodySystem[], SystemInvolvement[], number]>([
+    [['cardiac', 'autonomic'], involvement('cardiac', 'autonomic'), 1],
+    [['cardiac', 'autonomic'], involvement('cardiac'), 0.5],
+    [['cardiac'], involvement('cardiac', 'autonomic', 'neurological', 'respiratory'), 0.25],
+    [['cardiac'], involvement('respiratory'), 0],
+  ])('%j vs %j -> %d', (conditionSystems, involved, expected) => {
+    expect(calculateMultiSystemOverlap(conditionSystems, involved)).toBeCloseTo(expected);
+  });
+});
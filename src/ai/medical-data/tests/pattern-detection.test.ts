@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatternMultipliers, detectPatterns, getMatchingPatterns, PatternMatch } from '../pattern-detection';
+
+describe('detectPatterns', () => {
+  it.each([
+    ['migratory joint pain, rash that comes and goes', [], ['Migratory Joint Pain + Transient Rash']],
+    ['joint pain moving to different joints, transient rash', [], ['Migratory Joint Pain + Transient Rash']],
+    ['migratory joint pain, rash', [], []],
+    ['numbness, blurred vision', [], ['Neurological + Visual Symptoms']],
+    ['weakness, double vision', [], ['Neurological + Visual Symptoms']],
+    ['weight loss, night sweats', [], ['Weight Loss + Night Sweats']],
+    ['weight loss, no night sweats', [], []],
+    ['weight loss', ['Q1: Do you have night sweats?\nAnswer: Yes'], ['Weight Loss + Night Sweats']],
+    ['orthostatic dizziness, tingling', [], ['Orthostatic Dizziness + Numbness']],
+    ['dizziness when standing, numbness', [], ['Orthostatic Dizziness + Numbness']],
+    ['fatigue', [], []],
+  ])('%s %j -> %j', (symptoms, answers, expected) => {
+    expect(detectPatterns(symptoms, answers).map(p => p.pattern)).toEqual(expected);
+  });
+});
+
+describe('applyPatternMultipliers', () => {
+  const patterns = [
+    ...detectPatterns('weight loss, night sweats', []),
+    ...detectPatterns('numbness, blurred vision', []),
+  ];
+
+  it.each([
+    ['Lymphoma', 1.6],
+    ['Tuberculosis (TB)', 1.6],
+    ['Multiple Sclerosis (MS)', 1.4],
+    ['Hypothyroidism', 1.0],
+  ])('%s -> %d', (disease, expected) => {
+    expect(applyPatternMultipliers(disease, patterns)).toBeCloseTo(expected);
+  });
+
+  it('multiplies every matching pattern', () => {
+    const stacked: PatternMatch[] = [
+      { pattern: 'A', detected: true, diseases: ['Lymphoma'], multiplier: 1.5 },
+      { pattern: 'B', detected: true, diseases: ['Lymphoma'], multiplier: 2.0 },
+    ];
+    expect(applyPatternMultipliers('Lymphoma', stacked)).toBeCloseTo(3.0);
+  });
+});
+
+describe('getMatchingPatterns', () => {
+  it('ignores patterns that were not detected', () => {
+    const patterns: PatternMatch[] = [
+      { pattern: 'A', detected: false, diseases: ['Lymphoma'], multiplier: 1.5 },
+      { pattern: 'B', detected: true, diseases: ['Lymphoma'], multiplier: 2.0 },
+    ];
+    expect(getMatchingPatterns('Lymphoma', patterns).map(p => p.pattern)).toEqual(['B']);
+  });
+});
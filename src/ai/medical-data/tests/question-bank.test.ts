@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { QUESTION_BANK, QuestionBank, SYMPTOM_WEIGHTS, findQuestionBankIssues } from '@/knowledge-base';
+import { bankQuestionText, questionFromBank } from '../question-bank';
+import { planNextQuestion } from '../question-planner';
+import { AnswerValue, Question } from '../structured-answers';
+
+const PROFILE = { age: '40', gender: 'female' };
+
+describe('findQuestionBankIssues', () => {
+  const symptoms = new Set(['fever', 'rash']);
+  const bank = (findings: QuestionBank['findings']): QuestionBank => ({ version: '1.0.0', timeline: { text: 'When?' }, findings });
+
+  it('has a yes/no question for every weighted symptom', () => {
+    Object.keys(SYMPTOM_WEIGHTS).forEach(symptom => expect(QUESTION_BANK.findings[symptom]?.yesno.text).toBeTruthy());
+  });
+
+  it.each<[string, QuestionBank['findings'], string]>([
+    ['unknown symptom', { fever: { yesno: { text: 'Fever?' } }, chills: { yesno: { text: 'Chills?' } } }, 'unknown symptom "chills"'],
+    ['missing question', {}, 'no question for symptom "fever"'],
+  ])('reports %s', (_case, findings, issue) => {
+    expect(findQuestionBankIssues(symptoms, new Set(['fever']), bank(findings))).toContainEqual(expect.stringContaining(issue));
+  });
+});
+
+describe('bankQuestionText', () => {
+  it('uses the bank wording', () => {
+    expect(bankQuestionText('excessive thirst')).toBe('Have you been unusually thirsty?');
+  });
+
+  it('names unlisted symptoms in a plain yes/no question', () => {
+    expect(bankQuestionText('stiff neck')).toBe('Have you had stiff neck?');
+  });
+});
+
+describe('questionFromBank', () => {
+  it('runs a whole assessment without an LLM', () => {
+    const symptoms = 'fatigue, joint pain';
+    const questions: Question[] = [];
+    const answers: AnswerValue[] = [];
+
+    for (let question = questionFromBank(1, planNextQuestion({ symptoms, questions, answers, profile: PROFILE })); question; ) {
+      questions.push(question);
+      answers.push(question.type === 'timeline' ? { kind: 'timeline', entries: [] } : { kind: 'boolean', value: false });
+      question = questionFromBank(questions.length + 1, planNextQuestion({ symptoms, questions, answers, profile: PROFILE }));
+    }
+
+    expect(questions.length).toBeGreaterThan(0);
+    expect(questions.map(q => q.id)).toEqual(questions.map((_, index) => index + 1));
+    expect(new Set(questions.map(q => q.text)).size).toBe(questions.length);
+    expect(questions.filter(q => q.type === 'timeline').map(q => q.text)).toEqual([QUESTION_BANK.timeline.text]);
+    questions.filter(q => q.type === 'yesno').forEach(q => expect(q.text).toBe(QUESTION_BANK.findings[q.target!].yesno.text));
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { extractFindings } from '../finding-extraction';
+import {
+  DEFAULT_PLANNER_SETTINGS,
+  PlannerCandidate,
+  QuestionPlan,
+  bestFinding,
+  expectedInformationGain,
+  planNextQuestion,
+  rankCandidates,
+} from '../question-planner';
+import { AnswerValue, Question, buildQuestion } from '../structured-answers';
+
+const PROFILE = { age: '40', gender: 'female' };
+
+const findingQuestion = (id: number, symptom: string): Question =>
+  buildQuestion(id, { text: `Do you have ${symptom}?`, type: 'yesno', target: symptom });
+
+/**
+ * Run the planner to completion, answering "yes" to findings in `yes` and "no" to everything else
+ */
+function simulate(symptoms: string, yes: string[] = []) {
+  const questions: Question[] = [];
+  const answers: AnswerValue[] = [];
+  const plans: QuestionPlan[] = [];
+
+  for (let plan = planNextQuestion({ symptoms, questions, answers, profile: PROFILE }); ; ) {
+    plans.push(plan);
+    if (plan.kind === 'stop') return { questions, answers, plans };
+
+    if (plan.kind === 'timeline') {
+      questions.push({ id: questions.length + 1, text: 'When did each start?', type: 'timeline', options: [] });
+      answers.push({ kind: 'timeline', entries: [] });
+    } else {
+      questions.push(findingQuestion(questions.length + 1, plan.symptom));
+      answers.push({ kind: 'boolean', value: yes.includes(plan.symptom) });
+    }
+    plan = planNextQuestion({ symptoms, questions, answers, profile: PROFILE });
+  }
+}
+
+describe('rankCandidates', () => {
+  it('renormalises the top candidates to sum to 1, most likely first', () => {
+    const candidates = rankCandidates(extractFindings('night sweats, weight loss, swollen glands', []), PROFILE);
+
+    expect(candidates).toHaveLength(DEFAULT_PLANNER_SETTINGS.candidateCount);
+    expect(candidates[0].condition).toBe('Lymphoma');
+    expect(candidates.reduce((sum, c) => sum + c.probability, 0)).toBeCloseTo(1);
+    expect(candidates.map(c => c.probability)).toEqual([...candidates.map(c => c.probability)].sort((a, b) => b - a));
+  });
+
+  it('keeps unsupported conditions in the running on their priors', () => {
+    expect(rankCandidates(extractFindings('headache', []), PROFILE).length).toBeGreaterThan(1);
+    expect(rankCandidates([], PROFILE)).toHaveLength(DEFAULT_PLANNER_SETTINGS.candidateCount);
+  });
+});
+
+describe('expectedInformationGain', () => {
+  const evenSplit: PlannerCandidate[] = [
+    { condition: 'Diabetes Mellitus Type 2', probability: 0.5 },
+    { condition: 'Hypothyroidism', probability: 0.5 },
+  ];
+
+  it('is higher for a finding that separates the candidates', () => {
+    expect(expectedInformationGain(evenSplit, 'excessive thirst')).toBeGreaterThan(expectedInformationGain(evenSplit, 'fatigue'));
+  });
+
+  it.each([
+    ['a settled differential', [{ condition: 'Lymphoma', probability: 1 }], 'night sweats'],
+    ['a finding no candidate lists', evenSplit, 'seizures'],
+  ])('is zero for %s', (_case, candidates, symptom) => {
+    expect(expectedInformationGain(candidates, symptom)).toBeCloseTo(0);
+  });
+
+  it('never exceeds the entropy of the candidates', () => {
+    expect(expectedInformationGain(evenSplit, 'excessive thirst')).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('bestFinding', () => {
+  it('skips excluded findings', () => {
+    const candidates = rankCandidates(extractFindings('fatigue, joint pain', []), PROFILE);
+    const first = bestFinding(candidates, new Set())!;
+    const second = bestFinding(candidates, new Set([first.symptom]))!;
+
+    expect(second.symptom).not.toBe(first.symptom);
+    expect(second.gain).toBeLessThanOrEqual(first.gain);
+  });
+});
+
+describe('planNextQuestion', () => {
+  it('asks about the most informative finding that is not yet known', () => {
+    const plan = planNextQuestion({ symptoms: 'fatigue, joint pain', questions: [], answers: [], profile: PROFILE });
+
+    expect(plan).toMatchObject({ kind: 'finding', symptom: 'excessive thirst', label: 'Excessive thirst' });
+    expect(plan.kind === 'finding' && plan.gain).toBeGreaterThan(0);
+  });
+
+  it('is deterministic', () => {
+    expect(simulate('fatigue, joint pain', ['excessive thirst'])).toEqual(simulate('fatigue, joint pain', ['excessive thirst']));
+  });
+
+  it('never asks about a finding twice or about one already reported', () => {
+    const { questions } = simulate('night sweats, weight loss, swollen glands');
+    const targets = questions.map(q => q.target).filter(Boolean);
+
+    expect(new Set(targets).size).toBe(targets.length);
+    expect(targets).not.toContain('night sweats');
+  });
+
+  it('stops early once the differential is confident, after dating the symptoms', () => {
+    const { questions, plans } = simulate('headache', ['weight gain', 'cold intolerance', 'depression']);
+
+    expect(plans[plans.length - 1]).toMatchObject({ kind: 'stop', reason: 'confident' });
+    expect(plans[plans.length - 1].candidates[0].condition).toBe('Hypothyroidism');
+    expect(questions.length).toBeLessThan(DEFAULT_PLANNER_SETTINGS.maxQuestions);
+    expect(questions[questions.length - 1].type).toBe('timeline');
+  });
+
+  it('asks at most the question limit, with the timeline in the final slot', () => {
+    const { questions, plans } = simulate('night sweats, weight loss, swollen glands');
+
+    expect(questions).toHaveLength(DEFAULT_PLANNER_SETTINGS.maxQuestions);
+    expect(questions.filter(q => q.type === 'timeline')).toHaveLength(1);
+    expect(questions[questions.length - 1].type).toBe('timeline');
+    expect(plans[plans.length - 1]).toMatchObject({ kind: 'stop', reason: 'limit' });
+  });
+
+  it.each([
+    ['confident', { confidentShare: 0 }],
+    ['exhausted', { minGain: Infinity }],
+  ])('stops as %s without a timeline when no symptom has been reported', (reason, settings) => {
+    const plan = planNextQuestion(
+      { symptoms: 'I feel off', questions: [], answers: [], profile: PROFILE },
+      { ...DEFAULT_PLANNER_SETTINGS, minQuestions: 0, ...settings }
+    );
+    expect(plan).toMatchObject({ kind: 'stop', reason });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GeneratedQuestion,
+  QuestionValidationContext,
+  findLeadingLanguage,
+  findNearDuplicate,
+  findQuestionIssues,
+  questionPhrasing,
+  repairQuestion,
+} from '../question-validation';
+
+const open: QuestionValidationContext = { previousQuestions: [] };
+
+describe('questionPhrasing', () => {
+  it.each([
+    ['Do you have numbness?', 'yesno'],
+    ['Any chest pain?', 'yesno'],
+    ['On a scale of 1-5, how severe is your fatigue?', 'scale'],
+    ['How bad is your headache?', 'scale'],
+    ['Have you noticed a fast heart rate?', 'yesno'],
+    ['When do your symptoms occur?', 'open'],
+    ['Could you describe your symptoms in more detail?', 'open'],
+  ])('%s -> %s', (text, phrasing) => {
+    expect(questionPhrasing(text)).toBe(phrasing);
+  });
+});
+
+describe('findNearDuplicate', () => {
+  const previous = ['Do you have fatigue?', 'When do your symptoms occur?'];
+
+  it.each([
+    ['Have you been experiencing any fatigue?', 'Do you have fatigue?'],
+    ['Do you feel tired all the time?', 'Do you have fatigue?'],
+    ['When do the symptoms occur?', 'When do your symptoms occur?'],
+    ['On a scale of 1-5, how severe is your fatigue?', undefined],
+    ['Where do your symptoms occur most?', undefined],
+    ['Do you have joint pain?', undefined],
+  ])('%s repeats %s', (text, duplicate) => {
+    expect(findNearDuplicate(text, previous)).toBe(duplicate);
+  });
+});
+
+describe('findLeadingLanguage', () => {
+  it.each([
+    ['Since you may have lupus, do you get rashes?', 'you may have'],
+    ['Is your likely diagnosis lupus?', 'likely diagnosis'],
+    ['Is your fatigue consistent with Hypothyroidism?', 'consistent with'],
+    ['Do you have any symptoms of Multiple Sclerosis?', 'multiple sclerosis'],
+    ['Has a doctor mentioned MS?', 'MS'],
+    ['Do you feel dizzy when you stand up?', undefined],
+    ['How many hours do you sleep?', undefined],
+    ['Have you been diagnosed with anything?', undefined],
+    ['Have you ever been diagnosed with diabetes?', undefined],
+    ['Has a doctor ever told you that you have anemia or lupus?', undefined],
+    ['Is there a family history of Multiple Sclerosis?', undefined],
+    ['Have you been diagnosed with MS?', undefined],
+    ['Have you been diagnosed with diabetes, or do you think you have lupus?', 'lupus'],
+  ])('%s -> %s', (text, leading) => {
+    expect(findLeadingLanguage(text)).toBe(leading);
+  });
+});
+
+describe('findQuestionIssues', () => {
+  it.each<[string, GeneratedQuestion, QuestionValidationContext, string[]]>([
+    ['a valid yes/no question', { text: 'Do you have a fever?', type: 'yesno' }, open, []],
+    ['a valid multiple-choice question', { text: 'When do your symptoms occur?', type: 'multiple', options: ['Morning', 'Night'] }, open, []],
+    ['missing options', { text: 'When do your symptoms occur?', type: 'multiple' }, open, ['missing-options']],
+    ['repeated options', { text: 'When do your symptoms occur?', type: 'multiple', options: ['Morning', 'morning ', 'Night'] }, open, ['repeated-options']],
+    ['yes/no options', { text: 'Do you have a fever?', type: 'multiple', options: ['Yes', 'No'] }, open, ['type-mismatch']],
+    ['options on a yes/no question', { text: 'Do you have a fever?', type: 'yesno', options: ['Yes', 'No'] }, open, ['unexpected-options']],
+    ['a scale question phrased as yes/no', { text: 'Do you have a fever?', type: 'scale' }, open, ['type-mismatch']],
+    ['the wrong type', { text: 'When do your symptoms occur?', type: 'multiple', options: ['Morning', 'Night'] }, { ...open, requiredType: 'scale' }, ['wrong-type']],
+    ['a planned finding asked as a scale', { text: 'How severe is your thirst?', type: 'scale' }, { ...open, targetFinding: 'Excessive thirst' }, ['wrong-type']],
+    ['a near-duplicate', { text: 'Have you had any fever?', type: 'yesno' }, { previousQuestions: ['Do you have a fever?'] }, ['duplicate']],
+    ['diagnostic language', { text: 'Do you think you have diabetes?', type: 'yesno' }, open, ['leading']],
+    ['a question about past diagnoses', { text: 'Have you ever been diagnosed with diabetes?', type: 'yesno' }, open, []],
+  ])('%s', (_case, question, context, codes) => {
+    expect(findQuestionIssues(question, context).map(issue => issue.code)).toEqual(codes);
+  });
+});
+
+describe('repairQuestion', () => {
+  it.each<[string, GeneratedQuestion, QuestionValidationContext, GeneratedQuestion]>([
+    ['drops options from a yes/no question', { text: 'Do you have a fever?', type: 'yesno', options: ['Yes', 'No'] }, open,
+      { text: 'Do you have a fever?', type: 'yesno' }],
+    ['removes repeated options', { text: 'When does it happen?', type: 'multiple', options: ['Morning', ' morning', 'Night', ''] }, open,
+      { text: 'When does it happen?', type: 'multiple', options: ['Morning', 'Night'] }],
+    ['retypes a multiple-choice question without options', { text: 'Do you have a fever?', type: 'multiple' }, open,
+      { text: 'Do you have a fever?', type: 'yesno' }],
+    ['retypes a yes/no question phrased as a rating', { text: 'How severe is your fatigue?', type: 'yesno', target: 'fatigue' }, open,
+      { text: 'How severe is your fatigue?', type: 'scale', target: 'fatigue' }],
+    ['rewords a required scale question phrased as yes/no', { text: 'Do you have fatigue?', type: 'scale' }, { ...open, requiredType: 'scale' },
+      { text: 'On a scale of 1-5, how severe is your fatigue?', type: 'scale' }],
+    ['retypes a planned finding and sets its target', { text: 'Are you unusually thirsty?', type: 'text' }, { ...open, targetFinding: 'Excessive thirst' },
+      { text: 'Are you unusually thirsty?', type: 'yesno', target: 'Excessive thirst' }],
+  ])('%s', (_case, question, context, repaired) => {
+    expect(repairQuestion(question, context)).toEqual(repaired);
+  });
+
+  it.each<[string, GeneratedQuestion, QuestionValidationContext]>([
+    ['near-duplicates', { text: 'Have you had any fever?', type: 'yesno' }, { previousQuestions: ['Do you have a fever?'] }],
+    ['leading questions', { text: 'Could this be lupus?', type: 'yesno' }, open],
+    ['open questions of a required yes/no type', { text: 'What makes it worse?', type: 'text' }, { ...open, targetFinding: 'Fever' }],
+  ])('leaves %s to be generated again', (_case, question, context) => {
+    expect(repairQuestion(question, context)).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyRedFlagMultipliers,
+  detectRedFlags,
+  getApplicableRedFlagMultipliers,
+  RedFlagMultipliers,
+} from '../red-flag-detection';
+
+const NEUTRAL: RedFlagMultipliers = {
+  malignancy_multiplier: 1.0,
+  chronic_infection_multiplier: 1.0,
+  MS_multiplier: 1.0,
+  dysautonomia_multiplier: 1.0,
+  adrenal_insufficiency_multiplier: 1.0,
+  autoimmune_multiplier: 1.0,
+};
+
+describe('detectRedFlags', () => {
+  it.each([
+    ['weight loss, lost 4 kg in two months', [], ['Significant Weight Loss']],
+    ['weight loss of 10 pounds', [], ['Significant Weight Loss']],
+    ['unintentional weight loss', [], ['Significant Weight Loss']],
+    ['weight loss, lost 1 kg', [], []],
+    ['lost 12 kg, fatigue', [], ['Significant Weight Loss']],
+    ['fever of 39.5 C', [], ['High Fever']],
+    ['fever of 38.2 C', [], []],
+    ['palpitations, heart rate 130 bpm', [], ['Fast Heart Rate']],
+    ['headache, BP 190/120', [], ['Very High Blood Pressure']],
+    ['headache, BP 150/125', [], ['Very High Blood Pressure']],
+    ['headache, BP 140/90', [], []],
+    ['night sweats', [], ['Night Sweats']],
+    ['no night sweats', [], []],
+    ['no fever, night sweats, weight loss of 6 kg', [], ['Significant Weight Loss', 'Night Sweats']],
+    ['fatigue', ['Q1: Do you have night sweats?\nAnswer: Yes'], ['Night Sweats']],
+    ['night sweats', ['Q1: Do you have night sweats?\nAnswer: No'], []],
+    ['numbness, double vision', [], ['Neurological + Visual Symptoms']],
+    ['numbness', [], []],
+    ['dizziness when standing up', [], ['Orthostatic Dizziness']],
+    ['dizziness', [], []],
+  ])('%s %j -> %j', (symptoms, answers, expected) => {
+    const { redFlags } = detectRedFlags(symptoms, answers);
+    expect(redFlags.map(f => f.name)).toEqual(expected);
+  });
+
+  it('scales weight-loss severity with the amount lost', () => {
+    const { redFlags } = detectRedFlags('weight loss, lost 4 kg', []);
+    expect(redFlags[0].severity).toBeCloseTo(0.8);
+
+    const { redFlags: capped } = detectRedFlags('weight loss, lost 12 kg', []);
+    expect(capped[0].severity).toBe(1.0);
+  });
+
+  it.each([
+    ['night sweats', { malignancy_multiplier: 2.4, chronic_infection_multiplier: 2.4 }],
+    ['numbness, blurred vision', { MS_multiplier: 2.6 }],
+    ['orthostatic dizziness', { dysautonomia_multiplier: 2.4, adrenal_insufficiency_multiplier: 2.3 }],
+    ['orthostatic dizziness, numbness', { dysautonomia_multiplier: 2.7, adrenal_insufficiency_multiplier: 2.5 }],
+  ])('%s raises multipliers %j', (symptoms, raised) => {
+    const { multipliers } = detectRedFlags(symptoms, []);
+    Object.entries({ ...NEUTRAL, ...raised }).forEach(([name, value]) => {
+      expect(multipliers[name as keyof RedFlagMultipliers]).toBeCloseTo(value);
+    });
+  });
+
+  it('leaves every multiplier neutral without red flags', () => {
+    expect(detectRedFlags('fatigue, headache', []).multipliers).toEqual(NEUTRAL);
+  });
+});
+
+describe('getApplicableRedFlagMultipliers', () => {
+  it.each([
+    ['Lymphoma', ['malignancy_multiplier']],
+    ['Tuberculosis (TB)', ['chronic_infection_multiplier']],
+    ['Chronic EBV Infection', ['chronic_infection_multiplier']],
+    ['Multiple Sclerosis (MS)', ['MS_multiplier']],
+    ['POTS (Postural Orthostatic Tachycardia Syndrome)', ['dysautonomia_multiplier']],
+    ['Adrenal Insufficiency', ['adrenal_insufficiency_multiplier']],
+    ['Rheumatoid Arthritis', ['autoimmune_multiplier']],
+    ['Hypothyroidism', []],
+  ])('%s -> %j', (disease, expected) => {
+    expect(getApplicableRedFlagMultipliers(disease, NEUTRAL).map(m => m.name)).toEqual(expected);
+  });
+});
+
+describe('applyRedFlagMultipliers', () => {
+  const raised = { ...NEUTRAL, malignancy_multiplier: 2.4, chronic_infection_multiplier: 1.5 };
+
+  it.each([
+    ['Lymphoma', 2.4],
+    ['Tuberculosis (TB)', 1.5],
+    ['Hypothyroidism', 1.0],
+  ])('%s -> %d', (disease, expected) => {
+    expect(applyRedFlagMultipliers(disease, raised)).toBeCloseTo(expected);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { CLINICAL_RULES, ClinicalRules, RuleCondition, findKnowledgeBaseIssues, findRuleIssues } from '@/knowledge-base';
+import { RuleContext, buildRuleContext, evaluateCondition, matchingRules } from '../rule-engine';
+
+const context: RuleContext = buildRuleContext({
+  symptoms: 'numbness, blurred vision, no fever, lost 4 kg',
+  answers: ['Q1: When did it start?\nAnswer: Suddenly last week'],
+  profile: { age: '42', gender: 'Female' },
+  timeCourse: { duration_days: 21, pattern: 'progressive' },
+  flags: ['Night Sweats'],
+});
+
+describe('evaluateCondition', () => {
+  it.each<[string, RuleCondition, boolean]>([
+    ['present finding', { finding: 'numbness' }, true],
+    ['denied finding', { finding: 'fever' }, false],
+    ['any of several findings', { finding: ['fever', 'blurred vision'] }, true],
+    ['text', { text: ['LAST WEEK'] }, true],
+    ['missing text', { text: ['comes and goes'] }, false],
+    ['regex', { regex: '\\bsudden(?:ly)?\\b' }, true],
+    ['flag', { flag: 'Night Sweats' }, true],
+    ['missing flag', { flag: 'Orthostatic Dizziness' }, false],
+    ['any flag', { any_flag: true }, true],
+    ['age in range', { age: { gte: 40, lt: 65 } }, true],
+    ['age out of range', { age: { gte: 65 } }, false],
+    ['sex', { sex: 'female' }, true],
+    ['duration', { duration_days: { gt: 14 } }, true],
+    ['time pattern', { time_pattern: ['relapsing', 'progressive'] }, true],
+    ['measure', { measure: 'weight_loss_kg', gte: 2 }, true],
+    ['all', { all: [{ finding: 'numbness' }, { finding: 'fever' }] }, false],
+    ['any', { any: [{ finding: 'numbness' }, { finding: 'fever' }] }, true],
+    ['not', { not: { finding: 'fever' } }, true],
+    ['ref', { ref: 'visual_symptoms' }, true],
+  ])('%s', (_, condition, expected) => {
+    expect(evaluateCondition(condition, context)).toBe(expected);
+  });
+
+  it.each<[string, RuleCondition]>([
+    ['age', { age: { gte: 18 } }],
+    ['duration', { duration_days: { lte: 14 } }],
+    ['measure', { measure: 'weight_loss_kg', lt: 2 }],
+  ])('is false when %s is unknown', (_, condition) => {
+    expect(evaluateCondition(condition, buildRuleContext({ symptoms: 'fatigue' }))).toBe(false);
+  });
+
+  it('throws on an unknown definition', () => {
+    expect(() => evaluateCondition({ ref: 'missing' }, context)).toThrow('Unknown rule definition: missing');
+  });
+});
+
+describe('buildRuleContext', () => {
+  it.each<[string, number | undefined]>([
+    ['lost 4 kg', 4],
+    ['lost 10 pounds', 4.53592],
+    ['5 kg weight loss', 5],
+    ['significant weight loss', 3],
+    ['weight loss', undefined],
+  ])('%s -> %s kg lost', (symptoms, expected) => {
+    const measured = buildRuleContext({ symptoms }).measures.weight_loss_kg;
+    if (expected === undefined) {
+      expect(measured).toBeUndefined();
+    } else {
+      expect(measured).toBeCloseTo(expected);
+    }
+  });
+});
+
+describe('matchingRules', () => {
+  it('keeps file order', () => {
+    const rules = matchingRules(CLINICAL_RULES.triage, buildRuleContext({ symptoms: 'chest pain, fainting' }));
+    expect(rules.map(r => r.id)).toEqual(['chest-pain-fainting', 'fainting', 'chest-pain']);
+  });
+});
+
+describe('findRuleIssues', () => {
+  const diseases = new Set(['Lymphoma']);
+  const symptoms = new Set(['fever', 'night sweats']);
+  const empty: ClinicalRules = {
+    version: '1.0.0',
+    definitions: {},
+    red_flags: [],
+    red_flag_multipliers: {},
+    patterns: [],
+    condition_filters: [],
+    time_course: [],
+    triage: [],
+    urgent_flags: [],
+  };
+
+  it('passes the shipped knowledge base', () => {
+    expect(findKnowledgeBaseIssues()).toEqual([]);
+  });
+
+  it.each<[string, Partial<ClinicalRules>, string]>([
+    ['unknown symptom', { urgent_flags: [{ id: 'a', name: 'A', when: { finding: 'chills' } }] }, 'unknown symptom "chills"'],
+    ['unknown definition', { urgent_flags: [{ id: 'a', name: 'A', when: { ref: 'nope' } }] }, 'unknown definition "nope"'],
+    ['unknown flag', { urgent_flags: [{ id: 'a', name: 'A', when: { flag: 'Nope' } }] }, 'unknown red flag "Nope"'],
+    ['invalid regex', { urgent_flags: [{ id: 'a', name: 'A', when: { regex: '(' } }] }, 'invalid regex'],
+    ['unknown condition', {
+      patterns: [{ id: 'a', name: 'A', when: { finding: 'fever' }, conditions: ['Flu'], multiplier: 2 }],
+    }, 'unknown condition "Flu"'],
+    ['circular definition', {
+      definitions: { a: { ref: 'b' }, b: { any: [{ finding: 'fever' }, { ref: 'a' }] } },
+    }, 'definition "a" refers to itself'],
+    ['duplicate id', {
+      urgent_flags: [
+        { id: 'a', name: 'A', when: { finding: 'fever' } },
+        { id: 'a', name: 'B', when: { finding: 'night sweats' } },
+      ],
+    }, 'duplicate rule id "a" in urgent_flags'],
+  ])('reports %s', (_, rules, expected) => {
+    const issues = findRuleIssues(diseases, symptoms, { ...empty, ...rules });
+    expect(issues.some(issue => issue.includes(expected))).toBe(true);
+  });
+});
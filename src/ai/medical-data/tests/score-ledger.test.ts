@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { LedgerEntry, applyLedgerStep, describeLedgerEntry } from '../score-ledger';
+
+describe('applyLedgerStep', () => {
+  it.each<[LedgerEntry['operation'], number, number, number]>([
+    ['add', 2, 0.5, 2.5],
+    ['add', 2, -3, -1],
+    ['multiply', 2, 1.5, 3],
+    ['set', 2, 40, 40],
+  ])('%s %d by %d -> %d', (operation, score, value, expected) => {
+    const ledger: LedgerEntry[] = [];
+    const next = applyLedgerStep(ledger, score, { step: 'symptom', label: 'x', operation, value });
+    expect(next).toBe(expected);
+    expect(ledger).toEqual([{ step: 'symptom', label: 'x', operation, value, score_after: expected }]);
+  });
+
+  it('appends steps in order', () => {
+    const ledger: LedgerEntry[] = [];
+    let score = applyLedgerStep(ledger, 0, { step: 'symptom', label: 'fever', operation: 'add', value: 0.2 });
+    score = applyLedgerStep(ledger, score, { step: 'priority_boost', label: 'boost', operation: 'multiply', value: 1.5 });
+    expect(ledger.map(e => e.score_after)).toEqual([0.2, score]);
+    expect(score).toBeCloseTo(0.3);
+  });
+});
+
+describe('describeLedgerEntry', () => {
+  it.each<[Omit<LedgerEntry, 'score_after'>, string]>([
+    [{ step: 'symptom', label: 'fever', operation: 'add', value: 0.1234 }, 'fever: +0.123'],
+    [{ step: 'answer_evidence', label: 'fever', operation: 'add', value: -0.05, detail: 'absent' }, 'fever: -0.050 (absent)'],
+    [{ step: 'priority_boost', label: 'Boost', operation: 'multiply', value: 1.3 }, 'Boost: ×1.30'],
+    [{ step: 'normalization', label: 'Final', operation: 'set', value: 42 }, 'Final: = 42.00'],
+  ])('%j -> %s', (entry, expected) => {
+    expect(describeLedgerEntry({ ...entry, score_after: 0 })).toBe(expected);
+  });
+});
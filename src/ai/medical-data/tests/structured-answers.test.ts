@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AnswerValue,
+  Question,
+  answerToFindings,
+  buildQuestion,
+  buildTimelineQuestion,
+  findingsFromAnswers,
+  formatAnswer,
+  formatQuestionnaire,
+  pairAnswers,
+  timelineFromAnswers,
+} from '../structured-answers';
+
+const feverQuestion: Question = { id: 1, text: 'Do you have a fever?', type: 'yesno', target: 'fever' };
+const optionQuestion = buildQuestion(2, {
+  text: 'Which of these do you have?',
+  type: 'multiple',
+  options: ['Night sweats', 'Something else'],
+});
+const timelineQuestion = buildTimelineQuestion(3, ['numbness', 'fatigue']);
+const timelineAnswer: AnswerValue = {
+  kind: 'timeline',
+  entries: [{ symptom: 'numbness', onset: '2026-09-01', trend: 'worsening' }],
+};
+
+describe('buildQuestion', () => {
+  it.each([
+    [{ text: 'Do you have a fever?', type: 'yesno' as const }, 'fever'],
+    [{ text: 'Do you have a fever or a cough?', type: 'yesno' as const }, undefined],
+    [{ text: 'Do you have a fever or a cough?', type: 'yesno' as const, target: 'cough' }, 'cough'],
+    [{ text: 'How long has this lasted?', type: 'text' as const, target: 'not a symptom' }, undefined],
+  ])('%j -> target %s', (raw, expected) => {
+    expect(buildQuestion(1, raw).target).toBe(expected);
+  });
+
+  it('gives options stable IDs and resolved targets', () => {
+    expect(optionQuestion.options).toEqual([
+      { id: 'option-1', label: 'Night sweats', target: 'night sweats' },
+      { id: 'option-2', label: 'Something else', target: undefined },
+    ]);
+  });
+});
+
+describe('buildTimelineQuestion', () => {
+  it('gives one option per symptom', () => {
+    expect(timelineQuestion.type).toBe('timeline');
+    expect(timelineQuestion.options).toEqual([
+      { id: 'symptom-1', label: 'Numbness', target: 'numbness' },
+      { id: 'symptom-2', label: 'Fatigue', target: 'fatigue' },
+    ]);
+  });
+});
+
+describe('formatAnswer', () => {
+  it.each<[Question, AnswerValue | undefined, string]>([
+    [feverQuestion, { kind: 'boolean', value: true }, 'Yes'],
+    [feverQuestion, { kind: 'boolean', value: false }, 'No'],
+    [feverQuestion, { kind: 'scale', value: 4 }, '4'],
+    [feverQuestion, { kind: 'text', value: 'since Monday' }, 'since Monday'],
+    [optionQuestion, { kind: 'option', optionId: 'option-1' }, 'Night sweats'],
+    [optionQuestion, { kind: 'option', optionId: 'option-9' }, 'option-9'],
+    [timelineQuestion, timelineAnswer, 'Numbness: started 2026-09-01, worsening'],
+    [timelineQuestion, { kind: 'timeline', entries: [] }, 'No dates given'],
+    [feverQuestion, undefined, 'Not answered'],
+  ])('%#: %j -> %s', (question, answer, expected) => {
+    expect(formatAnswer(question, answer)).toBe(expected);
+  });
+});
+
+describe('formatQuestionnaire and pairAnswers', () => {
+  const questions = [feverQuestion, optionQuestion];
+  const answers: AnswerValue[] = [{ kind: 'boolean', value: true }];
+
+  it('formats every question, answered or not', () => {
+    expect(formatQuestionnaire(questions, answers)).toEqual([
+      'Q1: Do you have a fever?\nAnswer: Yes',
+      'Q2: Which of these do you have?\nAnswer: Not answered',
+    ]);
+  });
+
+  it('pairs only answered questions', () => {
+    expect(pairAnswers(questions, answers)).toEqual([{ question: feverQuestion, answer: answers[0] }]);
+  });
+});
+
+describe('answerToFindings', () => {
+  it.each<[Question, AnswerValue, Array<[string, string, number | undefined]>]>([
+    [feverQuestion, { kind: 'boolean', value: true }, [['fever', 'present', undefined]]],
+    [feverQuestion, { kind: 'boolean', value: false }, [['fever', 'absent', undefined]]],
+    [feverQuestion, { kind: 'scale', value: 5 }, [['fever', 'present', 5]]],
+    [feverQuestion, { kind: 'text', value: 'no, but I have a cough' }, [['cough', 'present', undefined]]],
+    [optionQuestion, { kind: 'option', optionId: 'option-1' }, [['night sweats', 'present', undefined]]],
+    [optionQuestion, { kind: 'option', optionId: 'option-2' }, []],
+    [timelineQuestion, timelineAnswer, [['numbness', 'present', undefined]]],
+    [{ ...feverQuestion, target: undefined }, { kind: 'boolean', value: true }, []],
+  ])('%#: %j', (question, answer, expected) => {
+    const findings = answerToFindings({ question, answer });
+    expect(findings.map(f => [f.symptom, f.status, f.severity])).toEqual(expected);
+    findings.forEach(f => expect(f.source).toBe('answer'));
+  });
+
+  it('collects findings across answered questions in order', () => {
+    const findings = findingsFromAnswers([
+      { question: feverQuestion, answer: { kind: 'boolean', value: false } },
+      { question: optionQuestion, answer: { kind: 'option', optionId: 'option-1' } },
+    ]);
+    expect(findings.map(f => f.symptom)).toEqual(['fever', 'night sweats']);
+  });
+});
+
+describe('timelineFromAnswers', () => {
+  it('collects entries from timeline answers only', () => {
+    expect(timelineFromAnswers([
+      { question: feverQuestion, answer: { kind: 'boolean', value: true } },
+      { question: timelineQuestion, answer: timelineAnswer },
+    ])).toEqual([{ symptom: 'numbness', onset: '2026-09-01', trend: 'worsening' }]);
+  });
+});
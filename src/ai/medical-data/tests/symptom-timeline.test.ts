@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SymptomTimelineEntry,
+  daysSinceOnset,
+  formatTimelineEntry,
+  mergeTimelines,
+  timelineFromText,
+  timelinePattern,
+} from '../symptom-timeline';
+
+const NOW = new Date(2026, 9, 19); // 19 October 2026
+
+describe('timelineFromText', () => {
+  it.each<[string, string[], SymptomTimelineEntry[]]>([
+    ['headache for 3 days, fatigue for 2 months', [], [
+      { symptom: 'headache', onset: '2026-10-16' },
+      { symptom: 'fatigue', onset: '2026-08-20' },
+    ]],
+    ['tingling in my feet for 5 days', [], [{ symptom: 'tingling', onset: '2026-10-14' }]],
+    // A duration on its own dates every symptom not dated otherwise
+    ['headache and fatigue. It started 2 weeks ago', [], [
+      { symptom: 'headache', onset: '2026-10-05' },
+      { symptom: 'fatigue', onset: '2026-10-05' },
+    ]],
+    ['fatigue', ['Q1: How long have you had fatigue?\nAnswer: About 3 months'], [{ symptom: 'fatigue', onset: '2026-07-21' }]],
+    ['joint pain that comes and goes with 4 flares since last spring', [], [
+      { symptom: 'joint pain', onset: '2026-03-01', trend: 'fluctuating', episodes: 4 },
+    ]],
+    ['numbness getting worse every day', [], [{ symptom: 'numbness', trend: 'worsening', frequency: 'daily' }]],
+    ['numbness, fatigue', ['Q1: When did each of these symptoms start, and how have they changed since?\nAnswer: Numbness: started 2026-10-15; Fatigue: started 2020-01-01'], [
+      { symptom: 'numbness', onset: '2026-10-15' },
+      { symptom: 'fatigue', onset: '2020-01-01' },
+    ]],
+    ['no fever for 3 days, headache', [], []],
+    ['headache', [], []],
+  ])('%s %j', (symptoms, answers, expected) => {
+    expect(timelineFromText(symptoms, answers, NOW)).toEqual(expected);
+  });
+});
+
+describe('daysSinceOnset', () => {
+  it.each<[SymptomTimelineEntry, number | undefined]>([
+    [{ symptom: 'fatigue', onset: '2026-10-12' }, 7],
+    [{ symptom: 'fatigue', onset: '2025-10-19' }, 365],
+    [{ symptom: 'fatigue', onset: '2026-10-25' }, 0],
+    [{ symptom: 'fatigue' }, undefined],
+  ])('%j -> %s', (entry, expected) => {
+    expect(daysSinceOnset(entry, NOW)).toBe(expected);
+  });
+});
+
+describe('timelinePattern', () => {
+  it.each<[Partial<SymptomTimelineEntry>, string | undefined]>([
+    [{ trend: 'worsening' }, 'progressive'],
+    [{ trend: 'fluctuating' }, 'relapsing'],
+    [{ episodes: 3 }, 'relapsing'],
+    [{ episodes: 1 }, undefined],
+    [{ trend: 'stable', frequency: 'daily' }, undefined],
+  ])('%j -> %s', (details, expected) => {
+    expect(timelinePattern({ symptom: 'rash', ...details })).toBe(expected);
+  });
+});
+
+describe('mergeTimelines', () => {
+  it('lets later timelines override earlier ones field by field', () => {
+    expect(mergeTimelines(
+      [{ symptom: 'fatigue', onset: '2026-08-01', trend: 'stable' }, { symptom: 'rash', onset: '2026-10-01' }],
+      [{ symptom: 'fatigue', onset: '2026-09-01', trend: undefined, frequency: 'daily' }],
+    )).toEqual([
+      { symptom: 'fatigue', onset: '2026-09-01', trend: 'stable', frequency: 'daily' },
+      { symptom: 'rash', onset: '2026-10-01' },
+    ]);
+  });
+});
+
+describe('formatTimelineEntry', () => {
+  it.each<[SymptomTimelineEntry, string]>([
+    [{ symptom: 'numbness', onset: '2026-09-01', frequency: 'daily', trend: 'worsening' }, 'Numbness: started 2026-09-01, daily, worsening'],
+    [{ symptom: 'joint pain', episodes: 4 }, 'Joint pain: 4 episodes'],
+    [{ symptom: 'fatigue' }, 'Fatigue: no details'],
+  ])('%j -> %s', (entry, expected) => {
+    expect(formatTimelineEntry(entry)).toBe(expected);
+  });
+});
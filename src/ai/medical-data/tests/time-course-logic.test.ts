@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { buildTimelineQuestion } from '../structured-answers';
+import { applyTimeCourseLogic, extractTimeCourseData, timeCourseForCondition, TimeCourseData } from '../time-course-logic';
+
+const NOW = new Date(2026, 9, 19); // 19 October 2026
+
+describe('applyTimeCourseLogic', () => {
+  it.each<[TimeCourseData, string, number | null]>([
+    [{ duration_days: 30 }, 'Guillain-Barré Syndrome (GBS)', 0.5],
+    [{ duration_days: 30 }, 'Lymphoma', 1.3],
+    [{ duration_days: 7 }, 'Guillain-Barré Syndrome (GBS)', 1.2],
+    [{ duration_days: 7 }, 'Lymphoma', null],
+    [{ pattern: 'relapsing' }, 'Rheumatoid Arthritis', 1.4],
+    [{ pattern: 'progressive' }, 'Multiple Sclerosis (MS)', 1.3],
+    [{ duration_days: 30, pattern: 'relapsing' }, 'Multiple Sclerosis (MS)', 1.82],
+    [{ duration_days: 30 }, 'Hypothyroidism', null],
+    [{}, 'Lymphoma', null],
+  ])('%j %s -> %s', (timeCourse, disease, expected) => {
+    const adjustments = applyTimeCourseLogic(timeCourse, [disease]);
+    if (expected === null) {
+      expect(adjustments).toEqual([]);
+    } else {
+      expect(adjustments).toHaveLength(1);
+      expect(adjustments[0].diseaseName).toBe(disease);
+      expect(adjustments[0].multiplier).toBeCloseTo(expected);
+      expect(adjustments[0].reason).not.toBe('');
+    }
+  });
+
+  it('returns one adjustment per affected disease', () => {
+    const adjustments = applyTimeCourseLogic({ duration_days: 30 }, ['Lymphoma', 'Hypothyroidism', 'Sarcoidosis']);
+    expect(adjustments.map(a => a.diseaseName)).toEqual(['Lymphoma', 'Sarcoidosis']);
+  });
+
+  it('judges each condition on the onset of the symptoms it explains', () => {
+    // New tingling next to years of fatigue is still an acute neuropathy
+    const timeCourse = extractTimeCourseData('tingling for 5 days, fatigue for 2 years', [], [], NOW);
+    expect(timeCourse.duration_days).toBe(730);
+    const adjustments = applyTimeCourseLogic(timeCourse, ['Guillain-Barré Syndrome (GBS)', 'Lymphoma'], NOW);
+    expect(adjustments.map(a => [a.diseaseName, a.multiplier])).toEqual([
+      ['Guillain-Barré Syndrome (GBS)', 1.2],
+      ['Lymphoma', 1.3],
+    ]);
+  });
+});
+
+describe('timeCourseForCondition', () => {
+  const timeCourse: TimeCourseData = {
+    duration_days: 730,
+    pattern: 'chronic',
+    timeline: [
+      { symptom: 'tingling', onset: '2026-10-14', trend: 'worsening' },
+      { symptom: 'fatigue', onset: '2024-10-19' },
+    ],
+  };
+
+  it.each<[string, number | undefined, string | undefined]>([
+    ['Guillain-Barré Syndrome (GBS)', 5, 'progressive'],
+    ['Lymphoma', 730, 'chronic'],
+  ])('%s -> %s days, %s', (disease, days, pattern) => {
+    expect(timeCourseForCondition(disease, timeCourse, NOW)).toMatchObject({ duration_days: days, pattern });
+  });
+
+  it('falls back to the overall time course without a timeline', () => {
+    expect(timeCourseForCondition('Lymphoma', { duration_days: 30 }, NOW)).toEqual({
+      duration_days: 30,
+      pattern: undefined,
+      timeline: [],
+    });
+  });
+});
+
+describe('extractTimeCourseData', () => {
+  it.each([
+    ['fatigue for 3 weeks', [], { duration_days: 21, pattern: 'chronic', derived: true }],
+    ['headache for 5 days', [], { duration_days: 5, pattern: 'acute', derived: false }],
+    ['fatigue for 2 years', [], { duration_days: 730, pattern: 'chronic', derived: false }],
+    ['joint pain that comes and goes', [], { duration_days: undefined, pattern: 'relapsing', derived: false }],
+    ['rash', ['Q1: How long?\nAnswer: 2 months, getting worse'], { duration_days: 60, pattern: 'progressive', derived: false }],
+    ['sudden fever', [], { duration_days: undefined, pattern: 'acute', derived: false }],
+    // Symptom types suggest a pattern but never a duration
+    ['weight loss', [], { duration_days: undefined, pattern: 'chronic', derived: true }],
+    ['tingling', [], { duration_days: undefined, pattern: 'chronic', derived: true }],
+    ['numbness that is getting worse', [], { duration_days: undefined, pattern: 'progressive', derived: false }],
+    ['no weight loss, headache', [], { duration_days: undefined, pattern: 'unknown', derived: false }],
+  ])('%s %j -> %j', (symptoms, answers, expected) => {
+    expect(extractTimeCourseData(symptoms, answers, [], NOW)).toMatchObject(expected);
+  });
+
+  it('keeps the per-symptom timeline', () => {
+    expect(extractTimeCourseData('headache for 5 days', [], [], NOW).timeline).toEqual([
+      { symptom: 'headache', onset: '2026-10-14' },
+    ]);
+  });
+
+  it('takes onsets from timeline answers over the text', () => {
+    const timeCourse = extractTimeCourseData('numbness for 3 days', [], [{
+      question: buildTimelineQuestion(2, ['numbness']),
+      answer: { kind: 'timeline', entries: [{ symptom: 'numbness', onset: '2026-09-19', trend: 'worsening' }] },
+    }], NOW);
+    expect(timeCourse.duration_days).toBe(30);
+    expect(timeCourse.timeline).toEqual([{ symptom: 'numbness', onset: '2026-09-19', trend: 'worsening' }]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { Question } from '../structured-answers';
+import { TRIAGE_ADVICE, TriageLevel, triage, triageQuestionnaire } from '../triage';
+
+describe('triage', () => {
+  it.each<[string, string[], TriageLevel]>([
+    ['chest pain, shortness of breath', [], 'emergency'],
+    ['slurred speech', [], 'emergency'],
+    ['sudden weakness in my arm', [], 'emergency'],
+    ['worst headache of my life', [], 'emergency'],
+    ['fever, stiff neck', [], 'emergency'],
+    ['fatigue', ['Q1: Have you had thoughts of suicide?\nAnswer: Yes'], 'emergency'],
+    ['fainting', [], 'urgent'],
+    ['blood in stool', [], 'urgent'],
+    ['chest pain', [], 'urgent'],
+    ['fever of 39.5 C', [], 'urgent'],
+    ['headache, BP 190/120', [], 'urgent'],
+    ['palpitations, heart rate 130 bpm', [], 'gp'],
+    ['night sweats', [], 'gp'],
+    ['headache', [], 'self_care'],
+    ['no chest pain, headache', [], 'self_care'],
+    ['no fever, chest pain, difficulty breathing', [], 'emergency'],
+    ['no headache, fainting, chest pain', [], 'emergency'],
+    ['no cough, blood in stool', [], 'urgent'],
+    ['no fever, chest pain, fainting', [], 'emergency'],
+  ])('%s %j -> %s', (symptoms, answers, expected) => {
+    const result = triage({ symptoms, answers });
+    expect(result.level).toBe(expected);
+    expect(result.advice).toBe(TRIAGE_ADVICE[expected]);
+  });
+
+  it('uses structured answers', () => {
+    const question: Question = { id: 1, text: 'Do you have chest pain?', type: 'yesno', target: 'chest pain' };
+    const result = triage({
+      symptoms: 'shortness of breath',
+      structuredAnswers: [{ question, answer: { kind: 'boolean', value: true } }],
+    });
+    expect(result.level).toBe('emergency');
+  });
+
+  it('lists every matching rule, most urgent first', () => {
+    const result = triage({ symptoms: 'chest pain, fainting' });
+    expect(result.reasons.map(r => r.rule)).toEqual(['chest-pain-fainting', 'fainting', 'chest-pain']);
+  });
+});
+
+describe('triageQuestionnaire', () => {
+  const chestPain: Question = { id: 1, text: 'Do you have chest pain?', type: 'yesno', target: 'chest pain' };
+  const cough: Question = { id: 2, text: 'Do you have a cough?', type: 'yesno', target: 'cough' };
+
+  it.each<[string, Question[], Parameters<typeof triageQuestionnaire>[2], TriageLevel]>([
+    ['no fever, chest pain, fainting', [], [], 'emergency'],
+    ['no fever, no cough, fainting', [chestPain], [{ kind: 'boolean', value: true }], 'emergency'],
+    ['no fever, fainting', [chestPain, cough], [{ kind: 'boolean', value: false }, { kind: 'boolean', value: false }], 'urgent'],
+    ['no fever, no chest pain, headache', [], [], 'self_care'],
+  ])('%s with %j answered -> %s', (symptoms, questions, answers, expected) => {
+    expect(triageQuestionnaire(symptoms, questions, answers).level).toBe(expected);
+  });
+});
@@ -1,11 +1,21 @@
 /**
  * Time-Course Logic
- * Adjusts disease scores based on symptom duration and pattern
+ * Adjusts disease scores based on symptom duration and pattern. Each condition
+ * is judged on the onset and course of the symptoms it explains, so a new
+ * tingling is not read as chronic because fatigue started years ago.
  */
 
+import { CLINICAL_RULES, DISEASE_DATABASE } from '@/knowledge-base';
+import { findingsFromText, getPresentSymptoms } from './finding-extraction';
+import { extractAllMeasurements, getDurationDays } from './measurement-extraction';
+import { buildRuleContext, matchingRules } from './rule-engine';
+import { AnsweredQuestion, timelineFromAnswers } from './structured-answers';
+import { SymptomTimelineEntry, daysSinceOnset, mergeTimelines, timelineFromText, timelinePattern } from './symptom-timeline';
+
 export interface TimeCourseData {
-  duration_days?: number;
+  duration_days?: number; // Longest reported duration, across all symptoms
   pattern?: 'acute' | 'relapsing' | 'progressive' | 'chronic' | 'unknown';
+  timeline?: SymptomTimelineEntry[]; // Per-symptom onset and course
 }
 
 export interface DiseaseScoreAdjustment {
@@ -15,100 +25,50 @@ export interface DiseaseScoreAdjustment {
 }
 
 /**
- * Apply time-course logic to disease scores
+ * The time course as it bears on one condition: how long the symptoms it explains
+ * have lasted and how they behave, falling back to the overall time course
+ * when none of them has a timeline entry
+ */
+export function timeCourseForCondition(
+  diseaseName: string,
+  timeCourse: TimeCourseData,
+  now: Date = new Date()
+): TimeCourseData {
+  const disease = DISEASE_DATABASE.find(d => d.name === diseaseName);
+  const entries = (timeCourse.timeline || []).filter(e => (disease?.symptom_relevance_map[e.symptom] || 0) > 0);
+  const onsets = entries.map(e => daysSinceOnset(e, now)).filter((days): days is number => days !== undefined);
+  const patterns = entries.map(timelinePattern);
+
+  return {
+    duration_days: onsets.length > 0 ? Math.max(...onsets) : timeCourse.duration_days,
+    pattern: patterns.includes('progressive') ? 'progressive'
+      : patterns.includes('relapsing') ? 'relapsing'
+      : timeCourse.pattern,
+    timeline: entries,
+  };
+}
+
+/**
+ * Apply time-course logic to disease scores, using the time-course rules in the knowledge base
  */
 export function applyTimeCourseLogic(
   timeCourse: TimeCourseData,
-  diseaseNames: string[]
+  diseaseNames: string[],
+  now: Date = new Date()
 ): DiseaseScoreAdjustment[] {
   const adjustments: DiseaseScoreAdjustment[] = [];
   
-  const duration = timeCourse.duration_days || 0;
-  const pattern = timeCourse.pattern || 'unknown';
-  
-  // Acute diseases (should be downranked if duration > 14 days)
-  const acuteDiseases = [
-    'Guillain-Barré Syndrome (GBS)',
-    'Acute Infection',
-  ];
-  
-  // Chronic/Autoimmune diseases (should be upranked if duration > 14 days)
-  const chronicDiseases = [
-    'Systemic Lupus Erythematosus (SLE)',
-    'Rheumatoid Arthritis',
-    'Adult-Onset Still\'s Disease (AOSD)',
-    'Sjögren\'s Syndrome',
-    'Systemic Vasculitis',
-    'Sarcoidosis',
-    'Multiple Sclerosis (MS)',
-    'Chronic EBV Infection',
-    'Chronic CMV Infection',
-    'Tuberculosis (TB)',
-    'Lymphoma',
-  ];
-  
-  // Autoimmune diseases (should be upranked if relapsing pattern)
-  const autoimmuneDiseases = [
-    'Systemic Lupus Erythematosus (SLE)',
-    'Rheumatoid Arthritis',
-    'Adult-Onset Still\'s Disease (AOSD)',
-    'Sjögren\'s Syndrome',
-    'Systemic Vasculitis',
-    'Sarcoidosis',
-    'Multiple Sclerosis (MS)',
-  ];
-  
-  // Neurologic/Neurodegenerative (should be upranked if progressive pattern)
-  const neurologicDiseases = [
-    'Multiple Sclerosis (MS)',
-    'Guillain-Barré Syndrome (GBS)',
-  ];
-  
   diseaseNames.forEach(diseaseName => {
-    let multiplier = 1.0;
-    const reasons: string[] = [];
-    
-    // Duration-based adjustments
-    if (duration > 14) {
-      // Downrank acute diseases
-      if (acuteDiseases.some(d => diseaseName.includes(d))) {
-        multiplier *= 0.5;
-        reasons.push('symptoms too long for acute condition');
-      }
-      
-      // Uprank chronic/autoimmune/malignancy
-      if (chronicDiseases.some(d => diseaseName.includes(d))) {
-        multiplier *= 1.3;
-        reasons.push('symptoms duration suggests chronic condition');
-      }
-    } else if (duration > 0 && duration <= 14) {
-      // Short duration - uprank acute diseases
-      if (acuteDiseases.some(d => diseaseName.includes(d))) {
-        multiplier *= 1.2;
-        reasons.push('symptoms duration suggests acute condition');
-      }
-    }
-    
-    // Pattern-based adjustments
-    if (pattern === 'relapsing') {
-      if (autoimmuneDiseases.some(d => diseaseName.includes(d))) {
-        multiplier *= 1.4;
-        reasons.push('relapsing pattern suggests autoimmune condition');
-      }
-    }
-    
-    if (pattern === 'progressive') {
-      if (neurologicDiseases.some(d => diseaseName.includes(d))) {
-        multiplier *= 1.3;
-        reasons.push('progressive pattern suggests neurologic condition');
-      }
-    }
+    const context = buildRuleContext({ symptoms: '', timeCourse: timeCourseForCondition(diseaseName, timeCourse, now) });
+    const applicable = matchingRules(CLINICAL_RULES.time_course, context)
+      .filter(rule => rule.conditions.includes(diseaseName));
+    const multiplier = applicable.reduce((product, rule) => product * rule.multiplier, 1.0);
     
     if (multiplier !== 1.0) {
       adjustments.push({
         diseaseName,
         multiplier,
-        reason: reasons.join('; '),
+        reason: applicable.map(rule => rule.reason).join('; '),
       });
     }
   });
@@ -117,40 +77,27 @@ export function applyTimeCourseLogic(
 }
 
 /**
- * Extract time-course information from symptoms and answers
- * Also infers time-course from symptom types when not explicitly stated
+ * Extract time-course information from symptoms, answers and timeline answers.
+ * Infers the pattern (never the duration) from symptom types when not explicitly stated.
  */
 export function extractTimeCourseData(
   symptoms: string,
-  answers: string[]
+  answers: string[],
+  structuredAnswers: AnsweredQuestion[] = [],
+  now: Date = new Date()
 ): TimeCourseData & { derived?: boolean } {
   const text = (symptoms + ' ' + answers.join(' ')).toLowerCase();
-  const symptomsLower = symptoms.toLowerCase();
+  const present = getPresentSymptoms(findingsFromText(symptoms));
+  const timeline = mergeTimelines(timelineFromText(symptoms, answers, now), timelineFromAnswers(structuredAnswers));
   
-  let duration_days: number | undefined;
+  const durations = [
+    getDurationDays(extractAllMeasurements(symptoms, answers, now)),
+    ...timeline.map(entry => daysSinceOnset(entry, now)),
+  ].filter((days): days is number => days !== undefined);
+  const duration_days = durations.length > 0 ? Math.max(...durations) : undefined;
   let pattern: 'acute' | 'relapsing' | 'progressive' | 'chronic' | 'unknown' = 'unknown';
   let derived = false;
   
-  // Extract duration
-  const durationPatterns = [
-    { pattern: /(\d+)\s*(?:days?|d)/i, multiplier: 1 },
-    { pattern: /(\d+)\s*(?:weeks?|w)/i, multiplier: 7 },
-    { pattern: /(\d+)\s*(?:months?|mo)/i, multiplier: 30 },
-    { pattern: /(\d+)\s*(?:years?|y)/i, multiplier: 365 },
-    { pattern: /(?:for|since|over|last)\s+(\d+)\s*(?:days?|d)/i, multiplier: 1 },
-    { pattern: /(?:for|since|over|last)\s+(\d+)\s*(?:weeks?|w)/i, multiplier: 7 },
-    { pattern: /(?:for|since|over|last)\s+(\d+)\s*(?:months?|mo)/i, multiplier: 30 },
-    { pattern: /(?:for|since|over|last)\s+(\d+)\s*(?:years?|y)/i, multiplier: 365 },
-  ];
-  
-  for (const { pattern: regex, multiplier } of durationPatterns) {
-    const match = text.match(regex);
-    if (match) {
-      duration_days = parseInt(match[1]) * multiplier;
-      break;
-    }
-  }
-  
   // Extract pattern
   if (text.includes('relapsing') || text.includes('comes and goes') || 
       text.includes('waxing') || text.includes('waning') || 
@@ -169,39 +116,33 @@ export function extractTimeCourseData(
   
   // If pattern is unknown, infer from symptom types
   if (pattern === 'unknown') {
-    // Chronic weight loss → >3 weeks, chronic
-    if (symptomsLower.includes('weight loss') && !duration_days) {
-      duration_days = 21; // ~3 weeks
+    // Weight loss → chronic
+    if (present.has('weight loss') && !duration_days) {
       pattern = 'chronic';
       derived = true;
     }
     
     // Cardiac palpitations with progression → chronic progressive
-    if ((symptomsLower.includes('palpitation') || symptomsLower.includes('heart')) &&
+    if (present.has('heart palpitations') &&
         (text.includes('worse') || text.includes('increase') || text.includes('frequent'))) {
       pattern = 'progressive';
-      if (!duration_days) duration_days = 30;
       derived = true;
     }
     
     // Tremor + anxiety-like episodes → chronic metabolic/endocrine or autonomic
-    if ((symptomsLower.includes('tremor') || symptomsLower.includes('shaking')) &&
-        (symptomsLower.includes('anxiety') || symptomsLower.includes('nervous') || 
-         symptomsLower.includes('panic'))) {
+    if (present.has('tremor') && present.has('anxiety')) {
       pattern = 'chronic';
-      if (!duration_days) duration_days = 60;
       derived = true;
     }
     
     // Neurological symptoms → often progressive or chronic
-    if (symptomsLower.includes('numbness') || symptomsLower.includes('tingling') ||
-        symptomsLower.includes('weakness') || symptomsLower.includes('vision problem')) {
+    if (present.has('numbness') || present.has('tingling') ||
+        present.has('weakness') || present.has('vision problems')) {
       if (text.includes('worse') || text.includes('progress')) {
         pattern = 'progressive';
       } else {
         pattern = 'chronic';
       }
-      if (!duration_days) duration_days = 45;
       derived = true;
     }
     
@@ -220,6 +161,6 @@ export function extractTimeCourseData(
     }
   }
   
-  return { duration_days, pattern, derived };
+  return { duration_days, pattern, derived, timeline };
 }
 
@@ -0,0 +1,99 @@
+/**
+ * Triage
+ * Maps findings to a care disposition, independent of condition scoring:
+ * - emergency: seek emergency care now
+ * - urgent: see a doctor within 24 hours
+ * - gp: book a routine appointment with a GP
+ * - self_care: manage at home, see a GP if things change
+ * The most urgent matching rule wins. The rules live in the knowledge base (rules.json).
+ */
+
+import { CLINICAL_RULES, TRIAGE_LEVELS } from '@/knowledge-base';
+import { extractFindings } from './finding-extraction';
+import { AnswerValue, AnsweredQuestion, Question, findingsFromAnswers, formatQuestionnaire, pairAnswers } from './structured-answers';
+import { detectRedFlags } from './red-flag-detection';
+import { buildRuleContext, matchingRules } from './rule-engine';
+
+export { TRIAGE_LEVELS }; // Most urgent first
+
+export type TriageLevel = (typeof TRIAGE_LEVELS)[number];
+
+export interface TriageReason {
+  rule: string;
+  level: TriageLevel;
+  reason: string;
+}
+
+export interface TriageResult {
+  level: TriageLevel;
+  reasons: TriageReason[]; // Matching rules, most urgent first
+  advice: string;
+}
+
+export interface TriageInput {
+  symptoms: string;
+  answers?: string[]; // "Q1: ...\nAnswer: ..." text
+  structuredAnswers?: AnsweredQuestion[];
+  profile?: { age?: string; gender?: string };
+}
+
+export const TRIAGE_LABELS: Record<TriageLevel, string> = {
+  emergency: 'Seek emergency care now',
+  urgent: 'See a doctor within 24 hours',
+  gp: 'See your GP',
+  self_care: 'Self-care',
+};
+
+export const TRIAGE_ADVICE: Record<TriageLevel, string> = {
+  emergency: 'Call your local emergency number (for example 911, 999 or 112) or go to the nearest emergency department now.',
+  urgent: 'Get medical advice today: contact an urgent care service or your doctor within 24 hours.',
+  gp: 'Book an appointment with your GP to discuss these symptoms.',
+  self_care: 'These symptoms can usually be managed at home. See a GP if they get worse or do not improve.',
+};
+
+function levelRank(level: TriageLevel): number {
+  return TRIAGE_LEVELS.indexOf(level);
+}
+
+/**
+ * Triage reported symptoms and answers to a disposition
+ */
+export function triage(input: TriageInput): TriageResult {
+  const answers = input.answers || [];
+  const findings = [
+    ...extractFindings(input.symptoms, answers),
+    ...findingsFromAnswers(input.structuredAnswers || []),
+  ];
+  const context = buildRuleContext({
+    symptoms: input.symptoms,
+    answers,
+    findings,
+    profile: input.profile,
+    flags: detectRedFlags(input.symptoms, answers, input.profile).redFlags.map(f => f.name),
+  });
+
+  const reasons: TriageReason[] = matchingRules(CLINICAL_RULES.triage, context)
+    .map(rule => ({ rule: rule.id, level: rule.level, reason: rule.reason }))
+    .sort((a, b) => levelRank(a.level) - levelRank(b.level));
+
+  const level = reasons[0]?.level || 'self_care';
+  return { level, reasons, advice: TRIAGE_ADVICE[level] };
+}
+
+/**
+ * Triage the questionnaire so far: the symptoms plus the questions answered
+ * (the check the app runs after every step to decide on the emergency screen)
+ */
+export function triageQuestionnaire(
+  symptoms: string,
+  questions: Question[],
+  answers: AnswerValue[],
+  profile?: TriageInput['profile']
+): TriageResult {
+  return triage({
+    symptoms,
+    answers: formatQuestionnaire(questions, answers),
+    structuredAnswers: pairAnswers(questions, answers),
+    profile,
+  });
+}
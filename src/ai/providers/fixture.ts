@@ -0,0 +1,53 @@
+/**
+ * Fixture-replay Provider
+ * Deterministic, offline stand-in for a real LLM: each request is answered with the
+ * recorded response of the first fixture whose pattern matches one of its messages.
+ */
+
+import { z } from 'zod';
+import defaultFixturesFile from './fixtures/default.json';
+import { ChatCompletionRequest, LLMProvider, fetchError, providerError } from './types';
+
+export const FixtureSchema = z.object({
+  id: z.string().min(1),
+  match: z.string().min(1), // Case-insensitive regular expression
+  response: z.union([z.string(), z.record(z.unknown())]), // Objects are replayed as JSON
+});
+
+export const FixtureFileSchema = z.object({
+  version: z.string().regex(/^\d+\.\d+\.\d+$/),
+  fixtures: z.array(FixtureSchema),
+});
+
+export type Fixture = z.infer<typeof FixtureSchema>;
+
+export const DEFAULT_FIXTURES: Fixture[] = FixtureFileSchema.parse(defaultFixturesFile).fixtures;
+
+export function createFixtureProvider(fixtures: Fixture[] = DEFAULT_FIXTURES): LLMProvider {
+  const compiled = fixtures.map(fixture => ({ fixture, pattern: new RegExp(fixture.match, 'i') }));
+
+  function reply(request: ChatCompletionRequest): string {
+    const hit = compiled.find(({ pattern }) => request.messages.some(m => pattern.test(m.content)));
+    if (!hit) {
+      const last = request.messages[request.messages.length - 1]?.content || '';
+      throw providerError('fixture', `No fixture matches request: "${last.slice(0, 80)}"`);
+    }
+    const { response } = hit.fixture;
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+
+  return {
+    name: 'fixture',
+    model: 'fixture-replay',
+    async complete(request) {
+      return reply(request);
+    },
+    // Replays the response a word at a time, as a real model would stream it
+    async *stream(request) {
+      for (const piece of reply(request).match(/\S+\s*|\s+/g) || []) {
+        if (request.signal?.aborted) throw fetchError('fixture', request.signal.reason);
+        yield piece;
+      }
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Gemini Provider
+ * Calls the Google AI generateContent REST API; JSON replies are constrained with
+ * the request's JSON Schema.
+ */
+
+import { readSseEvents } from '@/lib/sse';
+import { ChatCompletionRequest, LLMProvider, fetchError, parseStreamEvent, providerError, requestSignal } from './types';
+
+export const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+export const GEMINI_DEFAULT_MODEL = 'gemini-2.0-flash';
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+function buildBody(request: ChatCompletionRequest) {
+  const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  return {
+    systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+    contents: request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+    generationConfig: {
+      temperature: request.temperature,
+      maxOutputTokens: request.maxTokens,
+      responseMimeType: request.json ? 'application/json' : undefined,
+      responseJsonSchema: request.json?.schema,
+    },
+  };
+}
+
+function candidateText(data: any): string {
+  const parts: Array<{ text?: string }> = data?.candidates?.[0]?.content?.parts || [];
+  return parts.map(p => p.text || '').join('');
+}
+
+export function createGeminiProvider(config: { apiKey: string; model?: string }): LLMProvider {
+  const model = config.model || GEMINI_DEFAULT_MODEL;
+
+  async function send(request: ChatCompletionRequest, url: string): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': config.apiKey },
+        body: JSON.stringify(buildBody(request)),
+        signal: requestSignal(request, DEFAULT_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw fetchError('gemini', error);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw providerError('gemini', `${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`, response.status);
+    }
+    return response;
+  }
+
+  return {
+    name: 'gemini',
+    model,
+    async complete(request) {
+      const response = await send(request, `${GEMINI_BASE_URL}/models/${model}:generateContent`);
+      const text = candidateText(await response.json());
+      if (!text) {
+        throw providerError('gemini', 'Response has no content');
+      }
+      return text;
+    },
+    async *stream(request) {
+      const response = await send(request, `${GEMINI_BASE_URL}/models/${model}:streamGenerateContent?alt=sse`);
+      if (!response.body) {
+        throw providerError('gemini', 'Response has no body');
+      }
+
+      try {
+        // Each event is a partial GenerateContentResponse holding the next piece of text
+        for await (const { data } of readSseEvents(response.body)) {
+          const text = candidateText(parseStreamEvent('gemini', data));
+          if (text) yield text;
+        }
+      } catch (error: any) {
+        throw error?.provider ? error : fetchError('gemini', error);
+      }
+    },
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * Groq Provider
+ * Groq serves an OpenAI-compatible API; its fast models only support
+ * JSON-object mode, so the schema travels in the system prompt.
+ */
+
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { LLMProvider } from './types';
+
+export const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
+export const GROQ_DEFAULT_MODEL = 'llama-3.1-8b-instant'; // Fast and free model
+
+export function createGroqProvider(config: { apiKey: string; model?: string }): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'groq',
+    baseUrl: GROQ_BASE_URL,
+    apiKey: config.apiKey,
+    model: config.model || GROQ_DEFAULT_MODEL,
+    jsonMode: 'json_object',
+  });
+}
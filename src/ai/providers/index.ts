@@ -0,0 +1,239 @@
+/**
+ * LLM Providers
+ * Every LLM call in the app goes through an LLMProvider chosen by configuration:
+ * - groq: Groq cloud (default)
+ * - gemini: Google Gemini
+ * - openai-compatible: any OpenAI-style endpoint, e.g. a local Ollama server
+ * - fixture: deterministic replay of recorded responses, for offline runs and tests
+ *
+ * Configured from LLM_PROVIDER, LLM_MODEL, GROQ_API_KEY, GOOGLE_GENAI_API_KEY,
+ * OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_API_KEY. Providers run on the
+ * server only: the page reaches them through server actions and /api routes, so
+ * keys are never sent to the browser.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { isCancelled } from '@/lib/cancellation';
+import { Fixture, createFixtureProvider } from './fixture';
+import { createGeminiProvider } from './gemini';
+import { createGroqProvider } from './groq';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { ChatCompletionRequest, JsonSchema, LLMProvider, PROVIDER_NAMES, ProviderError, ProviderName } from './types';
+
+export * from './types';
+export { isCancelled } from '@/lib/cancellation';
+export { DEFAULT_FIXTURES, FixtureFileSchema, FixtureSchema } from './fixture';
+export type { Fixture } from './fixture';
+
+export type ProviderConfig =
+  | { provider: 'groq'; apiKey: string; model?: string }
+  | { provider: 'gemini'; apiKey: string; model?: string }
+  | { provider: 'openai-compatible'; baseUrl: string; apiKey?: string; model: string }
+  | { provider: 'fixture'; fixtures?: Fixture[] };
+
+export const OPENAI_COMPATIBLE_DEFAULT_BASE_URL = 'http://localhost:11434/v1'; // Ollama
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case 'groq':
+      return createGroqProvider(config);
+    case 'gemini':
+      return createGeminiProvider(config);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(config);
+    case 'fixture':
+      return createFixtureProvider(config.fixtures);
+  }
+}
+
+interface ProviderSettings {
+  provider?: string;
+  model?: string;
+  groqApiKey?: string;
+  geminiApiKey?: string;
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+}
+
+function configFromSettings(settings: ProviderSettings): ProviderConfig {
+  const provider = (settings.provider?.trim() || 'groq') as ProviderName;
+  const model = settings.model?.trim() || undefined;
+
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}". Use one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  switch (provider) {
+    case 'groq': {
+      const apiKey = settings.groqApiKey?.trim();
+      if (!apiKey) {
+        throw new Error(`GROQ_API_KEY is not set. Please add it to your .env.local file. Get a free key at https://console.groq.com/`);
+      }
+      return { provider, apiKey, model };
+    }
+    case 'gemini': {
+      const apiKey = settings.geminiApiKey?.trim();
+      if (!apiKey) {
+        throw new Error(`GOOGLE_GENAI_API_KEY is not set. Please add it to your .env.local file. Get a key at https://aistudio.google.com/apikey`);
+      }
+      return { provider, apiKey, model };
+    }
+    case 'openai-compatible':
+      if (!model) {
+        throw new Error(`LLM_MODEL is not set. Please add the model name served by your endpoint to your .env.local file.`);
+      }
+      return {
+        provider,
+        baseUrl: settings.openaiBaseUrl?.trim() || OPENAI_COMPATIBLE_DEFAULT_BASE_URL,
+        apiKey: settings.openaiApiKey?.trim() || undefined,
+        model,
+      };
+    case 'fixture':
+      return { provider };
+  }
+}
+
+/**
+ * Provider for server actions, configured from server-side environment variables
+ */
+export function getServerProvider(): LLMProvider {
+  return createProvider(configFromSettings({
+    provider: process.env.LLM_PROVIDER,
+    model: process.env.LLM_MODEL,
+    groqApiKey: process.env.GROQ_API_KEY,
+    geminiApiKey: process.env.GOOGLE_GENAI_API_KEY,
+    openaiBaseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL,
+    openaiApiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+  }));
+}
+
+/**
+ * Parse a JSON reply, tolerating markdown fences or prose around the document
+ */
+export function parseJsonReply(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const match = text.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+    if (match) {
+      try {
+        return JSON.parse(match[0]);
+      } catch {
+        // Fall through to the error below
+      }
+    }
+    throw new Error('Failed to parse AI response as JSON');
+  }
+}
+
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as JsonSchema;
+  return jsonSchema;
+}
+
+/**
+ * Complete a chat whose reply must be JSON matching `schema`; returns the validated value
+ */
+export async function completeJson<S extends z.ZodTypeAny>(
+  provider: LLMProvider,
+  request: Omit<ChatCompletionRequest, 'json'>,
+  name: string,
+  schema: S
+): Promise<z.infer<S>> {
+  const reply = await provider.complete({ ...request, json: { name, schema: toJsonSchema(schema) } });
+  const result = schema.safeParse(parseJsonReply(reply));
+  if (!result.success) {
+    throw new Error(`AI response does not match the ${name} schema: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Like completeJson, but streams the reply: `onReply` sees the text received so
+ * far after every piece
+ */
+export async function streamJson<S extends z.ZodTypeAny>(
+  provider: LLMProvider,
+  request: Omit<ChatCompletionRequest, 'json'>,
+  name: string,
+  schema: S,
+  onReply: (replySoFar: string) => void
+): Promise<z.infer<S>> {
+  let reply = '';
+  for await (const piece of provider.stream({ ...request, json: { name, schema: toJsonSchema(schema) } })) {
+    reply += piece;
+    onReply(reply);
+  }
+  const result = schema.safeParse(parseJsonReply(reply));
+  if (!result.success) {
+    throw new Error(`AI response does not match the ${name} schema: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * The value of a string field in a JSON reply that is still arriving, as far
+ * as it has arrived; undefined until the field's value has started
+ */
+export function partialJsonString(reply: string, field: string): string | undefined {
+  const start = reply.match(new RegExp(`"${field}"\\s*:\\s*"`));
+  if (!start) return undefined;
+
+  let raw = '';
+  for (let i = start.index! + start[0].length; i < reply.length; i++) {
+    const char = reply[i];
+    if (char === '"') break;
+    if (char === '\\') {
+      const length = reply[i + 1] === 'u' ? 6 : 2;
+      const escape = reply.slice(i, i + length);
+      if (escape.length < length) break; // The rest of the escape has not arrived
+      raw += escape;
+      i += length - 1;
+      continue;
+    }
+    raw += char;
+  }
+
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Turn a provider failure into a message fit for the user
+ */
+export function describeProviderError(error: unknown): string {
+  const { message = 'Unknown error', status } = (error || {}) as Partial<ProviderError>;
+  const lower = message.toLowerCase();
+
+  if (status === 401 || status === 403) {
+    return 'Invalid API key. Please check your LLM provider settings in .env.local';
+  }
+  if (status === 429 || lower.includes('rate limit')) {
+    return 'API rate limit exceeded (429). Please wait a moment and try again.';
+  }
+  if (lower.includes('timed out') || lower.includes('timeout')) {
+    return 'Request timed out. Please try again.';
+  }
+  if (lower.includes('connection') || lower.includes('econnrefused') || lower.includes('network')) {
+    return 'Connection error. Please check your internet connection and try again.';
+  }
+  return message;
+}
+
+/**
+ * Whether a failure means the provider cannot answer right now (rate limited,
+ * timed out or unreachable) rather than that the request or the settings are wrong
+ */
+export function isProviderUnavailable(error: unknown): boolean {
+  if (isCancelled(error)) return false;
+  const { message = '', status } = (error || {}) as Partial<ProviderError>;
+  const lower = message.toLowerCase();
+
+  return status === 429 ||
+         ['rate limit', 'timed out', 'timeout', 'connection', 'econnrefused', 'network'].some(term => lower.includes(term));
+}
+
@@ -0,0 +1,123 @@
+/**
+ * OpenAI-compatible Provider
+ * Talks to any endpoint implementing the OpenAI chat completions API:
+ * local servers such as Ollama, LM Studio or vLLM, and hosted APIs like Groq.
+ */
+
+import { readSseEvents } from '@/lib/sse';
+import { ChatCompletionRequest, ChatMessage, LLMProvider, ProviderName, fetchError, parseStreamEvent, providerError, requestSignal } from './types';
+
+export interface OpenAICompatibleConfig {
+  name?: ProviderName;
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  apiKey?: string;
+  model: string;
+  timeoutMs?: number;
+  /**
+   * How JSON replies are requested: 'json_schema' sends the schema as a structured
+   * output constraint; 'json_object' (for backends without schema support) asks for
+   * any JSON object and states the schema in the system prompt.
+   */
+  jsonMode?: 'json_schema' | 'json_object';
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+function withSchemaInstruction(messages: ChatMessage[], request: ChatCompletionRequest): ChatMessage[] {
+  const instruction = `Reply with a JSON object matching this JSON Schema:\n${JSON.stringify(request.json!.schema)}`;
+  const [first, ...rest] = messages;
+  if (first?.role === 'system') {
+    return [{ role: 'system', content: `${first.content}\n\n${instruction}` }, ...rest];
+  }
+  return [{ role: 'system', content: instruction }, ...messages];
+}
+
+function buildBody(config: OpenAICompatibleConfig, request: ChatCompletionRequest, stream: boolean) {
+  const jsonMode = config.jsonMode || 'json_schema';
+  let messages = request.messages;
+  let responseFormat: unknown;
+
+  if (request.json && jsonMode === 'json_schema') {
+    responseFormat = {
+      type: 'json_schema',
+      json_schema: { name: request.json.name, schema: request.json.schema },
+    };
+  } else if (request.json) {
+    messages = withSchemaInstruction(messages, request);
+    responseFormat = { type: 'json_object' };
+  }
+
+  return {
+    model: config.model,
+    messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    response_format: responseFormat,
+    stream: stream || undefined,
+  };
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const name = config.name || 'openai-compatible';
+  const url = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  async function send(request: ChatCompletionRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(buildBody(config, request, stream)),
+        signal: requestSignal(request, config.timeoutMs || DEFAULT_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw fetchError(name, error);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw providerError(name, `${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 200)}` : ''}`, response.status);
+    }
+    return response;
+  }
+
+  return {
+    name,
+    model: config.model,
+    async complete(request) {
+      const response = await send(request, false);
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw providerError(name, 'Response has no message content');
+      }
+      return content;
+    },
+    async *stream(request) {
+      const response = await send(request, true);
+      if (!response.body) {
+        throw providerError(name, 'Response has no body');
+      }
+
+      try {
+        // Each event carries the next piece of the reply; "[DONE]" ends the stream
+        for await (const { data } of readSseEvents(response.body)) {
+          if (data.trim() === '[DONE]') return;
+          const chunk = parseStreamEvent(name, data);
+          if (chunk?.error) {
+            throw providerError(name, `Stream error: ${chunk.error.message || JSON.stringify(chunk.error)}`);
+          }
+          const content = chunk?.choices?.[0]?.delta?.content;
+          if (typeof content === 'string' && content) yield content;
+        }
+      } catch (error: any) {
+        throw error?.provider ? error : fetchError(name, error);
+      }
+    },
+  };
+}
@@ -0,0 +1,434 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  ChatCompletionRequest,
+  DEFAULT_FIXTURES,
+  completeJson,
+  createProvider,
+  describeProviderError,
+  fetchError,
+  getServerProvider,
+  isCancelled,
+  isProviderUnavailable,
+  parseJsonReply,
+  partialJsonString,
+  providerError,
+  streamJson,
+  toJsonSchema,
+} from '..';
+import { createFixtureProvider } from '../fixture';
+import { generateAdaptiveQuestion } from '@/ai/flows/generate-adaptive-question';
+import { advancedSymptomAnalysis } from '@/ai/flows/advanced-symptom-analysis';
+import { generateQuestion } from '@/ai/flows/question-generation';
+
+const request: ChatCompletionRequest = {
+  messages: [
+    { role: 'system', content: 'Be brief.' },
+    { role: 'user', content: 'Say hi' },
+  ],
+  temperature: 0.2,
+  maxTokens: 50,
+};
+
+const jsonRequest: ChatCompletionRequest = {
+  ...request,
+  json: { name: 'greeting', schema: toJsonSchema(z.object({ text: z.string() })) },
+};
+
+function stubFetch(response: unknown, init: { status?: number } = {}) {
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+    new Response(JSON.stringify(response), { status: init.status || 200 })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+// Replies with a text/event-stream body of `data:` events
+function stubStream(events: unknown[]) {
+  const body = events.map(event => `data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`).join('');
+  const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    init.signal?.throwIfAborted();
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+async function collect(pieces: AsyncIterable<string>): Promise<string[]> {
+  const collected: string[] = [];
+  for await (const piece of pieces) collected.push(piece);
+  return collected;
+}
+
+function sentBody(fetchMock: ReturnType<typeof stubFetch>) {
+  return JSON.parse(fetchMock.mock.calls[0][1].body as string);
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('getServerProvider', () => {
+  it.each([
+    [{ GROQ_API_KEY: 'key' }, 'groq', 'llama-3.1-8b-instant'],
+    [{ LLM_PROVIDER: 'groq', GROQ_API_KEY: 'key', LLM_MODEL: 'llama-3.3-70b-versatile' }, 'groq', 'llama-3.3-70b-versatile'],
+    [{ LLM_PROVIDER: 'gemini', GOOGLE_GENAI_API_KEY: 'key' }, 'gemini', 'gemini-2.0-flash'],
+    [{ LLM_PROVIDER: 'openai-compatible', LLM_MODEL: 'llama3.2' }, 'openai-compatible', 'llama3.2'],
+    [{ LLM_PROVIDER: 'fixture' }, 'fixture', 'fixture-replay'],
+  ])('%j -> %s', (env, name, model) => {
+    vi.stubEnv('GROQ_API_KEY', '');
+    Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value));
+    const provider = getServerProvider();
+    expect([provider.name, provider.model]).toEqual([name, model]);
+  });
+
+  it.each([
+    [{ GROQ_API_KEY: '' }, 'GROQ_API_KEY is not set'],
+    [{ LLM_PROVIDER: 'gemini', GOOGLE_GENAI_API_KEY: '' }, 'GOOGLE_GENAI_API_KEY is not set'],
+    [{ LLM_PROVIDER: 'openai-compatible', LLM_MODEL: '' }, 'LLM_MODEL is not set'],
+    [{ LLM_PROVIDER: 'claude' }, 'Unknown LLM_PROVIDER "claude"'],
+  ])('%j throws %s', (env, message) => {
+    Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value));
+    expect(() => getServerProvider()).toThrow(message);
+  });
+});
+
+describe('openai-compatible provider', () => {
+  const provider = createProvider({ provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1/', model: 'llama3.2' });
+
+  it('posts a chat completion and returns the message content', async () => {
+    const fetchMock = stubFetch({ choices: [{ message: { content: 'hi' } }] });
+    await expect(provider.complete(request)).resolves.toBe('hi');
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+    expect(sentBody(fetchMock)).toMatchObject({ model: 'llama3.2', temperature: 0.2, max_tokens: 50 });
+  });
+
+  it('sends the JSON schema as a structured output constraint', async () => {
+    const fetchMock = stubFetch({ choices: [{ message: { content: '{"text":"hi"}' } }] });
+    await provider.complete(jsonRequest);
+    expect(sentBody(fetchMock).response_format).toEqual({ type: 'json_schema', json_schema: jsonRequest.json });
+  });
+
+  it('throws an error carrying the HTTP status', async () => {
+    stubFetch({ error: 'slow down' }, { status: 429 });
+    await expect(provider.complete(request)).rejects.toMatchObject({ provider: 'openai-compatible', status: 429 });
+  });
+});
+
+describe('groq provider', () => {
+  it('authenticates and states the schema in JSON-object mode', async () => {
+    const fetchMock = stubFetch({ choices: [{ message: { content: '{"text":"hi"}' } }] });
+    await createProvider({ provider: 'groq', apiKey: 'key' }).complete(jsonRequest);
+    const body = sentBody(fetchMock);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.groq.com/openai/v1/chat/completions');
+    expect((fetchMock.mock.calls[0][1].headers as Record<string, string>).Authorization).toBe('Bearer key');
+    expect(body.response_format).toEqual({ type: 'json_object' });
+    expect(body.messages[0].content).toContain('Be brief.');
+    expect(body.messages[0].content).toContain('JSON Schema');
+  });
+});
+
+describe('gemini provider', () => {
+  it('maps messages to contents and requests JSON output', async () => {
+    const fetchMock = stubFetch({ candidates: [{ content: { parts: [{ text: '{"text":' }, { text: '"hi"}' }] } }] });
+    const reply = await createProvider({ provider: 'gemini', apiKey: 'key' }).complete(jsonRequest);
+    const body = sentBody(fetchMock);
+    expect(reply).toBe('{"text":"hi"}');
+    expect(body.systemInstruction).toEqual({ parts: [{ text: 'Be brief.' }] });
+    expect(body.contents).toEqual([{ role: 'user', parts: [{ text: 'Say hi' }] }]);
+    expect(body.generationConfig).toMatchObject({ responseMimeType: 'application/json', responseJsonSchema: jsonRequest.json!.schema });
+  });
+});
+
+describe('fixture provider', () => {
+  const provider = createFixtureProvider([
+    { id: 'greeting', match: '^say hi', response: 'hi' },
+    { id: 'json', match: 'greeting', response: { text: 'hi' } },
+  ]);
+
+  it.each([
+    ['Say hi', 'hi'],
+    ['Reply with a greeting', '{"text":"hi"}'],
+  ])('%s -> %s', async (content, expected) => {
+    await expect(provider.complete({ messages: [{ role: 'user', content }] })).resolves.toBe(expected);
+  });
+
+  it('throws when no fixture matches', async () => {
+    await expect(provider.complete({ messages: [{ role: 'user', content: 'Something new' }] })).rejects.toThrow('No fixture matches');
+  });
+
+  it('loads the default fixtures with unique IDs', () => {
+    const ids = DEFAULT_FIXTURES.map(f => f.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('streaming', () => {
+  it('streams OpenAI-style deltas until [DONE]', async () => {
+    const fetchMock = stubStream([
+      { choices: [{ delta: { role: 'assistant' } }] },
+      { choices: [{ delta: { content: 'Hel' } }] },
+      { choices: [{ delta: { content: 'lo' } }] },
+      '[DONE]',
+      { choices: [{ delta: { content: 'ignored' } }] },
+    ]);
+    const provider = createProvider({ provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1', model: 'llama3.2' });
+
+    await expect(collect(provider.stream(request))).resolves.toEqual(['Hel', 'lo']);
+    expect(sentBody(fetchMock)).toMatchObject({ stream: true });
+  });
+
+  it('streams Gemini candidates from the SSE endpoint', async () => {
+    const fetchMock = stubStream([
+      { candidates: [{ content: { parts: [{ text: 'Hel' }] } }] },
+      { candidates: [{ content: { parts: [{ text: 'lo' }] } }] },
+    ]);
+
+    await expect(collect(createProvider({ provider: 'gemini', apiKey: 'key' }).stream(request))).resolves.toEqual(['Hel', 'lo']);
+    expect(fetchMock.mock.calls[0][0]).toMatch(/:streamGenerateContent\?alt=sse$/);
+  });
+
+  it('replays fixtures a word at a time', async () => {
+    const provider = createFixtureProvider([{ id: 'greeting', match: 'say hi', response: 'Hi there, Sam.' }]);
+    await expect(collect(provider.stream(request))).resolves.toEqual(['Hi ', 'there, ', 'Sam.']);
+  });
+
+  it('reports a stream error event as a provider error', async () => {
+    stubStream([{ choices: [{ delta: { content: 'Hel' } }] }, { error: { message: 'overloaded' } }]);
+    const provider = createProvider({ provider: 'groq', apiKey: 'key' });
+
+    await expect(collect(provider.stream(request))).rejects.toMatchObject({ provider: 'groq', message: 'Stream error: overloaded' });
+  });
+
+  it('cancels the request with its signal', async () => {
+    stubStream([{ choices: [{ delta: { content: 'Hel' } }] }]);
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await collect(createProvider({ provider: 'groq', apiKey: 'key' }).stream({ ...request, signal: controller.signal })).catch(e => e);
+    expect(error).toMatchObject({ provider: 'groq', message: 'Request cancelled' });
+    expect(isCancelled(error)).toBe(true);
+    expect(isProviderUnavailable(error)).toBe(false);
+  });
+
+  it.each([
+    ['{"te', undefined],
+    ['{"text": "', ''],
+    ['{"text": "Do you', 'Do you'],
+    ['{"text": "Say \\"hi', 'Say "hi'],
+    ['{"text": "Caf\\u00e', 'Caf'],
+    ['{"text": "Caf\\u00e9?", "type"', 'Café?'],
+    ['{"type": "yesno", "text":"Done?"}', 'Done?'],
+  ])('partialJsonString(%s) -> %s', (reply, text) => {
+    expect(partialJsonString(reply, 'text')).toBe(text);
+  });
+
+  it('streams a JSON reply and validates the whole of it', async () => {
+    const provider = createFixtureProvider([{ id: 'json', match: 'say hi', response: { text: 'Hi there' } }]);
+    const replies: string[] = [];
+
+    await expect(streamJson(provider, request, 'greeting', z.object({ text: z.string() }), reply => replies.push(reply))).resolves.toEqual({ text: 'Hi there' });
+    expect(replies.length).toBeGreaterThan(1);
+    expect(replies[replies.length - 1]).toBe('{"text":"Hi there"}');
+  });
+
+  it('names timeouts, cancellations and connection failures', () => {
+    expect(fetchError('gemini', Object.assign(new Error('x'), { name: 'TimeoutError' })).message).toBe('Request timed out');
+    expect(fetchError('gemini', new TypeError('fetch failed')).message).toBe('Connection error: fetch failed');
+  });
+});
+
+describe('parseJsonReply and completeJson', () => {
+  it.each([
+    ['{"text":"hi"}', { text: 'hi' }],
+    ['```json\n{"text":"hi"}\n```', { text: 'hi' }],
+    ['Here you go: [1, 2]', [1, 2]],
+  ])('%s', (text, expected) => {
+    expect(parseJsonReply(text)).toEqual(expected);
+  });
+
+  it('throws when there is no JSON', () => {
+    expect(() => parseJsonReply('no json here')).toThrow('Failed to parse AI response as JSON');
+  });
+
+  it('validates the reply against the schema', async () => {
+    const provider = createFixtureProvider([{ id: 'any', match: '.', response: { text: 42 } }]);
+    await expect(completeJson(provider, request, 'greeting', z.object({ text: z.string() }))).rejects.toThrow(
+      'does not match the greeting schema'
+    );
+  });
+});
+
+describe('describeProviderError', () => {
+  it.each([
+    [providerError('groq', '401 Unauthorized', 401), 'Invalid API key'],
+    [providerError('groq', '429 Too Many Requests', 429), 'rate limit exceeded (429)'],
+    [providerError('groq', 'Request timed out'), 'timed out'],
+    [providerError('groq', 'Connection error: fetch failed'), 'Connection error'],
+    [new Error('Something else'), 'Something else'],
+  ])('%s', (error, expected) => {
+    expect(describeProviderError(error)).toContain(expected);
+  });
+});
+
+describe('isProviderUnavailable', () => {
+  it.each([
+    [providerError('groq', '429 Too Many Requests', 429), true],
+    [providerError('groq', 'Request timed out'), true],
+    [providerError('groq', 'Connection error: fetch failed'), true],
+    [providerError('groq', '401 Unauthorized', 401), false],
+    [new Error('AI response does not match the question schema'), false],
+  ])('%s -> %s', (error, expected) => {
+    expect(isProviderUnavailable(error)).toBe(expected);
+  });
+});
+
+describe('flows on the fixture provider', () => {
+  it('asks ten distinct questions', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fixture');
+    const texts: string[] = [];
+    for (let questionNumber = 1; questionNumber <= 10; questionNumber++) {
+      const question = await generateAdaptiveQuestion({
+        questionNumber,
+        name: 'Sam',
+        age: '40',
+        gender: 'female',
+        symptoms: 'fatigue',
+        previousAnswers: [],
+      });
+      texts.push(question.text);
+    }
+    expect(new Set(texts).size).toBe(10);
+  });
+
+  it('streams the question text as it is generated', async () => {
+    vi.stubEnv('LLM_PROVIDER', 'fixture');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const texts: string[] = [];
+
+    const question = await generateQuestion(
+      { questionNumber: 1, name: 'Sam', age: '40', gender: 'female', symptoms: 'fatigue', previousAnswers: [] },
+      { onText: text => texts.push(text) }
+    );
+    expect(texts.length).toBeGreaterThan(1);
+    texts.forEach(text => expect(question.text.startsWith(text)).toBe(true));
+    expect(texts[texts.length - 1]).toBe(question.text);
+  });
+
+  it('leaves explanations to the signed stream, never calling the LLM from the analysis action', async () => {
+    const fetchMock = stubFetch({ choices: [{ message: { content: 'An explanation' } }] });
+    vi.stubEnv('LLM_PROVIDER', 'openai-compatible');
+    vi.stubEnv('LLM_MODEL', 'llama3.2');
+
+    const result = await advancedSymptomAnalysis({ symptoms: 'fatigue, pale skin', questionnaireAnswers: '' });
+
+    expect(result.conditions.length).toBeGreaterThan(0);
+    result.conditions.forEach(c => expect(c.explanation).toBe(''));
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('flows without an LLM', () => {
+  const input = {
+    questionNumber: 2,
+    name: 'Sam',
+    age: '40',
+    gender: 'female',
+    symptoms: 'fatigue',
+    previousAnswers: [],
+    targetFinding: 'Excessive thirst',
+  };
+  const bankQuestion = { text: 'Have you been unusually thirsty?', type: 'yesno', target: 'excessive thirst', source: 'bank' };
+
+  it.each([
+    ['no provider is configured', {}, undefined],
+    ['the provider is rate limited', { GROQ_API_KEY: 'key' }, 429],
+  ])('words planned questions from the question bank when %s', async (_case, env, status) => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.stubEnv('GROQ_API_KEY', '');
+    Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value));
+    if (status) stubFetch({ error: 'slow down' }, { status });
+
+    await expect(generateAdaptiveQuestion(input)).resolves.toEqual(bankQuestion);
+  });
+
+  it.each([
+    ['questions without a planned finding', { targetFinding: undefined }, {}, undefined, 'GROQ_API_KEY is not set'],
+    ['an invalid API key', {}, { GROQ_API_KEY: 'key' }, 401, 'Invalid API key'],
+  ])('still fails for %s', async (_case, overrides, env, status, message) => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.stubEnv('GROQ_API_KEY', '');
+    Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value));
+    if (status) stubFetch({ error: 'no' }, { status });
+
+    await expect(generateAdaptiveQuestion({ ...input, ...overrides })).rejects.toThrow(message);
+  });
+});
+
+describe('validated question generation', () => {
+  const input = {
+    questionNumber: 3,
+    name: 'Sam',
+    age: '40',
+    gender: 'female',
+    symptoms: 'fatigue',
+    previousAnswers: [],
+    allPreviousQuestionTexts: ['Do you have a fever?'],
+  };
+
+  function stubReplies(...questions: object[]) {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => {
+      const question = questions[Math.min(fetchMock.mock.calls.length - 1, questions.length - 1)];
+      return new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(question) } }] }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('LLM_PROVIDER', 'openai-compatible');
+    vi.stubEnv('LLM_MODEL', 'llama3.2');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    return fetchMock;
+  }
+
+  const prompts = (fetchMock: ReturnType<typeof stubReplies>) =>
+    fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body as string).messages[1].content as string);
+
+  it('repairs a question without asking again', async () => {
+    const fetchMock = stubReplies({ text: 'Do you get headaches?', type: 'multiple', options: null });
+
+    await expect(generateAdaptiveQuestion(input)).resolves.toEqual({ text: 'Do you get headaches?', type: 'yesno', source: 'llm' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['repeats an earlier question', { text: 'Have you had any fever?', type: 'yesno' }, 'repeats an earlier one'],
+    ['does not match the schema', { text: 'Do you get headaches?', type: 'checkbox' }, 'does not match the question schema'],
+  ])('asks again, saying why, when the question %s', async (_case, rejected, reason) => {
+    const fetchMock = stubReplies(rejected, { text: 'Do you get headaches?', type: 'yesno' });
+
+    await expect(generateAdaptiveQuestion(input)).resolves.toMatchObject({ text: 'Do you get headaches?', source: 'llm' });
+    expect(prompts(fetchMock)[0]).not.toContain('REJECTED');
+    expect(prompts(fetchMock)[1]).toContain('YOUR PREVIOUS QUESTION WAS REJECTED');
+    expect(prompts(fetchMock)[1]).toContain(reason);
+  });
+
+  it('falls back to the question bank when no valid question is generated', async () => {
+    const fetchMock = stubReplies({ text: 'Could this be diabetes?', type: 'yesno' });
+
+    await expect(generateAdaptiveQuestion({ ...input, targetFinding: 'Excessive thirst' })).resolves.toMatchObject({
+      text: 'Have you been unusually thirsty?',
+      source: 'bank',
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails when no valid question is generated and there is no planned finding', async () => {
+    stubReplies({ text: 'Could this be diabetes?', type: 'yesno' });
+
+    await expect(generateAdaptiveQuestion(input)).rejects.toThrow('No valid question was generated');
+  });
+});
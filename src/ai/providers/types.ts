@@ -0,0 +1,80 @@
+/**
+ * LLM Provider Types
+ * One chat-completion interface for every LLM backend the app can talk to.
+ */
+
+import { cancelledError, isCancelled } from '@/lib/cancellation';
+
+export const PROVIDER_NAMES = ['groq', 'gemini', 'openai-compatible', 'fixture'] as const;
+
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: {
+    name: string; // Identifies the schema to backends that require one
+    schema: JsonSchema; // The reply must be a JSON document satisfying this schema
+  };
+  signal?: AbortSignal; // Cancels the request, e.g. when the user navigates away
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  /**
+   * Complete a chat and return the raw reply text
+   */
+  complete(request: ChatCompletionRequest): Promise<string>;
+  /**
+   * Complete a chat, yielding the raw reply text in pieces as it is generated
+   */
+  stream(request: ChatCompletionRequest): AsyncIterable<string>;
+}
+
+/**
+ * Error raised by a provider; `status` carries the HTTP status when there is one
+ */
+export type ProviderError = Error & { provider: ProviderName; status?: number };
+
+export function providerError(provider: ProviderName, message: string, status?: number): ProviderError {
+  return Object.assign(new Error(message), { provider, status });
+}
+
+/**
+ * The signal a provider's HTTP request runs under: the request's own, plus a timeout
+ */
+export function requestSignal(request: ChatCompletionRequest, timeoutMs: number): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return request.signal ? AbortSignal.any([request.signal, timeout]) : timeout;
+}
+
+/**
+ * Turn a failed fetch into a provider error; cancellations keep the name AbortError
+ */
+export function fetchError(provider: ProviderName, error: any): ProviderError {
+  if (error?.name === 'TimeoutError') return providerError(provider, 'Request timed out');
+  if (isCancelled(error)) return cancelledError(providerError(provider, 'Request cancelled'));
+  return providerError(provider, `Connection error: ${error?.message || error}`);
+}
+
+/**
+ * The JSON payload of one event in a provider's response stream
+ */
+export function parseStreamEvent(provider: ProviderName, data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw providerError(provider, `Malformed stream event: ${data.slice(0, 80)}`);
+  }
+}
@@ -0,0 +1,3 @@
+import { createExplanationStreamHandler } from '@/ai/flows/stream-handlers';
+
+export const POST = createExplanationStreamHandler();
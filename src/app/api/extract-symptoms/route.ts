@@ -0,0 +1,3 @@
+import { createExtractionHandler } from '@/ai/flows/signed-handlers';
+
+export const POST = createExtractionHandler();
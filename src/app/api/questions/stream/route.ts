@@ -0,0 +1,3 @@
+import { createQuestionStreamHandler } from '@/ai/flows/stream-handlers';
+
+export const POST = createQuestionStreamHandler();
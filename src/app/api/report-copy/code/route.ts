@@ -0,0 +1,3 @@
+import { createCopyCodeHandler } from '@/report/delivery/copy-code-handler';
+
+export const POST = createCopyCodeHandler();
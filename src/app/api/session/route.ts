@@ -0,0 +1,3 @@
+import { createSessionHandler } from '@/ai/flows/signed-handlers';
+
+export const POST = createSessionHandler();
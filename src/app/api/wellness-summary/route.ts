@@ -0,0 +1,3 @@
+import { createWellnessSummaryHandler } from '@/ai/flows/signed-handlers';
+
+export const POST = createWellnessSummaryHandler();
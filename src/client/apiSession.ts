@@ -0,0 +1,71 @@
+/**
+ * API session
+ * Signs the page's requests to the LLM routes (see src/lib/request-signing.ts).
+ * The page keeps one session and replaces it shortly before it expires, or
+ * once when the server turns it down (e.g. it was issued by another instance).
+ */
+
+import { RequestSession, signRequest } from '@/lib/request-signing';
+
+export const SESSION_URL = '/api/session';
+
+const RENEW_MARGIN_MS = 60 * 1000;
+
+interface PageSession extends RequestSession {
+  clockOffset: number; // Server time minus page time, so signatures carry the server's clock
+}
+
+let current: Promise<PageSession> | null = null;
+
+async function startSession(): Promise<PageSession> {
+  const response = await fetch(SESSION_URL, { method: 'POST' });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || `Could not start a session (${response.status})`);
+  }
+  return { ...(data as RequestSession), clockOffset: data.issuedAt - Date.now() };
+}
+
+async function getSession(renew: boolean): Promise<PageSession> {
+  if (current && !renew) {
+    const session = await current.catch(() => undefined);
+    if (session && session.expiresAt - RENEW_MARGIN_MS > Date.now() + session.clockOffset) return session;
+  }
+  current = startSession();
+  return current;
+}
+
+/**
+ * POST `body` as JSON to one of the signed routes and return the response as
+ * is, e.g. to read an event stream from it
+ */
+export async function fetchSigned(path: string, body: unknown, init: Pick<RequestInit, 'headers' | 'signal'> = {}): Promise<Response> {
+  const text = JSON.stringify(body);
+
+  for (let attempt = 1; ; attempt++) {
+    const session = await getSession(attempt > 1);
+    const signature = await signRequest(session, 'POST', path, text, Date.now() + session.clockOffset);
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...init.headers, ...signature },
+      body: text,
+      signal: init.signal,
+    });
+
+    if (response.status === 401 && attempt === 1) continue;
+    return response;
+  }
+}
+
+/**
+ * POST `body` as JSON to one of the signed routes and return its JSON reply;
+ * error responses throw with the server's message
+ */
+export async function postSigned<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetchSigned(path, body);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || `Request failed (${response.status})`);
+  }
+  return data as T;
+}
@@ -0,0 +1,213 @@
+/**
+ * Assessment history
+ * Keeps a summary of each completed assessment in localStorage (date, symptoms,
+ * top conditions, red flags) so people tracking chronic symptoms can look back,
+ * and compares two assessments: new and resolved symptoms, condition rank changes
+ * and red flags raised or cleared.
+ */
+
+import { z } from 'zod';
+import { getSymptomLabel, resolveSymptomId } from '@/knowledge-base';
+import type { AdvancedAnalysisOutput } from '@/ai/flows/advanced-symptom-analysis';
+import { extractFindings, getPresentSymptoms } from '@/ai/medical-data/finding-extraction';
+import { AnswerValue, Question, findingsFromAnswers, formatQuestionnaire, pairAnswers } from '@/ai/medical-data/structured-answers';
+import { TRIAGE_LEVELS } from '@/ai/medical-data/triage';
+import { SessionStorage, browserStorage } from './assessmentSession';
+import type { WellnessSummary } from './llmWellnessAnalysis';
+
+export const ASSESSMENT_HISTORY_VERSION = 1;
+
+export const ASSESSMENT_HISTORY_KEY = 'isp-wellness:assessment-history';
+
+export const MAX_HISTORY_RECORDS = 50;
+
+const TOP_CONDITIONS_KEPT = 5;
+
+export const AssessmentRecordSchema = z.object({
+  id: z.string().min(1),
+  completedAt: z.string().datetime(),
+  symptomsText: z.string(), // As the user wrote them
+  symptoms: z.array(z.string()), // Canonical IDs of the symptoms found present
+  topConditions: z.array(z.object({
+    condition: z.string(),
+    likelihood: z.number().min(0).max(1),
+  })), // Highest first
+  redFlags: z.array(z.string()),
+  triageLevel: z.enum(TRIAGE_LEVELS).optional(),
+});
+
+const AssessmentHistoryFileSchema = z.object({
+  version: z.literal(ASSESSMENT_HISTORY_VERSION),
+  records: z.array(AssessmentRecordSchema),
+});
+
+export type AssessmentRecord = z.infer<typeof AssessmentRecordSchema>;
+
+export type RankChange = 'new' | 'dropped' | 'up' | 'down' | 'unchanged';
+
+export interface ConditionRankChange {
+  condition: string;
+  previousRank?: number; // 1-based; undefined when not in the earlier top conditions
+  currentRank?: number; // 1-based; undefined when no longer in the top conditions
+  change: RankChange;
+  likelihoodDelta?: number; // Later minus earlier, when ranked in both
+}
+
+export interface AssessmentDiff {
+  daysBetween: number;
+  newSymptoms: string[];
+  resolvedSymptoms: string[];
+  ongoingSymptoms: string[];
+  conditions: ConditionRankChange[]; // In the later assessment's order, then dropped conditions
+  newRedFlags: string[];
+  clearedRedFlags: string[];
+}
+
+export function newAssessmentId(now: Date = new Date()): string {
+  return `${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Summarize a completed advanced analysis, with the symptoms and answers it was run on
+ */
+export function recordFromAnalysis(
+  analysis: Pick<AdvancedAnalysisOutput, 'conditions' | 'red_flags' | 'triage'>,
+  input: { id: string; symptoms: string; questions: Question[]; answers: AnswerValue[] },
+  now: Date = new Date()
+): AssessmentRecord {
+  const present = getPresentSymptoms([
+    ...extractFindings(input.symptoms, formatQuestionnaire(input.questions, input.answers)),
+    ...findingsFromAnswers(pairAnswers(input.questions, input.answers)),
+  ]);
+
+  return {
+    id: input.id,
+    completedAt: now.toISOString(),
+    symptomsText: input.symptoms,
+    symptoms: Array.from(present),
+    topConditions: analysis.conditions
+      .slice(0, TOP_CONDITIONS_KEPT)
+      .map(c => ({ condition: c.condition, likelihood: c.likelihood })),
+    redFlags: analysis.red_flags.filter(f => f.detected).map(f => f.name),
+    triageLevel: analysis.triage.level,
+  };
+}
+
+// "75%" -> 0.75; "Low likelihood (<10%)" -> 0.05, the middle of the stated range
+function parsePercentage(text: string): number {
+  const match = text.match(/(<\s*)?(\d+(?:\.\d+)?)\s*%/);
+  if (!match) return 0;
+  const percent = parseFloat(match[2]) / (match[1] ? 2 : 1);
+  return Math.min(Math.max(percent / 100, 0), 1);
+}
+
+/**
+ * Summarize an LLM wellness summary; it reports no red flags or triage level
+ */
+export function recordFromWellnessSummary(summary: WellnessSummary, id: string, now: Date = new Date()): AssessmentRecord {
+  const symptoms = summary.reportedSymptoms
+    .map(resolveSymptomId)
+    .filter((symptom): symptom is string => symptom !== undefined);
+
+  return {
+    id,
+    completedAt: now.toISOString(),
+    symptomsText: summary.reportedSymptoms.join(', '),
+    symptoms: Array.from(new Set(symptoms)),
+    topConditions: summary.topConditions
+      .slice(0, TOP_CONDITIONS_KEPT)
+      .map(c => ({ condition: c.condition, likelihood: parsePercentage(c.percentage) })),
+    redFlags: [],
+  };
+}
+
+/**
+ * Saved assessments, newest first; an unreadable history is discarded
+ */
+export function loadHistory(storage: SessionStorage | undefined = browserStorage()): AssessmentRecord[] {
+  const raw = storage?.getItem(ASSESSMENT_HISTORY_KEY);
+  if (!storage || !raw) return [];
+
+  try {
+    const parsed = AssessmentHistoryFileSchema.safeParse(JSON.parse(raw));
+    if (parsed.success) return parsed.data.records;
+    console.warn('Discarding unreadable assessment history:', parsed.error.issues[0]?.message);
+  } catch {
+    console.warn('Discarding assessment history that is not valid JSON');
+  }
+  clearHistory(storage);
+  return [];
+}
+
+function writeHistory(records: AssessmentRecord[], storage: SessionStorage): void {
+  try {
+    storage.setItem(ASSESSMENT_HISTORY_KEY, JSON.stringify({ version: ASSESSMENT_HISTORY_VERSION, records }));
+  } catch (error) {
+    console.warn('Could not save assessment history:', error);
+  }
+}
+
+/**
+ * Add an assessment to the history, replacing one with the same ID;
+ * only the newest MAX_HISTORY_RECORDS are kept
+ */
+export function saveAssessment(record: AssessmentRecord, storage: SessionStorage | undefined = browserStorage()): void {
+  if (!storage) return;
+  const records = [record, ...loadHistory(storage).filter(r => r.id !== record.id)]
+    .sort((a, b) => b.completedAt.localeCompare(a.completedAt))
+    .slice(0, MAX_HISTORY_RECORDS);
+  writeHistory(records, storage);
+}
+
+export function clearHistory(storage: SessionStorage | undefined = browserStorage()): void {
+  storage?.removeItem(ASSESSMENT_HISTORY_KEY);
+}
+
+function rankChange(previousRank?: number, currentRank?: number): RankChange {
+  if (previousRank === undefined) return 'new';
+  if (currentRank === undefined) return 'dropped';
+  if (currentRank < previousRank) return 'up';
+  if (currentRank > previousRank) return 'down';
+  return 'unchanged';
+}
+
+/**
+ * What changed from an earlier assessment to a later one
+ */
+export function compareAssessments(earlier: AssessmentRecord, later: AssessmentRecord): AssessmentDiff {
+  const before = new Set(earlier.symptoms);
+  const after = new Set(later.symptoms);
+  const rankIn = (record: AssessmentRecord, condition: string) => {
+    const index = record.topConditions.findIndex(c => c.condition === condition);
+    return index === -1 ? undefined : index + 1;
+  };
+
+  const conditions = [
+    ...later.topConditions.map(c => c.condition),
+    ...earlier.topConditions.map(c => c.condition).filter(name => rankIn(later, name) === undefined),
+  ].map(condition => {
+    const previousRank = rankIn(earlier, condition);
+    const currentRank = rankIn(later, condition);
+    const likelihoodDelta = previousRank !== undefined && currentRank !== undefined
+      ? later.topConditions[currentRank - 1].likelihood - earlier.topConditions[previousRank - 1].likelihood
+      : undefined;
+    return { condition, previousRank, currentRank, change: rankChange(previousRank, currentRank), likelihoodDelta };
+  });
+
+  return {
+    daysBetween: Math.round((Date.parse(later.completedAt) - Date.parse(earlier.completedAt)) / 86400000),
+    newSymptoms: later.symptoms.filter(s => !before.has(s)),
+    resolvedSymptoms: earlier.symptoms.filter(s => !after.has(s)),
+    ongoingSymptoms: later.symptoms.filter(s => before.has(s)),
+    conditions,
+    newRedFlags: later.redFlags.filter(f => !earlier.redFlags.includes(f)),
+    clearedRedFlags: earlier.redFlags.filter(f => !later.redFlags.includes(f)),
+  };
+}
+
+/**
+ * Display labels for a record's symptoms, falling back to the text as written
+ */
+export function describeSymptoms(record: AssessmentRecord): string {
+  return record.symptoms.length > 0 ? record.symptoms.map(getSymptomLabel).join(', ') : record.symptomsText;
+}
@@ -0,0 +1,90 @@
+/**
+ * Assessment session persistence
+ * Autosaves an in-progress questionnaire to localStorage so a refresh can resume
+ * it instead of starting over and regenerating every question. Saved sessions
+ * carry a schema version; anything unreadable or from another version is dropped.
+ */
+
+import { z } from 'zod';
+import { AnswerValueSchema, QuestionSchema } from '@/ai/medical-data/structured-answers';
+
+export const ASSESSMENT_SESSION_VERSION = 1;
+
+export const ASSESSMENT_SESSION_KEY = 'isp-wellness:assessment-session';
+
+export const SessionProfileSchema = z.object({
+  name: z.string(),
+  age: z.string(),
+  gender: z.string(),
+  medicalConditions: z.string(),
+});
+
+export const AssessmentSessionSchema = z.object({
+  version: z.literal(ASSESSMENT_SESSION_VERSION),
+  savedAt: z.string().datetime(),
+  profile: SessionProfileSchema,
+  symptoms: z.string(),
+  questions: z.array(QuestionSchema).min(1),
+  answers: z.array(AnswerValueSchema),
+  currentQuestionIndex: z.number().int().min(1), // 1-based, as in the questionnaire screen
+});
+
+export type AssessmentSession = z.infer<typeof AssessmentSessionSchema>;
+
+export type SessionState = Omit<AssessmentSession, 'version' | 'savedAt'>;
+
+export type SessionStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/**
+ * The browser's localStorage, or undefined during server rendering and when storage is blocked
+ */
+export function browserStorage(): SessionStorage | undefined {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Save the questionnaire state, replacing any earlier session
+ */
+export function saveSession(
+  state: SessionState,
+  storage: SessionStorage | undefined = browserStorage(),
+  now: Date = new Date()
+): void {
+  if (!storage) return;
+  const session: AssessmentSession = { version: ASSESSMENT_SESSION_VERSION, savedAt: now.toISOString(), ...state };
+  try {
+    storage.setItem(ASSESSMENT_SESSION_KEY, JSON.stringify(session));
+  } catch (error) {
+    // Quota exceeded or storage disabled: the assessment goes on, it just can't be resumed
+    console.warn('Could not save assessment session:', error);
+  }
+}
+
+/**
+ * The saved session, if there is one this version can read; anything else is removed
+ */
+export function loadSession(storage: SessionStorage | undefined = browserStorage()): AssessmentSession | null {
+  const raw = storage?.getItem(ASSESSMENT_SESSION_KEY);
+  if (!storage || !raw) return null;
+
+  try {
+    const parsed = AssessmentSessionSchema.safeParse(JSON.parse(raw));
+    if (parsed.success) return parsed.data;
+    console.warn('Discarding unreadable assessment session:', parsed.error.issues[0]?.message);
+  } catch {
+    console.warn('Discarding assessment session that is not valid JSON');
+  }
+  clearSession(storage);
+  return null;
+}
+
+/**
+ * Forget the saved session, once the assessment is finished or abandoned
+ */
+export function clearSession(storage: SessionStorage | undefined = browserStorage()): void {
+  storage?.removeItem(ASSESSMENT_SESSION_KEY);
+}
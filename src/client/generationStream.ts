@@ -0,0 +1,60 @@
+/**
+ * Streamed generation
+ * Reads the server-sent events of /api/questions/stream and
+ * /api/explanations/stream, reporting text as it arrives. Both resolve once
+ * generation is complete and reject on an `error` event; aborting `signal`
+ * cancels the request on the server as well. Requests are signed like the
+ * page's other LLM requests (see apiSession.ts).
+ */
+
+import type { AdvancedSymptomAnalysisInput } from '@/ai/flows/analysis-input';
+import type { GenerateAdaptiveQuestionInput, GenerateAdaptiveQuestionOutput } from '@/ai/flows/question-generation';
+import { responseEvents } from '@/lib/sse';
+import { fetchSigned } from './apiSession';
+
+export const QUESTION_STREAM_URL = '/api/questions/stream';
+export const EXPLANATION_STREAM_URL = '/api/explanations/stream';
+
+async function* signedEvents(path: string, input: unknown, signal?: AbortSignal) {
+  yield* responseEvents<any>(await fetchSigned(path, input, { headers: { Accept: 'text/event-stream' }, signal }));
+}
+
+export interface QuestionStreamOptions {
+  onText?: (textSoFar: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ExplanationStreamOptions {
+  onText?: (condition: string, textSoFar: string) => void;
+  onExplanation?: (condition: string, explanation: string) => void;
+  signal?: AbortSignal;
+}
+
+export async function streamAdaptiveQuestion(
+  input: GenerateAdaptiveQuestionInput,
+  options: QuestionStreamOptions = {}
+): Promise<GenerateAdaptiveQuestionOutput> {
+  for await (const { event, data } of signedEvents(QUESTION_STREAM_URL, input, options.signal)) {
+    if (event === 'text') options.onText?.(data.text);
+    else if (event === 'question') return data as GenerateAdaptiveQuestionOutput;
+    else if (event === 'error') throw new Error(data.message);
+  }
+  throw new Error('The question stream ended without a question');
+}
+
+/**
+ * Explanations for the conditions the analysis of `input` scores, in the
+ * analysis's order; the server explains only the first few
+ */
+export async function streamConditionExplanations(
+  input: AdvancedSymptomAnalysisInput,
+  options: ExplanationStreamOptions = {}
+): Promise<void> {
+  for await (const { event, data } of signedEvents(EXPLANATION_STREAM_URL, input, options.signal)) {
+    if (event === 'text') options.onText?.(data.condition, data.text);
+    else if (event === 'explanation') options.onExplanation?.(data.condition, data.explanation);
+    else if (event === 'done') return;
+    else if (event === 'error') throw new Error(data.message);
+  }
+  throw new Error('The explanation stream ended early');
+}
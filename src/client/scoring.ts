@@ -3,17 +3,18 @@
  * No backend dependencies - all computation in browser
  */
 
-// Import JSON data (handled by Next.js)
-import symptomWeightsData from './symptomWeights.json';
-import diseasesData from './diseases.json';
-
-export interface DiseaseData {
-  name: string;
-  cluster: string[];
-  symptom_relevance_map: Record<string, number>;
-  description: string;
-  webmd_search_term: string;
-}
+import {
+  CLINICAL_RULES,
+  DISEASE_DATABASE,
+  getDiseaseRelevance,
+  getSymptomScore,
+  resolveSymptomId,
+} from '@/knowledge-base';
+import { extractFindings, isNegatedSymptom } from '@/ai/medical-data/finding-extraction';
+import { AnsweredQuestion, findingsFromAnswers } from '@/ai/medical-data/structured-answers';
+import { getConfirmedAnswerSymptoms, scoreAnswerEvidence } from '@/ai/medical-data/answer-evidence';
+import { ScoringEngine, calculatePosteriors } from '@/ai/medical-data/bayesian-scoring';
+import { buildRuleContext, matchingRules } from '@/ai/medical-data/rule-engine';
 
 export interface ConditionResult {
   condition: string;
@@ -25,126 +26,52 @@ export interface ConditionResult {
   explanation: string;
 }
 
-/**
- * Get symptom score: severity_weight * specificity_weight
- */
-function getSymptomScore(symptom: string): number {
-  const normalized = symptom.toLowerCase().trim();
-  const weights = symptomWeightsData as Record<string, { severity_weight: number; specificity_weight: number }>;
-  
-  // Try exact match
-  if (weights[normalized]) {
-    return weights[normalized].severity_weight * weights[normalized].specificity_weight;
-  }
-  
-  // Try partial match
-  for (const [key, weight] of Object.entries(weights)) {
-    if (normalized.includes(key) || key.includes(normalized)) {
-      return weight.severity_weight * weight.specificity_weight;
-    }
-  }
-  
-  // Default: moderate severity, low specificity
-  return 0.5 * 0.3;
-}
-
-/**
- * Get disease relevance factor for a symptom
- */
-function getDiseaseRelevance(disease: DiseaseData, symptom: string): number {
-  const normalized = symptom.toLowerCase().trim();
-  
-  // Try exact match
-  if (disease.symptom_relevance_map[normalized]) {
-    return disease.symptom_relevance_map[normalized];
-  }
-  
-  // Try partial match
-  for (const [key, value] of Object.entries(disease.symptom_relevance_map)) {
-    if (normalized.includes(key) || key.includes(normalized)) {
-      return value;
-    }
-  }
-  
-  return 0;
+export interface ScoringOptions {
+  engine?: ScoringEngine; // Default: 'heuristic'
+  profile?: { age?: string; gender?: string }; // Used by the Bayesian engine's priors
 }
 
 /**
- * Apply condition filtering rules (client-side)
+ * Apply condition filtering rules (client-side); same rules as the server
  */
 function applyConditionFiltering(symptoms: string[]): string[] {
-  const symptomsLower = symptoms.join(' ').toLowerCase();
-  const priorityConditions: string[] = [];
-  
-  // Rule: weight loss + heat intolerance + palpitations → endocrine/cardiac
-  if (symptomsLower.includes('weight loss') && 
-      (symptomsLower.includes('heat') || symptomsLower.includes('sweating')) &&
-      (symptomsLower.includes('palpitation') || symptomsLower.includes('heart'))) {
-    priorityConditions.push('Hyperthyroidism', 'Graves\' Disease', 'Pheochromocytoma');
-  }
-  
-  // Rule: thirst + weight loss → Diabetes
-  if ((symptomsLower.includes('frequent urination') || symptomsLower.includes('excessive thirst')) &&
-      symptomsLower.includes('weight loss')) {
-    priorityConditions.push('Diabetes Mellitus Type 2');
-  }
-  
-  // Rule: neuro + autonomic → MS, POTS
-  if ((symptomsLower.includes('numbness') || symptomsLower.includes('tingling') || 
-       symptomsLower.includes('weakness')) &&
-      (symptomsLower.includes('dizziness') || symptomsLower.includes('orthostatic'))) {
-    priorityConditions.push('Multiple Sclerosis (MS)', 'POTS (Postural Orthostatic Tachycardia Syndrome)', 'Autonomic Dysfunction');
-  }
-  
-  return priorityConditions;
+  const context = buildRuleContext({ symptoms: symptoms.join(', ') });
+  return matchingRules(CLINICAL_RULES.condition_filters, context).flatMap(rule => rule.prioritize);
 }
 
 /**
- * Check red flags (client-side)
+ * Check red flags (client-side); every urgent flag is urgent
  */
 function checkRedFlags(symptoms: string[]): { flags: string[]; urgent: boolean } {
-  const text = symptoms.join(' ').toLowerCase();
-  const flags: string[] = [];
-  let urgent = false;
-  
-  // Chest pain + syncope/severe dyspnea → urgent
-  if (text.includes('chest pain') && 
-      (text.includes('syncope') || text.includes('fainting') || 
-       text.includes('severe') && text.includes('breathing'))) {
-    flags.push('Chest pain with syncope or severe breathing difficulty');
-    urgent = true;
-  }
-  
-  // Unintentional weight loss + night sweats → urgent
-  if (text.includes('weight loss') && text.includes('night sweat')) {
-    flags.push('Unintentional weight loss with night sweats');
-    urgent = true;
-  }
-  
-  return { flags, urgent };
+  const context = buildRuleContext({ symptoms: symptoms.join(', ') });
+  const flags = matchingRules(CLINICAL_RULES.urgent_flags, context).map(rule => rule.name);
+  return { flags, urgent: flags.length > 0 };
 }
 
 /**
  * Calculate disease scores (pure client-side)
- * final_score_raw = sum(symptom_relevance * symptom_weight)
+ * final_score_raw = sum(symptom_relevance * symptom_weight) + answer evidence
  * final_score = normalize_to_0_1(final_score_raw)
  * display_score = clamp(final_score, min=0.05 if >0 else 0, max=1.0)
  */
 export function calculateDiseaseScores(
   symptoms: string[],
-  answers: string[]
+  answers: string[],
+  answered: AnsweredQuestion[] = []
 ): Map<string, number> {
   const diseaseScores = new Map<string, number>();
-  const priorityConditions = applyConditionFiltering(symptoms);
+  const reported = symptoms.filter(s => !isNegatedSymptom(s)); // Denied symptoms ("no fever") score nothing
+  const priorityConditions = applyConditionFiltering(reported);
+  const reportedIds = new Set(reported.map(s => resolveSymptomId(s)).filter((id): id is string => !!id));
+  const answerFindings = findingsFromAnswers(answered);
+  const answerSymptoms = getConfirmedAnswerSymptoms(answerFindings, reportedIds);
   
-  const diseaseList = (diseasesData as unknown as DiseaseData[]);
-  
-  diseaseList.forEach(disease => {
+  DISEASE_DATABASE.forEach(disease => {
     let rawScore = 0;
     let matchedSymptomCount = 0;
     
     // Calculate raw score: sum(symptom_relevance * symptom_weight)
-    symptoms.forEach(symptom => {
+    reported.forEach(symptom => {
       const symptomScore = getSymptomScore(symptom);
       const relevance = getDiseaseRelevance(disease, symptom);
       
@@ -154,12 +81,18 @@ export function calculateDiseaseScores(
       }
     });
     
+    // Symptoms confirmed only in the answers count toward the match too
+    matchedSymptomCount += answerSymptoms.filter(id => getDiseaseRelevance(disease, id) > 0).length;
+    
     // Only include if symptom-match ≥ 0.15 (15%) OR matches red-flag rule
-    const symptomMatchRatio = matchedSymptomCount / Math.max(symptoms.length, 1);
+    const symptomMatchRatio = matchedSymptomCount / Math.max(reported.length + answerSymptoms.length, 1);
     if (symptomMatchRatio < 0.15 && !priorityConditions.includes(disease.name)) {
       return; // Skip this disease
     }
     
+    // Positive/negative evidence from structured answers
+    rawScore = Math.max(0, rawScore + scoreAnswerEvidence(disease, answerFindings, reportedIds));
+    
     // Boost priority conditions
     if (priorityConditions.includes(disease.name)) {
       rawScore *= 1.3;
@@ -250,34 +183,52 @@ export function getDisplayConditions(
   };
 }
 
+/**
+ * Display a posterior probability as-is (no 5% floor: it is not a relative score)
+ */
+function displayProbability(probability: number): { score: number; display: string } {
+  return {
+    score: probability,
+    display: probability < 0.10 ? 'Low likelihood (<10%)' : `${Math.round(probability * 100)}%`,
+  };
+}
+
 /**
  * Main scoring function - pure client-side
  */
 export function scoreSymptoms(
   symptoms: string[],
-  answers: string[]
+  answers: string[],
+  answered: AnsweredQuestion[] = [],
+  options: ScoringOptions = {}
 ): {
   conditions: ConditionResult[];
   redFlags: { flags: string[]; urgent: boolean };
   label?: string;
+  engine: ScoringEngine;
 } {
+  const engine = options.engine || 'heuristic';
+  
   // Check red flags
   const redFlags = checkRedFlags(symptoms);
   
-  // Calculate scores
-  const rawScores = calculateDiseaseScores(symptoms, answers);
-  
-  // Normalize to 0-1
-  const normalizedScores = normalizeScores(rawScores);
+  // Heuristic: weighted sums normalized to the top condition (0-1)
+  // Bayesian: posterior probabilities from priors and likelihood ratios
+  const scores = engine === 'bayesian'
+    ? calculatePosteriors(
+        [...extractFindings(symptoms.join(', '), answers), ...findingsFromAnswers(answered)],
+        options.profile
+      )
+    : normalizeScores(calculateDiseaseScores(symptoms, answers, answered));
   
   // Convert to results with proper display scores
   const conditions: ConditionResult[] = [];
   
-  normalizedScores.forEach((score, diseaseName) => {
-    const clamped = clampDisplayScore(score);
+  scores.forEach((score, diseaseName) => {
+    const clamped = engine === 'bayesian' ? displayProbability(score) : clampDisplayScore(score);
     if (!clamped) return; // Skip 0% conditions
     
-    const disease = (diseasesData as unknown as DiseaseData[]).find(d => d.name === diseaseName);
+    const disease = DISEASE_DATABASE.find(d => d.name === diseaseName);
     if (!disease) return;
     
     // Generate simple explanation
@@ -305,6 +256,7 @@ export function scoreSymptoms(
     conditions: displayConditions,
     redFlags,
     label,
+    engine,
   };
 }
 
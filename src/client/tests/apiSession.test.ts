@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFixtureProvider } from '@/ai/providers/fixture';
+import { SignedHandlerOptions, createExtractionHandler, createSessionHandler, createWellnessSummaryHandler } from '@/ai/flows/signed-handlers';
+import { createQuestionStreamHandler } from '@/ai/flows/stream-handlers';
+import { SIGNATURE_HEADERS } from '@/lib/request-signing';
+
+const provider = createFixtureProvider([
+  { id: 'extract', match: 'Extract and return JSON', response: { symptoms: ['fatigue'], triggers: [], qualifiers: ['constant'] } },
+]);
+
+// Serves the page's requests with the real route handlers
+function serve(options: SignedHandlerOptions & { secret?: () => string } = {}) {
+  const { secret = () => 'test-secret', ...rest } = options;
+  const handlerOptions = { getSecret: secret, getProvider: () => provider, ...rest };
+  const routes: Record<string, (request: Request) => Promise<Response>> = {
+    '/api/session': createSessionHandler(handlerOptions),
+    '/api/extract-symptoms': createExtractionHandler(handlerOptions),
+    '/api/wellness-summary': createWellnessSummaryHandler(handlerOptions),
+    '/api/questions/stream': createQuestionStreamHandler({
+      ...handlerOptions,
+      generate: async (_input, { onText } = {}) => {
+        onText?.('Have you been thirsty?');
+        return { text: 'Have you been thirsty?', type: 'yesno', source: 'llm' };
+      },
+    }),
+  };
+  const fetchMock = vi.fn(async (url: string, init: RequestInit) => routes[url](new Request(`http://localhost${url}`, init)));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const calls = (fetchMock: ReturnType<typeof serve>) => fetchMock.mock.calls.map(([url]) => url);
+
+// A fresh module per test, so no session carries over
+const load = async () => ({
+  ...(await import('../symptomExtraction')),
+  ...(await import('../llmWellnessAnalysis')),
+  ...(await import('../generationStream')),
+});
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('signed LLM requests from the page', () => {
+  it('signs requests with one session and gets the server\'s extraction', async () => {
+    const fetchMock = serve();
+    const { extractSymptomData } = await load();
+
+    await expect(extractSymptomData('tired all the time', '')).resolves.toEqual({ symptoms: ['fatigue'], triggers: [], qualifiers: ['constant'] });
+    await extractSymptomData('tired all the time', '');
+
+    expect(calls(fetchMock)).toEqual(['/api/session', '/api/extract-symptoms', '/api/extract-symptoms']);
+    expect(new Headers(fetchMock.mock.calls[1][1].headers).get(SIGNATURE_HEADERS.signature)).toBeTruthy();
+  });
+
+  it('starts a new session once when the server turns the old one down', async () => {
+    let secret = 'first-instance';
+    const fetchMock = serve({ secret: () => secret });
+    const { extractSymptomData } = await load();
+
+    await extractSymptomData('fatigue', '');
+    secret = 'second-instance';
+    await expect(extractSymptomData('fatigue', '')).resolves.toMatchObject({ symptoms: ['fatigue'] });
+
+    expect(calls(fetchMock)).toEqual(['/api/session', '/api/extract-symptoms', '/api/extract-symptoms', '/api/session', '/api/extract-symptoms']);
+  });
+
+  it('signs with the server\'s clock when the page\'s is wrong', async () => {
+    const fetchMock = serve({ now: () => Date.now() + 60 * 60 * 1000 });
+    const { extractSymptomData } = await load();
+
+    await expect(extractSymptomData('fatigue', '')).resolves.toMatchObject({ qualifiers: ['constant'] });
+    expect(calls(fetchMock)).toEqual(['/api/session', '/api/extract-symptoms']);
+  });
+
+  it('signs the streamed question with the same session', async () => {
+    const fetchMock = serve();
+    const { extractSymptomData, streamAdaptiveQuestion } = await load();
+    const onText = vi.fn();
+
+    await extractSymptomData('fatigue', '');
+    const question = await streamAdaptiveQuestion(
+      { questionNumber: 1, name: 'Sam', age: '40', gender: 'female', symptoms: 'fatigue', previousAnswers: [] },
+      { onText }
+    );
+
+    expect(question).toMatchObject({ text: 'Have you been thirsty?' });
+    expect(onText).toHaveBeenCalledWith('Have you been thirsty?');
+    expect(calls(fetchMock)).toEqual(['/api/session', '/api/extract-symptoms', '/api/questions/stream']);
+    expect(new Headers(fetchMock.mock.calls[2][1].headers).get('accept')).toBe('text/event-stream');
+  });
+
+  it('falls back when the route cannot answer', async () => {
+    serve({ limiter: { check: async () => ({ allowed: false, limit: 0, remaining: 0, resetAt: 0, retryAfterSeconds: 60 }) } });
+    const { extractSymptomData, generateWellnessSummary } = await load();
+
+    await expect(extractSymptomData('fatigue, thirst', '')).resolves.toEqual({ symptoms: ['fatigue', 'thirst'], triggers: [], qualifiers: [] });
+    await expect(generateWellnessSummary({ name: 'Sam', age: '40', gender: 'female' }, 'fatigue', [{ text: 'Thirsty?' }], []))
+      .resolves.toMatchObject({ answerKey: [{ question: 'Thirsty?', answer: 'Not answered' }], topConditions: [] });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AdvancedAnalysisOutput } from '@/ai/flows/advanced-symptom-analysis';
+import { buildQuestion } from '@/ai/medical-data/structured-answers';
+import {
+  ASSESSMENT_HISTORY_KEY,
+  AssessmentRecord,
+  MAX_HISTORY_RECORDS,
+  compareAssessments,
+  loadHistory,
+  recordFromAnalysis,
+  recordFromWellnessSummary,
+  saveAssessment,
+} from '../assessmentHistory';
+import type { WellnessSummary } from '../llmWellnessAnalysis';
+import { memoryStorage } from './memoryStorage';
+
+const NOW = new Date(Date.UTC(2026, 9, 19, 8, 30));
+
+function record(overrides: Partial<AssessmentRecord>): AssessmentRecord {
+  return {
+    id: 'a',
+    completedAt: NOW.toISOString(),
+    symptomsText: '',
+    symptoms: [],
+    topConditions: [],
+    redFlags: [],
+    ...overrides,
+  };
+}
+
+describe('recordFromAnalysis', () => {
+  it('keeps present symptoms, top conditions and detected red flags', () => {
+    const analysis = {
+      conditions: [
+        { condition: 'Multiple Sclerosis (MS)', likelihood: 0.6 },
+        { condition: 'Vitamin B12 Deficiency', likelihood: 0.4 },
+      ],
+      red_flags: [
+        { name: 'Progressive Neurological Deficit', detected: true, severity: 0.8 },
+        { name: 'Unexplained Weight Loss', detected: false, severity: 0 },
+      ],
+      triage: { level: 'gp', reasons: [], advice: '' },
+    } as unknown as AdvancedAnalysisOutput;
+    const question = buildQuestion(1, { text: 'Do you have a fever?', type: 'yesno' });
+
+    expect(recordFromAnalysis(analysis, {
+      id: 'a',
+      symptoms: 'numbness, fatigue, no headache',
+      questions: [question],
+      answers: [{ kind: 'boolean', value: true }],
+    }, NOW)).toEqual({
+      id: 'a',
+      completedAt: '2026-10-19T08:30:00.000Z',
+      symptomsText: 'numbness, fatigue, no headache',
+      symptoms: ['numbness', 'fatigue', 'fever'],
+      topConditions: [
+        { condition: 'Multiple Sclerosis (MS)', likelihood: 0.6 },
+        { condition: 'Vitamin B12 Deficiency', likelihood: 0.4 },
+      ],
+      redFlags: ['Progressive Neurological Deficit'],
+      triageLevel: 'gp',
+    });
+  });
+});
+
+describe('recordFromWellnessSummary', () => {
+  it.each<[string, number]>([
+    ['75%', 0.75],
+    ['Low likelihood (<10%)', 0.05],
+    ['unclear', 0],
+  ])('reads %s as %s', (percentage, likelihood) => {
+    const summary = {
+      reportedSymptoms: ['Fatigue', 'pins and needles'],
+      topConditions: [{ condition: 'Hypothyroidism', percentage }],
+    } as unknown as WellnessSummary;
+    const result = recordFromWellnessSummary(summary, 'b', NOW);
+    expect(result.symptoms).toEqual(['fatigue', 'tingling']);
+    expect(result.topConditions).toEqual([{ condition: 'Hypothyroidism', likelihood }]);
+  });
+});
+
+describe('saveAssessment and loadHistory', () => {
+  it('keeps the newest first and replaces a record with the same ID', () => {
+    const storage = memoryStorage();
+    saveAssessment(record({ id: 'old', completedAt: '2026-09-01T10:00:00.000Z' }), storage);
+    saveAssessment(record({ id: 'new', completedAt: '2026-10-01T10:00:00.000Z' }), storage);
+    saveAssessment(record({ id: 'old', completedAt: '2026-09-01T10:00:00.000Z', redFlags: ['Fever'] }), storage);
+    expect(loadHistory(storage).map(r => [r.id, r.redFlags])).toEqual([['new', []], ['old', ['Fever']]]);
+  });
+
+  it(`keeps at most ${MAX_HISTORY_RECORDS} assessments`, () => {
+    const storage = memoryStorage();
+    for (let day = 0; day <= MAX_HISTORY_RECORDS; day++) {
+      saveAssessment(record({ id: `${day}`, completedAt: new Date(NOW.getTime() + day * 86400000).toISOString() }), storage);
+    }
+    const history = loadHistory(storage);
+    expect(history).toHaveLength(MAX_HISTORY_RECORDS);
+    expect(history[history.length - 1].id).toBe('1');
+  });
+
+  it('discards a history from another version', () => {
+    const storage = memoryStorage({ [ASSESSMENT_HISTORY_KEY]: JSON.stringify({ version: 0, records: [] }) });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadHistory(storage)).toEqual([]);
+    expect(storage.items.has(ASSESSMENT_HISTORY_KEY)).toBe(false);
+    warn.mockRestore();
+  });
+});
+
+describe('compareAssessments', () => {
+  const earlier = record({
+    completedAt: '2026-09-19T08:30:00.000Z',
+    symptoms: ['fatigue', 'headache', 'numbness'],
+    topConditions: [
+      { condition: 'Hypothyroidism', likelihood: 0.5 },
+      { condition: 'Multiple Sclerosis (MS)', likelihood: 0.4 },
+      { condition: 'Migraine', likelihood: 0.3 },
+    ],
+    redFlags: ['Unexplained Weight Loss'],
+  });
+  const later = record({
+    symptoms: ['fatigue', 'numbness', 'vision problems'],
+    topConditions: [
+      { condition: 'Multiple Sclerosis (MS)', likelihood: 0.7 },
+      { condition: 'Hypothyroidism', likelihood: 0.3 },
+      { condition: 'Vitamin B12 Deficiency', likelihood: 0.2 },
+    ],
+    redFlags: ['Progressive Neurological Deficit'],
+  });
+
+  it('lists new, resolved and ongoing symptoms and red flags', () => {
+    expect(compareAssessments(earlier, later)).toMatchObject({
+      daysBetween: 30,
+      newSymptoms: ['vision problems'],
+      resolvedSymptoms: ['headache'],
+      ongoingSymptoms: ['fatigue', 'numbness'],
+      newRedFlags: ['Progressive Neurological Deficit'],
+      clearedRedFlags: ['Unexplained Weight Loss'],
+    });
+  });
+
+  it.each([
+    ['Multiple Sclerosis (MS)', 2, 1, 'up', 0.3],
+    ['Hypothyroidism', 1, 2, 'down', -0.2],
+    ['Vitamin B12 Deficiency', undefined, 3, 'new', undefined],
+    ['Migraine', 3, undefined, 'dropped', undefined],
+  ])('%s: #%s -> #%s is %s', (condition, previousRank, currentRank, change, delta) => {
+    const diff = compareAssessments(earlier, later).conditions.find(c => c.condition === condition)!;
+    expect(diff).toMatchObject({ previousRank, currentRank, change });
+    if (delta === undefined) {
+      expect(diff.likelihoodDelta).toBeUndefined();
+    } else {
+      expect(diff.likelihoodDelta).toBeCloseTo(delta);
+    }
+  });
+
+  it('orders conditions as in the later assessment, then dropped ones', () => {
+    expect(compareAssessments(earlier, later).conditions.map(c => c.condition)).toEqual([
+      'Multiple Sclerosis (MS)', 'Hypothyroidism', 'Vitamin B12 Deficiency', 'Migraine',
+    ]);
+  });
+});
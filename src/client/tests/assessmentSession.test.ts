@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ASSESSMENT_SESSION_KEY,
+  SessionState,
+  clearSession,
+  loadSession,
+  saveSession,
+} from '../assessmentSession';
+import { memoryStorage } from './memoryStorage';
+
+const NOW = new Date(Date.UTC(2026, 9, 19, 8, 30));
+
+const state: SessionState = {
+  profile: { name: 'Sam', age: '42', gender: 'female', medicalConditions: '' },
+  symptoms: 'fatigue and numbness',
+  questions: [
+    { id: 1, text: 'Please describe your symptoms in more detail.', type: 'text' },
+    { id: 2, text: 'Do you have a fever?', type: 'yesno', target: 'fever' },
+  ],
+  answers: [{ kind: 'text', value: 'worse in the evening' }],
+  currentQuestionIndex: 2,
+};
+
+describe('saveSession and loadSession', () => {
+  it('round-trips the questionnaire state with its schema version', () => {
+    const storage = memoryStorage();
+    saveSession(state, storage, NOW);
+    expect(loadSession(storage)).toEqual({ version: 1, savedAt: '2026-10-19T08:30:00.000Z', ...state });
+  });
+
+  it('replaces an earlier session', () => {
+    const storage = memoryStorage();
+    saveSession(state, storage, NOW);
+    saveSession({ ...state, currentQuestionIndex: 3 }, storage, NOW);
+    expect(loadSession(storage)?.currentQuestionIndex).toBe(3);
+  });
+
+  it('keeps going when storage refuses the write', () => {
+    const storage = memoryStorage();
+    storage.setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(() => saveSession(state, storage, NOW)).not.toThrow();
+    warn.mockRestore();
+  });
+
+  it('returns null without storage or a saved session', () => {
+    expect(loadSession(undefined)).toBeNull();
+    expect(loadSession(memoryStorage())).toBeNull();
+  });
+
+  it.each([
+    ['another schema version', JSON.stringify({ ...state, version: 0, savedAt: NOW.toISOString() })],
+    ['a missing field', JSON.stringify({ version: 1, savedAt: NOW.toISOString(), symptoms: 'fatigue' })],
+    ['an unknown answer kind', JSON.stringify({ version: 1, savedAt: NOW.toISOString(), ...state, answers: [{ kind: 'audio' }] })],
+    ['invalid JSON', '{"version": 1,'],
+  ])('discards a session with %s', (_, raw) => {
+    const storage = memoryStorage({ [ASSESSMENT_SESSION_KEY]: raw });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadSession(storage)).toBeNull();
+    expect(storage.items.has(ASSESSMENT_SESSION_KEY)).toBe(false);
+    warn.mockRestore();
+  });
+});
+
+describe('clearSession', () => {
+  it('removes the saved session', () => {
+    const storage = memoryStorage();
+    saveSession(state, storage, NOW);
+    clearSession(storage);
+    expect(loadSession(storage)).toBeNull();
+  });
+});
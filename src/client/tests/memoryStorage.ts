@@ -0,0 +1,14 @@
+import { SessionStorage } from '../assessmentSession';
+
+/**
+ * In-memory stand-in for localStorage; `items` exposes what was written
+ */
+export function memoryStorage(initial: Record<string, string> = {}): SessionStorage & { items: Map<string, string> } {
+  const items = new Map(Object.entries(initial));
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key),
+  };
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { AnsweredQuestion } from '@/ai/medical-data/structured-answers';
+import { calculateDiseaseScores } from '../scoring';
+
+const nightSweats: AnsweredQuestion = {
+  question: { id: 1, text: 'Do you have night sweats?', type: 'yesno', target: 'night sweats' },
+  answer: { kind: 'boolean', value: true },
+};
+
+describe('calculateDiseaseScores', () => {
+  it('scores a condition that only a questionnaire answer supports', () => {
+    expect(calculateDiseaseScores(['dry eyes'], []).has('Lymphoma')).toBe(false);
+    expect(calculateDiseaseScores(['dry eyes'], [], [nightSweats]).get('Lymphoma')).toBeGreaterThan(0);
+  });
+});
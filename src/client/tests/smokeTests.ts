@@ -142,7 +142,27 @@ export async function runSmokeTests(): Promise<TestResult[]> {
     });
   }
 
-  // Test 6: Symptom extraction (fallback mode)
+  // Test 6: Negated symptoms do not trigger red flags
+  try {
+    const testSymptoms = ['fatigue', 'weight loss', 'no night sweats'];
+    const testAnswers: string[] = [];
+    const scored = scoreSymptoms(testSymptoms, testAnswers);
+    const falseFlag = scored.redFlags.flags.some(f => f.toLowerCase().includes('night sweats'));
+
+    results.push({
+      name: 'Negated symptoms do not trigger red flags',
+      passed: !falseFlag,
+      error: falseFlag ? 'Red flag raised for a denied symptom' : undefined,
+    });
+  } catch (error) {
+    results.push({
+      name: 'Negated symptoms do not trigger red flags',
+      passed: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  // Test 7: Symptom extraction (fallback mode)
   try {
     const extracted = await extractSymptomData('fatigue, weight loss', '');
     
@@ -3,41 +3,22 @@
  * Pure deterministic heuristics - no backend required
  */
 
+import { extractAllMeasurements, getDurationDays } from '@/ai/medical-data/measurement-extraction';
+import { SymptomTimelineEntry, timelineFromText } from '@/ai/medical-data/symptom-timeline';
+
 export interface TimeCourseData {
   duration_days?: number;
   pattern: 'acute' | 'relapsing' | 'progressive' | 'chronic' | 'unknown';
   derived?: boolean;
+  timeline?: SymptomTimelineEntry[];
 }
 
 export interface TimeCourseResult {
   duration_days?: number;
   pattern: 'acute' | 'relapsing' | 'progressive' | 'chronic' | 'unknown';
   interpretation: string;
-  derived: boolean;
-}
-
-/**
- * Extract time-course from text (client-side)
- */
-function extractDurationFromText(text: string): number | undefined {
-  const durationPatterns = [
-    { pattern: /(\d+)\s*(?:days?|d)/i, multiplier: 1 },
-    { pattern: /(\d+)\s*(?:weeks?|w)/i, multiplier: 7 },
-    { pattern: /(\d+)\s*(?:months?|mo)/i, multiplier: 30 },
-    { pattern: /(\d+)\s*(?:years?|y)/i, multiplier: 365 },
-    { pattern: /(?:for|since|over|last)\s+(\d+)\s*(?:days?|d)/i, multiplier: 1 },
-    { pattern: /(?:for|since|over|last)\s+(\d+)\s*(?:weeks?|w)/i, multiplier: 7 },
-    { pattern: /(?:for|since|over|last)\s+(\d+)\s*(?:months?|mo)/i, multiplier: 30 },
-  ];
-
-  for (const { pattern: regex, multiplier } of durationPatterns) {
-    const match = text.match(regex);
-    if (match) {
-      return parseInt(match[1]) * multiplier;
-    }
-  }
-
-  return undefined;
+  derived: boolean; // Pattern inferred from symptom types; durations are never inferred
+  timeline: SymptomTimelineEntry[];
 }
 
 /**
@@ -50,7 +31,7 @@ export function inferTimeCourse(
   const text = (symptoms.join(' ') + ' ' + answers.join(' ')).toLowerCase();
   const symptomsLower = symptoms.join(' ').toLowerCase();
   
-  let duration_days = extractDurationFromText(text);
+  const duration_days = getDurationDays(extractAllMeasurements(symptoms.join(', '), answers));
   let pattern: 'acute' | 'relapsing' | 'progressive' | 'chronic' | 'unknown' = 'unknown';
   let derived = false;
   let interpretation = '';
@@ -75,24 +56,21 @@ export function inferTimeCourse(
   if (pattern === 'unknown' || !duration_days) {
     derived = true;
 
-    // Rule 1: weight_loss → derived_duration = "chronic"
+    // Rule 1: weight_loss → derived_pattern = "chronic"
     if (symptomsLower.includes('weight loss')) {
-      duration_days = duration_days || 21; // ~3 weeks
       pattern = 'chronic';
       interpretation = 'Weight loss patterns typically develop over weeks to months, suggesting a chronic process.';
     }
-    // Rule 2: palpitations progressive → derived_duration = "chronic progressive"
+    // Rule 2: palpitations progressive → derived_pattern = "chronic progressive"
     else if ((symptomsLower.includes('palpitation') || symptomsLower.includes('heart')) &&
              (text.includes('worse') || text.includes('increase') || text.includes('frequent'))) {
       pattern = 'progressive';
-      duration_days = duration_days || 30;
       interpretation = 'Cardiac symptoms with progression suggest a chronic progressive pattern.';
     }
     // Rule 3: tremor+anxiety → derived_pattern = "endocrine/metabolic likely"
     else if ((symptomsLower.includes('tremor') || symptomsLower.includes('shaking')) &&
              (symptomsLower.includes('anxiety') || symptomsLower.includes('nervous'))) {
       pattern = 'chronic';
-      duration_days = duration_days || 60;
       interpretation = 'Tremor with anxiety-like symptoms suggests a chronic endocrine or metabolic condition.';
     }
     // Rule 4: neuro symptoms → derived_pattern = "neurologic/chronic"
@@ -103,14 +81,11 @@ export function inferTimeCourse(
       } else {
         pattern = 'chronic';
       }
-      duration_days = duration_days || 45;
       interpretation = 'Neurological symptoms suggest a chronic or progressive pattern.';
     }
-    // Default inference
+    // No timing and nothing to infer it from
     else if (!duration_days) {
-      pattern = 'chronic';
-      duration_days = 30;
-      interpretation = 'Symptom pattern suggests a chronic condition. More specific timing information would improve accuracy.';
+      interpretation = 'Timing was not reported. Knowing when each symptom started would improve accuracy.';
     }
   }
 
@@ -139,7 +114,7 @@ export function inferTimeCourse(
 
   // Always ensure we have an interpretation
   if (!interpretation) {
-    interpretation = 'Symptom pattern suggests a chronic condition. More specific timing information would improve accuracy.';
+    interpretation = 'Timing was not reported. Knowing when each symptom started would improve accuracy.';
   }
 
   return {
@@ -147,6 +122,7 @@ export function inferTimeCourse(
     pattern,
     interpretation,
     derived,
+    timeline: timelineFromText(symptoms.join(', '), answers),
   };
 }
 
@@ -1,22 +1,42 @@
 'use client';
 
 import React, { useState } from 'react';
+import { AnswerValue, Question } from '@/ai/medical-data/structured-answers';
+import {
+  SymptomTimelineEntry,
+  TIMELINE_FREQUENCIES,
+  TIMELINE_TRENDS,
+  TimelineFrequency,
+  TimelineTrend,
+  toIsoDate,
+} from '@/ai/medical-data/symptom-timeline';
 
-export interface Question {
-  id: number;
-  text: string;
-  type: 'yesno' | 'multiple' | 'text' | 'scale';
-  options?: string[];
-}
+export type { Question } from '@/ai/medical-data/structured-answers';
 
 interface DynamicQuestionScreenProps {
   question: Question;
   questionNumber: number;
   totalQuestions: number;
-  onAnswer: (answer: string) => void;
+  onAnswer: (answer: AnswerValue) => void;
   onBack: () => void;
 }
 
+type TimelineDraft = Omit<SymptomTimelineEntry, 'symptom'>;
+
+const FREQUENCY_LABELS: Record<TimelineFrequency, string> = {
+  constant: 'All the time',
+  daily: 'Every day',
+  weekly: 'Every week',
+  occasional: 'Now and then',
+};
+
+const TREND_LABELS: Record<TimelineTrend, string> = {
+  improving: 'Getting better',
+  stable: 'About the same',
+  worsening: 'Getting worse',
+  fluctuating: 'Comes and goes',
+};
+
 export default function DynamicQuestionScreen({
   question,
   questionNumber,
@@ -24,27 +44,48 @@ export default function DynamicQuestionScreen({
   onAnswer,
   onBack,
 }: DynamicQuestionScreenProps) {
-  const [selectedAnswer, setSelectedAnswer] = useState<string>('');
+  const [selectedAnswer, setSelectedAnswer] = useState<AnswerValue | null>(null);
   const [textAnswer, setTextAnswer] = useState<string>('');
+  const [timeline, setTimeline] = useState<Record<string, TimelineDraft>>({});
+
+  // Symptoms given an onset date; frequency, episodes and trend are optional
+  const timelineEntries = (): SymptomTimelineEntry[] =>
+    (question.options || [])
+      .filter(option => option.target && timeline[option.id]?.onset)
+      .map(option => ({ symptom: option.target!, ...timeline[option.id] }));
+
+  const updateTimeline = (optionId: string, change: TimelineDraft) => {
+    setTimeline(prev => ({ ...prev, [optionId]: { ...prev[optionId], ...change } }));
+  };
 
   const handleSubmit = () => {
-    const answer = question.type === 'text' ? textAnswer : selectedAnswer;
-    if (answer.trim()) {
+    let answer: AnswerValue | null = selectedAnswer;
+    if (question.type === 'text') {
+      answer = textAnswer.trim() ? { kind: 'text', value: textAnswer.trim() } : null;
+    } else if (question.type === 'timeline') {
+      const entries = timelineEntries();
+      answer = entries.length > 0 ? { kind: 'timeline', entries } : null;
+    }
+    if (answer) {
       onAnswer(answer);
-      setSelectedAnswer('');
+      setSelectedAnswer(null);
       setTextAnswer('');
+      setTimeline({});
     }
   };
 
+  const isSelected = (answer: AnswerValue): boolean =>
+    JSON.stringify(selectedAnswer) === JSON.stringify(answer);
+
   const renderQuestionInput = () => {
     switch (question.type) {
       case 'yesno':
         return (
           <div className="flex gap-4">
             <button
-              onClick={() => setSelectedAnswer('Yes')}
+              onClick={() => setSelectedAnswer({ kind: 'boolean', value: true })}
               className={`flex-1 py-4 px-6 rounded-2xl text-lg font-semibold shadow-lg transition-all duration-200 ${
-                selectedAnswer === 'Yes'
+                isSelected({ kind: 'boolean', value: true })
                   ? 'bg-primary text-primary-foreground scale-105'
                   : 'bg-secondary text-secondary-foreground hover:scale-105'
               } active:scale-95`}
@@ -52,9 +93,9 @@ export default function DynamicQuestionScreen({
               Yes
             </button>
             <button
-              onClick={() => setSelectedAnswer('No')}
+              onClick={() => setSelectedAnswer({ kind: 'boolean', value: false })}
               className={`flex-1 py-4 px-6 rounded-2xl text-lg font-semibold shadow-lg transition-all duration-200 ${
-                selectedAnswer === 'No'
+                isSelected({ kind: 'boolean', value: false })
                   ? 'bg-primary text-primary-foreground scale-105'
                   : 'bg-secondary text-secondary-foreground hover:scale-105'
               } active:scale-95`}
@@ -69,15 +110,15 @@ export default function DynamicQuestionScreen({
           <div className="space-y-3">
             {question.options?.map((option) => (
               <button
-                key={option}
-                onClick={() => setSelectedAnswer(option)}
+                key={option.id}
+                onClick={() => setSelectedAnswer({ kind: 'option', optionId: option.id })}
                 className={`w-full py-4 px-6 rounded-2xl text-lg font-semibold shadow-lg transition-all duration-200 text-left ${
-                  selectedAnswer === option
+                  isSelected({ kind: 'option', optionId: option.id })
                     ? 'bg-primary text-primary-foreground scale-105'
                     : 'bg-secondary text-secondary-foreground hover:scale-105'
                 } active:scale-95`}
               >
-                {option}
+                {option.label}
               </button>
             ))}
           </div>
@@ -95,9 +136,9 @@ export default function DynamicQuestionScreen({
               {[1, 2, 3, 4, 5].map((value) => (
                 <button
                   key={value}
-                  onClick={() => setSelectedAnswer(value.toString())}
+                  onClick={() => setSelectedAnswer({ kind: 'scale', value })}
                   className={`flex-1 py-4 rounded-xl text-lg font-semibold shadow-lg transition-all duration-200 ${
-                    selectedAnswer === value.toString()
+                    isSelected({ kind: 'scale', value })
                       ? 'bg-primary text-primary-foreground scale-110'
                       : 'bg-secondary text-secondary-foreground hover:scale-105'
                   } active:scale-95`}
@@ -120,12 +161,71 @@ export default function DynamicQuestionScreen({
           />
         );
 
+      case 'timeline':
+        return (
+          <div className="space-y-4">
+            {question.options?.map((option) => (
+              <div key={option.id} className="rounded-2xl bg-secondary p-4 space-y-3">
+                <div className="font-semibold text-secondary-foreground">{option.label}</div>
+                <label className="block text-sm text-muted-foreground">
+                  Started on
+                  <input
+                    type="date"
+                    max={toIsoDate(new Date())}
+                    value={timeline[option.id]?.onset || ''}
+                    onChange={(e) => updateTimeline(option.id, { onset: e.target.value || undefined })}
+                    className="mt-1 w-full px-3 py-2 rounded-xl border-2 border-border bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    value={timeline[option.id]?.frequency || ''}
+                    onChange={(e) => updateTimeline(option.id, { frequency: (e.target.value || undefined) as TimelineFrequency | undefined })}
+                    className="flex-1 px-3 py-2 rounded-xl border-2 border-border bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    aria-label={`How often: ${option.label}`}
+                  >
+                    <option value="">How often?</option>
+                    {TIMELINE_FREQUENCIES.map((frequency) => (
+                      <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={timeline[option.id]?.trend || ''}
+                    onChange={(e) => updateTimeline(option.id, { trend: (e.target.value || undefined) as TimelineTrend | undefined })}
+                    className="flex-1 px-3 py-2 rounded-xl border-2 border-border bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    aria-label={`Since it started: ${option.label}`}
+                  >
+                    <option value="">Since then?</option>
+                    {TIMELINE_TRENDS.map((trend) => (
+                      <option key={trend} value={trend}>{TREND_LABELS[trend]}</option>
+                    ))}
+                  </select>
+                </div>
+                {timeline[option.id]?.trend === 'fluctuating' && (
+                  <label className="block text-sm text-muted-foreground">
+                    Episodes so far
+                    <input
+                      type="number"
+                      min={1}
+                      value={timeline[option.id]?.episodes ?? ''}
+                      onChange={(e) => updateTimeline(option.id, { episodes: parseInt(e.target.value) || undefined })}
+                      className="mt-1 w-full px-3 py-2 rounded-xl border-2 border-border bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                  </label>
+                )}
+              </div>
+            ))}
+          </div>
+        );
+
       default:
         return null;
     }
   };
 
-  const canSubmit = question.type === 'text' ? textAnswer.trim() : selectedAnswer !== '';
+  const canSubmit = question.type === 'text' ? textAnswer.trim() !== ''
+    : question.type === 'timeline' ? timelineEntries().length > 0
+    : selectedAnswer !== null;
 
   return (
     <div className="flex flex-col items-center justify-center min-h-screen px-6 py-12 animate-fadeIn">
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { TRIAGE_LABELS, TriageResult } from '@/ai/medical-data/triage';
+
+interface EmergencyScreenProps {
+  triage: TriageResult;
+  onRestart: () => void;
+}
+
+export default function EmergencyScreen({ triage, onRestart }: EmergencyScreenProps) {
+  return (
+    <div
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="emergency-title"
+      aria-describedby="emergency-advice"
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center px-6 py-12 bg-destructive text-destructive-foreground animate-fadeIn overflow-y-auto"
+    >
+      <div className="w-full max-w-md mx-auto flex flex-col items-center text-center">
+        <AlertTriangle className="w-20 h-20 mb-6" aria-hidden="true" />
+
+        <h1 id="emergency-title" className="text-3xl sm:text-4xl font-bold mb-4">
+          {TRIAGE_LABELS.emergency}
+        </h1>
+
+        <p id="emergency-advice" className="text-lg mb-6">
+          {triage.advice}
+        </p>
+
+        <div className="w-full bg-white/10 rounded-2xl p-4 mb-8 text-left">
+          <p className="font-semibold mb-2">Why we stopped the questions:</p>
+          <ul className="list-disc list-inside space-y-1">
+            {triage.reasons
+              .filter(r => r.level === 'emergency')
+              .map(r => (
+                <li key={r.rule}>{r.reason}</li>
+              ))}
+          </ul>
+        </div>
+
+        <p className="text-sm opacity-90 mb-8">
+          Do not wait for an online assessment. If you are with someone, ask them to help you get care.
+        </p>
+
+        <button
+          onClick={onRestart}
+          className="w-full max-w-xs py-4 px-8 bg-white text-destructive text-lg font-semibold rounded-2xl shadow-lg hover:shadow-xl transition-all duration-200 active:scale-95"
+        >
+          Start over
+        </button>
+      </div>
+    </div>
+  );
+}
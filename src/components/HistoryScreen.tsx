@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useState } from 'react';
+import { getSymptomLabel } from '@/knowledge-base';
+import { TRIAGE_LABELS } from '@/ai/medical-data/triage';
+import {
+  AssessmentRecord,
+  ConditionRankChange,
+  compareAssessments,
+  describeSymptoms,
+} from '@/client/assessmentHistory';
+
+interface HistoryScreenProps {
+  records: AssessmentRecord[]; // Newest first
+  onClear: () => void;
+  onBack: () => void;
+}
+
+const RANK_CHANGE_LABELS: Record<ConditionRankChange['change'], string> = {
+  new: 'New',
+  dropped: 'No longer in top results',
+  up: 'Moved up',
+  down: 'Moved down',
+  unchanged: 'Same rank',
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function describeRankChange(change: ConditionRankChange): string {
+  const ranks = change.previousRank && change.currentRank && change.previousRank !== change.currentRank
+    ? ` (#${change.previousRank} → #${change.currentRank})`
+    : change.currentRank ? ` (#${change.currentRank})` : '';
+  const delta = change.likelihoodDelta !== undefined && Math.round(change.likelihoodDelta * 100) !== 0
+    ? `, ${change.likelihoodDelta > 0 ? '+' : ''}${Math.round(change.likelihoodDelta * 100)}%`
+    : '';
+  return `${RANK_CHANGE_LABELS[change.change]}${ranks}${delta}`;
+}
+
+function SymptomList({ title, symptoms }: { title: string; symptoms: string[] }) {
+  if (symptoms.length === 0) return null;
+  return (
+    <p className="text-foreground text-sm">
+      <span className="font-medium">{title}:</span> {symptoms.map(getSymptomLabel).join(', ')}
+    </p>
+  );
+}
+
+export default function HistoryScreen({ records, onClear, onBack }: HistoryScreenProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  // Keep the two most recently picked assessments
+  const toggle = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2)));
+  };
+
+  const [earlier, later] = records
+    .filter(r => selected.includes(r.id))
+    .sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+  const diff = earlier && later ? compareAssessments(earlier, later) : null;
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen px-6 py-12 animate-fadeIn">
+      <div className="w-full max-w-2xl mx-auto">
+        <div className="bg-card rounded-3xl shadow-xl p-6 sm:p-8 mb-6">
+          <h2 className="text-2xl sm:text-3xl font-bold text-foreground mb-2 text-center">
+            Past Assessments
+          </h2>
+          <p className="text-muted-foreground text-center mb-6">
+            Select two assessments to see what changed between them.
+          </p>
+
+          {records.length === 0 ? (
+            <div className="bg-accent rounded-xl p-4">
+              <p className="text-foreground">No completed assessments yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {records.map(record => (
+                <button
+                  key={record.id}
+                  onClick={() => toggle(record.id)}
+                  className={`w-full text-left bg-accent rounded-xl p-4 border-l-4 transition-all duration-200 ${
+                    selected.includes(record.id) ? 'border-primary ring-2 ring-primary' : 'border-transparent'
+                  }`}
+                >
+                  <div className="flex justify-between items-start mb-2">
+                    <span className="font-semibold text-foreground">{formatDate(record.completedAt)}</span>
+                    {record.triageLevel && (
+                      <span className="text-xs font-medium text-muted-foreground">{TRIAGE_LABELS[record.triageLevel]}</span>
+                    )}
+                  </div>
+                  <p className="text-foreground text-sm mb-1">
+                    <span className="font-medium">Symptoms:</span> {describeSymptoms(record)}
+                  </p>
+                  {record.topConditions.length > 0 && (
+                    <p className="text-foreground text-sm mb-1">
+                      <span className="font-medium">Top conditions:</span>{' '}
+                      {record.topConditions.slice(0, 3).map(c => `${c.condition} (${Math.round(c.likelihood * 100)}%)`).join(', ')}
+                    </p>
+                  )}
+                  {record.redFlags.length > 0 && (
+                    <p className="text-destructive text-sm">
+                      <span className="font-medium">Red flags:</span> {record.redFlags.join(', ')}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {diff && (
+            <div className="mt-8">
+              <h3 className="text-lg font-semibold text-foreground mb-3">
+                Changes from {formatDate(earlier.completedAt)} to {formatDate(later.completedAt)}
+                {diff.daysBetween > 0 && ` (${diff.daysBetween} days)`}
+              </h3>
+              <div className="bg-accent rounded-xl p-4 space-y-2 mb-4">
+                <SymptomList title="New symptoms" symptoms={diff.newSymptoms} />
+                <SymptomList title="Resolved symptoms" symptoms={diff.resolvedSymptoms} />
+                <SymptomList title="Ongoing symptoms" symptoms={diff.ongoingSymptoms} />
+                {diff.newSymptoms.length + diff.resolvedSymptoms.length + diff.ongoingSymptoms.length === 0 && (
+                  <p className="text-foreground text-sm">No recognised symptoms to compare.</p>
+                )}
+                {diff.newRedFlags.length > 0 && (
+                  <p className="text-destructive text-sm">
+                    <span className="font-medium">New red flags:</span> {diff.newRedFlags.join(', ')}
+                  </p>
+                )}
+                {diff.clearedRedFlags.length > 0 && (
+                  <p className="text-foreground text-sm">
+                    <span className="font-medium">Red flags no longer present:</span> {diff.clearedRedFlags.join(', ')}
+                  </p>
+                )}
+              </div>
+              <ul className="space-y-2">
+                {diff.conditions.map(change => (
+                  <li key={change.condition} className="flex justify-between gap-4 text-sm text-foreground">
+                    <span>{change.condition}</span>
+                    <span className="opacity-80 text-right">{describeRankChange(change)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex gap-4">
+          <button
+            onClick={onBack}
+            className="flex-1 py-4 px-6 bg-secondary text-secondary-foreground text-lg font-semibold rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 active:scale-95"
+          >
+            Back
+          </button>
+          {records.length > 0 && (
+            <button
+              onClick={onClear}
+              className="flex-1 py-4 px-6 bg-secondary text-destructive text-lg font-semibold rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 active:scale-95"
+            >
+              Clear history
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,31 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import WelcomeScreen from './WelcomeScreen';
 import ProfileSetupScreen, { ProfileData } from './ProfileSetupScreen';
 import SymptomInputScreen from './SymptomInputScreen';
 import DynamicQuestionScreen, { Question } from './DynamicQuestionScreen';
-import ResultsScreen from './ResultsScreen';
-import { generateAdaptiveQuestionGroq } from '@/ai/flows/generate-adaptive-question-groq';
+import ResultsScreen, { ReopenedAssessment } from './ResultsScreen';
+import EmergencyScreen from './EmergencyScreen';
+import HistoryScreen from './HistoryScreen';
+import type { GenerateAdaptiveQuestionOutput } from '@/ai/flows/generate-adaptive-question';
+import { isCancelled } from '@/lib/cancellation';
+import { streamAdaptiveQuestion } from '@/client/generationStream';
+import {
+  AnswerValue,
+  buildQuestion,
+  formatQuestionnaire,
+} from '@/ai/medical-data/structured-answers';
+import { DEFAULT_PLANNER_SETTINGS, planNextQuestion } from '@/ai/medical-data/question-planner';
+import { questionFromBank } from '@/ai/medical-data/question-bank';
+import { triageQuestionnaire, TriageResult } from '@/ai/medical-data/triage';
+import { AssessmentSession, clearSession, loadSession, saveSession } from '@/client/assessmentSession';
+import { AssessmentRecord, clearHistory, loadHistory } from '@/client/assessmentHistory';
+import type { AdvancedAnalysisOutput } from '@/ai/flows/advanced-symptom-analysis';
+import { JsonReport } from '@/report/json-report';
 import Loading from './Loading';
 
-type Screen = 'welcome' | 'profile' | 'symptoms' | 'questions' | 'results' | 'loading';
+type Screen = 'welcome' | 'profile' | 'symptoms' | 'questions' | 'results' | 'loading' | 'emergency' | 'history';
 
 export default function ISPWellnessApp() {
   const [currentScreen, setCurrentScreen] = useState<Screen>('welcome');
@@ -17,87 +33,135 @@ export default function ISPWellnessApp() {
   const [symptoms, setSymptoms] = useState<string>('');
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [answers, setAnswers] = useState<string[]>([]);
+  const [answers, setAnswers] = useState<AnswerValue[]>([]);
   const [loadingMessage, setLoadingMessage] = useState<string>('Generating your personalized question...');
-
-  const TOTAL_QUESTIONS = 10;
-
-  // Question type distribution ratio: Free text (1), Yes/No (4), Multiple (3), Scale (2), Timeline (0-1)
-  // Ratio: text 5% (1), yesno 40% (4), multiple 30% (3), scale 20% (2), timeline 5% (0-1)
-  const getRequiredQuestionType = (questionNumber: number, previousTypes: string[]): string => {
-    const counts = {
-      text: previousTypes.filter(t => t === 'text').length,
-      yesno: previousTypes.filter(t => t === 'yesno').length,
-      multiple: previousTypes.filter(t => t === 'multiple').length,
-      scale: previousTypes.filter(t => t === 'scale').length,
-    };
-
-    // Question 1: Free text (ONLY text question - 5%)
-    if (questionNumber === 1) return 'text';
-
-    // Questions 2-5: Prioritize Yes/No questions (need 4 total - 40%)
-    if (questionNumber >= 2 && questionNumber <= 5) {
-      if (counts.yesno < 4) {
-        // Distribute yes/no across questions 2-5
-        const yesNoSlots = [2, 3, 4, 5];
-        const slotIndex = yesNoSlots.indexOf(questionNumber);
-        if (slotIndex !== -1 && counts.yesno < slotIndex + 1) {
-          return 'yesno';
-        }
-      }
-      // If we have enough yes/no, add multiple choice
-      if (counts.multiple < 3 && counts.yesno >= 2) return 'multiple';
-      return 'yesno'; // Default to yes/no for early questions
+  const [questionPreview, setQuestionPreview] = useState('');
+  // The question being generated; aborted when the user goes back or restarts
+  const generation = useRef<AbortController | null>(null);
+  const [triageResult, setTriageResult] = useState<TriageResult | null>(null);
+  const [savedSession, setSavedSession] = useState<AssessmentSession | null>(null);
+  const [history, setHistory] = useState<AssessmentRecord[]>([]);
+  const [savedAnalysis, setSavedAnalysis] = useState<AdvancedAnalysisOutput | undefined>(undefined);
+  const [reopened, setReopened] = useState<ReopenedAssessment | undefined>(undefined);
+
+  // Offer to resume an assessment interrupted by a refresh (read after mount: storage is browser-only)
+  useEffect(() => {
+    setSavedSession(loadSession());
+  }, []);
+
+  // Results save each finished assessment, so re-read the history whenever we are back at the start
+  useEffect(() => {
+    if (currentScreen === 'welcome') setHistory(loadHistory());
+  }, [currentScreen]);
+
+  // Autosave every answered question; a finished assessment has nothing to resume,
+  // but viewing a re-opened report leaves an unfinished one to come back to
+  useEffect(() => {
+    if (currentScreen === 'questions' && profile && questions.length > 0) {
+      saveSession({ profile, symptoms, questions, answers, currentQuestionIndex });
+    } else if ((currentScreen === 'results' && !reopened) || currentScreen === 'emergency') {
+      clearSession();
     }
+  }, [currentScreen, profile, symptoms, questions, answers, currentQuestionIndex, reopened]);
 
-    // Questions 6-8: Mix remaining Yes/No (if needed), Multiple choice (need 3 total - 30%), and Scale (need 2 total - 20%)
-    if (questionNumber >= 6 && questionNumber <= 8) {
-      // Fill remaining yes/no if needed (should be done by now, but check)
-      if (counts.yesno < 4) return 'yesno';
-      
-      // Prioritize multiple choice (need 3 total)
-      if (counts.multiple < 3) {
-        if (questionNumber === 6) return 'multiple';
-        if (questionNumber === 7 && counts.multiple < 2) return 'multiple';
-        if (questionNumber === 8 && counts.multiple < 3) return 'multiple';
-      }
-      
-      // Add scale questions (need 2 total)
-      if (counts.scale < 2 && counts.multiple >= 2) {
-        if (questionNumber === 7 || questionNumber === 8) return 'scale';
-      }
-      
-      // Fallback
-      if (counts.multiple < 3) return 'multiple';
-      if (counts.scale < 2) return 'scale';
-      return 'multiple';
-    }
+  const TOTAL_QUESTIONS = DEFAULT_PLANNER_SETTINGS.maxQuestions; // The planner may stop sooner
 
-    // Questions 9-10: Ensure all remaining types are filled
-    if (questionNumber === 9) {
-      if (counts.scale < 2) return 'scale';
-      if (counts.multiple < 3) return 'multiple';
-      if (counts.yesno < 4) return 'yesno';
-      // Timeline question if everything else is filled (optional)
-      return 'timeline';
-    }
+  const startGeneration = (): AbortSignal => {
+    generation.current?.abort();
+    generation.current = new AbortController();
+    setQuestionPreview('');
+    return generation.current.signal;
+  };
+
+  const cancelGeneration = () => {
+    generation.current?.abort();
+    generation.current = null;
+  };
 
-    if (questionNumber === 10) {
-      // Final question - fill any remaining gaps
-      if (counts.yesno < 4) return 'yesno';
-      if (counts.multiple < 3) return 'multiple';
-      if (counts.scale < 2) return 'scale';
-      // Default to multiple for better data collection
-      return 'multiple';
+  // The planner decides what to ask next (or that we are done); the LLM only words finding questions,
+  // streaming the text as it goes, and the question bank words them whenever the LLM cannot
+  const nextPlannedQuestion = async (
+    symptomsData: string,
+    answeredQuestions: Question[],
+    answerValues: AnswerValue[],
+    signal: AbortSignal
+  ): Promise<Question | null> => {
+    const questionNumber = answeredQuestions.length + 1;
+    const plan = planNextQuestion({
+      symptoms: symptomsData,
+      questions: answeredQuestions,
+      answers: answerValues,
+      profile: profile || undefined,
+    });
+
+    if (plan.kind !== 'finding') return questionFromBank(questionNumber, plan);
+
+    let response: GenerateAdaptiveQuestionOutput;
+    try {
+      response = await streamAdaptiveQuestion({
+        questionNumber,
+        name: profile!.name,
+        age: profile!.age,
+        gender: profile!.gender,
+        symptoms: symptomsData,
+        medicalHistory: profile!.medicalConditions || undefined,
+        previousAnswers: formatQuestionnaire(answeredQuestions, answerValues),
+        allPreviousQuestionTexts: answeredQuestions.map(q => q.text),
+        targetFinding: plan.label,
+      }, { onText: setQuestionPreview, signal });
+    } catch (error: any) {
+      if (signal.aborted) throw error; // The user went back; there is nothing to fall back to
+      console.error(`Question ${questionNumber}: LLM failed, using the question bank:`, error?.message || error);
+      return questionFromBank(questionNumber, plan);
     }
+    if (response.source === 'bank') console.log(`Question ${questionNumber} worded from the question bank`);
 
-    return 'yesno'; // Default fallback
+    // The server has checked the wording (and that it repeats no earlier question);
+    // whatever the model returns, the question is a yes/no question about the planned finding
+    return buildQuestion(questionNumber, { text: response.text, type: 'yesno', target: plan.symptom });
   };
 
   const handleStart = () => {
+    clearSession();
+    setSavedSession(null);
     setCurrentScreen('profile');
   };
 
+  const handleClearHistory = () => {
+    if (!window.confirm('Delete all past assessments from this device?')) return;
+    clearHistory();
+    setHistory([]);
+  };
+
+  const handleResume = () => {
+    if (!savedSession) return;
+    setProfile(savedSession.profile);
+    setSymptoms(savedSession.symptoms);
+    setQuestions(savedSession.questions);
+    setAnswers(savedSession.answers);
+    setCurrentQuestionIndex(savedSession.currentQuestionIndex);
+    setSavedSession(null);
+    setCurrentScreen('questions');
+  };
+
+  // Re-open a downloaded report, showing its saved results or scoring its answers again;
+  // reports from before they named their history entry get one keyed by their export time
+  const handleOpenReport = (report: JsonReport, rescore: boolean) => {
+    const id = report.assessmentId || `report-${report.exportedAt}`;
+    setReopened({
+      id,
+      completedAt: history.find(record => record.id === id)?.completedAt || report.exportedAt,
+      engine: report.engine.scoringEngine,
+    });
+    setProfile(report.profile);
+    setSymptoms(report.symptoms);
+    setQuestions(report.questions);
+    setAnswers(report.answers);
+    setCurrentQuestionIndex(report.questions.length);
+    setSavedAnalysis(rescore ? undefined : report.analysis);
+    setCurrentScreen('results');
+  };
+
   const handleProfileNext = (profileData: ProfileData) => {
     setProfile(profileData);
     setCurrentScreen('symptoms');
@@ -107,96 +171,45 @@ export default function ISPWellnessApp() {
     setCurrentScreen('welcome');
   };
 
+  // Interrupt the flow as soon as anything reported calls for emergency care
+  const stopForEmergency = (symptomsData: string, answeredQuestions: Question[], answerValues: AnswerValue[]): boolean => {
+    const result = triageQuestionnaire(symptomsData, answeredQuestions, answerValues, profile || undefined);
+    setTriageResult(result);
+
+    if (result.level !== 'emergency') return false;
+    setCurrentScreen('emergency');
+    return true;
+  };
+
   const handleSymptomsNext = async (symptomsData: string) => {
     setSymptoms(symptomsData);
     setAnswers([]);
+    if (stopForEmergency(symptomsData, [], [])) return;
+
     setCurrentQuestionIndex(1);
     setCurrentScreen('loading');
-
-       // Small delay (Groq is fast!)
-       setLoadingMessage('Preparing your assessment...');
-       await new Promise(resolve => setTimeout(resolve, 300));
-
-      try {
-        // Generate first question using AI
-        setLoadingMessage('Generating your personalized question...');
-        console.log('Generating first question with AI...');
-        
-         // Use Groq only
-         const generateFirstWithRetry = async (attempt: number = 1): Promise<any> => {
-           const maxRetries = 3;
-           const baseDelay = 1000;
-           
-           try {
-             const previousTypes: string[] = [];
-             const requiredType = getRequiredQuestionType(1, previousTypes);
-             
-             return await generateAdaptiveQuestionGroq({
-               questionNumber: 1,
-               name: profile!.name,
-               age: profile!.age,
-               gender: profile!.gender,
-               symptoms: symptomsData,
-               medicalHistory: profile!.medicalConditions || undefined,
-               previousAnswers: [],
-               allPreviousQuestionTexts: [],
-               previousQuestionTypes: previousTypes,
-               requiredQuestionType: requiredType,
-             });
-           } catch (error: any) {
-            const isRateLimit = error?.message?.includes('429') || 
-                               error?.message?.includes('Too Many Requests') ||
-                               error?.message?.includes('rate limit') ||
-                               error?.message?.includes('quota');
-            
-            if (isRateLimit && attempt < maxRetries) {
-              const delay = baseDelay * Math.pow(2, attempt - 1);
-              console.warn(`Rate limit hit. Retrying in ${delay}ms... (Attempt ${attempt + 1}/${maxRetries})`);
-              setLoadingMessage(`Rate limit reached. Waiting ${delay / 1000}s before retry (${attempt + 1}/${maxRetries})...`);
-              await new Promise(resolve => setTimeout(resolve, delay));
-              setLoadingMessage('Generating your personalized question...');
-              return generateFirstWithRetry(attempt + 1);
-            }
-            throw error;
-          }
-        };
-        
-        const firstQuestionResponse = await generateFirstWithRetry();
-        console.log('AI generated first question:', firstQuestionResponse);
-
-      const firstQuestion: Question = {
-        id: 1,
-        text: firstQuestionResponse.text,
-        type: firstQuestionResponse.type,
-        options: firstQuestionResponse.options,
-      };
+    const signal = startGeneration();
+
+    // Small delay
+    setLoadingMessage('Preparing your assessment...');
+    await new Promise(resolve => setTimeout(resolve, 300));
+    if (signal.aborted) return;
+
+    try {
+      setLoadingMessage('Generating your personalized question...');
+      const firstQuestion = await nextPlannedQuestion(symptomsData, [], [], signal);
+      if (!firstQuestion) {
+        setCurrentScreen('results');
+        return;
+      }
 
       setQuestions([firstQuestion]);
       setCurrentScreen('questions');
     } catch (error: any) {
-      console.error('❌ ERROR generating first question with AI:', error);
-      
-      // Better error message extraction
-      const errorMessage = error?.message || error?.toString() || 'Unknown error';
-      
-      console.error('Error details:', errorMessage);
-      
-      const isRateLimit = errorMessage.includes('429') || 
-                         errorMessage.includes('Too Many Requests') ||
-                         errorMessage.includes('rate limit') ||
-                         errorMessage.includes('quota');
-      
-      if (isRateLimit) {
-        const errorMsg = `API rate limit reached!\n\nPlease wait a moment and try again.\n\n💡 Groq has very high rate limits, so this is rare. If it persists, check: https://console.groq.com/`;
-        alert(errorMsg);
-      } else if (errorMessage.includes('GROQ_API_KEY')) {
-        alert(`❌ Groq API Key Missing!\n\n${errorMessage}\n\nGet your FREE key: https://console.groq.com/`);
-      } else {
-        alert(`Failed to generate question.\n\n${errorMessage}\n\nPlease check your GROQ_API_KEY in .env.local`);
-      }
-      
+      if (isCancelled(error)) return;
+      console.error('❌ ERROR preparing the first question:', error);
+      alert(`Failed to prepare your questions.\n\n${error?.message || 'Unknown error'}`);
       setCurrentScreen('symptoms');
-      return;
     }
   };
 
@@ -204,163 +217,42 @@ export default function ISPWellnessApp() {
     setCurrentScreen('profile');
   };
 
-  const handleQuestionAnswer = async (answer: string) => {
+  const handleQuestionAnswer = async (answer: AnswerValue) => {
     const newAnswers = [...answers, answer];
+    const answeredQuestions = questions.slice(0, newAnswers.length);
     setAnswers(newAnswers);
+    if (stopForEmergency(symptoms, answeredQuestions, newAnswers)) return;
 
-    if (currentQuestionIndex < TOTAL_QUESTIONS) {
-      // Generate next question using AI
-      setCurrentScreen('loading');
-
-       // Small delay (Groq is fast!)
-       setLoadingMessage('Analyzing your response...');
-       await new Promise(resolve => setTimeout(resolve, 300));
-
-      try {
-        setLoadingMessage('Generating your next question...');
-        // Format previous Q&A with ALL previous question texts explicitly listed
-        const allPreviousQuestions = questions.map(q => q.text);
-        const previousTypes = questions.map(q => q.type);
-        const qaContextArray = questions
-          .slice(0, answers.length)
-          .map((q, idx) => `Q${idx + 1}: ${q.text}\nAnswer: ${answers[idx] || 'Not answered'}`);
-
-        const requiredType = getRequiredQuestionType(currentQuestionIndex + 1, previousTypes);
-
-        console.log(`Generating question ${currentQuestionIndex + 1} with AI...`);
-        console.log('ALL PREVIOUS QUESTION TEXTS (DO NOT REPEAT):', allPreviousQuestions);
-        console.log('Previous question types:', previousTypes);
-        console.log('Required question type:', requiredType);
-        console.log('Previous Q&A context:', qaContextArray);
-        
-         // Use Groq only
-         const generateWithRetry = async (attempt: number = 1): Promise<any> => {
-           const maxRetries = 3;
-           const baseDelay = 1000;
-           
-           try {
-             return await generateAdaptiveQuestionGroq({
-               questionNumber: currentQuestionIndex + 1,
-               name: profile!.name,
-               age: profile!.age,
-               gender: profile!.gender,
-               symptoms: symptoms,
-               medicalHistory: profile!.medicalConditions || undefined,
-               previousAnswers: qaContextArray.length > 0 ? qaContextArray : [],
-               allPreviousQuestionTexts: allPreviousQuestions.length > 0 ? allPreviousQuestions : [],
-               previousQuestionTypes: previousTypes,
-               requiredQuestionType: requiredType,
-             });
-           } catch (error: any) {
-            // Check if it's a rate limit error
-            const isRateLimit = error?.message?.includes('429') || 
-                               error?.message?.includes('Too Many Requests') ||
-                               error?.message?.includes('rate limit') ||
-                               error?.message?.includes('quota');
-            
-            if (isRateLimit && attempt < maxRetries) {
-              const delay = baseDelay * Math.pow(2, attempt - 1);
-              console.warn(`Rate limit hit. Retrying in ${delay}ms... (Attempt ${attempt + 1}/${maxRetries})`);
-              setLoadingMessage(`Rate limit reached. Waiting ${delay / 1000}s before retry (${attempt + 1}/${maxRetries})...`);
-              await new Promise(resolve => setTimeout(resolve, delay));
-              setLoadingMessage('Generating your personalized question...');
-              return generateWithRetry(attempt + 1);
-            }
-            throw error;
-          }
-        };
-        
-        const nextQuestionResponse = await generateWithRetry();
-        console.log(`AI generated question ${currentQuestionIndex + 1}:`, nextQuestionResponse);
-        
-        // Validate that the new question is not a repeat
-        const newQuestionText = nextQuestionResponse.text.toLowerCase().trim();
-        const isRepeat = allPreviousQuestions.some(
-          prevQ => prevQ.toLowerCase().trim() === newQuestionText || 
-          prevQ.toLowerCase().includes(newQuestionText) ||
-          newQuestionText.includes(prevQ.toLowerCase())
-        );
-        
-        if (isRepeat) {
-          console.warn('⚠️ AI generated a REPEATED question! Retrying...');
-          // Retry once with explicit warning
-          const retryResponse = await generateAdaptiveQuestionGroq({
-            questionNumber: currentQuestionIndex + 1,
-            name: profile!.name,
-            age: profile!.age,
-            gender: profile!.gender,
-            symptoms: symptoms,
-            medicalHistory: profile!.medicalConditions || undefined,
-            previousAnswers: qaContextArray,
-            allPreviousQuestionTexts: allPreviousQuestions,
-            previousQuestionTypes: previousTypes,
-            requiredQuestionType: requiredType,
-            retryAttempt: true,
-          });
-          
-          const retryText = retryResponse.text.toLowerCase().trim();
-          const retryIsRepeat = allPreviousQuestions.some(
-            prevQ => prevQ.toLowerCase().trim() === retryText
-          );
-          
-          if (retryIsRepeat) {
-            throw new Error('AI keeps generating repeated questions. Please try again.');
-          }
-          
-          nextQuestionResponse.text = retryResponse.text;
-          nextQuestionResponse.type = retryResponse.type;
-          nextQuestionResponse.options = retryResponse.options;
-        }
-
-        const nextQuestion: Question = {
-          id: currentQuestionIndex + 1,
-          text: nextQuestionResponse.text,
-          type: nextQuestionResponse.type,
-          options: nextQuestionResponse.options,
-        };
-
-        // Final validation - check if it's a repeat
-        const finalCheck = questions.some(q => 
-          q.text.toLowerCase().trim() === nextQuestion.text.toLowerCase().trim()
-        );
-        
-        if (finalCheck) {
-          throw new Error(`Generated question is a duplicate: "${nextQuestion.text}"`);
-        }
-
-        setQuestions((prev) => [...prev, nextQuestion]);
-        setCurrentQuestionIndex((prev) => prev + 1);
-        setCurrentScreen('questions');
-      } catch (error: any) {
-        console.error(`❌ ERROR generating question ${currentQuestionIndex + 1} with AI:`, error);
-        
-        const errorMessage = error?.message || error?.toString() || 'Unknown error';
-        
-        console.error('Error details:', errorMessage);
-        
-        const isRateLimit = errorMessage.includes('429') || 
-                           errorMessage.includes('Too Many Requests') ||
-                           errorMessage.includes('rate limit') ||
-                           errorMessage.includes('quota');
-        
-        if (isRateLimit) {
-          const errorMsg = `API rate limit reached!\n\nPlease wait a moment and try again.\n\n💡 Groq has very high rate limits, so this is rare. If it persists, check: https://console.groq.com/`;
-          alert(errorMsg);
-        } else if (errorMessage.includes('GROQ_API_KEY')) {
-          alert(`❌ Groq API Key Missing!\n\n${errorMessage}\n\nGet your FREE key: https://console.groq.com/`);
-        } else {
-          alert(`Failed to generate question.\n\n${errorMessage}\n\nPlease check your GROQ_API_KEY in .env.local`);
-        }
-        
-        // Go back to previous question
-        setCurrentQuestionIndex((prev) => prev - 1);
-        setAnswers((prev) => prev.slice(0, -1));
-        setCurrentScreen('questions');
+    // Re-score with this answer before choosing the next question
+    setCurrentScreen('loading');
+    const signal = startGeneration();
+
+    // Small delay
+    setLoadingMessage('Analyzing your response...');
+    await new Promise(resolve => setTimeout(resolve, 300));
+    if (signal.aborted) return;
+
+    try {
+      setLoadingMessage('Generating your next question...');
+      const nextQuestion = await nextPlannedQuestion(symptoms, answeredQuestions, newAnswers, signal);
+      if (!nextQuestion) {
+        // The differential is settled (or the question limit reached)
+        setQuestions(answeredQuestions);
+        setCurrentScreen('results');
         return;
       }
-    } else {
-      // All questions answered, go to results
-      setCurrentScreen('results');
+
+      setQuestions([...answeredQuestions, nextQuestion]);
+      setCurrentQuestionIndex(answeredQuestions.length + 1);
+      setCurrentScreen('questions');
+    } catch (error: any) {
+      if (isCancelled(error)) return;
+      console.error(`❌ ERROR preparing question ${currentQuestionIndex + 1}:`, error);
+      alert(`Failed to prepare your next question.\n\n${error?.message || 'Unknown error'}`);
+
+      // Go back to previous question
+      setAnswers((prev) => prev.slice(0, -1));
+      setCurrentScreen('questions');
     }
   };
 
@@ -378,20 +270,56 @@ export default function ISPWellnessApp() {
     }
   };
 
+  // Back while a question is generated: stop it and return to the question just answered,
+  // or to the symptoms if it was the first
+  const handleLoadingCancel = () => {
+    cancelGeneration();
+    if (answers.length > 0) {
+      setAnswers((prev) => prev.slice(0, -1));
+      setCurrentScreen('questions');
+    } else {
+      setCurrentScreen('symptoms');
+      setCurrentQuestionIndex(0);
+      setQuestions([]);
+    }
+  };
+
   const handleRestart = () => {
+    cancelGeneration();
+    if (!reopened) clearSession(); // Leaving a re-opened report keeps the unfinished assessment
     setCurrentScreen('welcome');
     setProfile(null);
     setSymptoms('');
     setCurrentQuestionIndex(0);
     setQuestions([]);
     setAnswers([]);
+    setTriageResult(null);
+    setSavedAnalysis(undefined);
+    setReopened(undefined);
   };
 
   const currentQuestion = questions[currentQuestionIndex - 1];
 
   return (
     <div className="min-h-screen w-full bg-background">
-      {currentScreen === 'welcome' && <WelcomeScreen onStart={handleStart} />}
+      {currentScreen === 'welcome' && (
+        <WelcomeScreen
+          onStart={handleStart}
+          onResume={savedSession ? handleResume : undefined}
+          resumeQuestionNumber={savedSession?.currentQuestionIndex}
+          totalQuestions={TOTAL_QUESTIONS}
+          onHistory={history.length > 0 ? () => setCurrentScreen('history') : undefined}
+          onOpenReport={handleOpenReport}
+        />
+      )}
+
+      {currentScreen === 'history' && (
+        <HistoryScreen
+          records={history}
+          onClear={handleClearHistory}
+          onBack={() => setCurrentScreen('welcome')}
+        />
+      )}
       
       {currentScreen === 'profile' && (
         <ProfileSetupScreen
@@ -411,6 +339,8 @@ export default function ISPWellnessApp() {
         <Loading
           title="Processing..."
           description={loadingMessage}
+          preview={questionPreview}
+          onCancel={handleLoadingCancel}
         />
       )}
       
@@ -424,12 +354,21 @@ export default function ISPWellnessApp() {
         />
       )}
       
+      {currentScreen === 'emergency' && triageResult && (
+        <EmergencyScreen
+          triage={triageResult}
+          onRestart={handleRestart}
+        />
+      )}
+      
       {currentScreen === 'results' && profile && (
         <ResultsScreen
           profile={profile}
           symptoms={symptoms}
           questions={questions}
           answers={answers}
+          savedAnalysis={savedAnalysis}
+          reopened={reopened}
           onRestart={handleRestart}
         />
       )}
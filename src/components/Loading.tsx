@@ -6,9 +6,11 @@ import { Loader2 } from 'lucide-react';
 interface LoadingProps {
   title: string;
   description: string;
+  preview?: string; // Text generated so far, shown while the rest streams in
+  onCancel?: () => void; // Shows a Back button that stops the work
 }
 
-const Loading: React.FC<LoadingProps> = ({ title, description }) => (
+const Loading: React.FC<LoadingProps> = ({ title, description, preview, onCancel }) => (
   <div className="flex items-center justify-center min-h-screen bg-gradient-to-tr from-background to-secondary/10 p-6">
     <div className="flex flex-col items-center bg-card shadow-xl rounded-2xl p-8 max-w-sm w-full animate-fadeIn">
       <div className="relative w-24 h-24 sm:w-32 sm:h-32">
@@ -24,11 +26,24 @@ const Loading: React.FC<LoadingProps> = ({ title, description }) => (
       <p className="mt-2 text-sm sm:text-base text-muted-foreground text-center italic">
         {description}
       </p>
+      {preview && (
+        <p className="mt-4 text-base sm:text-lg text-foreground text-center" aria-live="polite">
+          {preview}
+        </p>
+      )}
       <div className="flex mt-6 space-x-2">
         <span className="w-2 h-2 bg-primary/60 rounded-full animate-bounce delay-150"></span>
         <span className="w-2 h-2 bg-primary/60 rounded-full animate-bounce delay-300"></span>
         <span className="w-2 h-2 bg-primary/60 rounded-full animate-bounce"></span>
       </div>
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-6 py-2 px-6 bg-secondary text-secondary-foreground font-semibold rounded-xl hover:shadow transition-all duration-200"
+        >
+          Back
+        </button>
+      )}
     </div>
   </div>
 );
@@ -3,321 +3,225 @@
 import React, { useEffect, useState } from 'react';
 import { ProfileData } from './ProfileSetupScreen';
 import { Question } from './DynamicQuestionScreen';
-import { symptomAnalysis, SymptomAnalysisOutput } from '@/ai/flows/symptom-analysis-groq';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import { Download } from 'lucide-react';
+import { AdvancedAnalysisOutput, advancedSymptomAnalysis, ConditionResult } from '@/ai/flows/advanced-symptom-analysis';
+import { DEFAULT_EXPLANATION } from '@/ai/flows/analysis-input';
+import { isCancelled } from '@/lib/cancellation';
+import { AnswerValue, formatAnswer, formatQuestionnaire, pairAnswers } from '@/ai/medical-data/structured-answers';
+import { describeLedgerEntry } from '@/ai/medical-data/score-ledger';
+import { TRIAGE_LABELS, TriageLevel, TriageResult } from '@/ai/medical-data/triage';
+import { ScoringEngine } from '@/ai/medical-data/bayesian-scoring';
+import { newAssessmentId, recordFromAnalysis, saveAssessment } from '@/client/assessmentHistory';
+import { streamConditionExplanations } from '@/client/generationStream';
+import { buildFhirBundle } from '@/report/fhir-export';
+import { FHIR_JSON_MIME_TYPE } from '@/report/fhir-schema';
+import { downloadFile } from '@/report/download';
+import { JSON_REPORT_MIME_TYPE, buildJsonReport } from '@/report/json-report';
+import { pdfReportFromAssessment } from '@/report/pdf-report';
+import { renderPdfReport } from '@/report/pdf-renderer';
+import { requestCopyCode, sendAndSavePdfReport } from '@/report/send-pdf-report';
+import { isEmailAddress } from '@/report/delivery/address';
+import type { CopyCodeToken } from '@/report/delivery/copy-verification';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Download, FileDown, FileJson } from 'lucide-react';
+
+// A re-opened report: the history entry it was saved as and the engine that scored it
+export interface ReopenedAssessment {
+  id: string;
+  completedAt: string;
+  engine: ScoringEngine;
+}
 
 interface ResultsScreenProps {
   profile: ProfileData;
   symptoms: string;
   questions: Question[];
-  answers: string[];
+  answers: AnswerValue[];
+  savedAnalysis?: AdvancedAnalysisOutput; // From a re-opened report: shown as saved, not re-scored
+  reopened?: ReopenedAssessment; // Re-scoring a report uses its engine and date, and updates its entry
   onRestart: () => void;
 }
 
+const TRIAGE_BORDER: Record<TriageLevel, string> = {
+  emergency: 'border-destructive',
+  urgent: 'border-orange-500',
+  gp: 'border-yellow-500',
+  self_care: 'border-green-500',
+};
+
 export default function ResultsScreen({
   profile,
   symptoms,
   questions,
   answers,
+  savedAnalysis,
+  reopened,
   onRestart,
 }: ResultsScreenProps) {
-  const [conditions, setConditions] = useState<SymptomAnalysisOutput | null>(null);
+  const [conditions, setConditions] = useState<ConditionResult[] | null>(null);
+  const [triageResult, setTriageResult] = useState<TriageResult | null>(null);
+  const [analysis, setAnalysis] = useState<AdvancedAnalysisOutput | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(true);
+  const [isExplaining, setIsExplaining] = useState(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
+  // Re-running the analysis updates this assessment's history entry rather than adding another
+  const [assessmentId] = useState(() => reopened?.id || newAssessmentId());
+  const [emailCopy, setEmailCopy] = useState(false);
+  const [copyAddress, setCopyAddress] = useState('');
+  const [copyToken, setCopyToken] = useState<CopyCodeToken | null>(null);
+  const [copyCode, setCopyCode] = useState('');
+  const [isSendingCode, setIsSendingCode] = useState(false);
+  const [copyError, setCopyError] = useState<string | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
 
   useEffect(() => {
+    if (savedAnalysis) {
+      setConditions(savedAnalysis.conditions);
+      setTriageResult(savedAnalysis.triage);
+      setAnalysis(savedAnalysis);
+      setIsAnalyzing(false);
+      return;
+    }
+
+    // Leaving the screen stops the explanations being written
+    const controller = new AbortController();
+
+    const showAnalysis = (result: AdvancedAnalysisOutput) => {
+      setConditions(result.conditions);
+      setTriageResult(result.triage);
+      setAnalysis(result);
+    };
+
     const performAnalysis = async () => {
+      // Format answers for analysis
+      const input = {
+        symptoms,
+        medicalHistory: profile.medicalConditions || undefined,
+        questionnaireAnswers: formatQuestionnaire(questions, answers).join('\n\n'),
+        structuredAnswers: pairAnswers(questions, answers),
+        engine: reopened?.engine,
+        assessedAt: reopened?.completedAt,
+        profile: {
+          name: profile.name,
+          age: profile.age,
+          gender: profile.gender,
+        },
+      };
+
+      let result: AdvancedAnalysisOutput;
       try {
         setIsAnalyzing(true);
         setAnalysisError(null);
 
-        // Format answers for analysis
-        const formattedAnswers = questions
-          .map((q, index) => `Q${index + 1}: ${q.text}\nAnswer: ${answers[index] || 'Not answered'}`)
-          .join('\n\n');
+        // Scores first; the explanations are streamed in below
+        result = await advancedSymptomAnalysis(input);
+        if (controller.signal.aborted) return;
 
-        const result = await symptomAnalysis({
-          symptoms,
-          medicalHistory: profile.medicalConditions || undefined,
-          questionnaireAnswers: formattedAnswers,
-        });
-
-        setConditions(result);
+        showAnalysis(result);
         setIsAnalyzing(false);
+        saveAssessment(recordFromAnalysis(
+          result,
+          { id: assessmentId, symptoms, questions, answers },
+          reopened ? new Date(reopened.completedAt) : undefined
+        ));
       } catch (error) {
         console.error('Error analyzing symptoms:', error);
         setAnalysisError('Unable to analyze symptoms. Please try again.');
         setIsAnalyzing(false);
+        return;
       }
-    };
 
-    performAnalysis();
-  }, [profile, symptoms, questions, answers]);
-
-  const generatePDF = async () => {
-    if (!conditions || conditions.length === 0) return;
-
-    const doc = new jsPDF('portrait', 'pt', 'a4');
-    const width = doc.internal.pageSize.getWidth();
-    const height = doc.internal.pageSize.getHeight();
-    const margin = 50;
-    const contentWidth = width - margin * 2;
-    let cursorY = margin;
-
-    const colors = {
-      primary: '#FFB366',
-      secondary: '#2d3748',
-      accent: '#3182ce',
-      warning: '#c53030',
-      background: '#f7fafc',
-      border: '#e2e8f0',
-    };
+      const explain = (condition: string, explanation: string) => {
+        result = {
+          ...result,
+          conditions: result.conditions.map(c => (c.condition === condition ? { ...c, explanation } : c)),
+        };
+        showAnalysis(result);
+      };
 
-    const spacing = {
-      section: 35,
-      paragraph: 15,
-      line: 16,
-    };
-
-    const fontSizes = {
-      coverTitle: 37,
-      coverSubtitle: 21,
-      sectionTitle: 21,
-      bodyText: 11,
-      footer: 9,
-    };
-
-    const footer = (page: number, totalPages: number) => {
-      doc.setDrawColor(colors.border);
-      doc.setLineWidth(0.5);
-      doc.line(margin, height - 35, width - margin, height - 35);
-      doc.setFontSize(fontSizes.footer);
-      doc.setTextColor(colors.secondary);
-      const footerText = `Page ${page} of ${totalPages} | ISP Wellness Assistant Report | Generated: ${new Date().toLocaleString()}`;
-      doc.text(footerText, width / 2, height - 20, { align: 'center' });
+      const explained = new Set<string>();
+      setIsExplaining(true);
+      try {
+        await streamConditionExplanations(input, {
+          onText: explain,
+          onExplanation: (condition, explanation) => {
+            explained.add(condition);
+            explain(condition, explanation);
+          },
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (isCancelled(error)) return;
+        console.error('Error explaining conditions:', error);
+      }
+      // Conditions the stream did not finish get the standard sentence
+      result.conditions.filter(c => !explained.has(c.condition)).forEach(c => explain(c.condition, DEFAULT_EXPLANATION));
+      setIsExplaining(false);
+      saveAssessment(recordFromAnalysis(result, { id: assessmentId, symptoms, questions, answers }));
     };
 
-    // Cover Page
-    doc.setFillColor(colors.background);
-    doc.rect(0, 0, width, height, 'F');
-
-    doc.setFont('helvetica', 'bold');
-    doc.setFontSize(fontSizes.coverTitle);
-    doc.setTextColor(colors.primary);
-    doc.text('ISP Wellness Assistant', width / 2, height / 2 - 60, { align: 'center' });
-
-    doc.setFontSize(fontSizes.coverSubtitle);
-    doc.text('Comprehensive Wellness Analysis Report', width / 2, height / 2 - 20, { align: 'center' });
-
-    doc.setFontSize(13);
-    doc.text(`Patient: ${profile.name}`, width / 2, height / 2 + 20, { align: 'center' });
-    doc.text(`Date: ${new Date().toLocaleDateString()}`, width / 2, height / 2 + 50, { align: 'center' });
-
-    doc.setDrawColor(colors.primary);
-    doc.setLineWidth(2);
-    doc.line(margin, height / 2 + 80, width - margin, height / 2 + 80);
-
-    doc.addPage();
-    cursorY = margin;
-
-    // Patient Information
-    doc.setFont('helvetica', 'bold');
-    doc.setFontSize(fontSizes.sectionTitle);
-    doc.setTextColor(colors.primary);
-    doc.text('1. Patient Information', margin, cursorY);
-    cursorY += spacing.section;
-
-    const info = [
-      ['Name', profile.name],
-      ['Age', profile.age],
-      ['Gender', profile.gender],
-      ['Report Date', new Date().toLocaleDateString()],
-    ];
-
-    if (profile.medicalConditions) {
-      info.push(['Medical History', profile.medicalConditions]);
-    }
-
-    autoTable(doc, {
-      startY: cursorY,
-      margin: { left: margin, right: margin },
-      theme: 'grid',
-      body: info,
-      styles: {
-        cellPadding: 8,
-        fontSize: fontSizes.bodyText,
-        textColor: colors.secondary,
-        lineColor: colors.border,
-        lineWidth: 0.5,
-      },
-      columnStyles: {
-        0: { fontStyle: 'bold', cellWidth: 150, textColor: colors.primary },
-        1: { cellWidth: width - margin * 2 - 150 },
-      },
-    });
-    cursorY = (doc as any).lastAutoTable.finalY + spacing.section;
-
-    // Symptoms
-    doc.setFont('helvetica', 'bold');
-    doc.setFontSize(fontSizes.sectionTitle);
-    doc.setTextColor(colors.primary);
-    doc.text('2. Reported Symptoms', margin, cursorY);
-    cursorY += spacing.section;
-
-    autoTable(doc, {
-      startY: cursorY,
-      margin: { left: margin, right: margin },
-      theme: 'grid',
-      body: [['Symptoms', symptoms]],
-      styles: {
-        cellPadding: 8,
-        fontSize: fontSizes.bodyText,
-        textColor: colors.secondary,
-        lineColor: colors.border,
-        lineWidth: 0.5,
-      },
-      columnStyles: {
-        0: { fontStyle: 'bold', cellWidth: 150, textColor: colors.primary },
-        1: { cellWidth: width - margin * 2 - 150 },
-      },
-    });
-    cursorY = (doc as any).lastAutoTable.finalY + spacing.section;
-
-    // Q&A Session
-    doc.addPage();
-    cursorY = margin;
-    doc.setFont('helvetica', 'bold');
-    doc.setFontSize(fontSizes.sectionTitle);
-    doc.setTextColor(colors.primary);
-    doc.text('3. Q&A Session', margin, cursorY);
-    cursorY += spacing.section;
-
-    if (questions.length > 0 && answers.length > 0) {
-      questions.forEach((question, index) => {
-        const answer = answers[index] || 'No answer provided';
-
-        doc.setFillColor(colors.background);
-        doc.roundedRect(margin, cursorY - 8, width - margin * 2, 35, 3, 3, 'F');
-
-        doc.setTextColor(colors.primary);
-        doc.setFont('helvetica', 'bold');
-        doc.setFontSize(fontSizes.bodyText);
-        const questionLines = doc.splitTextToSize(`Q${index + 1}: ${question.text}`, contentWidth - 20);
-        doc.text(questionLines, margin + 10, cursorY + 5);
-        cursorY += questionLines.length * spacing.line + spacing.paragraph;
-
-        doc.setTextColor(colors.secondary);
-        doc.setFont('helvetica', 'normal');
-        const answerLines = doc.splitTextToSize(answer, contentWidth - 40);
-        doc.text(answerLines, margin + 30, cursorY);
-        cursorY += answerLines.length * spacing.line + spacing.paragraph;
+    performAnalysis();
+    return () => controller.abort();
+  }, [profile, symptoms, questions, answers, savedAnalysis, assessmentId]);
+
+  const downloadReport = () => {
+    if (!analysis) return;
+    const report = buildJsonReport({ profile, symptoms, questions, answers, analysis, assessmentId });
+    downloadFile(
+      JSON.stringify(report, null, 2),
+      `ISP-Wellness-Assistant-Report-${new Date().toISOString().split('T')[0]}.json`,
+      JSON_REPORT_MIME_TYPE
+    );
+  };
 
-        if (cursorY > height - margin) {
-          doc.addPage();
-          cursorY = margin;
-        }
-      });
+  const exportFHIR = () => {
+    if (!analysis) return;
+    setReportError(null);
+    try {
+      const bundle = buildFhirBundle({ profile, symptoms, questions, answers, analysis });
+      // The file name leaves out the patient's name; the bundle itself identifies them
+      downloadFile(
+        JSON.stringify(bundle, null, 2),
+        `ISP-Wellness-Assistant-FHIR-${new Date().toISOString().split('T')[0]}.json`,
+        FHIR_JSON_MIME_TYPE
+      );
+    } catch (error) {
+      console.error('Error exporting FHIR bundle:', error);
+      setReportError('Unable to export the FHIR bundle. Please try again.');
     }
+  };
 
-    // Analysis Results
-    doc.addPage();
-    cursorY = margin;
-    doc.setFont('helvetica', 'bold');
-    doc.setFontSize(fontSizes.sectionTitle);
-    doc.setTextColor(colors.primary);
-    doc.text('4. AI Analysis Results', margin, cursorY);
-    cursorY += spacing.section;
-
-    conditions.forEach((condition, index) => {
-      const descriptionLines = doc.splitTextToSize(condition.description || '', contentWidth - 40);
-      const boxHeight = Math.max(35, descriptionLines.length * spacing.line + 15);
-
-      doc.setFillColor(colors.background);
-      doc.roundedRect(margin, cursorY - 8, width - margin * 2, boxHeight, 3, 3, 'F');
-
-      doc.setTextColor(colors.primary);
-      doc.setFont('helvetica', 'bold');
-      doc.setFontSize(fontSizes.bodyText);
-      doc.text(`Condition ${index + 1}: ${condition.condition}`, margin + 10, cursorY + 5);
-      cursorY += spacing.line;
-
-      doc.setTextColor(colors.secondary);
-      doc.setFont('helvetica', 'normal');
-      doc.text(`Likelihood: ${(condition.likelihood * 100).toFixed(2)}%`, margin + 30, cursorY);
-      cursorY += spacing.line;
-
-      if (condition.description) {
-        doc.text(descriptionLines, margin + 30, cursorY);
-        cursorY += descriptionLines.length * spacing.line + spacing.paragraph;
-      }
-
-      if (cursorY > height - margin) {
-        doc.addPage();
-        cursorY = margin;
-      }
-    });
-
-    // Disclaimer
-    doc.addPage();
-    cursorY = margin;
-    doc.setFont('helvetica', 'bold');
-    doc.setFontSize(fontSizes.sectionTitle);
-    doc.setTextColor(colors.warning);
-    doc.text('5. Important Disclaimer', margin, cursorY);
-    cursorY += spacing.section;
-
-    doc.setFont('helvetica', 'normal');
-    doc.setFontSize(fontSizes.bodyText);
-    doc.setTextColor(colors.secondary);
-    const disclaimer = [
-      'This report is generated by ISP Wellness Assistant and is not a substitute for professional medical advice.',
-      'Always consult a qualified healthcare provider for proper diagnosis and treatment.',
-      'The information provided in this report is based on the symptoms and information provided by the patient.',
-      'ISP Wellness Assistant is not responsible for any decisions made based on this report.',
-    ];
-
-    disclaimer.forEach((text) => {
-      const lines = doc.splitTextToSize(text, contentWidth);
-      doc.text(lines, margin, cursorY);
-      cursorY += lines.length * spacing.line + spacing.paragraph;
-    });
-
-    // Add page numbers
-    const pages = doc.getNumberOfPages();
-    for (let i = 1; i <= pages; i++) {
-      doc.setPage(i);
-      footer(i, pages);
+  const sendCopyCode = async () => {
+    const email = copyAddress.trim();
+    if (!isEmailAddress(email)) {
+      setCopyError('Please enter a valid email address');
+      return;
     }
-
-    // Generate PDF
-    const pdfOutput = doc.output('datauristring');
-    const pdfData = pdfOutput.split(',')[1];
-
+    setCopyError(null);
+    setIsSendingCode(true);
     try {
-      const response = await fetch('/api/send-report', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          pdfData,
-          patientName: profile.name,
-        }),
-      });
-
-      const result = await response.json();
-      if (result.success) {
-        doc.save(`ISP-Wellness-Assistant-Report-${profile.name}-${new Date().toISOString().split('T')[0]}.pdf`);
-      } else {
-        throw new Error(result.message || 'Failed to send report');
-      }
+      setCopyToken(await requestCopyCode(email));
+      setCopyCode('');
     } catch (error) {
-      console.error('Error sending report:', error);
-      doc.save(`ISP-Wellness-Assistant-Report-${profile.name}-${new Date().toISOString().split('T')[0]}.pdf`);
+      setCopyError((error as Error).message || 'Failed to send the code');
+    } finally {
+      setIsSendingCode(false);
     }
   };
+
+  const generatePDF = async () => {
+    if (!analysis || analysis.conditions.length === 0) return;
+    // A copy only goes to an address the user has confirmed with the code mailed there
+    if (emailCopy && (!copyToken || !/^\d{6}$/.test(copyCode.trim()))) {
+      setCopyError('Enter the code we emailed you, or untick the copy');
+      return;
+    }
+    setCopyError(null);
+    setReportError(null);
+    const report = pdfReportFromAssessment({ profile, symptoms, questions, answers, analysis });
+    const copy = emailCopy && copyToken ? { ...copyToken, code: copyCode.trim() } : undefined;
+    const failure = await sendAndSavePdfReport(report, renderPdfReport(report), { copy });
+    if (failure) setReportError(`${failure}. Your PDF was still downloaded.`);
+  };
   return (
     <div className="flex flex-col items-center justify-center min-h-screen px-6 py-12 animate-fadeIn">
       <div className="w-full max-w-2xl mx-auto">
@@ -366,13 +270,31 @@ export default function ResultsScreen({
                     Q{index + 1}: {question.text}
                   </p>
                   <p className="text-foreground text-sm opacity-80">
-                    Answer: {answers[index] || 'Not answered'}
+                    Answer: {formatAnswer(question, answers[index])}
                   </p>
                 </div>
               ))}
             </div>
           </div>
 
+          {/* Triage */}
+          {triageResult && (
+            <div className="mb-8">
+              <h3 className="text-lg font-semibold text-foreground mb-3">What To Do Next</h3>
+              <div className={`bg-accent rounded-xl p-4 border-l-4 ${TRIAGE_BORDER[triageResult.level]}`}>
+                <p className="font-semibold text-foreground mb-1">{TRIAGE_LABELS[triageResult.level]}</p>
+                <p className="text-foreground text-sm opacity-80">{triageResult.advice}</p>
+                {triageResult.reasons.length > 0 && (
+                  <ul className="mt-2 list-disc list-inside text-sm text-muted-foreground">
+                    {triageResult.reasons.map(reason => (
+                      <li key={reason.rule}>{reason.reason}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* AI Analysis Results */}
           <div className="mb-8">
             <h3 className="text-lg font-semibold text-foreground mb-3">AI Analysis Results</h3>
@@ -403,7 +325,7 @@ export default function ResultsScreen({
                         {condition.condition}
                       </h4>
                       <span className="text-sm font-medium text-primary bg-primary/10 px-3 py-1 rounded-full">
-                        {Math.round(condition.likelihood * 100)}%
+                        {condition.displayLikelihood || `${Math.round(condition.likelihood * 100)}%`}
                       </span>
                     </div>
                     {condition.description && (
@@ -411,6 +333,39 @@ export default function ResultsScreen({
                         {condition.description}
                       </p>
                     )}
+                    {condition.explanation ? (
+                      <p className="text-foreground text-sm mt-2" aria-live="polite">
+                        {condition.explanation}
+                      </p>
+                    ) : (
+                      isExplaining && (
+                        <p className="text-muted-foreground text-sm italic mt-2">Writing an explanation...</p>
+                      )
+                    )}
+                    {condition.ledger.length > 0 && (
+                      <Accordion type="single" collapsible className="mt-2">
+                        <AccordionItem value="why" className="border-b-0">
+                          <AccordionTrigger className="py-2 text-sm text-primary">
+                            Why this?
+                          </AccordionTrigger>
+                          <AccordionContent>
+                            <ol className="space-y-1 text-sm text-foreground">
+                              {condition.ledger.map((entry, entryIndex) => (
+                                <li
+                                  key={`ledger-${entry.step}-${entryIndex}`}
+                                  className="flex justify-between gap-4"
+                                >
+                                  <span className="opacity-80">{describeLedgerEntry(entry)}</span>
+                                  <span className="font-mono opacity-60">
+                                    {entry.score_after.toFixed(2)}
+                                  </span>
+                                </li>
+                              ))}
+                            </ol>
+                          </AccordionContent>
+                        </AccordionItem>
+                      </Accordion>
+                    )}
                   </div>
                 ))}
                 <div className="bg-blue-50 dark:bg-blue-950 rounded-xl p-4 border border-blue-200 dark:border-blue-800">
@@ -433,8 +388,77 @@ export default function ResultsScreen({
           </div>
         </div>
 
+        {/* Emailed copy of the PDF, opt-in and only to a confirmed address */}
+        {conditions && conditions.length > 0 && (
+          <div className="bg-card rounded-2xl shadow p-4 mb-4">
+            <div className="flex items-start space-x-2">
+              <input
+                id="email-copy"
+                type="checkbox"
+                checked={emailCopy}
+                onChange={() => {
+                  setEmailCopy((prev) => !prev);
+                  setCopyError(null);
+                }}
+                className="mt-1"
+              />
+              <label htmlFor="email-copy" className="text-sm text-foreground">
+                Email me a copy when I download the PDF
+              </label>
+            </div>
+            {emailCopy && (
+              <div className="mt-3 space-y-3">
+                <div className="flex gap-2">
+                  <input
+                    id="email-copy-address"
+                    type="email"
+                    value={copyAddress}
+                    onChange={(e) => {
+                      setCopyAddress(e.target.value);
+                      setCopyToken(null);
+                      setCopyError(null);
+                    }}
+                    className="flex-1 px-4 py-3 rounded-xl border-2 border-border bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                    placeholder="you@example.com"
+                    aria-label="Email address for your copy"
+                  />
+                  <button
+                    onClick={sendCopyCode}
+                    disabled={isSendingCode}
+                    className="px-4 py-3 bg-secondary text-secondary-foreground font-semibold rounded-xl disabled:opacity-50"
+                  >
+                    {copyToken ? 'Resend code' : 'Send code'}
+                  </button>
+                </div>
+                {copyToken && (
+                  <input
+                    id="email-copy-code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    value={copyCode}
+                    onChange={(e) => {
+                      setCopyCode(e.target.value);
+                      setCopyError(null);
+                    }}
+                    className="w-full px-4 py-3 rounded-xl border-2 border-border bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                    placeholder="6-digit code"
+                    aria-label={`Code emailed to ${copyToken.email}`}
+                  />
+                )}
+                {copyToken && (
+                  <p className="text-sm text-muted-foreground">We emailed a code to {copyToken.email}. It expires in 15 minutes.</p>
+                )}
+              </div>
+            )}
+            {copyError && <p className="mt-1 text-sm text-destructive">{copyError}</p>}
+          </div>
+        )}
+
+        {reportError && <p className="mb-4 text-sm text-destructive">{reportError}</p>}
+
         {/* Action Buttons */}
-        <div className="flex gap-4">
+        <div className="flex flex-wrap gap-4">
           {conditions && conditions.length > 0 && (
             <button
               onClick={generatePDF}
@@ -444,6 +468,24 @@ export default function ResultsScreen({
               Download PDF
             </button>
           )}
+          {analysis && (
+            <button
+              onClick={downloadReport}
+              className="flex-1 py-4 px-6 bg-secondary text-secondary-foreground text-lg font-semibold rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 active:scale-95 flex items-center justify-center gap-2"
+            >
+              <FileDown className="w-5 h-5" />
+              Save report
+            </button>
+          )}
+          {analysis && (
+            <button
+              onClick={exportFHIR}
+              className="flex-1 py-4 px-6 bg-secondary text-secondary-foreground text-lg font-semibold rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 active:scale-95 flex items-center justify-center gap-2"
+            >
+              <FileJson className="w-5 h-5" />
+              Export FHIR
+            </button>
+          )}
           <button
             onClick={onRestart}
             className="flex-1 py-4 px-6 bg-primary text-primary-foreground text-lg font-semibold rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 active:scale-95"
@@ -1,12 +1,46 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
+import { JsonReport, isCurrentKnowledgeBase, parseJsonReport } from '@/report/json-report';
 
 interface WelcomeScreenProps {
   onStart: () => void;
+  onResume?: () => void; // Only when an unfinished assessment was saved
+  resumeQuestionNumber?: number;
+  totalQuestions?: number;
+  onHistory?: () => void; // Only when there are past assessments
+  onOpenReport?: (report: JsonReport, rescore: boolean) => void;
 }
 
-export default function WelcomeScreen({ onStart }: WelcomeScreenProps) {
+export default function WelcomeScreen({
+  onStart,
+  onResume,
+  resumeQuestionNumber,
+  totalQuestions,
+  onHistory,
+  onOpenReport,
+}: WelcomeScreenProps) {
+  const [report, setReport] = useState<JsonReport | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const readReport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setReport(parseJsonReport(await file.text()));
+      setReportError(null);
+    } catch (error) {
+      setReport(null);
+      setReportError(error instanceof Error ? error.message : 'This report could not be read.');
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    readReport(event.dataTransfer.files[0]);
+  };
+
   return (
     <div className="flex flex-col items-center justify-center min-h-screen px-6 py-12 animate-fadeIn">
       <div className="w-full max-w-md mx-auto flex flex-col items-center">
@@ -29,13 +63,97 @@ export default function WelcomeScreen({ onStart }: WelcomeScreenProps) {
           Your friendly wellness companion.
         </p>
         
+        {/* Resume Button */}
+        {onResume && (
+          <button
+            onClick={onResume}
+            className="w-full max-w-xs mb-4 py-4 px-8 bg-primary text-primary-foreground text-lg sm:text-xl font-semibold rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 active:scale-95"
+          >
+            Resume your assessment
+            {resumeQuestionNumber && totalQuestions && (
+              <span className="block text-sm font-normal opacity-80">Question {resumeQuestionNumber} of {totalQuestions}</span>
+            )}
+          </button>
+        )}
+
         {/* Start Button */}
         <button
           onClick={onStart}
-          className="w-full max-w-xs py-4 px-8 bg-primary text-primary-foreground text-lg sm:text-xl font-semibold rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 active:scale-95"
+          className={`w-full max-w-xs py-4 px-8 text-lg sm:text-xl font-semibold rounded-2xl shadow-lg hover:shadow-xl transform hover:scale-105 transition-all duration-200 active:scale-95 ${
+            onResume ? 'bg-secondary text-secondary-foreground' : 'bg-primary text-primary-foreground'
+          }`}
         >
-          Start
+          {onResume ? 'Start over' : 'Start'}
         </button>
+
+        {/* History Link */}
+        {onHistory && (
+          <button
+            onClick={onHistory}
+            className="mt-6 text-primary font-medium underline-offset-4 hover:underline"
+          >
+            Past assessments
+          </button>
+        )}
+
+        {/* Saved Report */}
+        {onOpenReport && (
+          <div className="w-full max-w-xs mt-8">
+            {report ? (
+              <div className="rounded-2xl border border-border p-4 text-center">
+                <p className="font-medium text-foreground">
+                  Report for {report.profile.name}, {new Date(report.exportedAt).toLocaleDateString()}
+                </p>
+                {!isCurrentKnowledgeBase(report) && (
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    Scored with an older knowledge base ({report.engine.knowledgeBaseVersion}).
+                  </p>
+                )}
+                <div className="mt-4 flex flex-col gap-2">
+                  <button
+                    onClick={() => onOpenReport(report, false)}
+                    className="py-2 px-4 bg-primary text-primary-foreground font-semibold rounded-xl"
+                  >
+                    Open results
+                  </button>
+                  <button
+                    onClick={() => onOpenReport(report, true)}
+                    className="py-2 px-4 bg-secondary text-secondary-foreground font-semibold rounded-xl"
+                  >
+                    Re-score with the current engine
+                  </button>
+                  <button onClick={() => setReport(null)} className="text-sm text-muted-foreground hover:underline">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <label
+                onDragOver={event => {
+                  event.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`block cursor-pointer rounded-2xl border-2 border-dashed p-4 text-center text-sm text-muted-foreground transition-colors ${
+                  isDragging ? 'border-primary bg-primary/5' : 'border-border'
+                }`}
+              >
+                Drop a saved report here, or choose a file, to open it again
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="sr-only"
+                  onChange={event => {
+                    readReport(event.target.files?.[0]);
+                    event.target.value = '';
+                  }}
+                />
+              </label>
+            )}
+            {reportError && <p className="mt-2 text-sm text-destructive text-center">{reportError}</p>}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,214 @@
+/**
+ * Offline Evaluation Harness
+ * Runs the labelled vignette corpus through the client scoring module and the
+ * deterministic part of the advanced analysis pipeline, for each scoring
+ * engine, and compares the results with a stored baseline.
+ * No LLM calls: runs without API keys.
+ */
+
+import corpusFile from './vignettes.json';
+import { DISEASE_DATABASE } from '@/knowledge-base';
+import { SCORING_ENGINES, ScoringEngine } from '@/ai/medical-data/bayesian-scoring';
+import { extractSymptomsList, runDeterministicAnalysis } from '@/ai/medical-data/deterministic-analysis';
+import { scoreSymptoms } from '@/client/scoring';
+import {
+  Baseline,
+  BaselineSchema,
+  EVALUATION_PIPELINES,
+  EvaluationPipeline,
+  EvaluationRun,
+  RunMetrics,
+  Vignette,
+  VignetteCorpus,
+  VignetteCorpusSchema,
+  VignetteResult,
+} from './schema';
+
+export type { Baseline, EvaluationPipeline, EvaluationRun, RunMetrics, Vignette, VignetteResult } from './schema';
+export { EVALUATION_PIPELINES } from './schema';
+
+export interface Regression {
+  run: string; // "<pipeline>:<engine>"
+  vignette_id?: string; // Absent for aggregate metric drops
+  message: string;
+}
+
+/**
+ * Load and validate the vignette corpus
+ */
+export function loadCorpus(data: unknown = corpusFile): VignetteCorpus {
+  const corpus = VignetteCorpusSchema.safeParse(data);
+  if (!corpus.success) {
+    throw new Error(`Invalid vignette corpus: ${corpus.error.message}`);
+  }
+
+  const known = new Set(DISEASE_DATABASE.map(d => d.name));
+  const ids = new Set<string>();
+  corpus.data.vignettes.forEach(vignette => {
+    if (ids.has(vignette.id)) {
+      throw new Error(`Duplicate vignette id: ${vignette.id}`);
+    }
+    ids.add(vignette.id);
+
+    vignette.expected_conditions.forEach(condition => {
+      if (!known.has(condition)) {
+        throw new Error(`Vignette ${vignette.id} expects unknown condition: ${condition}`);
+      }
+    });
+  });
+
+  return corpus.data;
+}
+
+/**
+ * Validate a stored baseline
+ */
+export function parseBaseline(data: unknown): Baseline {
+  const baseline = BaselineSchema.safeParse(data);
+  if (!baseline.success) {
+    throw new Error(`Invalid evaluation baseline: ${baseline.error.message}`);
+  }
+  return baseline.data;
+}
+
+export function runName(run: Pick<EvaluationRun, 'pipeline' | 'engine'>): string {
+  return `${run.pipeline}:${run.engine}`;
+}
+
+/**
+ * Ranked conditions and raised red flags for one vignette
+ */
+function runPipeline(
+  vignette: Vignette,
+  pipeline: EvaluationPipeline,
+  engine: ScoringEngine
+): { ranked: string[]; redFlags: string[] } {
+  if (pipeline === 'client') {
+    const scored = scoreSymptoms(extractSymptomsList(vignette.symptoms), vignette.answers, [], {
+      engine,
+      profile: vignette.profile,
+    });
+    return {
+      ranked: scored.conditions.map(c => c.condition),
+      redFlags: scored.redFlags.flags,
+    };
+  }
+
+  const analysis = runDeterministicAnalysis({
+    symptoms: vignette.symptoms,
+    questionnaireAnswers: vignette.answers.join('\n\n'),
+    engine,
+    profile: vignette.profile,
+  });
+  return {
+    ranked: analysis.conditions.map(c => c.condition),
+    redFlags: analysis.redFlags.map(f => f.name),
+  };
+}
+
+/**
+ * Score one vignette against its labels
+ */
+export function evaluateVignette(
+  vignette: Vignette,
+  pipeline: EvaluationPipeline,
+  engine: ScoringEngine
+): VignetteResult {
+  const { ranked, redFlags } = runPipeline(vignette, pipeline, engine);
+  const expected = new Set(vignette.expected_conditions);
+  const expectedFlags = vignette.expected_red_flags[pipeline];
+  const topConditions = ranked.slice(0, 3);
+
+  return {
+    vignette_id: vignette.id,
+    top_conditions: topConditions,
+    top1_hit: topConditions.length > 0 && expected.has(topConditions[0]),
+    top3_hit: topConditions.some(c => expected.has(c)),
+    red_flags_missed: expectedFlags.filter(f => !redFlags.includes(f)),
+    red_flags_unexpected: redFlags.filter(f => !expectedFlags.includes(f)),
+  };
+}
+
+function summarize(corpus: VignetteCorpus, pipeline: EvaluationPipeline, results: VignetteResult[]): RunMetrics {
+  const cases = results.length;
+  const expectedFlags = corpus.vignettes.reduce((sum, v) => sum + v.expected_red_flags[pipeline].length, 0);
+  const missedFlags = results.reduce((sum, r) => sum + r.red_flags_missed.length, 0);
+
+  return {
+    cases,
+    top1_accuracy: cases > 0 ? results.filter(r => r.top1_hit).length / cases : 0,
+    top3_accuracy: cases > 0 ? results.filter(r => r.top3_hit).length / cases : 0,
+    red_flag_recall: expectedFlags > 0 ? (expectedFlags - missedFlags) / expectedFlags : 1,
+    red_flags_expected: expectedFlags,
+    red_flags_unexpected: results.reduce((sum, r) => sum + r.red_flags_unexpected.length, 0),
+  };
+}
+
+/**
+ * Evaluate the corpus on every pipeline and scoring engine
+ */
+export function evaluateCorpus(corpus: VignetteCorpus = loadCorpus()): Baseline {
+  const runs: EvaluationRun[] = [];
+
+  EVALUATION_PIPELINES.forEach(pipeline => {
+    SCORING_ENGINES.forEach(engine => {
+      const results = corpus.vignettes.map(vignette => evaluateVignette(vignette, pipeline, engine));
+      runs.push({ pipeline, engine, metrics: summarize(corpus, pipeline, results), results });
+    });
+  });
+
+  return { corpus_version: corpus.version, runs };
+}
+
+/**
+ * Everything that got worse since the baseline: lost top-1/top-3 hits,
+ * newly missed red flags and lower aggregate metrics
+ */
+export function findRegressions(current: Baseline, baseline: Baseline): Regression[] {
+  const regressions: Regression[] = [];
+
+  current.runs.forEach(run => {
+    const name = runName(run);
+    const previous = baseline.runs.find(r => runName(r) === name);
+    if (!previous) return; // New run, nothing to compare against
+
+    const previousResults = new Map(previous.results.map(r => [r.vignette_id, r]));
+    run.results.forEach(result => {
+      const before = previousResults.get(result.vignette_id);
+      if (!before) return; // New vignette
+
+      if (before.top1_hit && !result.top1_hit) {
+        regressions.push({
+          run: name,
+          vignette_id: result.vignette_id,
+          message: `top-1 lost: was ${before.top_conditions[0]}, now ${result.top_conditions[0] || 'nothing'}`,
+        });
+      }
+      if (before.top3_hit && !result.top3_hit) {
+        regressions.push({
+          run: name,
+          vignette_id: result.vignette_id,
+          message: `top-3 lost: now ${result.top_conditions.join(', ') || 'nothing'}`,
+        });
+      }
+      result.red_flags_missed
+        .filter(flag => !before.red_flags_missed.includes(flag))
+        .forEach(flag => regressions.push({
+          run: name,
+          vignette_id: result.vignette_id,
+          message: `red flag no longer raised: ${flag}`,
+        }));
+    });
+
+    (['top1_accuracy', 'top3_accuracy', 'red_flag_recall'] as const).forEach(metric => {
+      if (run.metrics[metric] < previous.metrics[metric]) {
+        regressions.push({
+          run: name,
+          message: `${metric} dropped from ${previous.metrics[metric].toFixed(3)} to ${run.metrics[metric].toFixed(3)}`,
+        });
+      }
+    });
+  });
+
+  return regressions;
+}
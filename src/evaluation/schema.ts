@@ -0,0 +1,73 @@
+/**
+ * Evaluation Schema
+ * Zod schemas for the labelled vignette corpus and the stored baseline
+ */
+
+import { z } from 'zod';
+import { SCORING_ENGINES } from '@/ai/medical-data/bayesian-scoring';
+
+export const EVALUATION_PIPELINES = ['client', 'advanced'] as const;
+
+const VersionSchema = z.string().regex(/^\d+\.\d+\.\d+$/, 'version must be semver (x.y.z)');
+
+const UnitIntervalSchema = z.number().min(0).max(1);
+
+export const VignetteSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'id must be kebab-case'),
+  description: z.string().min(1),
+  symptoms: z.string().min(1), // Free text, as typed on the symptom screen
+  answers: z.array(z.string()).default([]), // "Q1: ...\nAnswer: ..." blocks
+  profile: z.object({
+    age: z.string(),
+    gender: z.string(),
+  }),
+  expected_conditions: z.array(z.string().min(1)).min(1), // Acceptable diagnoses, most likely first
+  // Red-flag names differ between the client module and the server pipeline
+  expected_red_flags: z.object({
+    client: z.array(z.string()).default([]),
+    advanced: z.array(z.string()).default([]),
+  }),
+});
+
+export const VignetteCorpusSchema = z.object({
+  version: VersionSchema,
+  vignettes: z.array(VignetteSchema).min(1),
+});
+
+export const VignetteResultSchema = z.object({
+  vignette_id: z.string(),
+  top_conditions: z.array(z.string()), // Top 3, highest score first
+  top1_hit: z.boolean(),
+  top3_hit: z.boolean(),
+  red_flags_missed: z.array(z.string()),
+  red_flags_unexpected: z.array(z.string()), // Raised but not labelled
+});
+
+export const RunMetricsSchema = z.object({
+  cases: z.number().int().nonnegative(),
+  top1_accuracy: UnitIntervalSchema,
+  top3_accuracy: UnitIntervalSchema,
+  red_flag_recall: UnitIntervalSchema, // 1 when no red flags are expected
+  red_flags_expected: z.number().int().nonnegative(),
+  red_flags_unexpected: z.number().int().nonnegative(),
+});
+
+export const RunSchema = z.object({
+  pipeline: z.enum(EVALUATION_PIPELINES),
+  engine: z.enum(SCORING_ENGINES),
+  metrics: RunMetricsSchema,
+  results: z.array(VignetteResultSchema),
+});
+
+export const BaselineSchema = z.object({
+  corpus_version: VersionSchema,
+  runs: z.array(RunSchema),
+});
+
+export type EvaluationPipeline = (typeof EVALUATION_PIPELINES)[number];
+export type Vignette = z.infer<typeof VignetteSchema>;
+export type VignetteCorpus = z.infer<typeof VignetteCorpusSchema>;
+export type VignetteResult = z.infer<typeof VignetteResultSchema>;
+export type RunMetrics = z.infer<typeof RunMetricsSchema>;
+export type EvaluationRun = z.infer<typeof RunSchema>;
+export type Baseline = z.infer<typeof BaselineSchema>;
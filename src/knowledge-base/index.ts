@@ -0,0 +1,183 @@
+/**
+ * Disease Knowledge Base
+ * Single source of truth for diseases, symptom weights, condition priors, clinical rules and questions,
+ * shared by the client scoring module and the server-side advanced analysis
+ * pipeline. The JSON files are validated against the schema when this module loads.
+ */
+
+import diseasesFile from './diseases.json';
+import symptomWeightsFile from './symptom-weights.json';
+import priorsFile from './priors.json';
+import {
+  DiseasesFileSchema,
+  SymptomWeightsFileSchema,
+  PriorsFileSchema,
+  AgeBand,
+  ConditionPrior,
+  DiseaseData,
+  SymptomWeight,
+} from './schema';
+import { SYMPTOM_ONTOLOGY, SYMPTOM_ONTOLOGY_VERSION, getSymptomTerms, resolveSymptomId } from './ontology';
+import { CLINICAL_RULES_VERSION, findRuleIssues } from './rules';
+import { QUESTION_BANK_VERSION, findQuestionBankIssues } from './question-bank';
+
+export type { AgeBand, ConditionPrior, DiseaseData, SymptomWeight } from './schema';
+export { AGE_BANDS, CLUSTER_TYPES, MEASURES, RED_FLAG_MULTIPLIERS, TIME_COURSE_PATTERNS, TRIAGE_LEVELS } from './schema';
+export * from './ontology';
+export * from './rules';
+export * from './question-bank';
+
+function loadKnowledgeBase() {
+  const diseases = DiseasesFileSchema.safeParse(diseasesFile);
+  if (!diseases.success) {
+    throw new Error(`Invalid knowledge base (diseases.json): ${diseases.error.message}`);
+  }
+
+  const weights = SymptomWeightsFileSchema.safeParse(symptomWeightsFile);
+  if (!weights.success) {
+    throw new Error(`Invalid knowledge base (symptom-weights.json): ${weights.error.message}`);
+  }
+
+  const priors = PriorsFileSchema.safeParse(priorsFile);
+  if (!priors.success) {
+    throw new Error(`Invalid knowledge base (priors.json): ${priors.error.message}`);
+  }
+
+  const versions = [
+    weights.data.version,
+    SYMPTOM_ONTOLOGY_VERSION,
+    priors.data.version,
+    CLINICAL_RULES_VERSION,
+    QUESTION_BANK_VERSION,
+  ];
+  if (versions.some(v => v !== diseases.data.version)) {
+    throw new Error(
+      `Knowledge base version mismatch: diseases.json is ${diseases.data.version}, ` +
+      `symptom-weights.json is ${weights.data.version}, symptom-ontology.json is ${SYMPTOM_ONTOLOGY_VERSION}, ` +
+      `priors.json is ${priors.data.version}, rules.json is ${CLINICAL_RULES_VERSION}, ` +
+      `question-bank.json is ${QUESTION_BANK_VERSION}`
+    );
+  }
+
+  return {
+    version: diseases.data.version,
+    diseases: diseases.data.diseases,
+    symptomWeights: weights.data.symptoms,
+    ageBands: priors.data.age_bands,
+    conditionPriors: priors.data.priors,
+    symptomBackgroundRates: priors.data.symptom_background_rates,
+  };
+}
+
+const knowledgeBase = loadKnowledgeBase();
+
+export const KNOWLEDGE_BASE_VERSION: string = knowledgeBase.version;
+export const DISEASE_DATABASE: DiseaseData[] = knowledgeBase.diseases;
+export const SYMPTOM_WEIGHTS: Record<string, SymptomWeight> = knowledgeBase.symptomWeights;
+export const CONDITION_PRIORS: Record<string, ConditionPrior> = knowledgeBase.conditionPriors;
+export const SYMPTOM_BACKGROUND_RATES: Record<string, number> = knowledgeBase.symptomBackgroundRates;
+
+/**
+ * Get symptom score: severity_weight * specificity_weight
+ */
+export function getSymptomScore(symptom: string): number {
+  const id = resolveSymptomId(symptom);
+  const weight = id ? SYMPTOM_WEIGHTS[id] : undefined;
+
+  if (weight) {
+    return weight.severity_weight * weight.specificity_weight;
+  }
+
+  // Default: moderate severity, low specificity
+  return 0.5 * 0.3;
+}
+
+/**
+ * Get disease relevance factor (0-1) for a symptom
+ */
+export function getDiseaseRelevance(disease: DiseaseData, symptom: string): number {
+  const id = resolveSymptomId(symptom);
+  if (!id) return 0;
+
+  return disease.symptom_relevance_map[id] || 0; // No relevance
+}
+
+/**
+ * Age band for a profile age ("34"); undefined when the age is missing or not a number
+ */
+export function getAgeBand(age?: string): AgeBand | undefined {
+  const years = parseInt(age || '');
+  if (isNaN(years)) return undefined;
+
+  return knowledgeBase.ageBands.find(band => years >= band.min_age && years <= band.max_age)?.id;
+}
+
+/**
+ * Referential-integrity checks that the schema alone cannot express.
+ * Returns a list of human-readable problems (empty when consistent).
+ */
+export function findKnowledgeBaseIssues(): string[] {
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  DISEASE_DATABASE.forEach(disease => {
+    if (seen.has(disease.name)) {
+      issues.push(`Duplicate disease name: ${disease.name}`);
+    }
+    seen.add(disease.name);
+
+    Object.keys(disease.symptom_relevance_map).forEach(symptom => {
+      if (symptom !== symptom.toLowerCase().trim()) {
+        issues.push(`${disease.name}: symptom key "${symptom}" must be lowercase and trimmed`);
+      }
+      if (!SYMPTOM_WEIGHTS[symptom]) {
+        issues.push(`${disease.name}: symptom "${symptom}" has no entry in symptom-weights.json`);
+      }
+    });
+  });
+
+  Object.keys(SYMPTOM_WEIGHTS).forEach(symptom => {
+    if (!SYMPTOM_ONTOLOGY[symptom]) {
+      issues.push(`Symptom "${symptom}" has no entry in symptom-ontology.json`);
+    }
+    if (SYMPTOM_BACKGROUND_RATES[symptom] === undefined) {
+      issues.push(`Symptom "${symptom}" has no background rate in priors.json`);
+    }
+  });
+
+  DISEASE_DATABASE.forEach(disease => {
+    if (!CONDITION_PRIORS[disease.name]) {
+      issues.push(`${disease.name}: no prior in priors.json`);
+    }
+  });
+  Object.keys(CONDITION_PRIORS).forEach(name => {
+    if (!seen.has(name)) {
+      issues.push(`priors.json: prior for unknown disease "${name}"`);
+    }
+  });
+
+  // Age bands must be contiguous and non-overlapping
+  knowledgeBase.ageBands.forEach((band, index) => {
+    const previous = knowledgeBase.ageBands[index - 1];
+    if (band.max_age < band.min_age || (previous && band.min_age !== previous.max_age + 1)) {
+      issues.push(`priors.json: age band "${band.id}" (${band.min_age}-${band.max_age}) is not contiguous`);
+    }
+  });
+
+  // Every term must resolve back to the concept that declares it
+  Object.keys(SYMPTOM_ONTOLOGY).forEach(id => {
+    getSymptomTerms(id).forEach(term => {
+      const resolved = resolveSymptomId(term);
+      if (resolved !== id) {
+        issues.push(`Ontology term "${term}" of "${id}" resolves to ${resolved ? `"${resolved}"` : 'nothing'}`);
+      }
+    });
+  });
+
+  issues.push(...findRuleIssues(seen, new Set(Object.keys(SYMPTOM_ONTOLOGY))));
+
+  // The planner asks about any weighted symptom, so each needs curated wording
+  issues.push(...findQuestionBankIssues(new Set(Object.keys(SYMPTOM_ONTOLOGY)), new Set(Object.keys(SYMPTOM_WEIGHTS))));
+
+  return issues;
+}
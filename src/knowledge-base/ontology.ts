@@ -0,0 +1,131 @@
+/**
+ * Symptom Ontology
+ * Maps canonical symptom IDs (the keys used throughout the knowledge base)
+ * to their synonyms, lay phrasings and common misspellings.
+ *
+ * Matching is whole-word and longest-first, so "chest pain" is never also
+ * counted as "pain", and lay terms that contain a negation word themselves
+ * ("no energy") are matched as a single affirmative phrase.
+ */
+
+import symptomOntologyFile from './symptom-ontology.json';
+import { SymptomOntologyFileSchema, SymptomConcept } from './schema';
+
+export type { SymptomConcept } from './schema';
+
+export interface SymptomMention {
+  id: string; // Canonical symptom ID
+  term: string; // The ontology term that matched
+  start: number; // Offset in the original text
+  end: number;
+}
+
+function loadOntology() {
+  const parsed = SymptomOntologyFileSchema.safeParse(symptomOntologyFile);
+  if (!parsed.success) {
+    throw new Error(`Invalid knowledge base (symptom-ontology.json): ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+const ontology = loadOntology();
+
+export const SYMPTOM_ONTOLOGY_VERSION: string = ontology.version;
+export const SYMPTOM_ONTOLOGY: Record<string, SymptomConcept> = ontology.symptoms;
+
+/**
+ * Lowercase and replace punctuation with spaces, keeping every character at
+ * the same offset so matches can be mapped back onto the original text.
+ */
+export function normalizeForMatching(text: string): string {
+  let normalized = '';
+  for (const char of text.replace(/[’‘]/g, "'")) {
+    const lower = char.toLowerCase();
+    const kept = lower.length === char.length && /[a-z0-9']/.test(lower) ? lower : ' '.repeat(char.length);
+    normalized += kept;
+  }
+  return normalized;
+}
+
+function termKey(term: string): string {
+  return normalizeForMatching(term).trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * All terms for a concept, canonical ID first
+ */
+export function getSymptomTerms(id: string): string[] {
+  const concept = SYMPTOM_ONTOLOGY[id];
+  if (!concept) return [];
+  return [id, ...concept.synonyms, ...concept.lay_terms, ...concept.misspellings];
+}
+
+// term -> canonical ID (null for exclusion phrases, which swallow their match)
+const TERM_INDEX = new Map<string, string | null>();
+Object.entries(SYMPTOM_ONTOLOGY).forEach(([id, concept]) => {
+  (concept.exclusions || []).forEach(term => TERM_INDEX.set(termKey(term), null));
+  getSymptomTerms(id).forEach(term => {
+    if (!TERM_INDEX.has(termKey(term))) {
+      TERM_INDEX.set(termKey(term), id);
+    }
+  });
+});
+
+// Longest terms first so the regex alternation prefers the most specific phrase
+const TERM_PATTERN = new RegExp(
+  '\\b(?:' +
+    Array.from(TERM_INDEX.keys())
+      .sort((a, b) => b.length - a.length)
+      .map(term => term.split(' ').map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'))
+      .join('|') +
+    ')\\b',
+  'g'
+);
+
+/**
+ * Find every symptom mentioned in free text
+ */
+export function findSymptomMentions(text: string): SymptomMention[] {
+  const normalized = normalizeForMatching(text);
+  const mentions: SymptomMention[] = [];
+
+  for (const match of normalized.matchAll(TERM_PATTERN)) {
+    const term = match[0].replace(/\s+/g, ' ');
+    const id = TERM_INDEX.get(term);
+    if (!id) continue; // Exclusion phrase
+
+    const start = match.index ?? 0;
+    mentions.push({ id, term, start, end: start + match[0].length });
+  }
+
+  return mentions;
+}
+
+/**
+ * Canonical IDs of all symptoms mentioned in free text (unique, in order)
+ */
+export function findSymptomIds(text: string): string[] {
+  return Array.from(new Set(findSymptomMentions(text).map(m => m.id)));
+}
+
+/**
+ * Resolve a single reported symptom ("tired all the time", "palpitatons")
+ * to its canonical ID. When the phrase mentions several symptoms the most
+ * specific (longest) mention wins.
+ */
+export function resolveSymptomId(phrase: string): string | undefined {
+  let best: SymptomMention | undefined;
+  findSymptomMentions(phrase).forEach(mention => {
+    if (!best || mention.end - mention.start > best.end - best.start) {
+      best = mention;
+    }
+  });
+  return best?.id;
+}
+
+/**
+ * Human-readable label for a canonical symptom ID
+ */
+export function getSymptomLabel(id: string): string {
+  return SYMPTOM_ONTOLOGY[id]?.label || id;
+}
@@ -0,0 +1,53 @@
+/**
+ * Question Bank
+ * Curated wording for questionnaire questions, keyed by finding (canonical
+ * symptom ID). The planner's questions are taken from here
+ * when no LLM is configured or the LLM is unavailable.
+ */
+
+import questionBankFile from './question-bank.json';
+import { BankEntry, QuestionBank, QuestionBankFileSchema } from './schema';
+
+export type { BankEntry, QuestionBank } from './schema';
+
+function loadQuestionBank() {
+  const parsed = QuestionBankFileSchema.safeParse(questionBankFile);
+  if (!parsed.success) {
+    throw new Error(`Invalid knowledge base (question-bank.json): ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export const QUESTION_BANK: QuestionBank = loadQuestionBank();
+
+export const QUESTION_BANK_VERSION: string = QUESTION_BANK.version;
+
+export function getBankEntry(symptom: string): BankEntry | undefined {
+  return QUESTION_BANK.findings[symptom];
+}
+
+/**
+ * Problems the schema cannot catch: unknown findings, and findings the planner
+ * can ask about that have no question.
+ */
+export function findQuestionBankIssues(
+  symptomIds: Set<string>,
+  askable: Set<string>,
+  bank: QuestionBank = QUESTION_BANK
+): string[] {
+  const issues: string[] = [];
+
+  Object.keys(bank.findings).forEach(symptom => {
+    if (!symptomIds.has(symptom)) {
+      issues.push(`question-bank.json: questions for unknown symptom "${symptom}"`);
+    }
+  });
+
+  askable.forEach(symptom => {
+    if (!bank.findings[symptom]) {
+      issues.push(`question-bank.json: no question for symptom "${symptom}"`);
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,146 @@
+/**
+ * Clinical Rules
+ * Declarative red-flag, pattern, condition-filter, time-course, triage and
+ * urgent-flag rules. Each rule's `when` is a condition tree (all / any / not
+ * over findings, text, profile, duration and extracted measures) interpreted
+ * by the rule engine in src/ai/medical-data/rule-engine.ts.
+ */
+
+import rulesFile from './rules.json';
+import { ClinicalRules, RuleCondition, RulesFileSchema } from './schema';
+
+export type {
+  ClinicalRules,
+  ConditionFilterRule,
+  PatternRule,
+  RedFlagRule,
+  RuleCondition,
+  RuleRange,
+  TimeCourseRule,
+  TriageRule,
+  UrgentFlagRule,
+} from './schema';
+
+function loadRules() {
+  const parsed = RulesFileSchema.safeParse(rulesFile);
+  if (!parsed.success) {
+    throw new Error(`Invalid knowledge base (rules.json): ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export const CLINICAL_RULES: ClinicalRules = loadRules();
+
+export const CLINICAL_RULES_VERSION: string = CLINICAL_RULES.version;
+
+/**
+ * Visit a condition and every condition nested inside it (refs are not followed)
+ */
+export function walkCondition(condition: RuleCondition, visit: (condition: RuleCondition) => void): void {
+  visit(condition);
+  if ('all' in condition) condition.all.forEach(c => walkCondition(c, visit));
+  if ('any' in condition) condition.any.forEach(c => walkCondition(c, visit));
+  if ('not' in condition) walkCondition(condition.not, visit);
+}
+
+/**
+ * Every top-level rule condition in the file, labelled for error messages
+ */
+export function listRuleConditions(rules: ClinicalRules = CLINICAL_RULES): Array<{ label: string; condition: RuleCondition }> {
+  return [
+    ...Object.entries(rules.definitions).map(([name, condition]) => ({ label: `definition "${name}"`, condition })),
+    ...rules.red_flags.map(r => ({ label: `red flag "${r.id}"`, condition: r.when })),
+    ...rules.patterns.map(r => ({ label: `pattern "${r.id}"`, condition: r.when })),
+    ...rules.condition_filters.map(r => ({ label: `condition filter "${r.id}"`, condition: r.when })),
+    ...rules.time_course.map(r => ({ label: `time-course rule "${r.id}"`, condition: r.when })),
+    ...rules.triage.map(r => ({ label: `triage rule "${r.id}"`, condition: r.when })),
+    ...rules.urgent_flags.map(r => ({ label: `urgent flag "${r.id}"`, condition: r.when })),
+  ];
+}
+
+/**
+ * Problems the schema cannot catch: unknown symptoms, conditions, refs and flags,
+ * invalid regular expressions, circular definitions and duplicate rule IDs.
+ */
+export function findRuleIssues(
+  diseaseNames: Set<string>,
+  symptomIds: Set<string>,
+  rules: ClinicalRules = CLINICAL_RULES
+): string[] {
+  const issues: string[] = [];
+  const flagNames = new Set(rules.red_flags.map(r => r.name).filter((name): name is string => !!name));
+
+  listRuleConditions(rules).forEach(({ label, condition }) => {
+    walkCondition(condition, c => {
+      if ('finding' in c) {
+        [c.finding].flat().forEach(id => {
+          if (!symptomIds.has(id)) issues.push(`rules.json: ${label} uses unknown symptom "${id}"`);
+        });
+      }
+      if ('ref' in c && !rules.definitions[c.ref]) {
+        issues.push(`rules.json: ${label} refers to unknown definition "${c.ref}"`);
+      }
+      if ('flag' in c && !flagNames.has(c.flag)) {
+        issues.push(`rules.json: ${label} refers to unknown red flag "${c.flag}"`);
+      }
+      if ('regex' in c) {
+        try {
+          new RegExp(c.regex, 'i');
+        } catch {
+          issues.push(`rules.json: ${label} has an invalid regex "${c.regex}"`);
+        }
+      }
+    });
+  });
+
+  const conditionLists: Array<[string, string[]]> = [
+    ...Object.entries(rules.red_flag_multipliers).map(([name, list]): [string, string[]] => [`red-flag multiplier "${name}"`, list]),
+    ...rules.patterns.map((r): [string, string[]] => [`pattern "${r.id}"`, r.conditions]),
+    ...rules.condition_filters.map((r): [string, string[]] => [`condition filter "${r.id}"`, r.prioritize]),
+    ...rules.time_course.map((r): [string, string[]] => [`time-course rule "${r.id}"`, r.conditions]),
+  ];
+  conditionLists.forEach(([label, names]) => {
+    names.forEach(name => {
+      if (!diseaseNames.has(name)) issues.push(`rules.json: ${label} lists unknown condition "${name}"`);
+    });
+  });
+
+  // Definitions must not refer to themselves, directly or indirectly
+  const refsOf = (condition: RuleCondition) => {
+    const refs: string[] = [];
+    walkCondition(condition, c => { if ('ref' in c) refs.push(c.ref); });
+    return refs;
+  };
+  Object.keys(rules.definitions).forEach(name => {
+    const seen = new Set<string>();
+    const stack = refsOf(rules.definitions[name]);
+    while (stack.length > 0) {
+      const ref = stack.pop()!;
+      if (ref === name) {
+        issues.push(`rules.json: definition "${name}" refers to itself`);
+        break;
+      }
+      if (seen.has(ref) || !rules.definitions[ref]) continue;
+      seen.add(ref);
+      stack.push(...refsOf(rules.definitions[ref]));
+    }
+  });
+
+  const sections: Array<[string, Array<{ id: string }>]> = [
+    ['red_flags', rules.red_flags],
+    ['patterns', rules.patterns],
+    ['condition_filters', rules.condition_filters],
+    ['time_course', rules.time_course],
+    ['triage', rules.triage],
+    ['urgent_flags', rules.urgent_flags],
+  ];
+  sections.forEach(([section, list]) => {
+    const ids = new Set<string>();
+    list.forEach(({ id }) => {
+      if (ids.has(id)) issues.push(`rules.json: duplicate rule id "${id}" in ${section}`);
+      ids.add(id);
+    });
+  });
+
+  return issues;
+}
@@ -0,0 +1,255 @@
+/**
+ * Knowledge Base Schema
+ * Zod schemas for the disease, symptom-weight, ontology, prior and question bank data files
+ */
+
+import { z } from 'zod';
+
+export const CLUSTER_TYPES = [
+  'autoimmune',
+  'endocrine',
+  'neurologic',
+  'infectious',
+  'malignancy/hematologic',
+  'autonomic dysfunction',
+  'metabolic/nutritional',
+] as const;
+
+const VersionSchema = z.string().regex(/^\d+\.\d+\.\d+$/, 'version must be semver (x.y.z)');
+
+const UnitIntervalSchema = z.number().min(0).max(1);
+
+export const SymptomWeightSchema = z.object({
+  severity_weight: UnitIntervalSchema, // How severe/impactful the symptom is
+  specificity_weight: UnitIntervalSchema, // How specific/diagnostic the symptom is
+});
+
+export const DiseaseDataSchema = z.object({
+  name: z.string().min(1),
+  cluster: z.array(z.enum(CLUSTER_TYPES)).min(1),
+  symptom_relevance_map: z.record(UnitIntervalSchema), // symptom -> relevance (0-1)
+  description: z.string().min(1),
+  webmd_search_term: z.string().min(1),
+});
+
+export const SymptomWeightsFileSchema = z.object({
+  version: VersionSchema,
+  symptoms: z.record(SymptomWeightSchema),
+});
+
+export const DiseasesFileSchema = z.object({
+  version: VersionSchema,
+  diseases: z.array(DiseaseDataSchema).min(1),
+});
+
+export const SymptomConceptSchema = z.object({
+  label: z.string().min(1),
+  synonyms: z.array(z.string().min(1)), // Clinical and common equivalents
+  lay_terms: z.array(z.string().min(1)), // How users actually describe it
+  misspellings: z.array(z.string().min(1)),
+  exclusions: z.array(z.string().min(1)).optional(), // Look-alike phrases that must NOT match
+});
+
+export const SymptomOntologyFileSchema = z.object({
+  version: VersionSchema,
+  symptoms: z.record(SymptomConceptSchema), // canonical symptom ID -> concept
+});
+
+export const AGE_BANDS = ['child', 'young_adult', 'middle_age', 'older_adult'] as const;
+
+const PositiveMultiplierSchema = z.number().positive();
+
+export const AgeBandSchema = z.object({
+  id: z.enum(AGE_BANDS),
+  min_age: z.number().int().min(0),
+  max_age: z.number().int().min(0),
+});
+
+export const ConditionPriorSchema = z.object({
+  base_rate: z.number().gt(0).lt(1), // Prevalence among people seeking a symptom assessment
+  age: z.object({ // Multipliers on base_rate per age band
+    child: PositiveMultiplierSchema,
+    young_adult: PositiveMultiplierSchema,
+    middle_age: PositiveMultiplierSchema,
+    older_adult: PositiveMultiplierSchema,
+  }),
+  sex: z.object({ // Multipliers on base_rate per sex
+    female: PositiveMultiplierSchema,
+    male: PositiveMultiplierSchema,
+  }),
+});
+
+export const PriorsFileSchema = z.object({
+  version: VersionSchema,
+  age_bands: z.array(AgeBandSchema).length(AGE_BANDS.length),
+  priors: z.record(ConditionPriorSchema), // disease name -> prior
+  symptom_background_rates: z.record(z.number().gt(0).lt(1)), // symptom -> P(symptom | condition absent)
+});
+
+/**
+ * Clinical rules (rules.json)
+ * Red flags, symptom patterns, condition filters, time-course adjustments and
+ * triage are declared as rules whose `when` condition is evaluated by the rule engine.
+ */
+
+export const TRIAGE_LEVELS = ['emergency', 'urgent', 'gp', 'self_care'] as const; // Most urgent first
+
+export const TIME_COURSE_PATTERNS = ['acute', 'relapsing', 'progressive', 'chronic', 'unknown'] as const;
+
+// Quantities extracted from free text; temperature, heart rate and blood pressure are the highest reported
+export const MEASURES = [
+  'weight_loss_kg',
+  'temperature_c',
+  'heart_rate_bpm',
+  'systolic_bp_mmhg',
+  'diastolic_bp_mmhg',
+] as const;
+
+export const RED_FLAG_MULTIPLIERS = [
+  'malignancy_multiplier',
+  'chronic_infection_multiplier',
+  'MS_multiplier',
+  'dysautonomia_multiplier',
+  'adrenal_insufficiency_multiplier',
+  'autoimmune_multiplier',
+] as const;
+
+const RangeShape = {
+  gt: z.number().optional(),
+  gte: z.number().optional(),
+  lt: z.number().optional(),
+  lte: z.number().optional(),
+};
+
+const hasBound = (range: RuleRange) => Object.values(range).some(v => typeof v === 'number');
+
+export const RuleRangeSchema = z.object(RangeShape).strict()
+  .refine(hasBound, 'range needs at least one of gt, gte, lt, lte');
+
+export type RuleRange = { gt?: number; gte?: number; lt?: number; lte?: number };
+
+export type RuleCondition =
+  | { all: RuleCondition[] } // Every condition holds
+  | { any: RuleCondition[] } // At least one condition holds
+  | { not: RuleCondition }
+  | { ref: string } // A named condition from `definitions`
+  | { finding: string | string[] } // A symptom ID (or any of several) reported as present
+  | { text: string[] } // Any of these phrases appears in what the user wrote
+  | { regex: string } // Case-insensitive regular expression over what the user wrote
+  | { flag: string } // A red flag (by name) has been raised
+  | { any_flag: true } // Any red flag has been raised
+  | { age: RuleRange } // Profile age in years
+  | { sex: 'female' | 'male' }
+  | { duration_days: RuleRange } // Known symptom duration
+  | { time_pattern: Array<(typeof TIME_COURSE_PATTERNS)[number]> } // Time-course pattern is one of these
+  | ({ measure: (typeof MEASURES)[number] } & RuleRange); // An extracted quantity, e.g. weight lost
+
+export const RuleConditionSchema: z.ZodType<RuleCondition> = z.lazy(() => z.union([
+  z.object({ all: z.array(RuleConditionSchema).min(1) }).strict(),
+  z.object({ any: z.array(RuleConditionSchema).min(1) }).strict(),
+  z.object({ not: RuleConditionSchema }).strict(),
+  z.object({ ref: z.string().min(1) }).strict(),
+  z.object({ finding: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]) }).strict(),
+  z.object({ text: z.array(z.string().min(1)).min(1) }).strict(),
+  z.object({ regex: z.string().min(1) }).strict(),
+  z.object({ flag: z.string().min(1) }).strict(),
+  z.object({ any_flag: z.literal(true) }).strict(),
+  z.object({ age: RuleRangeSchema }).strict(),
+  z.object({ sex: z.enum(['female', 'male']) }).strict(),
+  z.object({ duration_days: RuleRangeSchema }).strict(),
+  z.object({ time_pattern: z.array(z.enum(TIME_COURSE_PATTERNS)).min(1) }).strict(),
+  z.object({ measure: z.enum(MEASURES), ...RangeShape }).strict().refine(hasBound, 'measure needs at least one of gt, gte, lt, lte'),
+]));
+
+const RuleIdSchema = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'rule id must be kebab-case');
+
+export const RedFlagRuleSchema = z.object({
+  id: RuleIdSchema,
+  name: z.string().min(1).optional(), // Omit for rules that only adjust multipliers
+  when: RuleConditionSchema,
+  severity: z.union([
+    UnitIntervalSchema,
+    z.object({ measure: z.enum(MEASURES), per: z.number().positive() }), // min(measure / per, 1)
+  ]).optional(),
+  add_to_multipliers: z.record(z.enum(RED_FLAG_MULTIPLIERS), z.number()), // Added to the multiplier, which starts at 1.0
+});
+
+export const PatternRuleSchema = z.object({
+  id: RuleIdSchema,
+  name: z.string().min(1),
+  when: RuleConditionSchema,
+  conditions: z.array(z.string().min(1)).min(1),
+  multiplier: PositiveMultiplierSchema,
+});
+
+export const ConditionFilterRuleSchema = z.object({
+  id: RuleIdSchema,
+  when: RuleConditionSchema,
+  prioritize: z.array(z.string().min(1)).min(1), // Conditions kept regardless of match ratio and boosted
+});
+
+export const TimeCourseRuleSchema = z.object({
+  id: RuleIdSchema,
+  when: RuleConditionSchema,
+  conditions: z.array(z.string().min(1)).min(1),
+  multiplier: PositiveMultiplierSchema,
+  reason: z.string().min(1),
+});
+
+export const TriageRuleSchema = z.object({
+  id: RuleIdSchema,
+  level: z.enum(TRIAGE_LEVELS),
+  reason: z.string().min(1),
+  when: RuleConditionSchema,
+});
+
+export const UrgentFlagRuleSchema = z.object({
+  id: RuleIdSchema,
+  name: z.string().min(1),
+  when: RuleConditionSchema,
+});
+
+export const RulesFileSchema = z.object({
+  version: VersionSchema,
+  definitions: z.record(RuleConditionSchema), // Named conditions, used with { "ref": name }
+  red_flags: z.array(RedFlagRuleSchema),
+  red_flag_multipliers: z.record(z.enum(RED_FLAG_MULTIPLIERS), z.array(z.string().min(1))), // multiplier -> conditions it applies to
+  patterns: z.array(PatternRuleSchema),
+  condition_filters: z.array(ConditionFilterRuleSchema),
+  time_course: z.array(TimeCourseRuleSchema),
+  triage: z.array(TriageRuleSchema),
+  urgent_flags: z.array(UrgentFlagRuleSchema), // Client-side urgent warnings
+});
+
+/**
+ * Question bank (question-bank.json)
+ * Curated wording for every question the planner can ask, keyed by finding,
+ * so an assessment can run without an LLM.
+ */
+
+const BankTextSchema = z.object({ text: z.string().min(1) });
+
+export const BankEntrySchema = z.object({
+  yesno: BankTextSchema, // Every finding can be asked about directly
+}).strict();
+
+export const QuestionBankFileSchema = z.object({
+  version: VersionSchema,
+  timeline: BankTextSchema,
+  findings: z.record(BankEntrySchema), // canonical symptom ID -> questions about it
+});
+
+export type SymptomWeight = z.infer<typeof SymptomWeightSchema>;
+export type DiseaseData = z.infer<typeof DiseaseDataSchema>;
+export type SymptomConcept = z.infer<typeof SymptomConceptSchema>;
+export type AgeBand = (typeof AGE_BANDS)[number];
+export type ConditionPrior = z.infer<typeof ConditionPriorSchema>;
+export type RedFlagRule = z.infer<typeof RedFlagRuleSchema>;
+export type PatternRule = z.infer<typeof PatternRuleSchema>;
+export type ConditionFilterRule = z.infer<typeof ConditionFilterRuleSchema>;
+export type TimeCourseRule = z.infer<typeof TimeCourseRuleSchema>;
+export type TriageRule = z.infer<typeof TriageRuleSchema>;
+export type UrgentFlagRule = z.infer<typeof UrgentFlagRuleSchema>;
+export type ClinicalRules = z.infer<typeof RulesFileSchema>;
+export type BankEntry = z.infer<typeof BankEntrySchema>;
+export type QuestionBank = z.infer<typeof QuestionBankFileSchema>;
@@ -0,0 +1,22 @@
+/**
+ * Cancellation
+ * Aborted requests fail with an error named AbortError, whether fetch raised it
+ * or a provider passed it on. Shared by the server flows and the page, so it
+ * must not import anything server-only.
+ */
+
+export const CANCELLED_ERROR_NAME = 'AbortError';
+
+/**
+ * An error that reports a request as cancelled rather than failed
+ */
+export function cancelledError<T extends Error>(error: T): T {
+  return Object.assign(error, { name: CANCELLED_ERROR_NAME });
+}
+
+/**
+ * Whether a request failed because its caller cancelled it
+ */
+export function isCancelled(error: unknown): boolean {
+  return (error as Error | undefined)?.name === CANCELLED_ERROR_NAME;
+}
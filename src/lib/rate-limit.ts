@@ -0,0 +1,93 @@
+/**
+ * Rate Limiting
+ * Fixed-window request counting per key (usually the client IP). The counts
+ * live in a RateLimitStore: the in-memory store suits a single server process;
+ * deployments with several instances can plug in a shared one (e.g. Redis).
+ */
+
+export interface RateLimitStore {
+  /** Count one hit for `key` and return the hits so far in its current window */
+  hit(key: string, windowMs: number, now: number): Promise<{ count: number; resetAt: number }>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch milliseconds
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  check(key: string): Promise<RateLimitResult>;
+}
+
+const DEFAULT_MAX_KEYS = 10_000;
+
+/**
+ * Process-local store; expired windows are pruned once `maxKeys` is reached so
+ * memory stays bounded
+ */
+export function createMemoryRateLimitStore(maxKeys: number = DEFAULT_MAX_KEYS): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    async hit(key, windowMs, now) {
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        if (!window && windows.size >= maxKeys) {
+          windows.forEach((entry, entryKey) => entry.resetAt <= now && windows.delete(entryKey));
+          // Still full of live windows: drop the oldest rather than grow without bound
+          if (windows.size >= maxKeys) windows.delete(windows.keys().next().value!);
+        }
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      window.count += 1;
+      return { ...window };
+    },
+  };
+}
+
+export function createRateLimiter(options: {
+  limit: number;
+  windowMs: number;
+  store?: RateLimitStore;
+  now?: () => number;
+}): RateLimiter {
+  const store = options.store || createMemoryRateLimitStore();
+  const now = options.now || Date.now;
+
+  return {
+    async check(key) {
+      const time = now();
+      const { count, resetAt } = await store.hit(key, options.windowMs, time);
+      return {
+        allowed: count <= options.limit,
+        limit: options.limit,
+        remaining: Math.max(0, options.limit - count),
+        resetAt,
+        retryAfterSeconds: Math.max(1, Math.ceil((resetAt - time) / 1000)),
+      };
+    },
+  };
+}
+
+/**
+ * Whether a proxy in front of the app sets x-forwarded-for itself: Vercel
+ * overwrites it, and TRUST_PROXY_HEADERS=true says another proxy appends to it
+ */
+export function trustsProxyHeaders(env: Record<string, string | undefined> = process.env): boolean {
+  return !!env.VERCEL || env.TRUST_PROXY_HEADERS?.trim().toLowerCase() === 'true';
+}
+
+/**
+ * The caller's IP, as a rate-limit key. Clients can send any x-forwarded-for,
+ * so it is only read behind a trusted proxy, and then only the last address,
+ * the one that proxy added. Otherwise every request shares the "unknown" bucket.
+ */
+export function clientIp(request: Request, trustProxy: boolean = trustsProxyHeaders()): string {
+  if (!trustProxy) return 'unknown';
+  const hops = (request.headers.get('x-forwarded-for') || '').split(',').map(hop => hop.trim()).filter(Boolean);
+  return hops[hops.length - 1] || 'unknown';
+}
@@ -0,0 +1,134 @@
+/**
+ * Request Signing
+ * Ties the page's LLM requests to a short-lived session, so quotas can be
+ * counted per session and API keys never leave the server.
+ *
+ * The server issues a session: an ID carrying its expiry, and a key derived
+ * from the ID with the server's secret (so nothing is stored). The page signs
+ * each request with the key: an HMAC of the timestamp, method, path and body.
+ * The server derives the key again from the ID and checks the signature, the
+ * expiry and that the timestamp is recent.
+ *
+ * Uses Web Crypto, so the same code signs in the browser and verifies on the server.
+ */
+
+export const SIGNATURE_HEADERS = {
+  session: 'x-session-id',
+  timestamp: 'x-signature-timestamp',
+  signature: 'x-signature',
+} as const;
+
+export const SESSION_TTL_MS = 60 * 60 * 1000;
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface RequestSession {
+  id: string;
+  key: string;
+  issuedAt: number; // Server time, epoch milliseconds; lets the page correct for its own clock
+  expiresAt: number;
+}
+
+export type SignatureCheck =
+  | { valid: true; sessionId: string }
+  | { valid: false; reason: 'missing' | 'malformed' | 'expired' | 'stale' | 'invalid' };
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> | undefined {
+  if (!/^[A-Za-z0-9_-]+$/.test(text)) return undefined;
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return undefined; // Not a possible base64 length
+  }
+}
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/**
+ * An HMAC-SHA256 of `message`, base64url-encoded
+ */
+export async function hmac(secret: string, message: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(message));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+/**
+ * Whether `signature` is hmac(secret, message); compares in constant time
+ */
+export async function verifyHmac(secret: string, message: string, signature: string): Promise<boolean> {
+  const signatureBytes = fromBase64Url(signature);
+  if (!signatureBytes) return false;
+  return crypto.subtle.verify('HMAC', await hmacKey(secret), signatureBytes, encoder.encode(message));
+}
+
+/**
+ * What a signature covers
+ */
+export function signingPayload(timestamp: string, method: string, path: string, body: string): string {
+  return `${timestamp}\n${method.toUpperCase()}\n${path}\n${body}`;
+}
+
+/**
+ * A new session, valid for `ttlMs`
+ */
+export async function issueSession(secret: string, now: number = Date.now(), ttlMs: number = SESSION_TTL_MS): Promise<RequestSession> {
+  const expiresAt = now + ttlMs;
+  const id = `${toBase64Url(crypto.getRandomValues(new Uint8Array(18)))}.${expiresAt}`;
+  return { id, key: await hmac(secret, id), issuedAt: now, expiresAt };
+}
+
+/**
+ * Headers that sign a request for `session`
+ */
+export async function signRequest(
+  session: Pick<RequestSession, 'id' | 'key'>,
+  method: string,
+  path: string,
+  body: string,
+  now: number = Date.now()
+): Promise<Record<string, string>> {
+  const timestamp = String(now);
+  return {
+    [SIGNATURE_HEADERS.session]: session.id,
+    [SIGNATURE_HEADERS.timestamp]: timestamp,
+    [SIGNATURE_HEADERS.signature]: await hmac(session.key, signingPayload(timestamp, method, path, body)),
+  };
+}
+
+/**
+ * Check the signature on a request whose body has been read as `body`
+ */
+export async function verifyRequest(
+  secret: string,
+  request: Request,
+  body: string,
+  now: number = Date.now()
+): Promise<SignatureCheck> {
+  const sessionId = request.headers.get(SIGNATURE_HEADERS.session);
+  const timestamp = request.headers.get(SIGNATURE_HEADERS.timestamp);
+  const signature = request.headers.get(SIGNATURE_HEADERS.signature);
+  if (!sessionId || !timestamp || !signature) return { valid: false, reason: 'missing' };
+
+  const expiresAt = Number(sessionId.split('.')[1]);
+  const signatureBytes = fromBase64Url(signature);
+  if (!/^[A-Za-z0-9_-]+\.\d+$/.test(sessionId) || !/^\d+$/.test(timestamp) || !signatureBytes) {
+    return { valid: false, reason: 'malformed' };
+  }
+  if (expiresAt <= now) return { valid: false, reason: 'expired' };
+  if (Math.abs(now - Number(timestamp)) > MAX_CLOCK_SKEW_MS) return { valid: false, reason: 'stale' };
+
+  const sessionKey = await hmac(secret, sessionId);
+  const payload = signingPayload(timestamp, request.method, new URL(request.url).pathname, body);
+  const valid = await verifyHmac(sessionKey, payload, signature);
+  return valid ? { valid: true, sessionId } : { valid: false, reason: 'invalid' };
+}
@@ -0,0 +1,121 @@
+/**
+ * Server-Sent Events
+ * Encoding and decoding of text/event-stream bodies. Used on the server to
+ * stream generated text to the page, and on both sides to read streams: the
+ * page reads our route handlers, providers read their upstream LLM APIs.
+ */
+
+export interface SseEvent {
+  event: string; // "message" when the stream names no event
+  data: string;
+}
+
+export type SseSend = (event: string, data: unknown) => void;
+
+/**
+ * One event on the wire; data is sent as JSON
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * The events of a text/event-stream body, in order. Comments and fields other
+ * than event and data are skipped.
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = done ? '' : lines.pop()!;
+      if (done && lines[lines.length - 1] !== '') lines.push(''); // An unterminated last event still counts
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) yield { event: event || 'message', data: data.join('\n') };
+          event = '';
+          data = [];
+          continue;
+        }
+        const colon = line.indexOf(':');
+        if (colon === 0) continue;
+        const field = colon < 0 ? line : line.slice(0, colon);
+        const value = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') event = value;
+        else if (field === 'data') data.push(value);
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * A streaming text/event-stream response. `produce` sends events until it
+ * resolves; the stream then closes. When `signal` aborts (the client went away)
+ * further sends are dropped, so `produce` only has to stop its own work.
+ */
+export function sseResponse(produce: (send: SseSend) => Promise<void>, signal?: AbortSignal): Response {
+  const encoder = new TextEncoder();
+  let open = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (!open) return;
+        open = false;
+        controller.close();
+      };
+      signal?.addEventListener('abort', close, { once: true });
+
+      const send: SseSend = (event, data) => {
+        if (open && !signal?.aborted) controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+      };
+
+      // Not awaited: the response has to be returned before its events are produced
+      produce(send)
+        .catch(error => console.error('Event stream failed:', error?.message || error))
+        .finally(() => {
+          signal?.removeEventListener('abort', close);
+          close();
+        });
+    },
+    cancel() {
+      open = false; // The reader went away; the controller can no longer be used
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * The events of an event-stream response with their data parsed. Error
+ * responses throw with the server's message.
+ */
+export async function* responseEvents<T = unknown>(response: Response): AsyncGenerator<{ event: string; data: T }> {
+  if (!response.ok || !response.body) {
+    const { message } = await response.json().catch(() => ({}));
+    throw new Error(message || `Request failed (${response.status})`);
+  }
+
+  for await (const { event, data } of readSseEvents(response.body)) {
+    yield { event, data: JSON.parse(data) as T };
+  }
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { cancelledError, isCancelled } from '../cancellation';
+
+describe('isCancelled', () => {
+  it.each<[string, unknown, boolean]>([
+    ['an aborted fetch', new DOMException('The operation was aborted.', 'AbortError'), true],
+    ['an error marked as cancelled', cancelledError(new Error('Request cancelled')), true],
+    ['a timeout', new DOMException('The operation timed out.', 'TimeoutError'), false],
+    ['another error', new Error('Connection error'), false],
+    ['nothing', undefined, false],
+  ])('%s -> %s', (_case, error, expected) => {
+    expect(isCancelled(error)).toBe(expected);
+  });
+});
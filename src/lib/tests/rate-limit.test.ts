@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { clientIp, createMemoryRateLimitStore, createRateLimiter, trustsProxyHeaders } from '../rate-limit';
+
+function clock(start = 0) {
+  let time = start;
+  return { now: () => time, advance: (ms: number) => void (time += ms) };
+}
+
+describe('createRateLimiter', () => {
+  it('allows `limit` hits per window and then refuses until it resets', async () => {
+    const time = clock();
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000, now: time.now });
+
+    const results = [];
+    for (let i = 0; i < 3; i++) results.push(await limiter.check('1.2.3.4'));
+    expect(results.map(r => [r.allowed, r.remaining])).toEqual([[true, 1], [true, 0], [false, 0]]);
+    expect(results[2].retryAfterSeconds).toBe(60);
+
+    time.advance(45_000);
+    expect((await limiter.check('1.2.3.4')).retryAfterSeconds).toBe(15);
+
+    time.advance(15_000);
+    expect(await limiter.check('1.2.3.4')).toMatchObject({ allowed: true, remaining: 1, resetAt: 120_000 });
+  });
+
+  it('counts each key separately', async () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000, now: () => 0 });
+
+    expect((await limiter.check('a')).allowed).toBe(true);
+    expect((await limiter.check('b')).allowed).toBe(true);
+    expect((await limiter.check('a')).allowed).toBe(false);
+  });
+
+  it('keeps counts in the store it is given', async () => {
+    const store = createMemoryRateLimitStore();
+    const first = createRateLimiter({ limit: 1, windowMs: 60_000, store, now: () => 0 });
+    const second = createRateLimiter({ limit: 1, windowMs: 60_000, store, now: () => 0 });
+
+    await first.check('a');
+    expect((await second.check('a')).allowed).toBe(false);
+  });
+});
+
+describe('createMemoryRateLimitStore', () => {
+  it('prunes expired windows, then the oldest, once it holds `maxKeys`', async () => {
+    const store = createMemoryRateLimitStore(2);
+
+    await store.hit('a', 10, 0);
+    await store.hit('b', 1_000, 0);
+    await store.hit('c', 1_000, 20); // "a" has expired and is pruned
+    expect(await store.hit('b', 1_000, 20)).toEqual({ count: 2, resetAt: 1_000 });
+
+    await store.hit('d', 1_000, 30); // Nothing expired: "b", the oldest, goes
+    expect(await store.hit('b', 1_000, 30)).toEqual({ count: 1, resetAt: 1_030 });
+  });
+});
+
+describe('clientIp', () => {
+  it.each<[Record<string, string>, boolean, string]>([
+    [{ 'x-forwarded-for': '203.0.113.7' }, true, '203.0.113.7'],
+    [{ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' }, true, '203.0.113.7'], // The client wrote the first address
+    [{ 'x-real-ip': '203.0.113.8' }, true, 'unknown'],
+    [{}, true, 'unknown'],
+    [{ 'x-forwarded-for': '203.0.113.7' }, false, 'unknown'],
+  ])('%j behind a trusted proxy: %s -> %s', (headers, trustProxy, ip) => {
+    expect(clientIp(new Request('http://localhost/api', { headers }), trustProxy)).toBe(ip);
+  });
+
+  it.each<[Record<string, string>, boolean]>([
+    [{}, false],
+    [{ VERCEL: '1' }, true],
+    [{ TRUST_PROXY_HEADERS: 'true' }, true],
+    [{ TRUST_PROXY_HEADERS: 'no' }, false],
+  ])('trusts proxy headers with %j: %s', (env, expected) => {
+    expect(trustsProxyHeaders(env)).toBe(expected);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_CLOCK_SKEW_MS, SESSION_TTL_MS, SIGNATURE_HEADERS, issueSession, signRequest, verifyRequest } from '../request-signing';
+
+const SECRET = 'test-secret';
+const NOW = Date.UTC(2026, 9, 19, 12);
+const BODY = JSON.stringify({ symptoms: 'fatigue', answers: '' });
+
+function request(headers: Record<string, string>, path = '/api/extract-symptoms', body = BODY) {
+  return new Request(`http://localhost${path}`, { method: 'POST', headers, body });
+}
+
+describe('request signing', () => {
+  it('issues sessions that expire after the TTL', async () => {
+    const session = await issueSession(SECRET, NOW);
+
+    expect(session.id).toMatch(new RegExp(`^[A-Za-z0-9_-]+\\.${NOW + SESSION_TTL_MS}$`));
+    expect(session).toMatchObject({ issuedAt: NOW, expiresAt: NOW + SESSION_TTL_MS });
+    expect((await issueSession(SECRET, NOW)).id).not.toBe(session.id);
+  });
+
+  it('accepts a request signed for a live session', async () => {
+    const session = await issueSession(SECRET, NOW);
+    const headers = await signRequest(session, 'POST', '/api/extract-symptoms', BODY, NOW);
+
+    await expect(verifyRequest(SECRET, request(headers), BODY, NOW + 1000)).resolves.toEqual({ valid: true, sessionId: session.id });
+  });
+
+  it.each<[string, (headers: Record<string, string>) => [Record<string, string>, string?, string?], number, string]>([
+    ['unsigned', () => [{}], NOW, 'missing'],
+    ['garbled', headers => [{ ...headers, [SIGNATURE_HEADERS.signature]: 'not base64!' }], NOW, 'malformed'],
+    ['truncated', headers => [{ ...headers, [SIGNATURE_HEADERS.signature]: 'a' }], NOW, 'malformed'],
+    ['expired', headers => [headers], NOW + SESSION_TTL_MS, 'expired'],
+    ['replayed later', headers => [headers], NOW + MAX_CLOCK_SKEW_MS + 1, 'stale'],
+    ['tampered', headers => [headers, undefined, BODY.replace('fatigue', 'chest pain')], NOW, 'invalid'],
+    ['sent to another route', headers => [headers, '/api/wellness-summary'], NOW, 'invalid'],
+    ['for a session with a forged expiry', headers => [
+      { ...headers, [SIGNATURE_HEADERS.session]: headers[SIGNATURE_HEADERS.session].replace(/\d+$/, String(NOW + 10 * SESSION_TTL_MS)) },
+    ], NOW, 'invalid'],
+  ])('rejects a request that is %s', async (_case, alter, now, reason) => {
+    const session = await issueSession(SECRET, NOW);
+    const [headers, path, body] = alter(await signRequest(session, 'POST', '/api/extract-symptoms', BODY, NOW));
+
+    await expect(verifyRequest(SECRET, request(headers, path, body), body || BODY, now)).resolves.toEqual({ valid: false, reason });
+  });
+
+  it('rejects sessions issued with another secret', async () => {
+    const session = await issueSession('another-secret', NOW);
+    const headers = await signRequest(session, 'POST', '/api/extract-symptoms', BODY, NOW);
+
+    await expect(verifyRequest(SECRET, request(headers), BODY, NOW)).resolves.toEqual({ valid: false, reason: 'invalid' });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { SseEvent, formatSseEvent, readSseEvents, responseEvents, sseResponse } from '../sse';
+
+// A body delivered in the given chunks, as a slow network would
+function body(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function events(stream: ReadableStream<Uint8Array>): Promise<SseEvent[]> {
+  const read: SseEvent[] = [];
+  for await (const event of readSseEvents(stream)) read.push(event);
+  return read;
+}
+
+describe('readSseEvents', () => {
+  it.each<[string, string[], SseEvent[]]>([
+    ['named events', ['event: text\ndata: {"text":"Do"}\n\n'], [{ event: 'text', data: '{"text":"Do"}' }]],
+    ['unnamed events', ['data: [DONE]\n\n'], [{ event: 'message', data: '[DONE]' }]],
+    ['events split across chunks', ['event: te', 'xt\nda', 'ta: a\n', '\ndata: b\n\n'], [{ event: 'text', data: 'a' }, { event: 'message', data: 'b' }]],
+    ['CRLF line endings', ['data: a\r\n\r\n'], [{ event: 'message', data: 'a' }]],
+    ['multi-line data', ['data: a\ndata: b\n\n'], [{ event: 'message', data: 'a\nb' }]],
+    ['comments and other fields', [': keep-alive\nid: 7\nretry: 100\ndata: a\n\n'], [{ event: 'message', data: 'a' }]],
+    ['an unterminated last event', ['data: a\n\ndata: b'], [{ event: 'message', data: 'a' }, { event: 'message', data: 'b' }]],
+    ['events without data', ['event: ping\n\n'], []],
+  ])('reads %s', async (_case, chunks, expected) => {
+    await expect(events(body(...chunks))).resolves.toEqual(expected);
+  });
+
+  it('decodes characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('data: café\n\n');
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 10)); // Ends half-way through "é"
+        controller.enqueue(bytes.slice(10));
+        controller.close();
+      },
+    });
+    await expect(events(stream)).resolves.toEqual([{ event: 'message', data: 'café' }]);
+  });
+});
+
+describe('sseResponse', () => {
+  it('streams the events produced, then closes', async () => {
+    const response = sseResponse(async send => {
+      send('text', { text: 'Do' });
+      await new Promise(resolve => setTimeout(resolve, 1));
+      send('done', {});
+    });
+
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    await expect(events(response.body!)).resolves.toEqual([
+      { event: 'text', data: '{"text":"Do"}' },
+      { event: 'done', data: '{}' },
+    ]);
+    expect(formatSseEvent('done', {})).toBe('event: done\ndata: {}\n\n');
+  });
+
+  it('closes and drops further events once the client has gone', async () => {
+    const controller = new AbortController();
+    let sendAfterAbort: () => void = () => undefined;
+    const response = sseResponse(async send => {
+      send('text', { text: 'Do' });
+      sendAfterAbort = () => send('text', { text: 'Do you' });
+      await new Promise(resolve => controller.signal.addEventListener('abort', resolve));
+    }, controller.signal);
+
+    const reader = readSseEvents(response.body!);
+    await expect(reader.next()).resolves.toMatchObject({ value: { data: '{"text":"Do"}' } });
+    controller.abort();
+    sendAfterAbort();
+    await expect(reader.next()).resolves.toMatchObject({ done: true });
+  });
+});
+
+describe('responseEvents', () => {
+  it('parses the data of each event', async () => {
+    const received = [];
+    for await (const event of responseEvents(new Response(body('event: text\ndata: {"text":"Do"}\n\n', 'event: done\ndata: {}\n\n')))) {
+      received.push(event);
+    }
+
+    expect(received).toEqual([{ event: 'text', data: { text: 'Do' } }, { event: 'done', data: {} }]);
+  });
+
+  it('throws the message of an error response', async () => {
+    const response = Response.json({ success: false, message: 'Invalid symptoms' }, { status: 400 });
+
+    await expect(responseEvents(response).next()).rejects.toThrow('Invalid symptoms');
+  });
+});
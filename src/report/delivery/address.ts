@@ -0,0 +1,12 @@
+/**
+ * Email Addresses
+ * Kept free of transport imports so the results page can check the address for
+ * an emailed copy before asking for a code.
+ */
+
+// Deliberately loose: the mail service is the judge of deliverability
+const EMAIL_PATTERN = /^[^\s@<>,]+@[^\s@<>,]+\.[^\s@<>,]+$/;
+
+export function isEmailAddress(value: string): boolean {
+  return EMAIL_PATTERN.test(value);
+}
@@ -0,0 +1,82 @@
+/**
+ * /api/report-copy/code Handler
+ * Mails a one-time code to the address a user wants their own copy of a
+ * report sent to (see copy-verification.ts). Only answers requests signed for
+ * a live session, and counts codes per session and per address, so the route
+ * cannot be used to flood an inbox. The reply carries the token for the code,
+ * never the code itself.
+ *
+ * Logs carry the outcome, never the address.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SignedHandlerOptions, createSignedRequestReader, getSigningSecret } from '@/ai/flows/signed-handlers';
+import { RateLimiter, createRateLimiter } from '@/lib/rate-limit';
+import { SESSION_TTL_MS } from '@/lib/request-signing';
+import { DeliveryConfig, MailTransport, TransportConfig, createTransport, deliverCopyCode, getDeliveryConfig } from '.';
+import { isEmailAddress } from './address';
+import { issueCopyCode } from './copy-verification';
+
+export const COPY_CODE_QUOTA = { limit: 3, windowMs: SESSION_TTL_MS }; // Per session
+export const COPY_CODE_ADDRESS_LIMIT = { limit: 3, windowMs: 60 * 60 * 1000 }; // Per address
+
+export const CopyCodeRequestSchema = z.object({
+  email: z
+    .string({ required_error: 'Email address is required', invalid_type_error: 'Email address must be a string' })
+    .trim()
+    .max(254, 'Email address is too long')
+    .refine(isEmailAddress, 'Please enter a valid email address'),
+});
+
+export interface CopyCodeHandlerOptions extends Pick<SignedHandlerOptions, 'getSecret' | 'limiter' | 'now'> {
+  addressLimiter?: RateLimiter;
+  getConfig?: () => DeliveryConfig;
+  createTransport?: (config: TransportConfig) => MailTransport;
+}
+
+function failure(status: number, message: string, headers?: HeadersInit) {
+  return NextResponse.json({ success: false, message }, { status, headers });
+}
+
+export function createCopyCodeHandler(options: CopyCodeHandlerOptions = {}) {
+  const read = createSignedRequestReader('report-copy-code', CopyCodeRequestSchema, COPY_CODE_QUOTA, options);
+  const addressLimiter = options.addressLimiter || createRateLimiter(COPY_CODE_ADDRESS_LIMIT);
+  const getSecret = options.getSecret || getSigningSecret;
+  const getConfig = options.getConfig || (() => getDeliveryConfig());
+  const transportFor = options.createTransport || createTransport;
+  const now = options.now || Date.now;
+
+  return async function POST(request: Request): Promise<Response> {
+    try {
+      const signed = await read(request);
+      if ('response' in signed) return signed.response;
+      const { email } = signed.input;
+
+      const rate = await addressLimiter.check(email.toLowerCase());
+      if (!rate.allowed) {
+        console.log('[report-copy-code] rejected: address limit reached');
+        return failure(429, 'Too many codes sent to this address. Please try again later.', {
+          'Retry-After': String(rate.retryAfterSeconds),
+        });
+      }
+
+      let config: DeliveryConfig;
+      try {
+        config = getConfig();
+      } catch (error) {
+        console.error(`[report-copy-code] delivery is not configured: ${(error as Error).message}`);
+        return failure(500, 'Report delivery is not configured');
+      }
+
+      const { code, token } = await issueCopyCode(getSecret(), email, now());
+      await deliverCopyCode(email, code, config, transportFor(config.transport));
+
+      console.log(`[report-copy-code] sent via ${config.transport.transport}`);
+      return NextResponse.json({ success: true, ...token }, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+      console.error(`[report-copy-code] failed: ${(error as Error)?.name || 'Error'}`);
+      return failure(500, 'Failed to send the code');
+    }
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Report Copy Verification
+ * A user's own copy of a report only goes to an address they have shown they
+ * can read: /api/report-copy/code mails a one-time code there, and
+ * /api/send-report only sends the copy along with that code.
+ *
+ * Nothing is stored. The code route answers with a token, an HMAC of the
+ * address, the code and the expiry under the server's secret; the page sends
+ * it back with the code the user typed, and the server checks it again.
+ */
+
+import { hmac, verifyHmac } from '@/lib/request-signing';
+
+export const COPY_CODE_TTL_MS = 15 * 60 * 1000;
+
+export interface CopyCodeToken {
+  email: string;
+  expiresAt: number; // Epoch milliseconds
+  token: string;
+}
+
+export interface VerifiedCopy extends CopyCodeToken {
+  code: string;
+}
+
+function copyPayload(email: string, code: string, expiresAt: number): string {
+  return `report-copy\n${email.toLowerCase()}\n${code}\n${expiresAt}`;
+}
+
+/**
+ * A new six-digit code for `email`, and the token that will vouch for it
+ */
+export async function issueCopyCode(
+  secret: string,
+  email: string,
+  now: number = Date.now()
+): Promise<{ code: string; token: CopyCodeToken }> {
+  const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).padStart(6, '0');
+  const expiresAt = now + COPY_CODE_TTL_MS;
+  return { code, token: { email, expiresAt, token: await hmac(secret, copyPayload(email, code, expiresAt)) } };
+}
+
+/**
+ * Whether the user typed the code that was mailed to `copy.email`, in time
+ */
+export async function isVerifiedCopy(secret: string, copy: VerifiedCopy, now: number = Date.now()): Promise<boolean> {
+  if (copy.expiresAt <= now) return false;
+  return verifyHmac(secret, copyPayload(copy.email, copy.code, copy.expiresAt), copy.token);
+}
@@ -0,0 +1,187 @@
+/**
+ * Report Delivery
+ * Every emailed report goes through a MailTransport chosen by configuration:
+ * - resend: Resend API (default)
+ * - sendgrid: SendGrid API
+ * - smtp: any SMTP server, e.g. a clinic relay or a local Mailpit
+ * - outbox: .eml files written to a directory, for local testing
+ *
+ * Reads REPORT_TRANSPORT, REPORT_RECIPIENTS (comma-separated; RECIPIENT_EMAIL is
+ * still honoured), REPORT_FROM, RESEND_API_KEY, SENDGRID_API_KEY, SMTP_HOST,
+ * SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD and REPORT_OUTBOX_DIR.
+ */
+
+import { isEmailAddress } from './address';
+import { createOutboxTransport, DEFAULT_OUTBOX_DIR } from './outbox';
+import { createResendTransport } from './resend';
+import { createSendGridTransport } from './sendgrid';
+import { SmtpConfig, createSmtpTransport } from './smtp';
+import { EmailMessage, MailTransport, TRANSPORT_NAMES, TransportName } from './types';
+
+export * from './types';
+export { isEmailAddress };
+
+export type TransportConfig =
+  | { transport: 'resend'; apiKey: string }
+  | { transport: 'sendgrid'; apiKey: string }
+  | ({ transport: 'smtp' } & SmtpConfig)
+  | { transport: 'outbox'; directory: string };
+
+export interface DeliveryConfig {
+  transport: TransportConfig;
+  from: string;
+  recipients: string[]; // Always receive the report, e.g. a clinic inbox
+}
+
+type Env = Record<string, string | undefined>;
+
+export const DEFAULT_REPORT_FROM = 'ISP Wellness Assistant <onboarding@resend.dev>';
+
+export function createTransport(config: TransportConfig): MailTransport {
+  switch (config.transport) {
+    case 'resend':
+      return createResendTransport(config);
+    case 'sendgrid':
+      return createSendGridTransport(config);
+    case 'smtp':
+      return createSmtpTransport(config);
+    case 'outbox':
+      return createOutboxTransport(config);
+  }
+}
+
+function transportFromEnv(env: Env): TransportConfig {
+  const transport = (env.REPORT_TRANSPORT?.trim() || 'resend') as TransportName;
+
+  if (!TRANSPORT_NAMES.includes(transport)) {
+    throw new Error(`Unknown REPORT_TRANSPORT "${transport}". Use one of: ${TRANSPORT_NAMES.join(', ')}`);
+  }
+
+  switch (transport) {
+    case 'resend': {
+      const apiKey = env.RESEND_API_KEY?.trim();
+      if (!apiKey) throw new Error('RESEND_API_KEY is not set. Please add it to your .env.local file.');
+      return { transport, apiKey };
+    }
+    case 'sendgrid': {
+      const apiKey = env.SENDGRID_API_KEY?.trim();
+      if (!apiKey) throw new Error('SENDGRID_API_KEY is not set. Please add it to your .env.local file.');
+      return { transport, apiKey };
+    }
+    case 'smtp': {
+      const secure = env.SMTP_SECURE?.trim().toLowerCase() === 'true';
+      const port = env.SMTP_PORT?.trim() ? parseInt(env.SMTP_PORT, 10) : secure ? 465 : 25;
+      if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+        throw new Error(`SMTP_PORT "${env.SMTP_PORT}" is not a valid port.`);
+      }
+      return {
+        transport,
+        host: env.SMTP_HOST?.trim() || 'localhost',
+        port,
+        secure,
+        user: env.SMTP_USER?.trim() || undefined,
+        password: env.SMTP_PASSWORD || undefined,
+      };
+    }
+    case 'outbox':
+      return { transport, directory: env.REPORT_OUTBOX_DIR?.trim() || DEFAULT_OUTBOX_DIR };
+  }
+}
+
+/**
+ * Delivery settings for /api/send-report, from server-side environment variables
+ */
+export function getDeliveryConfig(env: Env = process.env): DeliveryConfig {
+  const recipients = (env.REPORT_RECIPIENTS || env.RECIPIENT_EMAIL || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+
+  if (recipients.length === 0) {
+    throw new Error('REPORT_RECIPIENTS is not set. Please add the address(es) that should receive reports to your .env.local file.');
+  }
+  const invalid = recipients.find(address => !isEmailAddress(address));
+  if (invalid) {
+    throw new Error(`REPORT_RECIPIENTS contains an invalid address: "${invalid}"`);
+  }
+
+  return {
+    transport: transportFromEnv(env),
+    from: env.REPORT_FROM?.trim() || DEFAULT_REPORT_FROM,
+    recipients,
+  };
+}
+
+export interface ReportDelivery {
+  patientName: string;
+  pdf: Buffer;
+  filename: string;
+}
+
+/**
+ * Send a report to the configured recipients; returns the addresses reached
+ */
+export async function deliverReport(
+  delivery: ReportDelivery,
+  config: DeliveryConfig,
+  transport: MailTransport = createTransport(config.transport)
+): Promise<string[]> {
+  const message: EmailMessage = {
+    from: config.from,
+    to: config.recipients,
+    subject: `ISP Wellness Assistant Report - ${delivery.patientName}`,
+    text: `A new wellness report has been generated for ${delivery.patientName}.`,
+    attachments: [{ filename: delivery.filename, content: delivery.pdf, contentType: 'application/pdf' }],
+  };
+
+  await transport.send(message);
+  return message.to;
+}
+
+/**
+ * Send the user their own copy of a report, as a message of its own so they
+ * and the configured recipients never see each other's addresses. Only for an
+ * address the user has verified (see copy-verification.ts).
+ */
+export async function deliverCopy(
+  delivery: ReportDelivery,
+  to: string,
+  config: DeliveryConfig,
+  transport: MailTransport = createTransport(config.transport)
+): Promise<void> {
+  await transport.send({
+    from: config.from,
+    to: [to],
+    subject: 'Your ISP Wellness Assistant Report',
+    text: [
+      `Hello ${delivery.patientName},`,
+      '',
+      'Your wellness report is attached, as you requested.',
+      'It is not a medical diagnosis; please share it with a healthcare provider.',
+    ].join('\n'),
+    attachments: [{ filename: delivery.filename, content: delivery.pdf, contentType: 'application/pdf' }],
+  });
+}
+
+/**
+ * Mail the one-time code that lets a user receive a copy of their report
+ */
+export async function deliverCopyCode(
+  to: string,
+  code: string,
+  config: DeliveryConfig,
+  transport: MailTransport = createTransport(config.transport)
+): Promise<void> {
+  await transport.send({
+    from: config.from,
+    to: [to],
+    subject: `Your ISP Wellness Assistant code: ${code}`,
+    text: [
+      `Your code is ${code}. It expires in 15 minutes.`,
+      '',
+      'Enter it on the results page to have your report emailed to this address.',
+      'If you did not ask for a copy of a report, you can ignore this email.',
+    ].join('\n'),
+    attachments: [],
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * MIME Messages
+ * Builds the RFC 5322 text of an email with attachments, for transports that
+ * hand over raw messages (SMTP and the outbox) rather than calling an API.
+ */
+
+import { randomBytes } from 'crypto';
+import { EmailMessage } from './types';
+
+// Header values cannot span lines; a CR or LF from user input would start a new header
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+// RFC 2047 encoded word for header text that is not plain ASCII
+function encodeHeaderText(value: string): string {
+  const text = singleLine(value);
+  return /^[\x20-\x7e]*$/.test(text) ? text : `=?UTF-8?B?${Buffer.from(text, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(content: Buffer): string {
+  return (content.toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+/**
+ * The bare address of "Name <address>" or of an address on its own
+ */
+export function envelopeAddress(address: string): string {
+  const match = address.match(/<([^<>]+)>\s*$/);
+  return (match ? match[1] : address).trim();
+}
+
+/**
+ * Full message text with CRLF line endings: headers, a text part and base64 attachments
+ */
+export function buildMimeMessage(
+  message: EmailMessage,
+  options: { date?: Date; boundary?: string; messageId?: string } = {}
+): string {
+  const boundary = options.boundary || `isp-${randomBytes(12).toString('hex')}`;
+  const domain = envelopeAddress(message.from).split('@')[1] || 'localhost';
+  const messageId = options.messageId || `${randomBytes(12).toString('hex')}@${domain}`;
+
+  const headers = [
+    `From: ${singleLine(message.from)}`,
+    `To: ${message.to.map(singleLine).join(', ')}`,
+    `Subject: ${encodeHeaderText(message.subject)}`,
+    `Date: ${(options.date || new Date()).toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+  ];
+
+  const parts = [
+    [
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(Buffer.from(message.text, 'utf8')),
+    ],
+    ...message.attachments.map(attachment => {
+      const filename = encodeHeaderText(attachment.filename).replace(/"/g, "'");
+      return [
+        `Content-Type: ${attachment.contentType}; name="${filename}"`,
+        'Content-Transfer-Encoding: base64',
+        `Content-Disposition: attachment; filename="${filename}"`,
+        '',
+        base64Lines(attachment.content),
+      ];
+    }),
+  ];
+
+  return [
+    ...headers,
+    '',
+    ...parts.flatMap(part => [`--${boundary}`, ...part]),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
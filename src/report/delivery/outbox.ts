@@ -0,0 +1,29 @@
+/**
+ * Outbox Transport
+ * Writes each message as an .eml file instead of sending it, for local
+ * development and tests; any mail client can open the files.
+ */
+
+import { randomBytes } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { buildMimeMessage } from './mime';
+import { MailTransport, deliveryError } from './types';
+
+export const DEFAULT_OUTBOX_DIR = 'outbox';
+
+export function createOutboxTransport(config: { directory: string; now?: () => Date }): MailTransport {
+  return {
+    name: 'outbox',
+    async send(message) {
+      const date = config.now ? config.now() : new Date();
+      const file = path.join(config.directory, `${date.toISOString().replace(/[:.]/g, '-')}-${randomBytes(4).toString('hex')}.eml`);
+      try {
+        await mkdir(config.directory, { recursive: true });
+        await writeFile(file, buildMimeMessage(message, { date }), 'utf8');
+      } catch (error) {
+        throw deliveryError('outbox', `Cannot write to outbox ${config.directory}: ${(error as Error).message}`);
+      }
+    },
+  };
+}
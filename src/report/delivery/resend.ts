@@ -0,0 +1,27 @@
+/**
+ * Resend Transport
+ * Sends through the Resend API (https://resend.com).
+ */
+
+import { Resend } from 'resend';
+import { MailTransport, deliveryError } from './types';
+
+export function createResendTransport(config: { apiKey: string }): MailTransport {
+  const resend = new Resend(config.apiKey);
+
+  return {
+    name: 'resend',
+    async send(message) {
+      const { error } = await resend.emails.send({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        attachments: message.attachments.map(a => ({ filename: a.filename, content: a.content })),
+      });
+      if (error) {
+        throw deliveryError('resend', `Resend rejected the message: ${error.message}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * /api/send-report Handler
+ * Everything the route does before a report reaches a transport:
+ * - per-IP rate limiting (see clientIp for when the IP can be trusted)
+ * - a body size limit, checked before the JSON is parsed
+ * - schema validation, and a PDF signature check on the decoded attachment
+ * - a patient name made safe for the subject line and the attachment filename
+ *
+ * Reports go to the configured recipients. The only other address the route
+ * mails is the user's own, when they ask for a copy: it must come with the code
+ * mailed there by /api/report-copy/code, and attempts are counted per address.
+ *
+ * Logs carry a request id, sizes and delivery outcomes, never names or
+ * addresses, and error responses never include internal error details.
+ */
+
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSigningSecret } from '@/ai/flows/signed-handlers';
+import { RateLimiter, clientIp, createRateLimiter } from '@/lib/rate-limit';
+import {
+  DeliveryConfig,
+  MailTransport,
+  TransportConfig,
+  createTransport,
+  deliverCopy,
+  deliverReport,
+  getDeliveryConfig,
+} from '.';
+import { isEmailAddress } from './address';
+import { isVerifiedCopy } from './copy-verification';
+
+export const MAX_PDF_BYTES = 3 * 1024 * 1024;
+// Base64 grows the PDF by a third; the rest of the JSON body is small
+export const MAX_BODY_BYTES = Math.ceil(MAX_PDF_BYTES / 3) * 4 + 16 * 1024;
+export const REPORT_RATE_LIMIT = { limit: 5, windowMs: 15 * 60 * 1000 };
+// Per address, counting attempts rather than copies sent, so codes cannot be guessed
+export const REPORT_COPY_LIMIT = { limit: 5, windowMs: 60 * 60 * 1000 };
+
+const PDF_SIGNATURE = '%PDF-';
+
+export const SendReportRequestSchema = z.object({
+  pdfData: z
+    .string({ required_error: 'PDF data is required', invalid_type_error: 'PDF data must be a string' })
+    .min(1, 'PDF data is required')
+    .regex(/^[A-Za-z0-9+/]+={0,2}$/, 'PDF data must be base64-encoded'),
+  patientName: z
+    .string({ required_error: 'Patient name is required', invalid_type_error: 'Patient name must be a string' })
+    .trim()
+    .min(1, 'Patient name is required')
+    .max(100, 'Patient name is too long'),
+  // The user's own copy, with the code mailed to that address
+  copy: z
+    .object({
+      email: z.string().trim().refine(isEmailAddress, 'Please enter a valid email address'),
+      code: z.string().trim().regex(/^\d{6}$/, 'The code has six digits'),
+      expiresAt: z.number().int(),
+      token: z.string().max(100),
+    })
+    .optional(),
+});
+
+export type SendReportRequest = z.infer<typeof SendReportRequestSchema>;
+
+/**
+ * The name as it may appear in a subject line: no control or formatting
+ * characters, whitespace collapsed
+ */
+export function cleanPatientName(name: string): string {
+  return name.replace(/[\p{Cc}\p{Cf}]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The name reduced to ASCII letters, digits and dashes, for use in a filename
+ */
+export function filenameSafe(name: string): string {
+  const safe = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return safe || 'Patient';
+}
+
+export function reportAttachmentName(patientName: string, date: Date): string {
+  return `ISP-Wellness-Assistant-Report-${filenameSafe(patientName)}-${date.toISOString().split('T')[0]}.pdf`;
+}
+
+export function isPdf(content: Buffer): boolean {
+  return content.subarray(0, PDF_SIGNATURE.length).toString('latin1') === PDF_SIGNATURE;
+}
+
+export interface SendReportHandlerOptions {
+  limiter?: RateLimiter;
+  copyLimiter?: RateLimiter;
+  getSecret?: () => string;
+  getConfig?: () => DeliveryConfig;
+  createTransport?: (config: TransportConfig) => MailTransport;
+  now?: () => Date;
+}
+
+function failure(status: number, message: string, headers?: HeadersInit) {
+  return NextResponse.json({ success: false, message }, { status, headers });
+}
+
+export function createSendReportHandler(options: SendReportHandlerOptions = {}) {
+  const limiter = options.limiter || createRateLimiter(REPORT_RATE_LIMIT);
+  const copyLimiter = options.copyLimiter || createRateLimiter(REPORT_COPY_LIMIT);
+  const getSecret = options.getSecret || getSigningSecret;
+  const getConfig = options.getConfig || (() => getDeliveryConfig());
+  const transportFor = options.createTransport || createTransport;
+  const now = options.now || (() => new Date());
+
+  return async function POST(request: Request): Promise<Response> {
+    const requestId = randomUUID().slice(0, 8);
+    const log = (message: string) => console.log(`[send-report ${requestId}] ${message}`);
+    const logError = (message: string) => console.error(`[send-report ${requestId}] ${message}`);
+
+    try {
+      const rate = await limiter.check(clientIp(request));
+      if (!rate.allowed) {
+        log('rate limited');
+        return failure(429, 'Too many reports sent. Please try again later.', {
+          'Retry-After': String(rate.retryAfterSeconds),
+        });
+      }
+
+      const declaredLength = Number(request.headers.get('content-length'));
+      if (declaredLength > MAX_BODY_BYTES) {
+        log(`rejected: body of ${declaredLength} bytes`);
+        return failure(413, 'Report is too large');
+      }
+      const raw = await request.text();
+      if (Buffer.byteLength(raw, 'utf8') > MAX_BODY_BYTES) {
+        log(`rejected: body of ${Buffer.byteLength(raw, 'utf8')} bytes`);
+        return failure(413, 'Report is too large');
+      }
+
+      let body: unknown;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        log('rejected: body is not JSON');
+        return failure(400, 'Invalid request body');
+      }
+
+      const parsed = SendReportRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        log(`rejected: invalid ${issue.path.join('.') || 'body'}`);
+        return failure(400, issue.message);
+      }
+      const { pdfData, patientName, copy } = parsed.data;
+
+      const pdf = Buffer.from(pdfData, 'base64');
+      if (pdf.length > MAX_PDF_BYTES) {
+        log(`rejected: PDF of ${pdf.length} bytes`);
+        return failure(413, 'Report is too large');
+      }
+      if (!isPdf(pdf)) {
+        log('rejected: attachment is not a PDF');
+        return failure(400, 'Report is not a PDF document');
+      }
+
+      if (copy) {
+        const rate = await copyLimiter.check(copy.email.toLowerCase());
+        if (!rate.allowed) {
+          log('rejected: copy limit reached');
+          return failure(429, 'Too many attempts for this address. Please try again later.', {
+            'Retry-After': String(rate.retryAfterSeconds),
+          });
+        }
+        if (!(await isVerifiedCopy(getSecret(), copy, now().getTime()))) {
+          log('rejected: copy code is wrong or expired');
+          return failure(400, 'The code is wrong or has expired. Please request a new one.');
+        }
+      }
+
+      let config: DeliveryConfig;
+      try {
+        config = getConfig();
+      } catch (error) {
+        // Configuration errors name environment variables, not patients
+        logError(`delivery is not configured: ${(error as Error).message}`);
+        return failure(500, 'Report delivery is not configured');
+      }
+
+      const delivery = {
+        patientName: cleanPatientName(patientName),
+        pdf,
+        filename: reportAttachmentName(patientName, now()),
+      };
+      const transport = transportFor(config.transport);
+      const sentTo = await deliverReport(delivery, config, transport);
+      log(`sent ${pdf.length} byte PDF via ${config.transport.transport} to ${sentTo.length} recipient(s)`);
+
+      if (copy) {
+        // The report has reached the clinic by now, so a failed copy is not a failed request
+        try {
+          await deliverCopy(delivery, copy.email, config, transport);
+          log('sent the user copy');
+        } catch (error) {
+          logError(`user copy failed: ${(error as Error)?.name || 'Error'}`);
+          return NextResponse.json({ success: true, copySent: false, message: 'Report sent, but your copy could not be emailed' });
+        }
+      }
+      return NextResponse.json({ success: true, message: 'Report sent successfully' });
+    } catch (error) {
+      // Transport messages can echo addresses back, so only the error's shape is logged
+      const { name, transport, status } = (error || {}) as { name?: string; transport?: string; status?: number };
+      logError(`failed: ${[name || 'Error', transport && `transport ${transport}`, status && `status ${status}`].filter(Boolean).join(', ')}`);
+      return failure(500, 'Failed to send report');
+    }
+  };
+}
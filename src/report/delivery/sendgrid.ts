@@ -0,0 +1,36 @@
+/**
+ * SendGrid Transport
+ * Sends through the SendGrid v3 mail API (https://sendgrid.com).
+ */
+
+import sendgrid from '@sendgrid/mail';
+import { MailTransport, deliveryError } from './types';
+
+export function createSendGridTransport(config: { apiKey: string }): MailTransport {
+  return {
+    name: 'sendgrid',
+    async send(message) {
+      sendgrid.setApiKey(config.apiKey);
+      try {
+        await sendgrid.send({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          // SendGrid refuses an empty attachment list
+          attachments: message.attachments.length > 0
+            ? message.attachments.map(a => ({
+              filename: a.filename,
+              content: a.content.toString('base64'),
+              type: a.contentType,
+              disposition: 'attachment',
+            }))
+            : undefined,
+        });
+      } catch (error) {
+        const { message: reason = 'Unknown error', code } = (error || {}) as { message?: string; code?: number };
+        throw deliveryError('sendgrid', `SendGrid rejected the message: ${reason}`, code);
+      }
+    },
+  };
+}
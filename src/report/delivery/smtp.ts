@@ -0,0 +1,174 @@
+/**
+ * SMTP Transport
+ * Minimal SMTP client (RFC 5321) for mail servers the app talks to directly,
+ * from a clinic relay to a local catcher such as Mailpit:
+ * - implicit TLS when `secure` is set (usually port 465)
+ * - otherwise STARTTLS whenever the server offers it
+ * - AUTH PLAIN when a user is configured, only ever over an encrypted
+ *   connection: a server that offers no STARTTLS gets no credentials
+ */
+
+import net, { Socket } from 'net';
+import tls from 'tls';
+import { buildMimeMessage, envelopeAddress } from './mime';
+import { MailTransport, deliveryError } from './types';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  clientName?: string; // Sent in EHLO
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads replies off a socket; multi-line replies ("250-...") are joined into one
+ */
+function replyReader(socket: Socket) {
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  let failure: Error | undefined;
+  let buffer = '';
+  let pending: string[] = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, end).replace(/\r$/, '');
+      buffer = buffer.slice(end + 1);
+      pending.push(line.slice(4));
+      if (line[3] === '-') continue;
+      const reply = { code: parseInt(line.slice(0, 3), 10), lines: pending };
+      pending = [];
+      const waiter = waiting.shift();
+      if (waiter) waiter.resolve(reply);
+      else replies.push(reply);
+    }
+  };
+  const onEnd = (error?: Error) => {
+    failure = failure || error || new Error('SMTP server closed the connection');
+    waiting.splice(0).forEach(waiter => waiter.reject(failure!));
+  };
+  const onError = (error: Error) => onEnd(error);
+  const onClose = () => onEnd();
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    next(): Promise<SmtpReply> {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    detach() {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+// A line starting with "." would otherwise end the DATA section early
+function dotStuff(message: string): string {
+  return message.replace(/^\./gm, '..');
+}
+
+function connect(config: SmtpConfig): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgrade(socket: Socket, host: string): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.once('error', reject);
+  });
+}
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const timeoutMs = config.timeoutMs || DEFAULT_TIMEOUT_MS;
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      let socket = await connect(config).catch(error => {
+        throw deliveryError('smtp', `Cannot connect to SMTP server ${config.host}:${config.port}: ${error.message}`);
+      });
+      const watch = (s: Socket) => s.setTimeout(timeoutMs, () => s.destroy(new Error('SMTP connection timed out')));
+      watch(socket);
+      let reader = replyReader(socket);
+
+      const expect = async (step: string, codes: number[]) => {
+        const reply = await reader.next();
+        if (!codes.includes(reply.code)) {
+          throw deliveryError('smtp', `SMTP ${step} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+        }
+        return reply;
+      };
+      const command = (line: string, step: string, codes: number[]) => {
+        socket.write(`${line}\r\n`);
+        return expect(step, codes);
+      };
+      const hello = () => command(`EHLO ${config.clientName || 'localhost'}`, 'EHLO', [250]);
+
+      try {
+        await expect('greeting', [220]);
+        let capabilities = (await hello()).lines.map(line => line.toUpperCase());
+        let encrypted = config.secure;
+
+        if (!encrypted && capabilities.includes('STARTTLS')) {
+          await command('STARTTLS', 'STARTTLS', [220]);
+          reader.detach();
+          socket = await upgrade(socket, config.host);
+          watch(socket);
+          reader = replyReader(socket);
+          capabilities = (await hello()).lines.map(line => line.toUpperCase());
+          encrypted = true;
+        }
+
+        if (config.user) {
+          if (!encrypted) {
+            throw deliveryError('smtp', `SMTP server ${config.host} does not offer STARTTLS; refusing to send credentials unencrypted`);
+          }
+          if (!capabilities.some(line => line.startsWith('AUTH'))) {
+            throw deliveryError('smtp', `SMTP server ${config.host} does not offer authentication`);
+          }
+          const credentials = Buffer.from(`\0${config.user}\0${config.password || ''}`, 'utf8').toString('base64');
+          await command(`AUTH PLAIN ${credentials}`, 'AUTH', [235]);
+        }
+
+        await command(`MAIL FROM:<${envelopeAddress(message.from)}>`, 'MAIL FROM', [250]);
+        for (const recipient of message.to) {
+          await command(`RCPT TO:<${envelopeAddress(recipient)}>`, 'RCPT TO', [250, 251]);
+        }
+        await command('DATA', 'DATA', [354]);
+        socket.write(`${dotStuff(buildMimeMessage(message))}\r\n.\r\n`);
+        await expect('message', [250]);
+        await command('QUIT', 'QUIT', [221]).catch(() => undefined); // Delivered either way
+      } catch (error) {
+        if ((error as { transport?: string }).transport) throw error;
+        throw deliveryError('smtp', `SMTP delivery failed: ${(error as Error).message}`);
+      } finally {
+        reader.detach();
+        socket.destroy();
+      }
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSessionHandler } from '@/ai/flows/signed-handlers';
+import { createRateLimiter } from '@/lib/rate-limit';
+import { RequestSession, signRequest } from '@/lib/request-signing';
+import { DEFAULT_REPORT_FROM, DeliveryConfig, EmailMessage, MailTransport } from '..';
+import { CopyCodeHandlerOptions, createCopyCodeHandler } from '../copy-code-handler';
+import { COPY_CODE_TTL_MS, isVerifiedCopy } from '../copy-verification';
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const PATH = '/api/report-copy/code';
+
+const config: DeliveryConfig = {
+  transport: { transport: 'outbox', directory: 'unused' },
+  from: DEFAULT_REPORT_FROM,
+  recipients: ['inbox@clinic.example'],
+};
+
+function setup(options: CopyCodeHandlerOptions = {}) {
+  const sent: EmailMessage[] = [];
+  const transport: MailTransport = { name: 'outbox', send: async m => void sent.push(m) };
+  const POST = createCopyCodeHandler({
+    getSecret: () => 'test-secret',
+    now: () => NOW,
+    getConfig: () => config,
+    createTransport: () => transport,
+    ...options,
+  });
+  return { POST, sent };
+}
+
+async function startSession(): Promise<RequestSession> {
+  const POST = createSessionHandler({ getSecret: () => 'test-secret', now: () => NOW });
+  return (await POST(new Request('http://localhost/api/session', { method: 'POST' }))).json();
+}
+
+async function signed(session: RequestSession, body: unknown) {
+  const text = JSON.stringify(body);
+  return new Request(`http://localhost${PATH}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...(await signRequest(session, 'POST', PATH, text, NOW)) },
+    body: text,
+  });
+}
+
+const codeIn = (message: EmailMessage) => message.subject.match(/\d{6}$/)![0];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('report copy code handler', () => {
+  it('mails a code to the address and answers with a token for it, not the code', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { POST, sent } = setup();
+
+    const response = await POST(await signed(await startSession(), { email: ' sam@example.com ' }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual({ success: true, email: 'sam@example.com', expiresAt: NOW + COPY_CODE_TTL_MS, token: expect.any(String) });
+    expect(sent.map(m => m.to)).toEqual([['sam@example.com']]);
+    expect(sent[0].attachments).toEqual([]);
+    expect(JSON.stringify(body)).not.toContain(codeIn(sent[0]));
+    expect(vi.mocked(console.log).mock.calls.flat().join('\n')).not.toContain('sam@');
+
+    const copy = { ...body, code: codeIn(sent[0]) };
+    expect(await isVerifiedCopy('test-secret', copy, NOW)).toBe(true);
+    expect(await isVerifiedCopy('test-secret', { ...copy, email: 'eve@example.com' }, NOW)).toBe(false);
+    expect(await isVerifiedCopy('test-secret', copy, NOW + COPY_CODE_TTL_MS)).toBe(false);
+  });
+
+  it('only answers signed requests for a valid address', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { POST, sent } = setup();
+
+    const unsigned = await POST(new Request(`http://localhost${PATH}`, { method: 'POST', body: JSON.stringify({ email: 'sam@example.com' }) }));
+    const invalid = await POST(await signed(await startSession(), { email: 'not an address' }));
+
+    expect(unsigned.status).toBe(401);
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ success: false, message: 'Please enter a valid email address' });
+    expect(sent).toEqual([]);
+  });
+
+  it('limits codes per address across sessions', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { POST, sent } = setup({ addressLimiter: createRateLimiter({ limit: 1, windowMs: 60_000, now: () => 0 }) });
+
+    const first = await POST(await signed(await startSession(), { email: 'sam@example.com' }));
+    const again = await POST(await signed(await startSession(), { email: 'SAM@example.com' }));
+    const other = await POST(await signed(await startSession(), { email: 'alex@example.com' }));
+
+    expect([first.status, again.status, other.status]).toEqual([200, 429, 200]);
+    expect(again.headers.get('Retry-After')).toBe('60');
+    expect(sent).toHaveLength(2);
+  });
+});
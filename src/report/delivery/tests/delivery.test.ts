@@ -0,0 +1,291 @@
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import net, { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_REPORT_FROM,
+  DeliveryConfig,
+  EmailMessage,
+  MailTransport,
+  deliverCopy,
+  deliverReport,
+  getDeliveryConfig,
+  isEmailAddress,
+} from '..';
+import { buildMimeMessage, envelopeAddress } from '../mime';
+import { createOutboxTransport } from '../outbox';
+import { createSmtpTransport } from '../smtp';
+
+const message: EmailMessage = {
+  from: 'ISP Wellness Assistant <reports@clinic.example>',
+  to: ['inbox@clinic.example', 'gp@clinic.example'],
+  subject: 'ISP Wellness Assistant Report - Zoë',
+  text: 'A new wellness report has been generated.\n.\nEnd',
+  attachments: [{ filename: 'report.pdf', content: Buffer.from('%PDF-1.3 test'), contentType: 'application/pdf' }],
+};
+
+function decodeParts(mime: string, boundary: string): string[] {
+  return mime
+    .split(`--${boundary}`)
+    .slice(1, -1)
+    .map(part => Buffer.from(part.split('\r\n\r\n')[1].replace(/\r\n/g, ''), 'base64').toString('utf8'));
+}
+
+describe('getDeliveryConfig', () => {
+  it.each([
+    [{ RESEND_API_KEY: 'key', RECIPIENT_EMAIL: 'a@x.org' }, { transport: 'resend', apiKey: 'key' }, ['a@x.org']],
+    [
+      { REPORT_TRANSPORT: 'sendgrid', SENDGRID_API_KEY: 'sg', REPORT_RECIPIENTS: 'a@x.org, b@x.org' },
+      { transport: 'sendgrid', apiKey: 'sg' },
+      ['a@x.org', 'b@x.org'],
+    ],
+    [
+      { REPORT_TRANSPORT: 'smtp', REPORT_RECIPIENTS: 'a@x.org', RECIPIENT_EMAIL: 'ignored@x.org' },
+      { transport: 'smtp', host: 'localhost', port: 25, secure: false, user: undefined, password: undefined },
+      ['a@x.org'],
+    ],
+    [
+      { REPORT_TRANSPORT: 'smtp', SMTP_HOST: 'mail.x.org', SMTP_SECURE: 'true', SMTP_USER: 'u', SMTP_PASSWORD: 'p', REPORT_RECIPIENTS: 'a@x.org' },
+      { transport: 'smtp', host: 'mail.x.org', port: 465, secure: true, user: 'u', password: 'p' },
+      ['a@x.org'],
+    ],
+    [
+      { REPORT_TRANSPORT: 'outbox', REPORT_RECIPIENTS: 'a@x.org' },
+      { transport: 'outbox', directory: 'outbox' },
+      ['a@x.org'],
+    ],
+  ])('%j', (env, transport, recipients) => {
+    expect(getDeliveryConfig(env)).toEqual({ transport, from: DEFAULT_REPORT_FROM, recipients });
+  });
+
+  it.each([
+    [{ RESEND_API_KEY: 'key' }, /REPORT_RECIPIENTS is not set/],
+    [{ RESEND_API_KEY: 'key', REPORT_RECIPIENTS: 'a@x.org,not-an-address' }, /invalid address: "not-an-address"/],
+    [{ REPORT_RECIPIENTS: 'a@x.org' }, /RESEND_API_KEY is not set/],
+    [{ REPORT_TRANSPORT: 'sendgrid', REPORT_RECIPIENTS: 'a@x.org' }, /SENDGRID_API_KEY is not set/],
+    [{ REPORT_TRANSPORT: 'smtp', SMTP_PORT: 'abc', REPORT_RECIPIENTS: 'a@x.org' }, /SMTP_PORT "abc"/],
+    [{ REPORT_TRANSPORT: 'pigeon', REPORT_RECIPIENTS: 'a@x.org' }, /Unknown REPORT_TRANSPORT "pigeon"/],
+  ])('rejects %j', (env, error) => {
+    expect(() => getDeliveryConfig(env)).toThrow(error);
+  });
+});
+
+describe('addresses', () => {
+  it.each([
+    ['user@example.com', true],
+    ['first.last+tag@sub.example.org', true],
+    ['user@localhost', false],
+    ['two words@example.com', false],
+    ['a@x.org, b@x.org', false],
+    ['', false],
+  ])('isEmailAddress(%j) -> %s', (value, valid) => {
+    expect(isEmailAddress(value)).toBe(valid);
+  });
+
+  it.each([
+    ['ISP Wellness Assistant <reports@clinic.example>', 'reports@clinic.example'],
+    [' inbox@clinic.example ', 'inbox@clinic.example'],
+  ])('envelopeAddress(%j) -> %s', (value, address) => {
+    expect(envelopeAddress(value)).toBe(address);
+  });
+});
+
+describe('buildMimeMessage', () => {
+  const mime = buildMimeMessage(message, {
+    date: new Date('2025-03-01T09:30:00Z'),
+    boundary: 'BOUNDARY',
+    messageId: 'fixed@clinic.example',
+  });
+
+  it('writes headers with CRLF line endings and an encoded non-ASCII subject', () => {
+    expect(mime.split('\r\n\r\n')[0].split('\r\n')).toEqual([
+      'From: ISP Wellness Assistant <reports@clinic.example>',
+      'To: inbox@clinic.example, gp@clinic.example',
+      `Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`,
+      'Date: Sat, 01 Mar 2025 09:30:00 GMT',
+      'Message-ID: <fixed@clinic.example>',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="BOUNDARY"',
+    ]);
+    expect(mime.replace(/\r\n/g, '')).not.toMatch(/\n/);
+  });
+
+  it('base64-encodes the text and each attachment', () => {
+    expect(decodeParts(mime, 'BOUNDARY')).toEqual([message.text, '%PDF-1.3 test']);
+    expect(mime).toContain('Content-Disposition: attachment; filename="report.pdf"');
+  });
+
+  it('keeps header injection out of the subject', () => {
+    const injected = buildMimeMessage({ ...message, subject: 'Report\r\nBcc: victim@x.org' }, { boundary: 'B' });
+    expect(injected).not.toMatch(/^Bcc:/m);
+    expect(injected).toContain('Subject: Report Bcc: victim@x.org');
+  });
+});
+
+describe('transports', () => {
+  const cleanup: Array<() => Promise<void>> = [];
+
+  afterEach(async () => {
+    await Promise.all(cleanup.splice(0).map(close => close()));
+  });
+
+  it('writes outbox messages as .eml files', async () => {
+    const directory = path.join(await mkdtemp(path.join(os.tmpdir(), 'isp-outbox-')), 'nested');
+    cleanup.push(() => rm(path.dirname(directory), { recursive: true, force: true }));
+
+    const transport = createOutboxTransport({ directory, now: () => new Date('2025-03-01T09:30:00.123Z') });
+    await transport.send(message);
+
+    const files = await readdir(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^2025-03-01T09-30-00-123Z-[0-9a-f]+\.eml$/);
+    expect(await readFile(path.join(directory, files[0]), 'utf8')).toContain('To: inbox@clinic.example, gp@clinic.example');
+  });
+
+  /**
+   * A just-enough SMTP server: records the commands and the DATA it receives
+   */
+  async function fakeSmtpServer(replies: Record<string, string> = {}) {
+    const commands: string[] = [];
+    let data = '';
+    const server = net.createServer(socket => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 fake ESMTP\r\n');
+      socket.on('data', chunk => {
+        buffer += chunk.toString('utf8');
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 queued\r\n');
+        }
+        let end: number;
+        while (!inData && (end = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          const verb = line.split(/[ :]/)[0].toUpperCase();
+          commands.push(line);
+          if (replies[verb]) socket.write(`${replies[verb]}\r\n`);
+          else if (verb === 'EHLO') socket.write('250-fake\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+          else if (verb === 'AUTH') socket.write('235 ok\r\n');
+          else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (verb === 'QUIT') socket.end('221 bye\r\n');
+          else socket.write('250 ok\r\n');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    cleanup.push(() => new Promise(resolve => server.close(() => resolve())));
+    return { port: (server.address() as AddressInfo).port, commands, data: () => data };
+  }
+
+  it('delivers over SMTP', async () => {
+    const server = await fakeSmtpServer();
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 5000 });
+
+    await transport.send({ ...message, attachments: [] });
+
+    expect(server.commands).toEqual([
+      'EHLO localhost',
+      'MAIL FROM:<reports@clinic.example>',
+      'RCPT TO:<inbox@clinic.example>',
+      'RCPT TO:<gp@clinic.example>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(server.data()).toContain('Subject: =?UTF-8?B?');
+  });
+
+  it('does not send credentials to a server that offers no STARTTLS', async () => {
+    const server = await fakeSmtpServer();
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port: server.port,
+      secure: false,
+      user: 'clinic',
+      password: 'secret',
+      timeoutMs: 5000,
+    });
+
+    await expect(transport.send(message)).rejects.toThrow(/does not offer STARTTLS; refusing to send credentials/);
+    expect(server.commands).toEqual(['EHLO localhost']);
+  });
+
+  it('does not send credentials when STARTTLS is refused', async () => {
+    const server = await fakeSmtpServer({
+      EHLO: '250-fake\r\n250-STARTTLS\r\n250 AUTH PLAIN',
+      STARTTLS: '454 TLS not available',
+    });
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port: server.port,
+      secure: false,
+      user: 'clinic',
+      password: 'secret',
+      timeoutMs: 5000,
+    });
+
+    await expect(transport.send(message)).rejects.toThrow(/STARTTLS failed: 454/);
+    expect(server.commands).toEqual(['EHLO localhost', 'STARTTLS']);
+  });
+
+  it.each([
+    [{ RCPT: '550 no such user' }, /RCPT TO failed: 550 no such user/],
+    [{ MAIL: '451 try later' }, /MAIL FROM failed: 451 try later/],
+  ])('reports SMTP rejections %j', async (replies, error) => {
+    const server = await fakeSmtpServer(replies);
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 5000 });
+
+    await expect(transport.send(message)).rejects.toThrow(error);
+  });
+
+  it('reports servers that cannot be reached', async () => {
+    const server = await fakeSmtpServer();
+    await Promise.all(cleanup.splice(0).map(close => close()));
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 5000 });
+
+    await expect(transport.send(message)).rejects.toThrow(/Cannot connect to SMTP server/);
+  });
+});
+
+describe('deliverReport', () => {
+  const config: DeliveryConfig = {
+    transport: { transport: 'outbox', directory: 'unused' },
+    from: DEFAULT_REPORT_FROM,
+    recipients: ['inbox@clinic.example', 'gp@clinic.example'],
+  };
+
+  function recordingTransport() {
+    const sent: EmailMessage[] = [];
+    const transport: MailTransport = { name: 'outbox', send: async m => void sent.push(m) };
+    return { sent, transport };
+  }
+
+  const delivery = { patientName: 'Sam', pdf: Buffer.from('%PDF'), filename: 'report.pdf' };
+
+  it('sends the report to every configured recipient', async () => {
+    const { sent, transport } = recordingTransport();
+
+    expect(await deliverReport(delivery, config, transport)).toEqual(config.recipients);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ to: config.recipients, subject: 'ISP Wellness Assistant Report - Sam' });
+    expect(sent[0].attachments).toEqual([{ filename: 'report.pdf', content: delivery.pdf, contentType: 'application/pdf' }]);
+  });
+
+  it('sends the user copy as a separate message', async () => {
+    const { sent, transport } = recordingTransport();
+
+    await deliverCopy(delivery, 'sam@example.com', config, transport);
+
+    expect(sent.map(m => m.to)).toEqual([['sam@example.com']]);
+    expect(sent[0].subject).toBe('Your ISP Wellness Assistant Report');
+    expect(sent[0].text).toContain('Hello Sam,');
+    expect(sent[0].attachments).toEqual([{ filename: 'report.pdf', content: delivery.pdf, contentType: 'application/pdf' }]);
+  });
+});
@@ -0,0 +1,235 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter } from '@/lib/rate-limit';
+import { DEFAULT_REPORT_FROM, DeliveryConfig, EmailMessage, MailTransport, deliveryError } from '..';
+import { issueCopyCode } from '../copy-verification';
+import {
+  MAX_BODY_BYTES,
+  MAX_PDF_BYTES,
+  SendReportHandlerOptions,
+  cleanPatientName,
+  createSendReportHandler,
+  filenameSafe,
+} from '../send-report-handler';
+
+const PDF = Buffer.from('%PDF-1.3\n% test report\n').toString('base64');
+
+const config: DeliveryConfig = {
+  transport: { transport: 'outbox', directory: 'unused' },
+  from: DEFAULT_REPORT_FROM,
+  recipients: ['inbox@clinic.example'],
+};
+
+function setup(options: SendReportHandlerOptions & { send?: MailTransport['send'] } = {}) {
+  const sent: EmailMessage[] = [];
+  const transport: MailTransport = { name: 'outbox', send: options.send || (async m => void sent.push(m)) };
+  const POST = createSendReportHandler({
+    getSecret: () => 'test-secret',
+    getConfig: () => config,
+    createTransport: () => transport,
+    now: () => new Date(Date.UTC(2026, 9, 19)),
+    ...options,
+  });
+  return { POST, sent };
+}
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+  return new Request('http://localhost/api/send-report', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': '203.0.113.7', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+const logs = () => [
+  ...vi.mocked(console.log).mock.calls,
+  ...vi.mocked(console.error).mock.calls,
+].flat().join('\n');
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('send-report handler', () => {
+  it('sends a valid report with a safe subject and filename', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { POST, sent } = setup();
+
+    const response = await POST(post({ pdfData: PDF, patientName: 'Zoë\r\nBcc: x@evil.example ../../etc' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, message: 'Report sent successfully' });
+    expect(sent.map(m => m.to)).toEqual([['inbox@clinic.example']]);
+    expect(sent[0].subject).toBe('ISP Wellness Assistant Report - Zoë Bcc: x@evil.example ../../etc');
+    expect(sent[0].attachments[0].filename).toBe('ISP-Wellness-Assistant-Report-Zoe-Bcc-x-evil-example-etc-2026-10-19.pdf');
+    expect(logs()).not.toMatch(/Zo[eë]|example\.com|evil/);
+  });
+
+  it.each([
+    ['not json', 400, 'Invalid request body'],
+    [{ patientName: 'Sam' }, 400, 'PDF data is required'],
+    [{ pdfData: PDF }, 400, 'Patient name is required'],
+    [{ pdfData: PDF, patientName: '   ' }, 400, 'Patient name is required'],
+    [{ pdfData: PDF, patientName: 42 }, 400, 'Patient name must be a string'],
+    [{ pdfData: PDF, patientName: 'x'.repeat(101) }, 400, 'Patient name is too long'],
+    [{ pdfData: 'not base64!', patientName: 'Sam' }, 400, 'PDF data must be base64-encoded'],
+    [{ pdfData: Buffer.from('<html>').toString('base64'), patientName: 'Sam' }, 400, 'Report is not a PDF document'],
+    [{ pdfData: Buffer.alloc(MAX_PDF_BYTES + 3, '%PDF-').toString('base64'), patientName: 'Sam' }, 413, 'Report is too large'],
+  ])('rejects %j', async (body, status, message) => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { POST, sent } = setup();
+
+    const response = await POST(post(body));
+
+    expect(response.status).toBe(status);
+    expect(await response.json()).toEqual({ success: false, message });
+    expect(sent).toEqual([]);
+  });
+
+  it('only mails the configured recipients, whatever the request asks for', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { POST, sent } = setup();
+
+    const response = await POST(post({ pdfData: PDF, patientName: 'Sam', copyTo: 'someone@example.com', to: ['x@example.com'] }));
+
+    expect(response.status).toBe(200);
+    expect(sent.map(m => m.to)).toEqual([['inbox@clinic.example']]);
+  });
+
+  it('also sends the user a copy once they enter the code mailed to them', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { POST, sent } = setup();
+    const { code, token } = await issueCopyCode('test-secret', 'sam@example.com', Date.UTC(2026, 9, 19));
+
+    const response = await POST(post({ pdfData: PDF, patientName: 'Sam', copy: { ...token, code } }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, message: 'Report sent successfully' });
+    expect(sent.map(m => m.to)).toEqual([['inbox@clinic.example'], ['sam@example.com']]);
+    expect(sent[1].subject).toBe('Your ISP Wellness Assistant Report');
+    expect(logs()).not.toMatch(/sam@example\.com/);
+  });
+
+  it.each([
+    ['a wrong code', { code: (code: string) => String((Number(code) + 1) % 1_000_000).padStart(6, '0') }],
+    ['an expired code', { issuedAt: Date.UTC(2026, 9, 18) }],
+    ['a code for another address', { email: 'eve@example.com' }],
+  ])('sends nothing for %s', async (_case, change: { code?: (code: string) => string; issuedAt?: number; email?: string }) => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { POST, sent } = setup();
+    const { code, token } = await issueCopyCode('test-secret', 'sam@example.com', change.issuedAt ?? Date.UTC(2026, 9, 19));
+    const copy = { ...token, email: change.email ?? token.email, code: change.code ? change.code(code) : code };
+
+    const response = await POST(post({ pdfData: PDF, patientName: 'Sam', copy }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ success: false, message: 'The code is wrong or has expired. Please request a new one.' });
+    expect(sent).toEqual([]);
+  });
+
+  it('counts copy attempts per address', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { POST, sent } = setup({ copyLimiter: createRateLimiter({ limit: 1, windowMs: 60_000, now: () => 0 }) });
+    const { code, token } = await issueCopyCode('test-secret', 'sam@example.com', Date.UTC(2026, 9, 19));
+
+    const wrong = await POST(post({ pdfData: PDF, patientName: 'Sam', copy: { ...token, code: String((Number(code) + 1) % 1_000_000).padStart(6, '0') } }));
+    const right = await POST(post({ pdfData: PDF, patientName: 'Sam', copy: { ...token, code } }));
+
+    expect([wrong.status, right.status]).toEqual([400, 429]);
+    expect(sent).toEqual([]);
+  });
+
+  it('still reports success to the clinic when only the copy fails', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const sent: EmailMessage[] = [];
+    const { POST } = setup({
+      send: async m => {
+        if (m.to.includes('sam@example.com')) throw deliveryError('outbox', 'disk full');
+        sent.push(m);
+      },
+    });
+    const { code, token } = await issueCopyCode('test-secret', 'sam@example.com', Date.UTC(2026, 9, 19));
+
+    const response = await POST(post({ pdfData: PDF, patientName: 'Sam', copy: { ...token, code } }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, copySent: false, message: 'Report sent, but your copy could not be emailed' });
+    expect(sent.map(m => m.to)).toEqual([['inbox@clinic.example']]);
+  });
+
+  it('rejects oversized bodies from their declared length', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { POST } = setup();
+
+    const response = await POST(post({ pdfData: PDF, patientName: 'Sam' }, { 'content-length': String(MAX_BODY_BYTES + 1) }));
+
+    expect(response.status).toBe(413);
+  });
+
+  it('limits reports per client IP behind a trusted proxy', async () => {
+    vi.stubEnv('TRUST_PROXY_HEADERS', 'true');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { POST, sent } = setup({ limiter: createRateLimiter({ limit: 2, windowMs: 60_000, now: () => 0 }) });
+    const body = { pdfData: PDF, patientName: 'Sam' };
+
+    const statuses = [];
+    for (let i = 0; i < 3; i++) statuses.push((await POST(post(body))).status);
+    const limited = await POST(post(body));
+    const otherClient = await POST(post(body, { 'x-forwarded-for': '198.51.100.1' }));
+
+    expect(statuses).toEqual([200, 200, 429]);
+    expect(limited.headers.get('Retry-After')).toBe('60');
+    expect(otherClient.status).toBe(200);
+    expect(sent).toHaveLength(3);
+  });
+
+  it('ignores a forwarded IP that no trusted proxy set', async () => {
+    vi.stubEnv('VERCEL', '');
+    vi.stubEnv('TRUST_PROXY_HEADERS', '');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const { POST } = setup({ limiter: createRateLimiter({ limit: 1, windowMs: 60_000, now: () => 0 }) });
+    const body = { pdfData: PDF, patientName: 'Sam' };
+
+    expect((await POST(post(body))).status).toBe(200);
+    expect((await POST(post(body, { 'x-forwarded-for': '198.51.100.1' }))).status).toBe(429);
+  });
+
+  it.each([
+    ['transport failures', { send: async () => { throw deliveryError('smtp', 'RCPT TO failed: 550 <sam@example.com> unknown', 550); } }, 'Failed to send report', /transport smtp, status 550/],
+    ['missing configuration', { getConfig: () => { throw new Error('REPORT_RECIPIENTS is not set.'); } }, 'Report delivery is not configured', /REPORT_RECIPIENTS is not set/],
+  ])('hides internal details of %s', async (_case, options, message, logged) => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { POST } = setup(options);
+
+    const response = await POST(post({ pdfData: PDF, patientName: 'Sam' }));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ success: false, message });
+    expect(logs()).toMatch(logged);
+    expect(logs()).not.toMatch(/Sam|sam@example\.com/);
+  });
+});
+
+describe('patient names', () => {
+  it.each([
+    ['Alex Doe', 'Alex-Doe'],
+    ['  José  María ', 'Jose-Maria'],
+    ['../../etc/passwd', 'etc-passwd'],
+    ['李雷', 'Patient'],
+    ['a'.repeat(80), 'a'.repeat(60)],
+  ])('filenameSafe(%j) -> %s', (name, safe) => {
+    expect(filenameSafe(name)).toBe(safe);
+  });
+
+  it.each([
+    ['Alex\r\nBcc: x@y.z', 'Alex Bcc: x@y.z'],
+    ['Alex\u202eDoe', 'Alex Doe'],
+    ['  Alex \t Doe ', 'Alex Doe'],
+  ])('cleanPatientName(%j) -> %s', (name, clean) => {
+    expect(cleanPatientName(name)).toBe(clean);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Report Delivery Types
+ * One send interface for every way a report can leave the server.
+ */
+
+export const TRANSPORT_NAMES = ['resend', 'sendgrid', 'smtp', 'outbox'] as const;
+
+export type TransportName = (typeof TRANSPORT_NAMES)[number];
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface EmailMessage {
+  from: string; // "Name <address>" or a bare address
+  to: string[];
+  subject: string;
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+export interface MailTransport {
+  name: TransportName;
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Error raised by a transport; `status` carries the HTTP or SMTP status when there is one
+ */
+export type DeliveryError = Error & { transport: TransportName; status?: number };
+
+export function deliveryError(transport: TransportName, message: string, status?: number): DeliveryError {
+  return Object.assign(new Error(message), { transport, status });
+}
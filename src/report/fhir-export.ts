@@ -0,0 +1,234 @@
+/**
+ * FHIR R4 Export
+ * Turns a completed assessment into a FHIR collection Bundle for clinics:
+ * - Patient from the profile (and an age Observation, since R4 Patient has no age)
+ * - QuestionnaireResponse with the reported symptoms and every question and answer
+ * - Observation per symptom found present or denied, and per detected red flag
+ * - ClinicalImpression with the ranked conditions and the triage advice
+ * Resources reference each other by urn:uuid and the bundle is validated against
+ * the R4 shapes in fhir-schema.ts before it is returned.
+ */
+
+import { KNOWLEDGE_BASE_VERSION, getSymptomLabel } from '@/knowledge-base';
+import type { AdvancedAnalysisOutput } from '@/ai/flows/advanced-symptom-analysis';
+import { extractFindings, resolveFindings } from '@/ai/medical-data/finding-extraction';
+import {
+  AnswerValue,
+  Question,
+  findingsFromAnswers,
+  formatQuestionnaire,
+  pairAnswers,
+  timelineFromAnswers,
+} from '@/ai/medical-data/structured-answers';
+import { mergeTimelines, timelineFromText } from '@/ai/medical-data/symptom-timeline';
+import { TRIAGE_LABELS } from '@/ai/medical-data/triage';
+import {
+  Bundle,
+  BundleSchema,
+  ClinicalImpression,
+  CodeableConcept,
+  FhirResource,
+  Observation,
+  Patient,
+  QuestionnaireResponse,
+  QuestionnaireResponseItem,
+  Reference,
+} from './fhir-schema';
+
+export const SYMPTOM_CODE_SYSTEM = 'urn:isp-wellness:symptom';
+export const RED_FLAG_CODE_SYSTEM = 'urn:isp-wellness:red-flag';
+export const CONDITION_CODE_SYSTEM = 'urn:isp-wellness:condition';
+
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const LOINC_SYSTEM = 'http://loinc.org';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+
+const SURVEY_CATEGORY: CodeableConcept[] = [
+  { coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: 'survey', display: 'Survey' }] },
+];
+
+const DISCLAIMER = 'Preliminary automated symptom assessment; not a medical diagnosis.';
+
+export interface FhirExportInput {
+  profile: { name: string; age: string; gender: string; medicalConditions?: string };
+  symptoms: string; // As the user wrote them
+  questions: Question[];
+  answers: AnswerValue[];
+  analysis: Pick<AdvancedAnalysisOutput, 'conditions' | 'red_flags' | 'triage' | 'scoring_engine'>;
+  completedAt?: Date;
+}
+
+export interface FhirExportOptions {
+  newId?: () => string; // Resource IDs; random UUIDs by default
+}
+
+const PATIENT_GENDERS: Record<string, Patient['gender']> = { male: 'male', female: 'female', other: 'other' };
+
+function answerItem(question: Question, answer: AnswerValue | undefined, linkId: string): QuestionnaireResponseItem {
+  const item: QuestionnaireResponseItem = { linkId, text: question.text };
+  if (!answer) return item;
+
+  switch (answer.kind) {
+    case 'boolean':
+      return { ...item, answer: [{ valueBoolean: answer.value }] };
+    case 'scale':
+      return { ...item, answer: [{ valueInteger: answer.value }] };
+    case 'text':
+      return { ...item, answer: [{ valueString: answer.value }] };
+    case 'option': {
+      const option = question.options?.find(o => o.id === answer.optionId);
+      return { ...item, answer: [{ valueCoding: { code: answer.optionId, display: option?.label } }] };
+    }
+    case 'timeline':
+      // One group per dated symptom; a group holds nested items, never answers (qrs-1)
+      return {
+        ...item,
+        item: answer.entries.map(entry => {
+          const symptomLinkId = `${linkId}.${entry.symptom.replace(/\s+/g, '-')}`;
+          const detail = (key: string, text: string, answer: NonNullable<QuestionnaireResponseItem['answer']>[number]) =>
+            ({ linkId: `${symptomLinkId}.${key}`, text, answer: [answer] });
+          const details: QuestionnaireResponseItem[] = [
+            ...(entry.onset ? [detail('onset', 'Onset', { valueDate: entry.onset })] : []),
+            ...(entry.frequency ? [detail('frequency', 'Frequency', { valueString: entry.frequency })] : []),
+            ...(entry.episodes ? [detail('episodes', 'Episodes', { valueInteger: entry.episodes })] : []),
+            ...(entry.trend ? [detail('trend', 'Trend', { valueString: entry.trend })] : []),
+          ];
+          return { linkId: symptomLinkId, text: getSymptomLabel(entry.symptom), item: details };
+        }),
+      };
+  }
+}
+
+/**
+ * Problems that make a bundle invalid against the R4 shapes, as "path: message"; empty when valid
+ */
+export function validateFhirBundle(bundle: unknown): string[] {
+  const parsed = BundleSchema.safeParse(bundle);
+  if (parsed.success) return [];
+  return parsed.error.issues.map(issue => `${issue.path.join('.') || 'bundle'}: ${issue.message}`);
+}
+
+/**
+ * Build and validate a FHIR R4 collection Bundle for a completed assessment
+ */
+export function buildFhirBundle(input: FhirExportInput, options: FhirExportOptions = {}): Bundle {
+  const newId = options.newId || (() => crypto.randomUUID());
+  const completedAt = input.completedAt || new Date();
+  const authored = completedAt.toISOString();
+  const formattedAnswers = formatQuestionnaire(input.questions, input.answers);
+  const answered = pairAnswers(input.questions, input.answers);
+
+  const entries: Array<{ fullUrl: string; resource: FhirResource }> = [];
+  const add = <T extends FhirResource>(resource: Omit<T, 'id'>): Reference => {
+    const id = newId();
+    const fullUrl = `urn:uuid:${id}`;
+    entries.push({ fullUrl, resource: { ...resource, id } as T });
+    return { reference: fullUrl };
+  };
+
+  const subject = add<Patient>({
+    resourceType: 'Patient',
+    name: [{ text: input.profile.name }],
+    gender: PATIENT_GENDERS[input.profile.gender.toLowerCase()] || 'unknown',
+  });
+
+  const observations: Reference[] = [];
+  const age = parseInt(input.profile.age);
+  if (!isNaN(age)) {
+    observations.push(add<Observation>({
+      resourceType: 'Observation',
+      status: 'final',
+      category: SURVEY_CATEGORY,
+      code: { coding: [{ system: LOINC_SYSTEM, code: '30525-0', display: 'Age' }], text: 'Age' },
+      subject,
+      effectiveDateTime: authored,
+      valueQuantity: { value: age, unit: 'years', system: UCUM_SYSTEM, code: 'a' },
+    }));
+  }
+
+  const questionnaire = add<QuestionnaireResponse>({
+    resourceType: 'QuestionnaireResponse',
+    status: 'completed',
+    subject,
+    authored,
+    item: [
+      { linkId: 'symptoms', text: 'Reported symptoms', answer: [{ valueString: input.symptoms }] },
+      ...(input.profile.medicalConditions
+        ? [{ linkId: 'medical-history', text: 'Medical history', answer: [{ valueString: input.profile.medicalConditions }] }]
+        : []),
+      ...input.questions.map((question, index) => answerItem(question, input.answers[index], `q${index + 1}`)),
+    ],
+  });
+
+  // Symptoms found present or denied; uncertain ones are not asserted either way
+  const findings = [...extractFindings(input.symptoms, formattedAnswers), ...findingsFromAnswers(answered)];
+  const onsets = new Map(
+    mergeTimelines(timelineFromText(input.symptoms, formattedAnswers, completedAt), timelineFromAnswers(answered))
+      .filter(entry => entry.onset)
+      .map(entry => [entry.symptom, entry.onset!])
+  );
+  resolveFindings(findings).forEach((status, symptom) => {
+    if (status === 'uncertain') return;
+    const severities = findings.filter(f => f.symptom === symptom && f.severity).map(f => f.severity!);
+    const label = getSymptomLabel(symptom);
+    observations.push(add<Observation>({
+      resourceType: 'Observation',
+      status: 'final',
+      category: SURVEY_CATEGORY,
+      code: { coding: [{ system: SYMPTOM_CODE_SYSTEM, code: symptom, display: label }], text: label },
+      subject,
+      ...(status === 'present' && onsets.has(symptom)
+        ? { effectivePeriod: { start: onsets.get(symptom) } }
+        : { effectiveDateTime: authored }),
+      valueBoolean: status === 'present',
+      ...(status === 'present' && severities.length > 0 && {
+        component: [{ code: { text: 'Severity (1 mild - 5 severe)' }, valueInteger: Math.max(...severities) }],
+      }),
+    }));
+  });
+
+  input.analysis.red_flags.filter(flag => flag.detected).forEach(flag => {
+    observations.push(add<Observation>({
+      resourceType: 'Observation',
+      status: 'final',
+      category: SURVEY_CATEGORY,
+      code: { coding: [{ system: RED_FLAG_CODE_SYSTEM, code: flag.name, display: flag.name }], text: flag.name },
+      subject,
+      effectiveDateTime: authored,
+      valueBoolean: true,
+      component: [{
+        code: { text: 'Severity (0-1)' },
+        valueQuantity: { value: Math.round(flag.severity * 100) / 100, unit: '1', system: UCUM_SYSTEM, code: '1' },
+      }],
+    }));
+  });
+
+  add<ClinicalImpression>({
+    resourceType: 'ClinicalImpression',
+    status: 'completed',
+    description: 'Symptom assessment',
+    subject,
+    date: authored,
+    protocol: [
+      `urn:isp-wellness:scoring-engine:${input.analysis.scoring_engine}`,
+      `urn:isp-wellness:knowledge-base:${KNOWLEDGE_BASE_VERSION}`,
+    ],
+    summary: `${TRIAGE_LABELS[input.analysis.triage.level]}. ${input.analysis.triage.advice}`,
+    finding: input.analysis.conditions.map((condition, index) => ({
+      itemCodeableConcept: {
+        coding: [{ system: CONDITION_CODE_SYSTEM, code: condition.condition, display: condition.condition }],
+        text: condition.condition,
+      },
+      basis: `Rank ${index + 1}; likelihood ${condition.displayLikelihood || `${Math.round(condition.likelihood * 100)}%`}`,
+    })),
+    supportingInfo: [questionnaire, ...observations],
+    note: [{ text: DISCLAIMER }],
+  });
+
+  const bundle: Bundle = { resourceType: 'Bundle', id: newId(), type: 'collection', timestamp: authored, entry: entries };
+  const issues = validateFhirBundle(bundle);
+  if (issues.length > 0) {
+    throw new Error(`Invalid FHIR bundle: ${issues.join('; ')}`);
+  }
+  return bundle;
+}
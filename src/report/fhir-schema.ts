@@ -0,0 +1,192 @@
+/**
+ * FHIR R4 Schema
+ * Zod schemas for the subset of FHIR R4 resources an assessment exports:
+ * Bundle, Patient, QuestionnaireResponse, Observation and ClinicalImpression.
+ * Required elements, value sets and cardinalities follow the R4 specification
+ * (https://hl7.org/fhir/R4/); elements we never produce are left out, and
+ * unknown elements are rejected so a typo cannot slip into an export.
+ */
+
+import { z } from 'zod';
+
+export const FHIR_JSON_MIME_TYPE = 'application/fhir+json; fhirVersion=4.0';
+
+// R4 primitive formats
+const IdSchema = z.string().regex(/^[A-Za-z0-9\-.]{1,64}$/, 'id must be 1-64 letters, digits, "-" or "."');
+const UriSchema = z.string().regex(/^\S+$/, 'uri must not contain whitespace');
+const DateSchema = z.string().regex(/^\d{4}(-\d{2}(-\d{2})?)?$/, 'date must be YYYY, YYYY-MM or YYYY-MM-DD');
+const DateTimeSchema = z.string().regex(
+  /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/,
+  'dateTime must be an ISO 8601 date or date-time with a time zone'
+);
+const InstantSchema = z.string().regex(
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/,
+  'instant must be a full date-time with a time zone'
+);
+
+export const CodingSchema = z.object({
+  system: UriSchema.optional(),
+  code: z.string().min(1).optional(),
+  display: z.string().min(1).optional(),
+}).strict();
+
+export const CodeableConceptSchema = z.object({
+  coding: z.array(CodingSchema).min(1).optional(),
+  text: z.string().min(1).optional(),
+}).strict();
+
+export const ReferenceSchema = z.object({
+  reference: z.string().min(1),
+  display: z.string().optional(),
+}).strict();
+
+const QuantitySchema = z.object({
+  value: z.number(),
+  unit: z.string().optional(),
+  system: UriSchema.optional(),
+  code: z.string().optional(),
+}).strict();
+
+const AnnotationSchema = z.object({ text: z.string().min(1) }).strict();
+
+const PeriodSchema = z.object({
+  start: DateTimeSchema.optional(),
+  end: DateTimeSchema.optional(),
+}).strict();
+
+export const PatientSchema = z.object({
+  resourceType: z.literal('Patient'),
+  id: IdSchema,
+  name: z.array(z.object({ text: z.string().min(1) }).strict()).optional(),
+  gender: z.enum(['male', 'female', 'other', 'unknown']).optional(),
+}).strict();
+
+// value[x] allows exactly one type per answer
+const AnswerValueShape = {
+  valueBoolean: z.boolean().optional(),
+  valueInteger: z.number().int().optional(),
+  valueDate: DateSchema.optional(),
+  valueString: z.string().optional(),
+  valueCoding: CodingSchema.optional(),
+};
+
+export type QuestionnaireResponseItem = {
+  linkId: string;
+  text?: string;
+  answer?: Array<{ [K in keyof typeof AnswerValueShape]?: z.infer<(typeof AnswerValueShape)[K]> }>;
+  item?: QuestionnaireResponseItem[];
+};
+
+const exactlyOneValue = (answer: Record<string, unknown>) =>
+  Object.keys(AnswerValueShape).filter(key => answer[key] !== undefined).length === 1;
+
+export const QuestionnaireResponseItemSchema: z.ZodType<QuestionnaireResponseItem> = z.lazy(() =>
+  z.object({
+    linkId: z.string().min(1),
+    text: z.string().optional(),
+    answer: z.array(z.object(AnswerValueShape).strict().refine(exactlyOneValue, 'answer needs exactly one value[x]')).optional(),
+    item: z.array(QuestionnaireResponseItemSchema).optional(),
+  }).strict().refine(
+    item => !(item.answer && item.item), // qrs-1
+    'an item holds either answers or nested items, not both'
+  )
+);
+
+export const QuestionnaireResponseSchema = z.object({
+  resourceType: z.literal('QuestionnaireResponse'),
+  id: IdSchema,
+  status: z.enum(['in-progress', 'completed', 'amended', 'entered-in-error', 'stopped']),
+  subject: ReferenceSchema.optional(),
+  authored: DateTimeSchema.optional(),
+  item: z.array(QuestionnaireResponseItemSchema).optional(),
+}).strict();
+
+export const ObservationSchema = z.object({
+  resourceType: z.literal('Observation'),
+  id: IdSchema,
+  status: z.enum(['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown']),
+  category: z.array(CodeableConceptSchema).optional(),
+  code: CodeableConceptSchema,
+  subject: ReferenceSchema.optional(),
+  effectiveDateTime: DateTimeSchema.optional(),
+  effectivePeriod: PeriodSchema.optional(),
+  valueBoolean: z.boolean().optional(),
+  valueQuantity: QuantitySchema.optional(),
+  interpretation: z.array(CodeableConceptSchema).optional(),
+  note: z.array(AnnotationSchema).optional(),
+  component: z.array(z.object({
+    code: CodeableConceptSchema,
+    valueInteger: z.number().int().optional(),
+    valueQuantity: QuantitySchema.optional(),
+  }).strict()).optional(),
+}).strict()
+  .refine(o => !(o.effectiveDateTime && o.effectivePeriod), 'effective[x] allows one type')
+  .refine(o => !(o.valueBoolean !== undefined && o.valueQuantity), 'value[x] allows one type');
+
+export const ClinicalImpressionSchema = z.object({
+  resourceType: z.literal('ClinicalImpression'),
+  id: IdSchema,
+  status: z.enum(['in-progress', 'completed', 'entered-in-error']),
+  description: z.string().optional(),
+  subject: ReferenceSchema,
+  date: DateTimeSchema.optional(),
+  protocol: z.array(UriSchema).optional(),
+  summary: z.string().optional(),
+  finding: z.array(z.object({
+    itemCodeableConcept: CodeableConceptSchema.optional(),
+    itemReference: ReferenceSchema.optional(),
+    basis: z.string().optional(),
+  }).strict()).optional(),
+  supportingInfo: z.array(ReferenceSchema).optional(),
+  note: z.array(AnnotationSchema).optional(),
+}).strict();
+
+export const FhirResourceSchema = z.union([
+  PatientSchema,
+  QuestionnaireResponseSchema,
+  ObservationSchema,
+  ClinicalImpressionSchema,
+]);
+
+/**
+ * Every reference in a bundle entry, to check that references resolve inside the bundle
+ */
+function collectReferences(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(collectReferences);
+  if (!value || typeof value !== 'object') return [];
+  return Object.entries(value).flatMap(([key, child]) =>
+    key === 'reference' && typeof child === 'string' ? [child] : collectReferences(child)
+  );
+}
+
+export const BundleSchema = z.object({
+  resourceType: z.literal('Bundle'),
+  id: IdSchema.optional(),
+  type: z.enum([
+    'document', 'message', 'transaction', 'transaction-response', 'batch',
+    'batch-response', 'history', 'searchset', 'collection',
+  ]),
+  timestamp: InstantSchema.optional(),
+  entry: z.array(z.object({
+    fullUrl: UriSchema.optional(),
+    resource: FhirResourceSchema,
+  }).strict()).optional(),
+}).strict().superRefine((bundle, ctx) => {
+  const fullUrls = (bundle.entry || []).map(e => e.fullUrl).filter((url): url is string => !!url);
+  if (new Set(fullUrls).size !== fullUrls.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'entry fullUrls must be unique' }); // bdl-7
+  }
+  collectReferences(bundle.entry).filter(ref => !fullUrls.includes(ref)).forEach(ref => {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `reference ${ref} does not resolve within the bundle` });
+  });
+});
+
+export type Coding = z.infer<typeof CodingSchema>;
+export type CodeableConcept = z.infer<typeof CodeableConceptSchema>;
+export type Reference = z.infer<typeof ReferenceSchema>;
+export type Patient = z.infer<typeof PatientSchema>;
+export type QuestionnaireResponse = z.infer<typeof QuestionnaireResponseSchema>;
+export type Observation = z.infer<typeof ObservationSchema>;
+export type ClinicalImpression = z.infer<typeof ClinicalImpressionSchema>;
+export type FhirResource = z.infer<typeof FhirResourceSchema>;
+export type Bundle = z.infer<typeof BundleSchema>;
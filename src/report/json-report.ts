@@ -0,0 +1,164 @@
+/**
+ * JSON Report
+ * Versioned, machine-readable record of a completed assessment: profile, symptoms
+ * as written and as extracted, every question with its type and options, the
+ * answers, and the full scoring output with the engine and knowledge base that
+ * produced it. A downloaded report can be opened again later, either showing the
+ * saved results or re-scoring the same answers with the engine that scored them.
+ */
+
+import { z } from 'zod';
+import { KNOWLEDGE_BASE_VERSION, getSymptomLabel } from '@/knowledge-base';
+import type { AdvancedAnalysisOutput } from '@/ai/flows/advanced-symptom-analysis';
+import { SCORING_ENGINES } from '@/ai/medical-data/bayesian-scoring';
+import { CLUSTER_TYPES } from '@/ai/medical-data/cluster-classification';
+import { extractFindings, resolveFindings } from '@/ai/medical-data/finding-extraction';
+import { LEDGER_STEP_KINDS } from '@/ai/medical-data/score-ledger';
+import {
+  AnswerValue,
+  AnswerValueSchema,
+  Question,
+  QuestionSchema,
+  findingsFromAnswers,
+  formatQuestionnaire,
+  pairAnswers,
+} from '@/ai/medical-data/structured-answers';
+import { SymptomTimelineEntrySchema } from '@/ai/medical-data/symptom-timeline';
+import { TRIAGE_LEVELS } from '@/ai/medical-data/triage';
+import { SessionProfileSchema } from '@/client/assessmentSession';
+
+export const JSON_REPORT_FORMAT = 'isp-wellness-report';
+
+export const JSON_REPORT_VERSION = 1;
+
+export const JSON_REPORT_MIME_TYPE = 'application/json';
+
+// Parses to an AdvancedAnalysisOutput, so a saved analysis can be shown as it was scored
+const AnalysisSchema: z.ZodType<AdvancedAnalysisOutput> = z.object({
+  conditions: z.array(z.object({
+    condition: z.string(),
+    likelihood: z.number().min(0).max(1),
+    description: z.string(),
+    webmd_search_term: z.string(),
+    cluster: z.array(z.string()),
+    explanation: z.string(),
+    displayLikelihood: z.string().optional(),
+    ledger: z.array(z.object({
+      step: z.enum(LEDGER_STEP_KINDS),
+      label: z.string(),
+      operation: z.enum(['add', 'multiply', 'set']),
+      value: z.number(),
+      score_after: z.number(),
+      factor: z.number().optional(),
+      detail: z.string().optional(),
+    })),
+  })),
+  scoring_engine: z.enum(SCORING_ENGINES),
+  dominant_clusters: z.array(z.enum(CLUSTER_TYPES)),
+  red_flags: z.array(z.object({ name: z.string(), detected: z.boolean(), severity: z.number().min(0).max(1) })),
+  triage: z.object({
+    level: z.enum(TRIAGE_LEVELS),
+    reasons: z.array(z.object({ rule: z.string(), level: z.enum(TRIAGE_LEVELS), reason: z.string() })),
+    advice: z.string(),
+  }),
+  time_course: z.object({
+    duration_days: z.number().optional(),
+    pattern: z.enum(['acute', 'relapsing', 'progressive', 'chronic', 'unknown']),
+    interpretation: z.string(),
+    timeline: z.array(SymptomTimelineEntrySchema),
+  }),
+});
+
+export const JsonReportSchema = z.object({
+  format: z.literal(JSON_REPORT_FORMAT),
+  version: z.literal(JSON_REPORT_VERSION),
+  exportedAt: z.string().datetime(),
+  assessmentId: z.string().min(1).optional(), // Its entry in the assessment history; older reports have none
+  engine: z.object({
+    scoringEngine: z.enum(SCORING_ENGINES),
+    knowledgeBaseVersion: z.string(),
+  }),
+  profile: SessionProfileSchema,
+  symptoms: z.string(), // As the user wrote them
+  extractedSymptoms: z.array(z.object({
+    symptom: z.string(), // Canonical ID
+    label: z.string(),
+    status: z.enum(['present', 'absent', 'uncertain']),
+  })),
+  questions: z.array(QuestionSchema),
+  answers: z.array(AnswerValueSchema), // By question position
+  analysis: AnalysisSchema,
+});
+
+export type JsonReport = z.infer<typeof JsonReportSchema>;
+
+export interface JsonReportInput {
+  profile: z.infer<typeof SessionProfileSchema>;
+  symptoms: string;
+  questions: Question[];
+  answers: AnswerValue[];
+  analysis: AdvancedAnalysisOutput;
+  assessmentId?: string;
+}
+
+/**
+ * Capture a completed assessment as a report
+ */
+export function buildJsonReport(input: JsonReportInput, now: Date = new Date()): JsonReport {
+  const findings = resolveFindings([
+    ...extractFindings(input.symptoms, formatQuestionnaire(input.questions, input.answers)),
+    ...findingsFromAnswers(pairAnswers(input.questions, input.answers)),
+  ]);
+
+  return {
+    format: JSON_REPORT_FORMAT,
+    version: JSON_REPORT_VERSION,
+    exportedAt: now.toISOString(),
+    ...(input.assessmentId ? { assessmentId: input.assessmentId } : {}),
+    engine: { scoringEngine: input.analysis.scoring_engine, knowledgeBaseVersion: KNOWLEDGE_BASE_VERSION },
+    profile: input.profile,
+    symptoms: input.symptoms,
+    extractedSymptoms: Array.from(findings, ([symptom, status]) => ({ symptom, label: getSymptomLabel(symptom), status })),
+    questions: input.questions,
+    answers: input.answers,
+    analysis: input.analysis,
+  };
+}
+
+/**
+ * Read a downloaded report; throws an error whose message can be shown to the user
+ */
+export function parseJsonReport(text: string): JsonReport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a valid JSON report.');
+  }
+
+  const header = z.object({ format: z.literal(JSON_REPORT_FORMAT), version: z.number() }).safeParse(data);
+  if (!header.success) {
+    throw new Error('This file is not an ISP Wellness Assistant report.');
+  }
+  if (header.data.version > JSON_REPORT_VERSION) {
+    throw new Error('This report was saved by a newer version of the app.');
+  }
+
+  const parsed = JsonReportSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`This report is damaged (${issue.path.join('.') || 'report'}: ${issue.message}).`);
+  }
+  // Answers must line up with their questions to be shown or re-scored
+  if (parsed.data.answers.length > parsed.data.questions.length) {
+    throw new Error('This report is damaged (more answers than questions).');
+  }
+  return parsed.data;
+}
+
+/**
+ * Whether the report was scored with the knowledge base this app now uses
+ */
+export function isCurrentKnowledgeBase(report: JsonReport): boolean {
+  return report.engine.knowledgeBaseVersion === KNOWLEDGE_BASE_VERSION;
+}
@@ -0,0 +1,278 @@
+/**
+ * PDF Report Renderer
+ * Renders a PdfReport with a PdfTemplate in two steps:
+ * - layoutPdfReport places every text run, box and rule on numbered pages,
+ *   breaking pages and filling in the table of contents and page furniture
+ * - drawPdfLayout draws that layout into a jsPDF document
+ * The layout is plain data, so tests can check a report's structure without
+ * reading PDF bytes.
+ */
+
+import jsPDF from 'jspdf';
+import type { PdfReport } from './pdf-report';
+import { DEFAULT_PDF_TEMPLATE, PdfSectionId, PdfTemplate, PdfTextStyle } from './pdf-template';
+
+export interface PdfFont {
+  name: string;
+  bold: boolean;
+  size: number;
+  color: string;
+}
+
+export type PdfElement =
+  | { kind: 'text'; x: number; y: number; lines: string[]; font: PdfFont; lineHeight: number; align: 'left' | 'center' | 'right' }
+  | { kind: 'box'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string }
+  | { kind: 'rule'; x1: number; x2: number; y: number; color: string; width: number };
+
+export interface PdfLayout {
+  width: number;
+  height: number;
+  pages: PdfElement[][];
+  contents: Array<{ title: string; page: number }>; // 1-based pages
+}
+
+export interface TextMeasure {
+  split: (text: string, maxWidth: number, font: PdfFont) => string[];
+}
+
+const A4 = { width: 595.28, height: 841.89 }; // Points
+
+function applyFont(doc: jsPDF, font: PdfFont): void {
+  doc.setFont(font.name, font.bold ? 'bold' : 'normal');
+  doc.setFontSize(font.size);
+  doc.setTextColor(font.color);
+}
+
+/**
+ * Line breaking with jsPDF's font metrics
+ */
+export function measureWith(doc: jsPDF): TextMeasure {
+  return {
+    split: (text, maxWidth, font) => {
+      applyFont(doc, font);
+      return doc.splitTextToSize(text, maxWidth);
+    },
+  };
+}
+
+/**
+ * Place a report on pages
+ */
+export function layoutPdfReport(
+  report: PdfReport,
+  template: PdfTemplate,
+  measure: TextMeasure,
+  size: { width: number; height: number } = A4
+): PdfLayout {
+  const { margin } = template.page;
+  const { spacing } = template;
+  const colors = template.branding.colors;
+  const contentWidth = size.width - margin * 2;
+  const top = margin + template.page.headerHeight;
+  const bottom = size.height - template.page.footerHeight;
+
+  const font = (style: PdfTextStyle): PdfFont => ({
+    name: template.branding.font,
+    bold: style.bold,
+    size: style.size,
+    color: colors[style.color],
+  });
+  const styles = {
+    label: font(template.styles.label),
+    body: font(template.styles.body),
+    title: font(template.styles.sectionTitle),
+  };
+
+  const pages: PdfElement[][] = [];
+  const contents: PdfLayout['contents'] = [];
+  let page: PdfElement[] = [];
+  let cursorY = top;
+
+  const newPage = () => {
+    page = [];
+    pages.push(page);
+    cursorY = top;
+  };
+  const ensureSpace = (height: number) => {
+    if (cursorY + height > bottom && cursorY > top) newPage();
+  };
+  // Baselines sit one font size below the top of each line
+  const text = (lines: string[], x: number, y: number, f: PdfFont, align: 'left' | 'center' | 'right' = 'left') => {
+    page.push({ kind: 'text', x, y: y + f.size, lines, font: f, lineHeight: spacing.line, align });
+  };
+  const paragraph = (value: string, x: number, f: PdfFont) => {
+    const lines = measure.split(value, contentWidth - (x - margin), f);
+    ensureSpace(lines.length * spacing.line);
+    text(lines, x, cursorY, f);
+    cursorY += lines.length * spacing.line;
+  };
+
+  const keyValueTable = (rows: Array<[string, string]>) => {
+    const valueWidth = contentWidth - template.labelWidth;
+    rows.forEach(([label, value]) => {
+      const labelLines = measure.split(label, template.labelWidth - spacing.padding * 2, styles.label);
+      const valueLines = measure.split(value, valueWidth - spacing.padding * 2, styles.body);
+      const height = Math.max(labelLines.length, valueLines.length) * spacing.line + spacing.padding * 2;
+      ensureSpace(height);
+      page.push({ kind: 'box', x: margin, y: cursorY, width: template.labelWidth, height, stroke: colors.border });
+      page.push({ kind: 'box', x: margin + template.labelWidth, y: cursorY, width: valueWidth, height, stroke: colors.border });
+      text(labelLines, margin + spacing.padding, cursorY + spacing.padding, styles.label);
+      text(valueLines, margin + template.labelWidth + spacing.padding, cursorY + spacing.padding, styles.body);
+      cursorY += height;
+    });
+  };
+
+  // A shaded item: a bold heading line and indented body lines, kept on one page
+  const boxedItem = (heading: string, body: string[]) => {
+    const indent = spacing.padding * 3;
+    const headingLines = measure.split(heading, contentWidth - spacing.padding * 2, styles.label);
+    const bodyLines = body.flatMap(line => measure.split(line, contentWidth - indent - spacing.padding, styles.body));
+    const height = (headingLines.length + bodyLines.length) * spacing.line + spacing.padding * 2;
+    ensureSpace(height);
+    page.push({ kind: 'box', x: margin, y: cursorY, width: contentWidth, height, fill: colors.background });
+    text(headingLines, margin + spacing.padding, cursorY + spacing.padding, styles.label);
+    if (bodyLines.length > 0) {
+      text(bodyLines, margin + indent, cursorY + spacing.padding + headingLines.length * spacing.line, styles.body);
+    }
+    cursorY += height + spacing.paragraph;
+  };
+
+  const sectionContent: Record<PdfSectionId, () => void> = {
+    patient: () => keyValueTable([
+      ['Name', report.patient.name],
+      ['Age', report.patient.age],
+      ['Gender', report.patient.gender],
+      ...(report.patient.email ? [['Email', report.patient.email] as [string, string]] : []),
+      ['Report Date', template.formatDate(report.generatedAt)],
+      ...(report.patient.medicalHistory ? [['Medical History', report.patient.medicalHistory] as [string, string]] : []),
+    ]),
+    symptoms: () => keyValueTable([['Symptoms', report.symptoms]]),
+    questions: () => {
+      if (report.questionsAndAnswers.length === 0) return paragraph('No Q&A session data available', margin, styles.body);
+      report.questionsAndAnswers.forEach(({ question, answer }, index) => boxedItem(`Q${index + 1}: ${question}`, [answer]));
+    },
+    conditions: () => {
+      if (report.conditions.length === 0) return paragraph('No potential conditions found.', margin, styles.body);
+      report.conditions.forEach((condition, index) => boxedItem(
+        `Condition ${index + 1}: ${condition.name}`,
+        [`Likelihood: ${condition.likelihood}`, ...(condition.description ? [condition.description] : [])]
+      ));
+    },
+    'next-steps': () => {
+      if (report.triage) {
+        boxedItem(report.triage.label, [
+          report.triage.advice,
+          ...(report.redFlags.length > 0 ? [`Warning signs: ${report.redFlags.join(', ')}`] : []),
+        ]);
+      }
+      template.recommendations.forEach(recommendation => paragraph(`• ${recommendation}`, margin + spacing.padding * 2, styles.body));
+    },
+    disclaimer: () => template.disclaimer.forEach(line => {
+      paragraph(line, margin, styles.body);
+      cursorY += spacing.paragraph;
+    }),
+  };
+
+  if (template.cover) {
+    newPage();
+    const info = font(template.styles.coverInfo);
+    const middle = size.height / 2;
+    page.push({ kind: 'box', x: 0, y: 0, width: size.width, height: size.height, fill: colors.background });
+    text([template.branding.name], size.width / 2, middle - 60 - template.styles.coverTitle.size, font(template.styles.coverTitle), 'center');
+    text([template.branding.subtitle], size.width / 2, middle - 20 - template.styles.coverSubtitle.size, font(template.styles.coverSubtitle), 'center');
+    text([`Patient: ${report.patient.name}`], size.width / 2, middle + 20 - info.size, info, 'center');
+    text([`Date: ${template.formatDate(report.generatedAt)}`], size.width / 2, middle + 50 - info.size, info, 'center');
+    page.push({ kind: 'rule', x1: margin, x2: size.width - margin, y: middle + 80, color: colors.primary, width: 2 });
+  }
+
+  // The contents page is filled in once every section's page is known
+  let contentsPage: PdfElement[] | undefined;
+  if (template.tableOfContents) {
+    newPage();
+    contentsPage = page;
+  }
+
+  template.sections.forEach(({ id, title, newPage: startsPage, titleColor }, index) => {
+    if (startsPage || index === 0) {
+      newPage();
+    } else {
+      cursorY += spacing.section;
+      ensureSpace(spacing.section * 3); // Never strand a title at the foot of a page
+    }
+    const numbered = `${index + 1}. ${title}`;
+    text([numbered], margin, cursorY, titleColor ? { ...styles.title, color: colors[titleColor] } : styles.title);
+    contents.push({ title: numbered, page: pages.length });
+    cursorY += spacing.section;
+    sectionContent[id]();
+  });
+
+  if (contentsPage) {
+    page = contentsPage;
+    cursorY = top;
+    text(['Table of Contents'], margin, cursorY, styles.title);
+    cursorY += spacing.section;
+    contents.forEach(entry => {
+      text([entry.title], margin, cursorY, styles.body);
+      text([String(entry.page)], size.width - margin, cursorY, styles.body, 'right');
+      cursorY += spacing.line;
+    });
+  }
+
+  // Page furniture goes on last, once the page count is known
+  const header = font(template.styles.header);
+  const footer = font(template.styles.footer);
+  pages.forEach((elements, index) => {
+    page = elements;
+    const isCover = template.cover && index === 0;
+    if (template.header && !isCover) {
+      text([template.header(report)], margin, margin - header.size - 10, header);
+    }
+    page.push({ kind: 'rule', x1: margin, x2: size.width - margin, y: size.height - 35, color: colors.border, width: 0.5 });
+    text([template.footer(index + 1, pages.length, report)], size.width / 2, size.height - 20 - footer.size, footer, 'center');
+  });
+
+  return { width: size.width, height: size.height, pages, contents };
+}
+
+/**
+ * Draw a layout into a document whose first page is still blank
+ */
+export function drawPdfLayout(layout: PdfLayout, doc: jsPDF): void {
+  layout.pages.forEach((elements, index) => {
+    if (index > 0) doc.addPage();
+    elements.forEach(element => {
+      switch (element.kind) {
+        case 'text':
+          applyFont(doc, element.font);
+          doc.text(element.lines, element.x, element.y, {
+            align: element.align,
+            lineHeightFactor: element.lineHeight / element.font.size,
+          });
+          break;
+        case 'box':
+          if (element.fill) doc.setFillColor(element.fill);
+          if (element.stroke) {
+            doc.setDrawColor(element.stroke);
+            doc.setLineWidth(0.5);
+          }
+          doc.rect(element.x, element.y, element.width, element.height, element.fill && element.stroke ? 'FD' : element.fill ? 'F' : 'S');
+          break;
+        case 'rule':
+          doc.setDrawColor(element.color);
+          doc.setLineWidth(element.width);
+          doc.line(element.x1, element.y, element.x2, element.y);
+          break;
+      }
+    });
+  });
+}
+
+/**
+ * Render a report to a new A4 document
+ */
+export function renderPdfReport(report: PdfReport, template: PdfTemplate = DEFAULT_PDF_TEMPLATE): jsPDF {
+  const doc = new jsPDF('portrait', 'pt', 'a4');
+  const size = { width: doc.internal.pageSize.getWidth(), height: doc.internal.pageSize.getHeight() };
+  drawPdfLayout(layoutPdfReport(report, template, measureWith(doc), size), doc);
+  return doc;
+}
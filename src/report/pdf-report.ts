@@ -0,0 +1,114 @@
+/**
+ * PDF Report Model
+ * What a PDF report says, independent of how it is laid out. Both results
+ * pages build one of these: the questionnaire flow from its advanced analysis,
+ * the /conditions route from its symptom analysis. The renderer turns it into
+ * pages using a template.
+ */
+
+import type { AdvancedAnalysisOutput } from '@/ai/flows/advanced-symptom-analysis';
+import type { SymptomAnalysisOutput } from '@/ai/flows/symptom-analysis';
+import { AnswerValue, Question, formatAnswer } from '@/ai/medical-data/structured-answers';
+import { TRIAGE_LABELS } from '@/ai/medical-data/triage';
+
+export interface PdfReport {
+  generatedAt: Date;
+  patient: {
+    name: string;
+    age: string;
+    gender: string;
+    email?: string;
+    medicalHistory?: string;
+  };
+  symptoms: string; // As the user wrote them
+  questionsAndAnswers: Array<{ question: string; answer: string }>;
+  conditions: Array<{ name: string; likelihood: string; description?: string }>; // Most likely first
+  triage?: { label: string; advice: string };
+  redFlags: string[]; // Detected red flags only
+}
+
+const NO_ANSWER = 'No answer provided';
+
+function likelihoodText(likelihood: number): string {
+  return `${Math.round(likelihood * 100)}%`;
+}
+
+/**
+ * Report for the questionnaire flow on /
+ */
+export function pdfReportFromAssessment(
+  input: {
+    profile: { name: string; age: string; gender: string; medicalConditions?: string };
+    symptoms: string;
+    questions: Question[];
+    answers: AnswerValue[];
+    analysis: Pick<AdvancedAnalysisOutput, 'conditions' | 'red_flags' | 'triage'>;
+  },
+  now: Date = new Date()
+): PdfReport {
+  return {
+    generatedAt: now,
+    patient: {
+      name: input.profile.name,
+      age: input.profile.age,
+      gender: input.profile.gender,
+      medicalHistory: input.profile.medicalConditions || undefined,
+    },
+    symptoms: input.symptoms,
+    questionsAndAnswers: input.questions.map((question, index) => ({
+      question: question.text,
+      answer: input.answers[index] ? formatAnswer(question, input.answers[index]) : NO_ANSWER,
+    })),
+    conditions: input.analysis.conditions.map(c => ({
+      name: c.condition,
+      likelihood: c.displayLikelihood || likelihoodText(c.likelihood),
+      description: c.description || undefined,
+    })),
+    triage: { label: TRIAGE_LABELS[input.analysis.triage.level], advice: input.analysis.triage.advice },
+    redFlags: input.analysis.red_flags.filter(f => f.detected).map(f => f.name),
+  };
+}
+
+/**
+ * Report for the /conditions route, whose questions and answers are plain text
+ */
+export function pdfReportFromSymptomAnalysis(
+  input: {
+    name: string;
+    age: string;
+    gender: string;
+    email: string;
+    symptoms: string;
+    medicalHistory: string;
+    questions: string[];
+    answers: string[];
+    conditions: SymptomAnalysisOutput;
+  },
+  now: Date = new Date()
+): PdfReport {
+  return {
+    generatedAt: now,
+    patient: {
+      name: input.name,
+      age: input.age,
+      gender: input.gender,
+      email: input.email || undefined,
+      medicalHistory: input.medicalHistory || undefined,
+    },
+    symptoms: input.symptoms,
+    questionsAndAnswers: input.questions.map((question, index) => ({
+      question,
+      answer: input.answers[index] || NO_ANSWER,
+    })),
+    conditions: input.conditions.map(c => ({
+      name: c.condition,
+      likelihood: likelihoodText(c.likelihood),
+      description: c.description,
+    })),
+    redFlags: [],
+  };
+}
+
+export function pdfReportFilename(report: PdfReport): string {
+  return `ISP-Wellness-Assistant-Report-${report.patient.name}-${report.generatedAt.toISOString().split('T')[0]}.pdf`;
+}
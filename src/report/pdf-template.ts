@@ -0,0 +1,120 @@
+/**
+ * PDF Report Template
+ * Branding, page furniture and section order for PDF reports. The renderer
+ * reads everything it draws from here, so a differently styled report is a
+ * new template rather than a new renderer.
+ */
+
+import type { PdfReport } from './pdf-report';
+
+export type PdfSectionId = 'patient' | 'symptoms' | 'questions' | 'conditions' | 'next-steps' | 'disclaimer';
+
+export interface PdfColors {
+  primary: string; // Titles, labels and rules
+  text: string;
+  muted: string; // Page headers
+  warning: string;
+  background: string; // Cover page and boxed items
+  border: string;
+}
+
+export interface PdfTextStyle {
+  size: number;
+  bold: boolean;
+  color: keyof PdfColors;
+}
+
+export interface PdfTemplate {
+  branding: {
+    name: string;
+    subtitle: string;
+    font: string; // A jsPDF standard font
+    colors: PdfColors;
+  };
+  page: {
+    margin: number;
+    headerHeight: number; // Space kept clear at the top of content pages
+    footerHeight: number; // Space kept clear at the bottom of every page
+  };
+  styles: {
+    coverTitle: PdfTextStyle;
+    coverSubtitle: PdfTextStyle;
+    coverInfo: PdfTextStyle;
+    sectionTitle: PdfTextStyle;
+    label: PdfTextStyle;
+    body: PdfTextStyle;
+    header: PdfTextStyle;
+    footer: PdfTextStyle;
+  };
+  spacing: {
+    section: number; // Below a section title and between sections
+    paragraph: number;
+    line: number; // Baseline to baseline
+    padding: number; // Inside tables and boxes
+  };
+  labelWidth: number; // Label column of key-value tables
+  cover: boolean;
+  tableOfContents: boolean;
+  sections: Array<{ id: PdfSectionId; title: string; newPage: boolean; titleColor?: keyof PdfColors }>;
+  recommendations: string[];
+  disclaimer: string[];
+  formatDate: (date: Date) => string;
+  header?: (report: PdfReport) => string; // Content pages only
+  footer: (page: number, totalPages: number, report: PdfReport) => string;
+}
+
+export const DEFAULT_PDF_TEMPLATE: PdfTemplate = {
+  branding: {
+    name: 'ISP Wellness Assistant',
+    subtitle: 'Comprehensive Wellness Analysis Report',
+    font: 'helvetica',
+    colors: {
+      primary: '#FFB366',
+      text: '#2d3748',
+      muted: '#718096',
+      warning: '#c53030',
+      background: '#f7fafc',
+      border: '#e2e8f0',
+    },
+  },
+  page: { margin: 50, headerHeight: 20, footerHeight: 50 },
+  styles: {
+    coverTitle: { size: 37, bold: true, color: 'primary' },
+    coverSubtitle: { size: 21, bold: true, color: 'primary' },
+    coverInfo: { size: 13, bold: true, color: 'text' },
+    sectionTitle: { size: 21, bold: true, color: 'primary' },
+    label: { size: 11, bold: true, color: 'primary' },
+    body: { size: 11, bold: false, color: 'text' },
+    header: { size: 9, bold: false, color: 'muted' },
+    footer: { size: 9, bold: false, color: 'text' },
+  },
+  spacing: { section: 35, paragraph: 15, line: 16, padding: 8 },
+  labelWidth: 150,
+  cover: true,
+  tableOfContents: true,
+  sections: [
+    { id: 'patient', title: 'Patient Information', newPage: true },
+    { id: 'symptoms', title: 'Reported Symptoms', newPage: false },
+    { id: 'questions', title: 'Q&A Session', newPage: true },
+    { id: 'conditions', title: 'Analysis Results', newPage: true },
+    { id: 'next-steps', title: 'Recommendations', newPage: true },
+    { id: 'disclaimer', title: 'Important Disclaimer', newPage: false, titleColor: 'warning' },
+  ],
+  recommendations: [
+    'Consult with a healthcare provider for professional medical advice',
+    'Keep track of any changes in symptoms',
+    'Follow up with recommended specialists if needed',
+    'Maintain a record of medications and treatments',
+    'Schedule regular check-ups as advised',
+  ],
+  disclaimer: [
+    'This report is generated by ISP Wellness Assistant and is not a substitute for professional medical advice.',
+    'Always consult a qualified healthcare provider for proper diagnosis and treatment.',
+    'The information provided in this report is based on the symptoms and information provided by the patient.',
+    'ISP Wellness Assistant is not responsible for any decisions made based on this report.',
+  ],
+  formatDate: date => date.toLocaleDateString(),
+  header: report => `ISP Wellness Assistant | ${report.patient.name}`,
+  footer: (page, totalPages, report) =>
+    `Page ${page} of ${totalPages} | ISP Wellness Assistant Report | Generated: ${report.generatedAt.toLocaleString()}`,
+};
@@ -0,0 +1,55 @@
+import type jsPDF from 'jspdf';
+import { postSigned } from '@/client/apiSession';
+import type { CopyCodeToken, VerifiedCopy } from './delivery/copy-verification';
+import { PdfReport, pdfReportFilename } from './pdf-report';
+
+export const COPY_CODE_URL = '/api/report-copy/code';
+
+/**
+ * Have a one-time code mailed to `email`; the token that comes back is sent
+ * with the code to receive a copy of the report there
+ */
+export async function requestCopyCode(email: string): Promise<CopyCodeToken> {
+  const { expiresAt, token } = await postSigned<CopyCodeToken>(COPY_CODE_URL, { email });
+  return { email, expiresAt, token };
+}
+
+/**
+ * Email a rendered report through /api/send-report and save a copy locally;
+ * the copy is saved even when sending fails. `copy` is only set when the user
+ * asked for the report to be emailed to them as well and entered their code.
+ * Returns the server's message when sending, or only the copy, failed.
+ */
+export async function sendAndSavePdfReport(
+  report: PdfReport,
+  doc: jsPDF,
+  options: { copy?: VerifiedCopy } = {}
+): Promise<string | undefined> {
+  const pdfData = doc.output('datauristring').split(',')[1];
+  let failure: string | undefined;
+
+  try {
+    const response = await fetch('/api/send-report', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        pdfData,
+        patientName: report.patient.name,
+        ...(options.copy ? { copy: options.copy } : {}),
+      }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.message || 'Failed to send report');
+    }
+    if (result.copySent === false) failure = result.message;
+  } catch (error) {
+    console.error('Error sending report:', error);
+    failure = (error as Error).message || 'Failed to send report';
+  }
+  doc.save(pdfReportFilename(report));
+  return failure;
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import type { AdvancedAnalysisOutput } from '@/ai/flows/advanced-symptom-analysis';
+import { AnswerValue, buildQuestion, buildTimelineQuestion } from '@/ai/medical-data/structured-answers';
+import { FhirExportInput, SYMPTOM_CODE_SYSTEM, buildFhirBundle, validateFhirBundle } from '../fhir-export';
+import { Bundle, ClinicalImpression, FhirResource, Observation, QuestionnaireResponse } from '../fhir-schema';
+
+const NOW = new Date(Date.UTC(2026, 9, 19, 8, 30));
+
+function sequentialIds() {
+  let next = 0;
+  return () => `00000000-0000-4000-8000-${String(++next).padStart(12, '0')}`;
+}
+
+const analysis = {
+  conditions: [
+    { condition: 'Multiple Sclerosis (MS)', likelihood: 0.6, displayLikelihood: '60%' },
+    { condition: 'Vitamin B12 Deficiency', likelihood: 0.35 },
+  ],
+  red_flags: [
+    { name: 'Progressive Neurological Deficit', detected: true, severity: 0.8 },
+    { name: 'Unexplained Weight Loss', detected: false, severity: 0 },
+  ],
+  triage: { level: 'gp', reasons: [], advice: 'Book an appointment with your GP within a few days.' },
+  scoring_engine: 'bayesian',
+} as unknown as AdvancedAnalysisOutput;
+
+const questions = [
+  buildQuestion(1, { text: 'Do you have a fever?', type: 'yesno' }),
+  buildQuestion(2, { text: 'What seems to bring your symptoms on?', type: 'multiple', options: ['Heat', 'Exercise'] }),
+  buildQuestion(3, { text: 'How severe is your numbness?', type: 'scale', target: 'numbness' }),
+  buildTimelineQuestion(4, ['numbness', 'fatigue']),
+  buildQuestion(5, { text: 'Anything else you would like to add?', type: 'text' }),
+];
+
+const answers: AnswerValue[] = [
+  { kind: 'boolean', value: false },
+  { kind: 'option', optionId: questions[1].options![0].id },
+  { kind: 'scale', value: 4 },
+  { kind: 'timeline', entries: [{ symptom: 'numbness', onset: '2026-08-01', trend: 'worsening' }] },
+  { kind: 'text', value: 'Worse after a hot bath' },
+];
+
+function input(overrides: Partial<FhirExportInput> = {}): FhirExportInput {
+  return {
+    profile: { name: 'Alex Doe', age: '34', gender: 'Female', medicalConditions: 'Asthma' },
+    symptoms: 'numbness in my legs, fatigue',
+    questions,
+    answers,
+    analysis,
+    completedAt: NOW,
+    ...overrides,
+  };
+}
+
+function resources<T extends FhirResource['resourceType']>(bundle: Bundle, type: T) {
+  return (bundle.entry || []).map(e => e.resource).filter(r => r.resourceType === type) as Array<Extract<FhirResource, { resourceType: T }>>;
+}
+
+function symptomObservation(bundle: Bundle, symptom: string): Observation | undefined {
+  return resources(bundle, 'Observation').find(o => o.code.coding?.[0].system === SYMPTOM_CODE_SYSTEM && o.code.coding[0].code === symptom);
+}
+
+describe('buildFhirBundle', () => {
+  const bundle = buildFhirBundle(input(), { newId: sequentialIds() });
+
+  it('produces a valid collection bundle whose references all resolve', () => {
+    expect(bundle).toMatchObject({ resourceType: 'Bundle', type: 'collection', timestamp: '2026-10-19T08:30:00.000Z' });
+    expect(validateFhirBundle(bundle)).toEqual([]);
+    expect(bundle.entry!.every(e => e.fullUrl === `urn:uuid:${e.resource.id}`)).toBe(true);
+  });
+
+  it.each<[string, FhirResource['resourceType'], number]>([
+    ['one patient', 'Patient', 1],
+    ['one questionnaire response', 'QuestionnaireResponse', 1],
+    ['one clinical impression', 'ClinicalImpression', 1],
+  ])('contains %s', (_, type, count) => {
+    expect(resources(bundle, type)).toHaveLength(count);
+  });
+
+  it.each<[string, string]>([
+    ['Female', 'female'],
+    ['Other', 'other'],
+    ['', 'unknown'],
+  ])('maps gender %j to %s', (gender, expected) => {
+    const result = buildFhirBundle(input({ profile: { name: 'Alex Doe', age: '34', gender } }), { newId: sequentialIds() });
+    expect(resources(result, 'Patient')[0]).toMatchObject({ name: [{ text: 'Alex Doe' }], gender: expected });
+  });
+
+  it('records the age as a LOINC observation only when it is a number', () => {
+    const age = (b: Bundle) => resources(b, 'Observation').find(o => o.code.coding?.[0].code === '30525-0');
+    expect(age(bundle)?.valueQuantity).toEqual({ value: 34, unit: 'years', system: 'http://unitsofmeasure.org', code: 'a' });
+    const noAge = buildFhirBundle(input({ profile: { name: 'Alex Doe', age: '', gender: 'Male' } }), { newId: sequentialIds() });
+    expect(age(noAge)).toBeUndefined();
+  });
+
+  it('answers each question with the matching value type', () => {
+    const response: QuestionnaireResponse = resources(bundle, 'QuestionnaireResponse')[0];
+    expect(response.item!.map(item => [item.linkId, item.answer?.[0]])).toEqual([
+      ['symptoms', { valueString: 'numbness in my legs, fatigue' }],
+      ['medical-history', { valueString: 'Asthma' }],
+      ['q1', { valueBoolean: false }],
+      ['q2', { valueCoding: { code: questions[1].options![0].id, display: 'Heat' } }],
+      ['q3', { valueInteger: 4 }],
+      ['q4', undefined],
+      ['q5', { valueString: 'Worse after a hot bath' }],
+    ]);
+    expect(response.item![5].item).toEqual([{
+      linkId: 'q4.numbness',
+      text: 'Numbness',
+      item: [
+        { linkId: 'q4.numbness.onset', text: 'Onset', answer: [{ valueDate: '2026-08-01' }] },
+        { linkId: 'q4.numbness.trend', text: 'Trend', answer: [{ valueString: 'worsening' }] },
+      ],
+    }]);
+  });
+
+  it('leaves unanswered questions without an answer', () => {
+    const result = buildFhirBundle(input({ answers: answers.slice(0, 1) }), { newId: sequentialIds() });
+    const items = resources(result, 'QuestionnaireResponse')[0].item!;
+    expect(items.find(item => item.linkId === 'q5')).toEqual({ linkId: 'q5', text: questions[4].text });
+  });
+
+  it.each<[string, boolean, Partial<Observation>]>([
+    ['numbness', true, { effectivePeriod: { start: '2026-08-01' } }],
+    ['fatigue', true, { effectiveDateTime: '2026-10-19T08:30:00.000Z' }],
+    ['fever', false, { effectiveDateTime: '2026-10-19T08:30:00.000Z' }],
+  ])('observes %s as %s', (symptom, present, effective) => {
+    expect(symptomObservation(bundle, symptom)).toMatchObject({ status: 'final', valueBoolean: present, ...effective });
+  });
+
+  it('adds the rated severity to a present symptom', () => {
+    expect(symptomObservation(bundle, 'numbness')?.component).toEqual([
+      { code: { text: 'Severity (1 mild - 5 severe)' }, valueInteger: 4 },
+    ]);
+  });
+
+  it('observes detected red flags only', () => {
+    const flags = resources(bundle, 'Observation').filter(o => o.code.coding?.[0].system === 'urn:isp-wellness:red-flag');
+    expect(flags.map(o => o.code.text)).toEqual(['Progressive Neurological Deficit']);
+  });
+
+  it('ranks the conditions in the clinical impression and links its evidence', () => {
+    const impression: ClinicalImpression = resources(bundle, 'ClinicalImpression')[0];
+    expect(impression.summary).toBe('See your GP. Book an appointment with your GP within a few days.');
+    expect(impression.finding!.map(f => [f.itemCodeableConcept?.text, f.basis])).toEqual([
+      ['Multiple Sclerosis (MS)', 'Rank 1; likelihood 60%'],
+      ['Vitamin B12 Deficiency', 'Rank 2; likelihood 35%'],
+    ]);
+    const observations = resources(bundle, 'Observation').length;
+    expect(impression.supportingInfo).toHaveLength(observations + 1);
+  });
+});
+
+describe('validateFhirBundle', () => {
+  const valid = buildFhirBundle(input(), { newId: sequentialIds() });
+
+  it.each<[string, (bundle: Bundle) => unknown, string]>([
+    ['a dangling reference', b => ({ ...b, entry: b.entry!.slice(1) }), 'does not resolve within the bundle'],
+    ['duplicate fullUrls', b => ({ ...b, entry: [...b.entry!, b.entry![0]] }), 'fullUrls must be unique'],
+    ['an unknown element', b => ({ ...b, meta: {} }), 'Unrecognized key'],
+    ['a timestamp without a time zone', b => ({ ...b, timestamp: '2026-10-19T08:30:00' }), 'instant must be'],
+    [
+      'an answer with two values',
+      b => ({
+        ...b,
+        entry: b.entry!.map(e => e.resource.resourceType !== 'QuestionnaireResponse' ? e : {
+          ...e,
+          resource: { ...e.resource, item: [{ linkId: 'x', answer: [{ valueBoolean: true, valueString: 'yes' }] }] },
+        }),
+      }),
+      'exactly one value[x]',
+    ],
+  ])('reports %s', (_, corrupt, message) => {
+    const issues = validateFhirBundle(corrupt(valid));
+    expect(issues.some(issue => issue.includes(message))).toBe(true);
+  });
+});
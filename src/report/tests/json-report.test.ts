@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { KNOWLEDGE_BASE_VERSION } from '@/knowledge-base';
+import type { AdvancedAnalysisOutput } from '@/ai/flows/advanced-symptom-analysis';
+import { AnswerValue, buildQuestion } from '@/ai/medical-data/structured-answers';
+import { JsonReport, buildJsonReport, isCurrentKnowledgeBase, parseJsonReport } from '../json-report';
+
+const NOW = new Date(Date.UTC(2026, 9, 19, 8, 30));
+
+const analysis: AdvancedAnalysisOutput = {
+  conditions: [{
+    condition: 'Multiple Sclerosis (MS)',
+    likelihood: 0.6,
+    description: 'A disease of the central nervous system.',
+    webmd_search_term: 'multiple sclerosis',
+    cluster: ['neurologic'],
+    explanation: 'Numbness and fatigue fit.',
+    displayLikelihood: '60%',
+    ledger: [{ step: 'symptom', label: 'numbness', operation: 'add', value: 3, score_after: 3 }],
+  }],
+  scoring_engine: 'bayesian',
+  dominant_clusters: ['neurologic'],
+  red_flags: [{ name: 'Progressive Neurological Deficit', detected: true, severity: 0.8 }],
+  triage: { level: 'gp', reasons: [{ rule: 'neuro-deficit', level: 'gp', reason: 'Ongoing numbness' }], advice: 'See your GP.' },
+  time_course: { duration_days: 80, pattern: 'progressive', interpretation: 'Getting worse.', timeline: [{ symptom: 'numbness', onset: '2026-08-01' }] },
+};
+
+const questions = [
+  buildQuestion(1, { text: 'Do you have a fever?', type: 'yesno' }),
+  buildQuestion(2, { text: 'What seems to bring your symptoms on?', type: 'multiple', options: ['Heat', 'Exercise'] }),
+];
+
+const answers: AnswerValue[] = [
+  { kind: 'boolean', value: false },
+  { kind: 'option', optionId: questions[1].options![0].id },
+];
+
+function report(): JsonReport {
+  return buildJsonReport({
+    profile: { name: 'Alex Doe', age: '34', gender: 'Female', medicalConditions: '' },
+    symptoms: 'numbness in my legs, fatigue',
+    questions,
+    answers,
+    analysis,
+    assessmentId: 'lx3k9-abc123',
+  }, NOW);
+}
+
+describe('buildJsonReport', () => {
+  it('records the format, version, history entry, engine and knowledge base', () => {
+    expect(report()).toMatchObject({
+      format: 'isp-wellness-report',
+      version: 1,
+      exportedAt: '2026-10-19T08:30:00.000Z',
+      assessmentId: 'lx3k9-abc123',
+      engine: { scoringEngine: 'bayesian', knowledgeBaseVersion: KNOWLEDGE_BASE_VERSION },
+    });
+  });
+
+  it('lists the extracted symptoms with their status', () => {
+    expect(report().extractedSymptoms).toEqual(expect.arrayContaining([
+      { symptom: 'numbness', label: 'Numbness', status: 'present' },
+      { symptom: 'fatigue', label: 'Fatigue', status: 'present' },
+      { symptom: 'fever', label: 'Fever', status: 'absent' },
+    ]));
+  });
+});
+
+describe('parseJsonReport', () => {
+  it('reads back a downloaded report unchanged', () => {
+    const original = report();
+    expect(parseJsonReport(JSON.stringify(original, null, 2))).toEqual(original);
+  });
+
+  it('reads a report saved before reports named their history entry', () => {
+    const older: Partial<JsonReport> = report();
+    delete older.assessmentId;
+    expect(parseJsonReport(JSON.stringify(older)).assessmentId).toBeUndefined();
+  });
+
+  it.each<[string, string, string]>([
+    ['not JSON', '{ "format": ', 'not a valid JSON report'],
+    ['another kind of file', JSON.stringify({ resourceType: 'Bundle' }), 'not an ISP Wellness Assistant report'],
+    ['a newer report version', JSON.stringify({ ...report(), version: 2 }), 'newer version of the app'],
+    ['a report missing its answers', JSON.stringify({ ...report(), answers: undefined }), 'damaged (answers'],
+    ['an unknown scoring engine', JSON.stringify({ ...report(), engine: { scoringEngine: 'magic', knowledgeBaseVersion: '1.0.0' } }), 'damaged (engine.scoringEngine'],
+    ['an unknown cluster', JSON.stringify({ ...report(), analysis: { ...report().analysis, dominant_clusters: ['psychic'] } }), 'damaged (analysis.dominant_clusters.0'],
+    ['more answers than questions', JSON.stringify({ ...report(), questions: questions.slice(0, 1) }), 'more answers than questions'],
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parseJsonReport(text)).toThrow(message);
+  });
+});
+
+describe('isCurrentKnowledgeBase', () => {
+  it.each<[string, boolean]>([
+    [KNOWLEDGE_BASE_VERSION, true],
+    ['0.0.1', false],
+  ])('knowledge base %s is current: %s', (knowledgeBaseVersion, current) => {
+    const saved = { ...report(), engine: { scoringEngine: 'bayesian' as const, knowledgeBaseVersion } };
+    expect(isCurrentKnowledgeBase(saved)).toBe(current);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import jsPDF from 'jspdf';
+import type { AdvancedAnalysisOutput } from '@/ai/flows/advanced-symptom-analysis';
+import { AnswerValue, buildQuestion } from '@/ai/medical-data/structured-answers';
+import { PdfReport, pdfReportFilename, pdfReportFromAssessment, pdfReportFromSymptomAnalysis } from '../pdf-report';
+import { PdfLayout, layoutPdfReport, measureWith, renderPdfReport } from '../pdf-renderer';
+import { DEFAULT_PDF_TEMPLATE, PdfTemplate } from '../pdf-template';
+
+const NOW = new Date(Date.UTC(2026, 9, 19, 8, 30));
+
+// Dates in the default template follow the machine's locale and time zone
+const TEMPLATE: PdfTemplate = {
+  ...DEFAULT_PDF_TEMPLATE,
+  formatDate: date => date.toISOString().split('T')[0],
+  footer: (page, totalPages) => `Page ${page} of ${totalPages} | ISP Wellness Assistant Report`,
+};
+
+const questions = [
+  buildQuestion(1, { text: 'Do you have a fever?', type: 'yesno' }),
+  buildQuestion(2, { text: 'How severe is your numbness?', type: 'scale', target: 'numbness' }),
+];
+
+const answers: AnswerValue[] = [{ kind: 'boolean', value: false }];
+
+const analysis = {
+  conditions: [
+    { condition: 'Multiple Sclerosis (MS)', likelihood: 0.6, displayLikelihood: '60%', description: 'A disease of the central nervous system.' },
+    { condition: 'Vitamin B12 Deficiency', likelihood: 0.04, displayLikelihood: 'Low likelihood (<10%)', description: '' },
+  ],
+  red_flags: [
+    { name: 'Progressive Neurological Deficit', detected: true, severity: 0.8 },
+    { name: 'Unexplained Weight Loss', detected: false, severity: 0 },
+  ],
+  triage: { level: 'gp', reasons: [], advice: 'Book an appointment with your GP to discuss these symptoms.' },
+} as unknown as AdvancedAnalysisOutput;
+
+const assessmentReport = pdfReportFromAssessment({
+  profile: { name: 'Alex Doe', age: '34', gender: 'Female', medicalConditions: 'Asthma' },
+  symptoms: 'numbness in my legs, fatigue',
+  questions,
+  answers,
+  analysis,
+}, NOW);
+
+const symptomAnalysisReport = pdfReportFromSymptomAnalysis({
+  name: 'Sam Roe',
+  age: '58',
+  gender: 'Male',
+  email: 'sam@example.com',
+  symptoms: 'headache, blurred vision',
+  medicalHistory: '',
+  questions: ['How long have you had headaches?'],
+  answers: ['About two weeks'],
+  conditions: [{ condition: 'Migraine', likelihood: 0.72, description: 'Recurring headaches.' }],
+}, NOW);
+
+function layout(report: PdfReport, template: PdfTemplate = TEMPLATE): PdfLayout {
+  return layoutPdfReport(report, template, measureWith(new jsPDF('portrait', 'pt', 'a4')));
+}
+
+// One line per element, positions rounded, so snapshots show structure rather than floating-point noise
+function describeLayout({ pages }: PdfLayout): string[][] {
+  return pages.map(elements => elements.map(element => {
+    switch (element.kind) {
+      case 'text':
+        return `text ${element.font.size}${element.font.bold ? ' bold' : ''} ${element.align} @${Math.round(element.x)},${Math.round(element.y)}: ${element.lines.join(' / ')}`;
+      case 'box':
+        return `box ${element.fill ? 'filled' : 'outlined'} @${Math.round(element.x)},${Math.round(element.y)} ${Math.round(element.width)}x${Math.round(element.height)}`;
+      case 'rule':
+        return `rule @${Math.round(element.y)}`;
+    }
+  }));
+}
+
+function pageText(result: PdfLayout, page: number): string {
+  return result.pages[page - 1].flatMap(e => e.kind === 'text' ? e.lines : []).join('\n');
+}
+
+describe('pdfReportFromAssessment', () => {
+  it('keeps displayed likelihoods, answers, triage and detected red flags', () => {
+    expect(assessmentReport).toMatchObject({
+      patient: { name: 'Alex Doe', medicalHistory: 'Asthma' },
+      questionsAndAnswers: [
+        { question: 'Do you have a fever?', answer: 'No' },
+        { question: 'How severe is your numbness?', answer: 'No answer provided' },
+      ],
+      conditions: [
+        { name: 'Multiple Sclerosis (MS)', likelihood: '60%' },
+        { name: 'Vitamin B12 Deficiency', likelihood: 'Low likelihood (<10%)', description: undefined },
+      ],
+      triage: { label: 'See your GP' },
+      redFlags: ['Progressive Neurological Deficit'],
+    });
+  });
+});
+
+describe('pdfReportFromSymptomAnalysis', () => {
+  it('rounds likelihood scores and leaves out an empty medical history', () => {
+    expect(symptomAnalysisReport.conditions).toEqual([{ name: 'Migraine', likelihood: '72%', description: 'Recurring headaches.' }]);
+    expect(symptomAnalysisReport.patient).toEqual({ name: 'Sam Roe', age: '58', gender: 'Male', email: 'sam@example.com', medicalHistory: undefined });
+    expect(symptomAnalysisReport.triage).toBeUndefined();
+  });
+});
+
+describe('layoutPdfReport', () => {
+  it.each<[string, PdfReport]>([
+    ['questionnaire flow', assessmentReport],
+    ['conditions route', symptomAnalysisReport],
+  ])('lays out the %s report', (_, report) => {
+    expect(describeLayout(layout(report))).toMatchSnapshot();
+  });
+
+  it('gives both flows the same sections', () => {
+    const titles = (report: PdfReport) => layout(report).contents.map(entry => entry.title);
+    expect(titles(symptomAnalysisReport)).toEqual(titles(assessmentReport));
+  });
+
+  it('lists each section on the page where it starts', () => {
+    const result = layout(assessmentReport);
+    result.contents.forEach(({ title, page }) => expect(pageText(result, page)).toContain(title));
+    expect(pageText(result, 2)).toContain('Table of Contents');
+  });
+
+  it('numbers every page and keeps content clear of the footer', () => {
+    const long = { ...assessmentReport, questionsAndAnswers: Array.from({ length: 40 }, (_, i) => ({ question: `Question ${i + 1}?`, answer: 'Yes' })) };
+    const result = layout(long);
+    const bottom = result.height - TEMPLATE.page.footerHeight;
+    result.pages.forEach((elements, index) => {
+      expect(pageText(result, index + 1)).toContain(`Page ${index + 1} of ${result.pages.length}`);
+      elements
+        .filter(e => e.kind === 'box' && e.height < result.height)
+        .forEach(e => expect(e.kind === 'box' && e.y + e.height).toBeLessThanOrEqual(bottom));
+    });
+    expect(result.pages.length).toBeGreaterThan(layout(assessmentReport).pages.length);
+  });
+
+  it.each<[string, Partial<PdfTemplate>, number]>([
+    ['without a cover', { cover: false }, -1],
+    ['without a table of contents', { tableOfContents: false }, -1],
+    ['with every section on its own page', { sections: TEMPLATE.sections.map(s => ({ ...s, newPage: true })) }, 2],
+  ])('follows a template %s', (_, overrides, pageDifference) => {
+    const pages = (template: PdfTemplate) => layout(assessmentReport, template).pages.length;
+    expect(pages({ ...TEMPLATE, ...overrides })).toBe(pages(TEMPLATE) + pageDifference);
+  });
+});
+
+describe('renderPdfReport', () => {
+  it('draws every laid-out page', () => {
+    const doc = renderPdfReport(assessmentReport, TEMPLATE);
+    expect(doc.getNumberOfPages()).toBe(layout(assessmentReport).pages.length);
+    expect(doc.output().startsWith('%PDF-')).toBe(true);
+  });
+
+  it('names the file after the patient and date', () => {
+    expect(pdfReportFilename(assessmentReport)).toBe('ISP-Wellness-Assistant-Report-Alex Doe-2026-10-19.pdf');
+  });
+});